@@ -1,4 +1,193 @@
 import { checkHealth } from "./src/shared/health";
+import { loadConfig } from "./src/shared/config";
+import { createHttpServer } from "./src/infraestructure/http/server";
+import { OrderRepository } from "./src/application/ports/OrderRepository";
+import { InMemoryOrderRepository } from "./src/infraestructure/persistence/InMemoryOrderRepository";
+import { InMemoryCustomerRepository } from "./src/infraestructure/persistence/InMemoryCustomerRepository";
+import { JsonFileCustomerRepository } from "./src/infraestructure/persistence/JsonFileCustomerRepository";
+import { OrderEventSourcedRepository } from "./src/infraestructure/persistence/OrderEventSourcedRepository";
+import { JsonlFileEventStore } from "./src/infraestructure/persistence/JsonlFileEventStore";
+import { InMemorySnapshotStore } from "./src/infraestructure/persistence/InMemorySnapshotStore";
+import { InMemoryOutbox } from "./src/infraestructure/persistence/InMemoryOutbox";
+import { EventLogOutbox } from "./src/infraestructure/persistence/EventLogOutbox";
+import { WeightZoneShippingRateCalculator } from "./src/infraestructure/adapters/WeightZoneShippingRateCalculator";
+import { ConsoleEventPublisher } from "./src/infraestructure/adapters/ConsoleEventPublisher";
+import { BlockedDomainsEmailPolicy, DISPOSABLE_EMAIL_DOMAINS } from "./src/infraestructure/adapters/BlockedDomainsEmailPolicy";
+import { CompositeEventPublisher } from "./src/infraestructure/adapters/CompositeEventPublisher";
+import { OrderNotificationPublisher } from "./src/infraestructure/adapters/OrderNotificationPublisher";
+import { SmtpNotificationSender } from "./src/infraestructure/adapters/SmtpNotificationSender";
+import { EmlFileNotificationSender } from "./src/infraestructure/adapters/EmlFileNotificationSender";
+import { Outbox } from "./src/application/ports/Outbox";
+import { EventPublisher } from "./src/application/ports/EventPublisher";
+import { CustomerRepository } from "./src/application/ports/CustomerRepository";
+import { NotificationSender } from "./src/application/ports/NotificationSender";
+import { CustomerEmailRules, RelayOutboxMessages, SendOrderNotification } from "./src/application/use-cases";
+import { Email } from "./src/domain/value-objects/Email";
+import { currencyRegistry } from "./src/domain/value-objects/CurrencyRegistry";
 
 const health = checkHealth();
-console.log(`Health Status: ${health.status} at ${health.timestamp}`);
\ No newline at end of file
+console.log(`Health Status: ${health.status} at ${health.timestamp}`);
+
+const config = loadConfig();
+
+if (config.enabledCurrencies) {
+  currencyRegistry.restrictTo(config.enabledCurrencies);
+}
+
+const RELAY_INTERVAL_MS = 1_000;
+
+const customerOutbox = new InMemoryOutbox();
+
+/**
+ * Emails de clientes: formatos admitidos, dominios bloqueados y unicidad
+ */
+function createCustomerEmailRules(): CustomerEmailRules {
+  const blocksDomains = config.blockDisposableEmails || config.internalEmailDomains;
+  return {
+    ...(blocksDomains
+      ? {
+          policy: new BlockedDomainsEmailPolicy({
+            disposableDomains: config.blockDisposableEmails ? DISPOSABLE_EMAIL_DOMAINS : [],
+            internalDomains: config.internalEmailDomains ?? [],
+          }),
+        }
+      : {}),
+    ...(config.emailDuplicateMatch ? { duplicateMatch: config.emailDuplicateMatch } : {}),
+    ...(config.allowQuotedEmailLocalParts ? { allowQuotedLocalPart: true } : {}),
+  };
+}
+
+/**
+ * Pedidos en memoria (con su propia bandeja en memoria) o event-sourced en
+ * ORDER_EVENT_LOG, publicando desde el propio fichero
+ */
+async function createOrderStorage(): Promise<{ orders: OrderRepository; outbox: Outbox }> {
+  if (!config.orderEventLog || !config.outboxJournal) {
+    const outbox = new InMemoryOutbox();
+    return { orders: new InMemoryOrderRepository(outbox), outbox };
+  }
+  const events = await JsonlFileEventStore.open(config.orderEventLog);
+  console.log(`Order event log verified: ${config.orderEventLog}`);
+  return {
+    orders: new OrderEventSourcedRepository(events, { snapshots: new InMemorySnapshotStore() }),
+    outbox: await EventLogOutbox.open(events, config.outboxJournal),
+  };
+}
+
+/**
+ * Clientes en CUSTOMER_FILE (por defecto junto a ORDER_EVENT_LOG) o en memoria.
+ * Sus eventos pendientes de publicar siguen en una bandeja en memoria.
+ */
+async function createCustomerRepository(customerEmailRules: CustomerEmailRules): Promise<CustomerRepository> {
+  // El repositorio aplica el mismo criterio de duplicados que los use-cases
+  const options = customerEmailRules.duplicateMatch ? { duplicateMatch: customerEmailRules.duplicateMatch } : {};
+  if (!config.customerFile) {
+    return new InMemoryCustomerRepository(customerOutbox, options);
+  }
+  const customers = await JsonFileCustomerRepository.open(config.customerFile, customerOutbox, options);
+  console.log(`Customer file loaded: ${config.customerFile}`);
+  return customers;
+}
+
+/**
+ * Tarifas de envío de SHIPPING_RATES_FILE; sin ellas el envío no se presupuesta
+ */
+async function createShippingRates(): Promise<WeightZoneShippingRateCalculator | undefined> {
+  if (!config.shippingRatesFile) {
+    console.warn('SHIPPING_RATES_FILE is not set: shipping cannot be quoted and orders are confirmed without a shipping cost');
+    return undefined;
+  }
+  return WeightZoneShippingRateCalculator.load(config.shippingRatesFile);
+}
+
+/**
+ * Emails de pedidos por SMTP (SMTP_HOST) o como ficheros .eml (MAIL_DROP_DIR)
+ */
+function createNotificationSender(): NotificationSender | undefined {
+  if (!config.mailFrom) {
+    return undefined;
+  }
+  const from = Email.create(config.mailFrom);
+  if (config.smtpHost) {
+    return new SmtpNotificationSender({ host: config.smtpHost, ...(config.smtpPort ? { port: config.smtpPort } : {}), from });
+  }
+  if (config.mailDropDirectory) {
+    return new EmlFileNotificationSender(config.mailDropDirectory, { from });
+  }
+  return undefined;
+}
+
+/**
+ * Los eventos se escriben en la consola y, si hay remitente configurado,
+ * los cambios de estado de los pedidos se notifican al cliente
+ */
+function createPublisher(orders: OrderRepository, customers: CustomerRepository): EventPublisher {
+  const consolePublisher = new ConsoleEventPublisher();
+  const sender = createNotificationSender();
+  if (!sender) {
+    return consolePublisher;
+  }
+
+  const sendOrderNotification = new SendOrderNotification(orders, customers, sender, {
+    ...(config.notificationLocale ? { defaultLocale: config.notificationLocale } : {}),
+  });
+  return new CompositeEventPublisher([consolePublisher, new OrderNotificationPublisher(sendOrderNotification)]);
+}
+
+/**
+ * Publica la bandeja cada segundo, sin solapar ejecuciones
+ */
+function scheduleRelay(outbox: Outbox, publisher: EventPublisher): void {
+  const relay = new RelayOutboxMessages(outbox, publisher);
+  let running = false;
+
+  setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    relay.execute()
+      .then(report => {
+        if (report.retried > 0 || report.deadLettered > 0) {
+          console.warn(`Outbox relay: ${report.delivered} delivered, ${report.retried} retried, ${report.deadLettered} dead-lettered`);
+        }
+      })
+      .catch(error => console.error('Outbox relay failed', error))
+      .finally(() => {
+        running = false;
+      });
+  }, RELAY_INTERVAL_MS).unref();
+}
+
+const customerEmailRules = createCustomerEmailRules();
+
+Promise.all([
+  createOrderStorage(),
+  createCustomerRepository(customerEmailRules),
+  createShippingRates(),
+]).then(([{ orders, outbox }, customers, shippingRates]) => {
+  const server = createHttpServer({
+    orders,
+    customers,
+    customerEmailRules,
+    ...(shippingRates ? { shippingRates } : {}),
+    // Las bandejas en memoria solo se pueden administrar desde este proceso
+    outboxes: { orders: outbox, customers: customerOutbox },
+    ...(config.adminToken ? { adminToken: config.adminToken } : {}),
+  });
+  if (!config.adminToken) {
+    console.warn('ADMIN_TOKEN is not set: the /admin routes are disabled');
+  }
+
+  const publisher = createPublisher(orders, customers);
+  scheduleRelay(customerOutbox, publisher);
+  scheduleRelay(outbox, publisher);
+
+  server.listen(config.port, () => {
+    console.log(`HTTP server listening on port ${config.port}`);
+  });
+}).catch(error => {
+  // Un fichero de eventos, un diario, unos clientes o unas tarifas corruptos no deben arrancar a medias
+  console.error('Startup failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
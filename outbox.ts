@@ -0,0 +1,34 @@
+import { loadConfig } from "./src/shared/config";
+import { JsonlFileEventStore } from "./src/infraestructure/persistence/JsonlFileEventStore";
+import { EventLogOutbox } from "./src/infraestructure/persistence/EventLogOutbox";
+import { runOutboxCli } from "./src/infraestructure/cli/outboxCli";
+import { ListDeadLetters, ReplayDeadLetters } from "./src/application/use-cases";
+
+// Solo el outbox de ORDER_EVENT_LOG vive en ficheros; los de memoria se administran
+// en el servidor, con /admin/outboxes/:name/dead-letters
+async function main(): Promise<number> {
+  const config = loadConfig();
+  if (!config.orderEventLog || !config.outboxJournal) {
+    console.error("ORDER_EVENT_LOG is not set: there is no file-based outbox to inspect");
+    console.error("Use GET /admin/outboxes/:name/dead-letters on the running server (with ADMIN_TOKEN) instead");
+    return 1;
+  }
+
+  const events = await JsonlFileEventStore.open(config.orderEventLog);
+  const outbox = await EventLogOutbox.open(events, config.outboxJournal);
+
+  return runOutboxCli(process.argv.slice(2), {
+    listDeadLetters: new ListDeadLetters(outbox),
+    replayDeadLetters: new ReplayDeadLetters(outbox),
+    print: line => console.log(line),
+  });
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error("Outbox command failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,63 @@
+/**
+ * PORT: CustomerRepository
+ * 
+ * Contrato de persistencia para clientes. Además de guardar y recuperar,
+ * es el único colaborador que conoce al resto de clientes, por lo que
+ * las implementaciones deben garantizar que un email no se repite.
+ */
+
+import { Customer } from '../../domain/entities/Customer';
+import { PayloadRedaction } from '../../domain/events/DomainEvent';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { Email } from '../../domain/value-objects/Email';
+
+/**
+ * `exact` compara el email normalizado; `canonical` compara buzones
+ * (`Email.canonical()`), así 'ana+tienda@gmail.com' coincide con 'a.na@gmail.com'
+ */
+export type EmailMatch = 'exact' | 'canonical';
+
+export interface EmailLookupOptions {
+  /** `exact` por defecto */
+  match?: EmailMatch;
+  /** Cliente que no cuenta (el que está cambiando su propio email) */
+  excluding?: CustomerId;
+}
+
+export interface CustomerRepository {
+  /**
+   * Crea o actualiza el cliente y lo marca como persistido
+   * @throws ConflictError si otro cliente ya usa el mismo email o si el
+   * cliente guardado tiene otra versión que `customer.persistedVersion`
+   */
+  save(customer: Customer): Promise<void>;
+
+  /**
+   * @throws NotFoundError si no existe un cliente con ese id
+   */
+  findById(id: CustomerId): Promise<Customer>;
+
+  /**
+   * @throws NotFoundError si ningún cliente usa ese email
+   */
+  findByEmail(email: Email): Promise<Customer>;
+
+  /**
+   * Indica si algún cliente usa ya ese email
+   */
+  existsByEmail(email: Email, options?: EmailLookupOptions): Promise<boolean>;
+
+  /**
+   * @throws NotFoundError si no existe un cliente con ese id
+   */
+  delete(id: CustomerId): Promise<void>;
+
+  list(): Promise<Customer[]>;
+
+  /**
+   * Borra datos personales de los eventos ya guardados del cliente, también
+   * de los que esperan publicación en el outbox (derecho de supresión)
+   * @throws NotFoundError si no existe un cliente con ese id
+   */
+  redactHistory(id: CustomerId, redaction: PayloadRedaction): Promise<void>;
+}
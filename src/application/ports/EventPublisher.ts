@@ -0,0 +1,16 @@
+/**
+ * PORT: EventPublisher
+ * 
+ * Publica un evento de dominio fuera de la aplicación (cola de mensajes,
+ * webhook, log...). Solo lo usa `RelayOutboxMessages`: los use-cases no
+ * publican directamente, dejan los eventos en el `Outbox`.
+ */
+
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+export interface EventPublisher {
+  /**
+   * @throws cualquier error si la publicación falla (se reintentará)
+   */
+  publish(event: DomainEvent): Promise<void>;
+}
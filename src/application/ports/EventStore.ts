@@ -0,0 +1,65 @@
+/**
+ * PORT: EventStore
+ * 
+ * Almacén de eventos de solo anexado. Cada agregado tiene su stream
+ * (`Order-<id>`) con los eventos numerados desde 1; la versión del stream
+ * es la del último evento y coincide con la `version` del agregado.
+ * 
+ * `append()` es una escritura optimista: solo anexa si la versión actual
+ * del stream es la que el llamante espera, así dos procesos que han leído
+ * la misma versión no pueden escribir los dos.
+ * 
+ * Además, todos los eventos tienen una posición global (el orden en que se
+ * anexaron, entre todos los streams) para poder recorrer el almacén entero
+ * con `readAll()`, p. ej. para publicarlos desde un `Outbox`.
+ * 
+ * La única excepción al solo anexado es `redactStream()`: el derecho de
+ * supresión obliga a borrar los datos personales de los eventos guardados.
+ */
+
+import { DomainEvent, PayloadRedaction } from '../../domain/events/DomainEvent';
+
+export interface RecordedEvent {
+  readonly streamId: string;
+  /** Posición del evento en su stream (empieza en 1) */
+  readonly version: number;
+  /** Posición del evento en el almacén (empieza en 1) */
+  readonly position: number;
+  readonly event: DomainEvent;
+}
+
+export interface EventStore {
+  /**
+   * Anexa los eventos al final del stream y devuelve su nueva versión
+   * @throws ConflictError si la versión del stream no es `expectedVersion`
+   */
+  append(streamId: string, expectedVersion: number, events: readonly DomainEvent[]): Promise<number>;
+
+  /**
+   * Eventos del stream posteriores a `afterVersion`, en orden
+   * (lista vacía si el stream no existe)
+   */
+  readStream(streamId: string, afterVersion?: number): Promise<RecordedEvent[]>;
+
+  /**
+   * Eventos de todos los streams posteriores a `afterPosition`, en orden
+   */
+  readAll(afterPosition?: number): Promise<RecordedEvent[]>;
+
+  /**
+   * Versión actual del stream (0 si no existe)
+   */
+  streamVersion(streamId: string): Promise<number>;
+
+  /**
+   * Ids de los streams que empiezan por el prefijo, en orden de creación
+   */
+  streamIds(prefix?: string): Promise<string[]>;
+
+  /**
+   * Sustituye el payload de los eventos del stream para los que `redaction`
+   * devuelve uno nuevo, sin cambiar su número ni su orden.
+   * Devuelve cuántos eventos cambiaron (0 si el stream no existe).
+   */
+  redactStream(streamId: string, redaction: PayloadRedaction): Promise<number>;
+}
@@ -0,0 +1,23 @@
+/**
+ * PORT: NotificationSender
+ * 
+ * Envía un email ya redactado a un cliente (SMTP, fichero `.eml`...).
+ * El contenido lo decide la aplicación; el adaptador solo lo entrega, con
+ * la versión en texto plano y la HTML como alternativas del mismo mensaje.
+ */
+
+import { Email } from '../../domain/value-objects/Email';
+
+export interface EmailNotification {
+  to: Email;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface NotificationSender {
+  /**
+   * @throws cualquier error si el envío falla (se reintentará)
+   */
+  send(notification: EmailNotification): Promise<void>;
+}
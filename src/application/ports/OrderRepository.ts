@@ -0,0 +1,53 @@
+/**
+ * PORT: OrderRepository
+ * 
+ * Contrato que la capa de aplicación necesita para guardar y recuperar
+ * pedidos. La capa de aplicación solo conoce esta interfaz; las
+ * implementaciones concretas (memoria, fichero, base de datos...) viven en
+ * `src/infraestructure/persistence`.
+ */
+
+import { Order } from '../../domain/entities/Order';
+import { PayloadRedaction } from '../../domain/events/DomainEvent';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { Email } from '../../domain/value-objects/Email';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+
+export interface OrderRepository {
+  /**
+   * Crea o actualiza el pedido y lo marca como persistido
+   * @throws ConflictError si el pedido guardado tiene otra versión que
+   * `order.persistedVersion` (otro proceso lo modificó entretanto)
+   */
+  save(order: Order): Promise<void>;
+
+  /**
+   * @throws NotFoundError si no existe un pedido con ese id
+   */
+  findById(id: OrderId): Promise<Order>;
+
+  /**
+   * Pedidos realizados con el email indicado (lista vacía si no hay ninguno)
+   */
+  findByCustomerEmail(email: Email): Promise<Order[]>;
+
+  /**
+   * Pedidos del cliente registrado, aunque los hiciera con un email que
+   * ya no es el suyo (lista vacía si no hay ninguno)
+   */
+  findByCustomerId(id: CustomerId): Promise<Order[]>;
+
+  /**
+   * @throws NotFoundError si no existe un pedido con ese id
+   */
+  delete(id: OrderId): Promise<void>;
+
+  list(): Promise<Order[]>;
+
+  /**
+   * Borra datos personales de los eventos ya guardados del pedido, también
+   * de los que esperan publicación en el outbox (derecho de supresión)
+   * @throws NotFoundError si no existe un pedido con ese id
+   */
+  redactHistory(id: OrderId, redaction: PayloadRedaction): Promise<void>;
+}
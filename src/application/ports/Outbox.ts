@@ -0,0 +1,77 @@
+/**
+ * PORT: Outbox
+ * 
+ * Bandeja de salida de eventos de dominio (patrón "transactional outbox").
+ * Los repositorios dejan en ella los eventos de cada agregado en la MISMA
+ * escritura que guarda el agregado; después `RelayOutboxMessages` los
+ * publica con reintentos. Si el proceso cae entre guardar y publicar, los
+ * eventos siguen en la bandeja y se publican al volver a arrancar.
+ * 
+ * La entrega es "al menos una vez": un evento publicado cuya entrega no
+ * llegó a marcarse se vuelve a publicar, así que los consumidores deben
+ * deduplicar por `eventId`.
+ * 
+ * Un mensaje que agota sus intentos pasa a la lista de mensajes muertos
+ * (dead letters), donde se puede inspeccionar y volver a encolar.
+ * 
+ * Los eventos de un mismo agregado se entregan en orden: mientras uno no
+ * se ha publicado (espera un reintento o está muerto), los posteriores
+ * del mismo agregado no se ofrecen. Los de otros agregados siguen su curso.
+ */
+
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+export interface OutboxMessage {
+  /** Id del evento (`eventId`) */
+  readonly id: string;
+  readonly event: DomainEvent;
+  /** Intentos de publicación fallidos */
+  readonly attempts: number;
+  /** Momento a partir del cual se puede volver a intentar */
+  readonly nextAttemptAt: Date;
+  readonly lastError: string | null;
+  /** Momento en que pasó a mensajes muertos (null si sigue pendiente) */
+  readonly deadAt: Date | null;
+}
+
+export interface Outbox {
+  /**
+   * Mensajes pendientes cuyo próximo intento ya ha llegado, en el orden
+   * en que se guardaron, sin los que tienen por delante un mensaje de su
+   * agregado que aún no toca intentar o está muerto
+   */
+  due(now: Date, limit: number): Promise<OutboxMessage[]>;
+
+  /**
+   * El mensaje se ha publicado: sale de la bandeja
+   */
+  markDelivered(id: string): Promise<void>;
+
+  /**
+   * La publicación ha fallado: se reintentará a partir de `nextAttemptAt`
+   */
+  markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void>;
+
+  /**
+   * El mensaje no se volverá a intentar: pasa a mensajes muertos
+   */
+  markDead(id: string, error: string, at: Date): Promise<void>;
+
+  /**
+   * Mensajes muertos, en el orden en que se guardaron
+   */
+  deadLetters(): Promise<OutboxMessage[]>;
+
+  /**
+   * Devuelve un mensaje muerto a pendientes con los intentos a cero
+   * @throws NotFoundError si no hay un mensaje muerto con ese id
+   */
+  requeue(id: string, at: Date): Promise<void>;
+}
+
+/**
+ * Clave del agregado de un evento: el orden de entrega se mantiene por clave
+ */
+export function aggregateKeyOf(event: DomainEvent): string {
+  return `${event.aggregateType}:${event.aggregateId}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * PORT: SnapshotStore
+ * 
+ * Instantáneas opcionales del estado de un agregado en una versión de su
+ * stream. Evitan reproducir streams largos desde el principio: se carga la
+ * instantánea y solo se aplican los eventos posteriores.
+ * 
+ * Son una caché: el historial completo sigue en el `EventStore` y una
+ * instantánea perdida solo hace la lectura más lenta.
+ */
+
+export interface Snapshot<TState> {
+  readonly streamId: string;
+  /** Versión del stream que refleja `state` */
+  readonly version: number;
+  readonly state: TState;
+}
+
+export interface SnapshotStore<TState> {
+  /**
+   * Guarda la instantánea, sustituyendo la anterior del mismo stream
+   */
+  save(snapshot: Snapshot<TState>): Promise<void>;
+
+  /**
+   * Última instantánea del stream (undefined si no hay ninguna)
+   */
+  load(streamId: string): Promise<Snapshot<TState> | undefined>;
+
+  /**
+   * Borra la instantánea del stream (no hace nada si no hay ninguna)
+   */
+  delete(streamId: string): Promise<void>;
+}
@@ -0,0 +1,41 @@
+/**
+ * USE CASE: AddCustomerAddress
+ * 
+ * Guarda una dirección en la libreta de un cliente activo y, si se pide,
+ * la marca como dirección de envío y/o facturación por defecto.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { AddressInput, toAddress } from './OrderDetails';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface AddCustomerAddressInput extends ExpectedVersionInput {
+  customerId: string;
+  label: string;
+  address: AddressInput;
+  defaultShipping?: boolean;
+  defaultBilling?: boolean;
+}
+
+export class AddCustomerAddress {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: AddCustomerAddressInput): Promise<CustomerDetails> {
+    const address = toAddress(input.address);
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    customer.addAddress(input.label, address);
+    if (input.defaultShipping) {
+      customer.setDefaultShippingAddress(input.label);
+    }
+    if (input.defaultBilling) {
+      customer.setDefaultBillingAddress(input.label);
+    }
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * USE CASE: AddItemToOrder
+ * 
+ * Añade un producto a un pedido pendiente (o incrementa su cantidad).
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, OrderItemInput, toOrderDetails, toOrderItem } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface AddItemToOrderInput extends ExpectedVersionInput {
+  orderId: string;
+  item: OrderItemInput;
+}
+
+export class AddItemToOrder {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: AddItemToOrderInput): Promise<OrderDetails> {
+    const item = toOrderItem(input.item);
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.addItem(item);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * USE CASE: AnonymizeCustomer
+ * 
+ * Atiende una solicitud de supresión de datos: anonimiza al cliente de
+ * forma irreversible. Sus pedidos siguen ligados al mismo `CustomerId`.
+ * 
+ * El email real tampoco queda en ningún pedido: los del cliente y los que
+ * hizo como invitado (con su email actual o con el de alguno de sus
+ * pedidos) pasan a llevar el seudónimo del cliente. Además se borran los
+ * datos personales de los eventos ya guardados y de los que esperan en el
+ * outbox: el email de los pedidos y el payload entero de los del cliente.
+ * 
+ * Los pedidos se anonimizan antes que el cliente: si algo falla a medias,
+ * el cliente sigue sin anonimizar y la solicitud se puede repetir.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { OrderRepository } from '../ports/OrderRepository';
+import { Customer } from '../../domain/entities/Customer';
+import { Order } from '../../domain/entities/Order';
+import { redactCustomerPersonalData } from '../../domain/events/CustomerEvents';
+import { redactOrderCustomerEmail } from '../../domain/events/OrderEvents';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { Email } from '../../domain/value-objects/Email';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface AnonymizeCustomerInput extends ExpectedVersionInput {
+  customerId: string;
+}
+
+export class AnonymizeCustomer {
+  constructor(
+    private readonly customers: CustomerRepository,
+    private readonly orders: OrderRepository
+  ) {}
+
+  /**
+   * @throws NotFoundError si no existe un cliente con ese id
+   * @throws BusinessRuleViolationError si tiene pedidos (también como invitado) pendientes, confirmados o enviados
+   * @throws InvalidStateError si ya estaba anonimizado
+   */
+  async execute(input: AnonymizeCustomerInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    const orders = await this.ordersOf(customer);
+    customer.anonymize(orders);
+
+    const redaction = redactOrderCustomerEmail(customer.email.value);
+    for (const order of orders) {
+      order.anonymizeCustomerEmail(customer.email);
+      await this.orders.save(order);
+      await this.orders.redactHistory(order.id, redaction);
+    }
+
+    await this.customers.save(customer);
+    await this.customers.redactHistory(customer.id, redactCustomerPersonalData);
+
+    return toCustomerDetails(customer);
+  }
+
+  /**
+   * Pedidos del cliente más los que hizo como invitado
+   */
+  private async ordersOf(customer: Customer): Promise<Order[]> {
+    const linked = await this.orders.findByCustomerId(customer.id);
+
+    const emails = new Map<string, Email>([[customer.email.value, customer.email]]);
+    for (const order of linked) {
+      emails.set(order.customerEmail.value, order.customerEmail);
+    }
+
+    const guest: Order[] = [];
+    for (const email of emails.values()) {
+      const placed = await this.orders.findByCustomerEmail(email);
+      guest.push(...placed.filter(order => order.customerId === null && !guest.some(other => other.equals(order))));
+    }
+
+    return [...linked, ...guest];
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * USE CASE: CancelOrder
+ * 
+ * Cancela un pedido que todavía no se ha entregado.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface CancelOrderInput extends ExpectedVersionInput {
+  orderId: string;
+  reason?: string;
+  actor?: string;
+}
+
+export class CancelOrder {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: CancelOrderInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.cancel(input.reason, input.actor);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
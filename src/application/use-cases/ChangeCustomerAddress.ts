@@ -0,0 +1,61 @@
+/**
+ * USE CASE: ChangeCustomerAddress
+ * 
+ * Sustituye una dirección de la libreta de un cliente activo y/o la marca
+ * como dirección por defecto. Una dirección por defecto no se desmarca:
+ * se marca otra en su lugar (o se quita de la libreta).
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { ValidationError, ValidationFailure } from '../../domain/errors';
+import { AddressInput, toAddress } from './OrderDetails';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ChangeCustomerAddressInput extends ExpectedVersionInput {
+  customerId: string;
+  label: string;
+  address?: AddressInput;
+  /** Solo admite `true` */
+  defaultShipping?: boolean;
+  /** Solo admite `true` */
+  defaultBilling?: boolean;
+}
+
+export class ChangeCustomerAddress {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  /**
+   * @throws NotFoundError si el cliente no tiene una dirección con esa etiqueta
+   * @throws ValidationError si la dirección no es válida o se intenta desmarcar una por defecto
+   */
+  async execute(input: ChangeCustomerAddressInput): Promise<CustomerDetails> {
+    const failures: ValidationFailure[] = [];
+    for (const field of ['defaultShipping', 'defaultBilling'] as const) {
+      if (input[field] === false) {
+        failures.push({ field, message: 'Choose another default address instead', value: false });
+      }
+    }
+    if (failures.length > 0) {
+      throw new ValidationError('ChangeCustomerAddress', failures);
+    }
+
+    const address = input.address && toAddress(input.address);
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    if (address) {
+      customer.changeAddress(input.label, address);
+    }
+    if (input.defaultShipping) {
+      customer.setDefaultShippingAddress(input.label);
+    }
+    if (input.defaultBilling) {
+      customer.setDefaultBillingAddress(input.label);
+    }
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
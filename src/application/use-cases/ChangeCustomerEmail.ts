@@ -0,0 +1,37 @@
+/**
+ * USE CASE: ChangeCustomerEmail
+ * 
+ * Cambia el email de un cliente comprobando que ningún otro cliente lo usa,
+ * según las `CustomerEmailRules`.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertEmailAvailable, customerEmailFrom, CustomerEmailRules } from './CustomerEmailRules';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ChangeCustomerEmailInput extends ExpectedVersionInput {
+  customerId: string;
+  email: string;
+}
+
+export class ChangeCustomerEmail {
+  constructor(
+    private readonly customers: CustomerRepository,
+    private readonly emailRules: CustomerEmailRules = {}
+  ) {}
+
+  async execute(input: ChangeCustomerEmailInput): Promise<CustomerDetails> {
+    const email = customerEmailFrom(input.email, this.emailRules);
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    await assertEmailAvailable(this.customers, email, this.emailRules, customer.id);
+
+    customer.updateEmail(email);
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
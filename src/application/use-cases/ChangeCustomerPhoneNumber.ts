@@ -0,0 +1,35 @@
+/**
+ * USE CASE: ChangeCustomerPhoneNumber
+ * 
+ * Cambia o quita (con `null`) el teléfono de un cliente activo.
+ * Los números sin prefijo internacional se interpretan con `defaultCountry`
+ * o, si no se indica, con el país de su dirección de envío por defecto.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { PhoneNumber } from '../../domain/value-objects/PhoneNumber';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ChangeCustomerPhoneNumberInput extends ExpectedVersionInput {
+  customerId: string;
+  phoneNumber: string | null;
+  /** País ISO 3166-1 alpha-2 de los números nacionales */
+  defaultCountry?: string;
+}
+
+export class ChangeCustomerPhoneNumber {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: ChangeCustomerPhoneNumberInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    const country = input.defaultCountry ?? customer.defaultShippingAddress?.country;
+    customer.changePhoneNumber(input.phoneNumber === null ? null : PhoneNumber.create(input.phoneNumber, country));
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
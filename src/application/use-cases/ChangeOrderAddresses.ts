@@ -0,0 +1,36 @@
+/**
+ * USE CASE: ChangeOrderAddresses
+ * 
+ * Cambia la dirección de envío y/o de facturación de un pedido PENDING.
+ * Las dos son obligatorias antes de confirmarlo.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { AddressInput, OrderDetails, toAddress, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ChangeOrderAddressesInput extends ExpectedVersionInput {
+  orderId: string;
+  shippingAddress?: AddressInput;
+  billingAddress?: AddressInput;
+}
+
+export class ChangeOrderAddresses {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: ChangeOrderAddressesInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    if (input.shippingAddress) {
+      order.changeShippingAddress(toAddress(input.shippingAddress));
+    }
+    if (input.billingAddress) {
+      order.changeBillingAddress(toAddress(input.billingAddress));
+    }
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * USE CASE: ChangeOrderItemQuantity
+ * 
+ * Cambia la cantidad de la línea de un producto en un pedido pendiente.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ChangeOrderItemQuantityInput extends ExpectedVersionInput {
+  orderId: string;
+  productId: string;
+  quantity: number;
+}
+
+export class ChangeOrderItemQuantity {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: ChangeOrderItemQuantityInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.changeQuantity(input.productId, input.quantity);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
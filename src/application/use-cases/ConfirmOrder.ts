@@ -0,0 +1,29 @@
+/**
+ * USE CASE: ConfirmOrder
+ * 
+ * Confirma un pedido pendiente.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ConfirmOrderInput extends ExpectedVersionInput {
+  orderId: string;
+  actor?: string;
+}
+
+export class ConfirmOrder {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: ConfirmOrderInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.confirm(input.actor);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
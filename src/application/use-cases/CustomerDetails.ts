@@ -0,0 +1,65 @@
+/**
+ * DTOs de clientes para la capa de aplicación
+ */
+
+import { Customer } from '../../domain/entities/Customer';
+import { MarketingChannel } from '../../domain/value-objects/MarketingConsent';
+import { AddressOutput, toAddressOutput } from './OrderDetails';
+
+export interface CustomerAddressOutput {
+  label: string;
+  address: AddressOutput;
+  defaultShipping: boolean;
+  defaultBilling: boolean;
+}
+
+export interface MarketingConsentOutput {
+  channel: MarketingChannel;
+  granted: boolean;
+  grantedAt?: string;
+  withdrawnAt?: string;
+}
+
+export interface CustomerDetails {
+  id: string;
+  name: string;
+  email: string;
+  isActive: boolean;
+  phoneNumber?: string;
+  addressBook: CustomerAddressOutput[];
+  preferredLocale?: string;
+  preferredCurrency?: string;
+  marketingConsents: MarketingConsentOutput[];
+  /** Solo en clientes anonimizados */
+  anonymizedAt?: string;
+  createdAt: string;
+  /** Versión del agregado, para enviarla como `expectedVersion` al modificarlo */
+  version: number;
+}
+
+export function toCustomerDetails(customer: Customer): CustomerDetails {
+  return {
+    id: customer.id.value,
+    name: customer.name,
+    email: customer.email.value,
+    isActive: customer.isActive,
+    ...(customer.phoneNumber ? { phoneNumber: customer.phoneNumber.value } : {}),
+    addressBook: customer.addressBook.map(entry => ({
+      label: entry.label,
+      address: toAddressOutput(entry.address),
+      defaultShipping: entry.label === customer.defaultShippingLabel,
+      defaultBilling: entry.label === customer.defaultBillingLabel,
+    })),
+    ...(customer.preferredLocale === null ? {} : { preferredLocale: customer.preferredLocale }),
+    ...(customer.preferredCurrency === null ? {} : { preferredCurrency: customer.preferredCurrency }),
+    marketingConsents: customer.marketingConsents.map(consent => ({
+      channel: consent.channel,
+      granted: consent.granted,
+      ...(consent.grantedAt ? { grantedAt: consent.grantedAt.toISOString() } : {}),
+      ...(consent.withdrawnAt ? { withdrawnAt: consent.withdrawnAt.toISOString() } : {}),
+    })),
+    ...(customer.anonymizedAt ? { anonymizedAt: customer.anonymizedAt.toISOString() } : {}),
+    createdAt: customer.createdAt.toISOString(),
+    version: customer.version,
+  };
+}
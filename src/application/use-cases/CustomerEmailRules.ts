@@ -0,0 +1,56 @@
+/**
+ * Reglas para el email de los clientes
+ * 
+ * Las comparten el alta y el cambio de email: qué formatos se admiten,
+ * qué dominios se rechazan (`EmailPolicy`) y cuándo dos emails cuentan
+ * como el mismo para la unicidad. Con `duplicateMatch: 'canonical'`,
+ * 'ana+tienda@gmail.com' choca con 'a.na@gmail.com' aunque no sean iguales.
+ */
+
+import { CustomerRepository, EmailMatch } from '../ports/CustomerRepository';
+import { EmailPolicy } from '../../domain/services/EmailPolicy';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { Email } from '../../domain/value-objects/Email';
+import { ConflictError } from '../../domain/errors';
+
+export interface CustomerEmailRules {
+  policy?: EmailPolicy;
+  /** `exact` por defecto */
+  duplicateMatch?: EmailMatch;
+  /** Admite partes locales entre comillas (`false` por defecto) */
+  allowQuotedLocalPart?: boolean;
+}
+
+/**
+ * @throws ValidationError si el email no es válido
+ * @throws BusinessRuleViolationError si la política no lo admite
+ */
+export function customerEmailFrom(value: string, rules: CustomerEmailRules): Email {
+  const email = Email.create(value, { allowQuotedLocalPart: rules.allowQuotedLocalPart ?? false });
+  rules.policy?.assertAllowed(email);
+  return email;
+}
+
+/**
+ * @param owner cliente que puede tener ya ese email (el que lo cambia)
+ * @throws ConflictError si otro cliente usa ya ese email
+ */
+export async function assertEmailAvailable(
+  customers: CustomerRepository,
+  email: Email,
+  rules: CustomerEmailRules,
+  owner?: CustomerId
+): Promise<void> {
+  const taken = await customers.existsByEmail(email, {
+    match: rules.duplicateMatch ?? 'exact',
+    ...(owner === undefined ? {} : { excluding: owner }),
+  });
+
+  if (taken) {
+    throw new ConflictError(
+      'Customer',
+      'Email already exists',
+      { email: email.value }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * USE CASE: DeactivateCustomer
+ * 
+ * Desactiva un cliente activo.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface DeactivateCustomerInput extends ExpectedVersionInput {
+  customerId: string;
+}
+
+export class DeactivateCustomer {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: DeactivateCustomerInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    customer.deactivate();
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
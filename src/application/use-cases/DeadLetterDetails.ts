@@ -0,0 +1,33 @@
+/**
+ * DTO: DeadLetterDetails
+ * 
+ * Vista plana de un mensaje muerto del `Outbox` para diagnóstico.
+ */
+
+import { OutboxMessage } from '../ports/Outbox';
+
+export interface DeadLetterDetails {
+  id: string;
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  occurredAt: string;
+  attempts: number;
+  lastError: string | null;
+  deadAt: string | null;
+  payload: object;
+}
+
+export function toDeadLetterDetails(message: OutboxMessage): DeadLetterDetails {
+  return {
+    id: message.id,
+    eventType: message.event.eventType,
+    aggregateType: message.event.aggregateType,
+    aggregateId: message.event.aggregateId,
+    occurredAt: message.event.occurredAt.toISOString(),
+    attempts: message.attempts,
+    lastError: message.lastError,
+    deadAt: message.deadAt?.toISOString() ?? null,
+    payload: message.event.payload,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * USE CASE: DeliverOrder
+ * 
+ * Marca como entregado un pedido enviado.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface DeliverOrderInput extends ExpectedVersionInput {
+  orderId: string;
+  actor?: string;
+}
+
+export class DeliverOrder {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: DeliverOrderInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.deliver(input.actor);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
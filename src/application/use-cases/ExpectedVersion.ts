@@ -0,0 +1,27 @@
+/**
+ * Control de concurrencia optimista desde el cliente
+ * 
+ * Un cliente puede indicar la versión del agregado sobre la que trabaja
+ * (p. ej. la del `ETag` que recibió, mediante `If-Match`). El use-case
+ * comprueba esa versión ANTES de modificar nada, así dos operadores que
+ * editan el mismo pedido no se pisan: el segundo recibe un `ConflictError`.
+ */
+
+import { ConflictError } from '../../domain/errors';
+
+export interface ExpectedVersionInput {
+  expectedVersion?: number;
+}
+
+/**
+ * @throws ConflictError si la versión actual no es la esperada
+ */
+export function assertExpectedVersion(
+  entityName: string,
+  aggregate: { readonly id: { readonly value: string }; readonly version: number },
+  expectedVersion: number | undefined
+): void {
+  if (expectedVersion !== undefined && expectedVersion !== aggregate.version) {
+    throw ConflictError.staleVersion(entityName, aggregate.id.value, expectedVersion, aggregate.version);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * USE CASE: ExportCustomerData
+ * 
+ * Atiende una solicitud de acceso o portabilidad de datos: devuelve un
+ * archivo JSON con el cliente y todos sus pedidos, en el mismo formato
+ * que la API. Incluye los pedidos ligados a su `CustomerId` y los que se
+ * hicieron como invitado con su email actual.
+ * 
+ * `format` y `formatVersion` identifican la estructura del archivo para
+ * quien lo procese de forma automática.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { OrderRepository } from '../ports/OrderRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+
+export const CUSTOMER_DATA_EXPORT_FORMAT = 'customer-data-export';
+export const CUSTOMER_DATA_EXPORT_VERSION = 1;
+
+export interface ExportCustomerDataInput {
+  customerId: string;
+}
+
+export interface CustomerDataExport {
+  format: typeof CUSTOMER_DATA_EXPORT_FORMAT;
+  formatVersion: typeof CUSTOMER_DATA_EXPORT_VERSION;
+  exportedAt: string;
+  customer: CustomerDetails;
+  /** Del más antiguo al más reciente */
+  orders: OrderDetails[];
+}
+
+export class ExportCustomerData {
+  constructor(
+    private readonly customers: CustomerRepository,
+    private readonly orders: OrderRepository
+  ) {}
+
+  /**
+   * @throws NotFoundError si no existe un cliente con ese id
+   */
+  async execute(input: ExportCustomerDataInput): Promise<CustomerDataExport> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    const linked = await this.orders.findByCustomerId(customer.id);
+    const guest = (await this.orders.findByCustomerEmail(customer.email))
+      .filter(order => order.customerId === null);
+
+    return {
+      format: CUSTOMER_DATA_EXPORT_FORMAT,
+      formatVersion: CUSTOMER_DATA_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      customer: toCustomerDetails(customer),
+      orders: [...linked, ...guest]
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map(toOrderDetails),
+    };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * USE CASE: GetCustomer
+ * 
+ * Consulta los datos de un cliente.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+
+export interface GetCustomerInput {
+  customerId: string;
+}
+
+export class GetCustomer {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: GetCustomerInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    return toCustomerDetails(customer);
+  }
+}
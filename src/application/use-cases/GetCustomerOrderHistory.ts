@@ -0,0 +1,62 @@
+/**
+ * USE CASE: GetCustomerOrderHistory
+ * 
+ * Historial de pedidos de un cliente, del más reciente al más antiguo,
+ * con el estado y el total de cada uno. Los pedidos se buscan por
+ * `CustomerId`, así que siguen apareciendo aunque el cliente haya cambiado
+ * de email (cada pedido conserva el email con el que se hizo).
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { OrderStatus } from '../../domain/entities/Order';
+import { MoneyOutput, toMoneyOutput } from './OrderDetails';
+
+export interface GetCustomerOrderHistoryInput {
+  customerId: string;
+}
+
+export interface OrderSummary {
+  id: string;
+  /** Email del cliente cuando hizo el pedido */
+  customerEmail: string;
+  status: OrderStatus;
+  itemCount: number;
+  total: MoneyOutput;
+  createdAt: string;
+}
+
+export interface CustomerOrderHistory {
+  customerId: string;
+  orders: OrderSummary[];
+}
+
+export class GetCustomerOrderHistory {
+  constructor(
+    private readonly customers: CustomerRepository,
+    private readonly orders: OrderRepository
+  ) {}
+
+  /**
+   * @throws NotFoundError si no existe un cliente con ese id
+   */
+  async execute(input: GetCustomerOrderHistoryInput): Promise<CustomerOrderHistory> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    const orders = await this.orders.findByCustomerId(customer.id);
+
+    return {
+      customerId: customer.id.value,
+      orders: orders
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(order => ({
+          id: order.id.value,
+          customerEmail: order.customerEmail.value,
+          status: order.status,
+          itemCount: order.items.reduce((count, item) => count + item.quantity, 0),
+          total: toMoneyOutput(order.calculateTotal()),
+          createdAt: order.createdAt.toISOString(),
+        })),
+    };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * USE CASE: GetOrderDetails
+ * 
+ * Consulta un pedido y devuelve su detalle con el total calculado.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+
+export interface GetOrderDetailsInput {
+  orderId: string;
+}
+
+export class GetOrderDetails {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: GetOrderDetailsInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    return toOrderDetails(order);
+  }
+}
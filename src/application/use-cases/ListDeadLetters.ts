@@ -0,0 +1,16 @@
+/**
+ * USE CASE: ListDeadLetters
+ * 
+ * Lista los mensajes del `Outbox` que agotaron sus intentos de publicación.
+ */
+
+import { Outbox } from '../ports/Outbox';
+import { DeadLetterDetails, toDeadLetterDetails } from './DeadLetterDetails';
+
+export class ListDeadLetters {
+  constructor(private readonly outbox: Outbox) {}
+
+  async execute(): Promise<DeadLetterDetails[]> {
+    return (await this.outbox.deadLetters()).map(toDeadLetterDetails);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * DTOs de pedidos para la capa de aplicación
+ * 
+ * Los use-cases reciben y devuelven estructuras planas (strings y números),
+ * nunca Value Objects ni Entities. Así los adaptadores (HTTP, CLI...) no
+ * dependen del modelo de dominio y la validación ocurre en un único sitio:
+ * al construir los Value Objects a partir de estos datos.
+ */
+
+import { Order, OrderAction, OrderStatus } from '../../domain/entities/Order';
+import { OrderItem } from '../../domain/value-objects/OrderItem';
+import { Price } from '../../domain/value-objects/Price';
+import { Address } from '../../domain/value-objects/Address';
+import { assertCurrency } from '../../domain/value-objects/Currency';
+
+export interface OrderItemInput {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  currency: string;
+  weightGrams?: number;
+}
+
+export interface AddressInput {
+  lines: string[];
+  city: string;
+  postalCode: string;
+  region?: string;
+  country: string;
+}
+
+export type AddressOutput = AddressInput;
+
+export interface MoneyOutput {
+  amount: number;
+  currency: string;
+}
+
+export interface OrderItemOutput {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: MoneyOutput;
+  weightGrams?: number;
+}
+
+export interface OrderStatusChangeOutput {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  occurredAt: string;
+  actor?: string;
+  reason?: string;
+}
+
+export interface OrderDetails {
+  id: string;
+  customerEmail: string;
+  customerId?: string;
+  status: OrderStatus;
+  availableActions: OrderAction[];
+  statusHistory: OrderStatusChangeOutput[];
+  items: OrderItemOutput[];
+  shippingAddress?: AddressOutput;
+  billingAddress?: AddressOutput;
+  couponCode?: string;
+  subtotal: MoneyOutput;
+  discount: MoneyOutput;
+  shipping: MoneyOutput;
+  total: MoneyOutput;
+  createdAt: string;
+  /** Versión del agregado, para enviarla como `expectedVersion` al modificarlo */
+  version: number;
+}
+
+/**
+ * Construye un `OrderItem` del dominio a partir de datos sin validar
+ * @throws ValidationError si la moneda, el precio o la cantidad no son válidos
+ */
+export function toOrderItem(input: OrderItemInput): OrderItem {
+  const currency = input.currency;
+  assertCurrency(currency);
+
+  return OrderItem.create({
+    productId: input.productId,
+    productName: input.productName,
+    quantity: input.quantity,
+    unitPrice: Price.create(input.unitPrice, currency),
+    ...(input.weightGrams === undefined ? {} : { weightGrams: input.weightGrams }),
+  });
+}
+
+/**
+ * @throws ValidationError con todos los campos incorrectos de la dirección
+ */
+export function toAddress(input: AddressInput): Address {
+  return Address.create(input);
+}
+
+export function toAddressOutput(address: Address): AddressOutput {
+  return {
+    lines: [...address.lines],
+    city: address.city,
+    postalCode: address.postalCode,
+    ...(address.region === undefined ? {} : { region: address.region }),
+    country: address.country,
+  };
+}
+
+export function toMoneyOutput(price: Price): MoneyOutput {
+  return { amount: price.amount, currency: price.currency };
+}
+
+export function toOrderDetails(order: Order): OrderDetails {
+  const pricing = order.pricing();
+
+  return {
+    id: order.id.value,
+    customerEmail: order.customerEmail.value,
+    ...(order.customerId ? { customerId: order.customerId.value } : {}),
+    status: order.status,
+    availableActions: order.availableActions(),
+    statusHistory: order.statusHistory.map(change => ({
+      ...change,
+      occurredAt: change.occurredAt.toISOString(),
+    })),
+    items: order.items.map(item => ({
+      productId: item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: toMoneyOutput(item.unitPrice),
+      ...(item.weightGrams === undefined ? {} : { weightGrams: item.weightGrams }),
+    })),
+    ...(order.shippingAddress ? { shippingAddress: toAddressOutput(order.shippingAddress) } : {}),
+    ...(order.billingAddress ? { billingAddress: toAddressOutput(order.billingAddress) } : {}),
+    ...(order.coupon ? { couponCode: order.coupon.code } : {}),
+    subtotal: toMoneyOutput(pricing.subtotal),
+    discount: toMoneyOutput(pricing.totalDiscount),
+    shipping: toMoneyOutput(pricing.shipping),
+    total: toMoneyOutput(pricing.total),
+    createdAt: order.createdAt.toISOString(),
+    version: order.version,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * PLANTILLAS: emails del ciclo de vida del pedido
+ * 
+ * Redacta el email que recibe el cliente cuando su pedido se confirma, se
+ * envía, se entrega o se cancela, en texto plano y en HTML, con las líneas
+ * del pedido y el total de `calculateTotal()`.
+ * 
+ * Los textos están en un catálogo por idioma (español e inglés); el locale
+ * completo ('es-MX', 'en-GB') decide además cómo se formatean los importes.
+ * Añadir un idioma es añadir su entrada a `ORDER_NOTIFICATION_MESSAGES`.
+ */
+
+import { Order } from '../../domain/entities/Order';
+import { Price } from '../../domain/value-objects/Price';
+import { ValidationError } from '../../domain/errors';
+
+export const ORDER_NOTIFICATION_KINDS = ['confirmed', 'shipped', 'delivered', 'cancelled'] as const;
+
+export type OrderNotificationKind = typeof ORDER_NOTIFICATION_KINDS[number];
+
+export interface OrderNotificationMessages {
+  subject: Record<OrderNotificationKind, (orderId: string) => string>;
+  intro: Record<OrderNotificationKind, string>;
+  greeting: string;
+  order: (orderId: string) => string;
+  product: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  subtotal: string;
+  discount: string;
+  shipping: string;
+  total: string;
+  shippingAddress: string;
+  reason: string;
+  closing: string;
+}
+
+export const ORDER_NOTIFICATION_MESSAGES: Readonly<Record<string, OrderNotificationMessages>> = {
+  es: {
+    subject: {
+      confirmed: orderId => `Hemos confirmado tu pedido ${orderId}`,
+      shipped: orderId => `Tu pedido ${orderId} está en camino`,
+      delivered: orderId => `Tu pedido ${orderId} ha sido entregado`,
+      cancelled: orderId => `Tu pedido ${orderId} ha sido cancelado`,
+    },
+    intro: {
+      confirmed: 'Tu pedido está confirmado y ya lo estamos preparando.',
+      shipped: 'Hemos enviado tu pedido; pronto llegará a la dirección de envío.',
+      delivered: 'Tu pedido ha sido entregado. Esperamos que lo disfrutes.',
+      cancelled: 'Tu pedido ha sido cancelado.',
+    },
+    greeting: 'Hola:',
+    order: orderId => `Pedido ${orderId}`,
+    product: 'Producto',
+    quantity: 'Cantidad',
+    unitPrice: 'Precio',
+    amount: 'Importe',
+    subtotal: 'Subtotal',
+    discount: 'Descuento',
+    shipping: 'Envío',
+    total: 'Total',
+    shippingAddress: 'Dirección de envío',
+    reason: 'Motivo',
+    closing: 'Gracias por comprar con nosotros.',
+  },
+  en: {
+    subject: {
+      confirmed: orderId => `Your order ${orderId} is confirmed`,
+      shipped: orderId => `Your order ${orderId} is on its way`,
+      delivered: orderId => `Your order ${orderId} has been delivered`,
+      cancelled: orderId => `Your order ${orderId} has been cancelled`,
+    },
+    intro: {
+      confirmed: 'Your order is confirmed and we are getting it ready.',
+      shipped: 'We have shipped your order; it will reach the shipping address soon.',
+      delivered: 'Your order has been delivered. We hope you enjoy it.',
+      cancelled: 'Your order has been cancelled.',
+    },
+    greeting: 'Hello,',
+    order: orderId => `Order ${orderId}`,
+    product: 'Product',
+    quantity: 'Quantity',
+    unitPrice: 'Price',
+    amount: 'Amount',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    shipping: 'Shipping',
+    total: 'Total',
+    shippingAddress: 'Shipping address',
+    reason: 'Reason',
+    closing: 'Thank you for shopping with us.',
+  },
+};
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface OrderNotificationDetails {
+  /** Motivo de la cancelación, si se indicó */
+  reason?: string;
+}
+
+interface LineView {
+  productName: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+}
+
+interface TotalView {
+  label: string;
+  amount: string;
+}
+
+/**
+ * Catálogo del idioma del locale, o `undefined` si no hay textos para él
+ */
+export function orderNotificationMessagesFor(locale: string): OrderNotificationMessages | undefined {
+  return ORDER_NOTIFICATION_MESSAGES[languageOf(locale)];
+}
+
+/**
+ * @throws ValidationError si no hay textos para el idioma del locale
+ */
+export function renderOrderNotification(
+  kind: OrderNotificationKind,
+  order: Order,
+  locale: string,
+  details: OrderNotificationDetails = {}
+): RenderedNotification {
+  const messages = orderNotificationMessagesFor(locale);
+  if (!messages) {
+    throw ValidationError.single(
+      'OrderNotification',
+      'locale',
+      `Must be one of: ${Object.keys(ORDER_NOTIFICATION_MESSAGES).join(', ')}`,
+      locale
+    );
+  }
+
+  const orderId = order.id.value;
+  const format = (price: Price): string => price.format(locale);
+  const pricing = order.pricing();
+
+  const lines: LineView[] = order.items.map(item => ({
+    productName: item.productName,
+    quantity: String(item.quantity),
+    unitPrice: format(item.unitPrice),
+    amount: format(item.lineTotal()),
+  }));
+  const totals: TotalView[] = [
+    { label: messages.subtotal, amount: format(pricing.subtotal) },
+    ...(pricing.totalDiscount.isZero() ? [] : [{ label: messages.discount, amount: `-${format(pricing.totalDiscount)}` }]),
+    ...(order.shippingCost === null ? [] : [{ label: messages.shipping, amount: format(pricing.shipping) }]),
+    { label: messages.total, amount: format(order.calculateTotal()) },
+  ];
+  const address = order.shippingAddress?.toString();
+  const reason = kind === 'cancelled' ? details.reason?.trim() || undefined : undefined;
+
+  const subject = messages.subject[kind](orderId);
+  return {
+    subject,
+    text: renderText(messages, kind, orderId, lines, totals, address, reason),
+    html: renderHtml(messages, kind, orderId, lines, totals, address, reason, subject, languageOf(locale)),
+  };
+}
+
+function renderText(
+  messages: OrderNotificationMessages,
+  kind: OrderNotificationKind,
+  orderId: string,
+  lines: readonly LineView[],
+  totals: readonly TotalView[],
+  address: string | undefined,
+  reason: string | undefined
+): string {
+  return [
+    messages.greeting,
+    '',
+    messages.intro[kind],
+    ...(reason === undefined ? [] : [`${messages.reason}: ${reason}`]),
+    '',
+    messages.order(orderId),
+    ...lines.map(line => `- ${line.quantity} x ${line.productName} (${line.unitPrice}): ${line.amount}`),
+    '',
+    ...totals.map(total => `${total.label}: ${total.amount}`),
+    ...(address === undefined ? [] : ['', `${messages.shippingAddress}: ${address}`]),
+    '',
+    messages.closing,
+    '',
+  ].join('\n');
+}
+
+function renderHtml(
+  messages: OrderNotificationMessages,
+  kind: OrderNotificationKind,
+  orderId: string,
+  lines: readonly LineView[],
+  totals: readonly TotalView[],
+  address: string | undefined,
+  reason: string | undefined,
+  subject: string,
+  language: string
+): string {
+  const cell = (tag: 'td' | 'th', value: string, align: 'left' | 'right' = 'left'): string =>
+    `<${tag} style="text-align:${align};padding:4px 8px">${escapeHtml(value)}</${tag}>`;
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(language)}">`,
+    `<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>`,
+    '<body>',
+    `<p>${escapeHtml(messages.greeting)}</p>`,
+    `<p>${escapeHtml(messages.intro[kind])}</p>`,
+    ...(reason === undefined ? [] : [`<p>${escapeHtml(messages.reason)}: ${escapeHtml(reason)}</p>`]),
+    '<table style="border-collapse:collapse">',
+    `<caption style="text-align:left;font-weight:bold">${escapeHtml(messages.order(orderId))}</caption>`,
+    `<thead><tr>${cell('th', messages.product)}${cell('th', messages.quantity, 'right')}${cell('th', messages.unitPrice, 'right')}${cell('th', messages.amount, 'right')}</tr></thead>`,
+    '<tbody>',
+    ...lines.map(line =>
+      `<tr>${cell('td', line.productName)}${cell('td', line.quantity, 'right')}${cell('td', line.unitPrice, 'right')}${cell('td', line.amount, 'right')}</tr>`
+    ),
+    '</tbody>',
+    '<tfoot>',
+    ...totals.map(total =>
+      `<tr><th colspan="3" style="text-align:right;padding:4px 8px">${escapeHtml(total.label)}</th>${cell('td', total.amount, 'right')}</tr>`
+    ),
+    '</tfoot>',
+    '</table>',
+    ...(address === undefined ? [] : [`<p>${escapeHtml(messages.shippingAddress)}: ${escapeHtml(address)}</p>`]),
+    `<p>${escapeHtml(messages.closing)}</p>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Idioma del locale ('es-MX' -> 'es'); un locale mal formado no tiene idioma
+ */
+function languageOf(locale: string): string {
+  try {
+    return new Intl.Locale(locale).language;
+  } catch {
+    return '';
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,94 @@
+/**
+ * USE CASE: PlaceOrder
+ * 
+ * Crea un pedido nuevo en estado PENDING y lo persiste.
+ * 
+ * El pedido queda ligado al cliente registrado (por `customerId` o, si no
+ * se indica, por su email) y guarda el email del momento como copia.
+ * Solo los emails que no son de ningún cliente hacen pedidos de invitado,
+ * así un cliente desactivado no puede saltarse la regla con su email.
+ * 
+ * Las direcciones que no se indican se toman de las direcciones por
+ * defecto de la libreta del cliente.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { Order } from '../../domain/entities/Order';
+import { Customer } from '../../domain/entities/Customer';
+import { Email } from '../../domain/value-objects/Email';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { ValidationError } from '../../domain/errors';
+import {
+  AddressInput,
+  OrderDetails,
+  OrderItemInput,
+  toAddress,
+  toOrderDetails,
+  toOrderItem,
+} from './OrderDetails';
+
+export interface PlaceOrderInput {
+  /** Obligatorio si no se indica `customerEmail` */
+  customerId?: string;
+  /** Obligatorio si no se indica `customerId`; si se indican los dos, deben coincidir */
+  customerEmail?: string;
+  items: OrderItemInput[];
+  shippingAddress?: AddressInput;
+  billingAddress?: AddressInput;
+}
+
+export class PlaceOrder {
+  constructor(
+    private readonly orders: OrderRepository,
+    private readonly customers: CustomerRepository
+  ) {}
+
+  /**
+   * @throws NotFoundError si `customerId` no es de ningún cliente
+   * @throws BusinessRuleViolationError si el cliente está desactivado
+   * @throws ValidationError si falta el cliente o el email no es el suyo
+   */
+  async execute(input: PlaceOrderInput): Promise<OrderDetails> {
+    const email = input.customerEmail === undefined ? undefined : Email.create(input.customerEmail);
+    const customer = await this.customerFor(input.customerId, email);
+    customer?.assertCanPlaceOrders();
+
+    const customerEmail = customer?.email ?? email;
+    if (!customerEmail) {
+      throw ValidationError.single('PlaceOrder', 'customerEmail', 'Required when no customerId is given');
+    }
+
+    const shippingAddress = input.shippingAddress ? toAddress(input.shippingAddress) : customer?.defaultShippingAddress;
+    const billingAddress = input.billingAddress ? toAddress(input.billingAddress) : customer?.defaultBillingAddress;
+
+    const order = Order.create(
+      customerEmail,
+      input.items.map(toOrderItem),
+      {
+        ...(customer ? { customerId: customer.id } : {}),
+        ...(shippingAddress ? { shippingAddress } : {}),
+        ...(billingAddress ? { billingAddress } : {}),
+      }
+    );
+
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+
+  private async customerFor(customerId: string | undefined, email: Email | undefined): Promise<Customer | null> {
+    if (customerId !== undefined) {
+      const customer = await this.customers.findById(CustomerId.create(customerId));
+      if (email && !email.equals(customer.email)) {
+        throw ValidationError.single('PlaceOrder', 'customerEmail', 'Does not match the customer email', email.value);
+      }
+      return customer;
+    }
+
+    if (email && await this.customers.existsByEmail(email)) {
+      return this.customers.findByEmail(email);
+    }
+    return null;
+  }
+}
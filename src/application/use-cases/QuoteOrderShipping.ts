@@ -0,0 +1,34 @@
+/**
+ * USE CASE: QuoteOrderShipping
+ * 
+ * Presupuesta el envío de un pedido PENDING a su dirección de envío y lo
+ * suma al total. Es opcional (se puede confirmar sin él), y hay que
+ * repetirlo si cambian los artículos o la dirección de envío.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { ShippingRateCalculator } from '../../domain/services/ShippingRateCalculator';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface QuoteOrderShippingInput extends ExpectedVersionInput {
+  orderId: string;
+}
+
+export class QuoteOrderShipping {
+  constructor(
+    private readonly orders: OrderRepository,
+    private readonly shippingRates: ShippingRateCalculator
+  ) {}
+
+  async execute(input: QuoteOrderShippingInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.quoteShipping(this.shippingRates);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * USE CASE: ReactivateCustomer
+ * 
+ * Reactiva un cliente desactivado.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ReactivateCustomerInput extends ExpectedVersionInput {
+  customerId: string;
+}
+
+export class ReactivateCustomer {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: ReactivateCustomerInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    customer.activate();
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * USE CASE: RegisterCustomer
+ * 
+ * Da de alta un cliente nuevo. El email debe ser único: la entidad
+ * `Customer` no conoce al resto de clientes, así que la comprobación se
+ * hace aquí a través del repositorio, según las `CustomerEmailRules`.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { Customer } from '../../domain/entities/Customer';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertEmailAvailable, customerEmailFrom, CustomerEmailRules } from './CustomerEmailRules';
+
+export interface RegisterCustomerInput {
+  name: string;
+  email: string;
+}
+
+export class RegisterCustomer {
+  constructor(
+    private readonly customers: CustomerRepository,
+    private readonly emailRules: CustomerEmailRules = {}
+  ) {}
+
+  async execute(input: RegisterCustomerInput): Promise<CustomerDetails> {
+    const email = customerEmailFrom(input.email, this.emailRules);
+    const customer = Customer.create(input.name, email);
+
+    await assertEmailAvailable(this.customers, email, this.emailRules);
+
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
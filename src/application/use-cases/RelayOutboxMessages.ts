@@ -0,0 +1,113 @@
+/**
+ * USE CASE: RelayOutboxMessages
+ * 
+ * Publica los mensajes pendientes del `Outbox` con un `EventPublisher`.
+ * Se ejecuta periódicamente (ver `main.ts`); cada ejecución procesa un
+ * lote de mensajes, uno detrás de otro.
+ * 
+ * Si la publicación falla, el mensaje se reintenta con espera exponencial
+ * (`baseDelayMs`, el doble en cada fallo, hasta `maxDelayMs`). Al llegar a
+ * `maxAttempts` fallos se considera un mensaje envenenado y pasa a
+ * mensajes muertos, para que no bloquee ni retrase a los demás agregados.
+ * 
+ * Los mensajes de un agregado se publican en orden: si uno falla, los
+ * siguientes del mismo agregado en el lote se dejan sin publicar hasta
+ * que se entregue (el `Outbox` tampoco los ofrece mientras tanto).
+ */
+
+import { aggregateKeyOf, Outbox } from '../ports/Outbox';
+import { EventPublisher } from '../ports/EventPublisher';
+import { ValidationError, ValidationFailure } from '../../domain/errors';
+
+export interface RelayOutboxOptions {
+  /** Mensajes por ejecución (100 por defecto) */
+  batchSize?: number;
+  /** Fallos antes de pasar a mensajes muertos (5 por defecto) */
+  maxAttempts?: number;
+  /** Espera tras el primer fallo (1 s por defecto) */
+  baseDelayMs?: number;
+  /** Espera máxima entre intentos (5 min por defecto) */
+  maxDelayMs?: number;
+}
+
+export interface RelayOutboxInput {
+  now?: Date;
+}
+
+export interface RelayReport {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+const DEFAULT_OPTIONS: Required<RelayOutboxOptions> = {
+  batchSize: 100,
+  maxAttempts: 5,
+  baseDelayMs: 1_000,
+  maxDelayMs: 5 * 60_000,
+};
+
+export class RelayOutboxMessages {
+  private readonly options: Required<RelayOutboxOptions>;
+
+  /**
+   * @throws ValidationError si alguna opción no es un entero positivo
+   */
+  constructor(
+    private readonly outbox: Outbox,
+    private readonly publisher: EventPublisher,
+    options: RelayOutboxOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const failures: ValidationFailure[] = Object.entries(this.options)
+      .filter(([, value]) => !Number.isSafeInteger(value) || value < 1)
+      .map(([field, value]) => ({ field, message: 'Must be a positive integer', value }));
+    if (failures.length > 0) {
+      throw new ValidationError('RelayOutboxOptions', failures);
+    }
+  }
+
+  async execute(input: RelayOutboxInput = {}): Promise<RelayReport> {
+    const now = input.now ?? new Date();
+    const report: RelayReport = { delivered: 0, retried: 0, deadLettered: 0 };
+
+    const held = new Set<string>();
+
+    for (const message of await this.outbox.due(now, this.options.batchSize)) {
+      const key = aggregateKeyOf(message.event);
+      if (held.has(key)) {
+        continue;
+      }
+
+      try {
+        await this.publisher.publish(message.event);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const attempts = message.attempts + 1;
+
+        if (attempts >= this.options.maxAttempts) {
+          await this.outbox.markDead(message.id, reason, now);
+          report.deadLettered += 1;
+        } else {
+          await this.outbox.markFailed(message.id, reason, new Date(now.getTime() + this.retryDelay(attempts)));
+          report.retried += 1;
+        }
+        held.add(key);
+        continue;
+      }
+
+      await this.outbox.markDelivered(message.id);
+      report.delivered += 1;
+    }
+
+    return report;
+  }
+
+  /**
+   * Espera antes de reintentar tras el fallo número `attempts` (desde 1)
+   */
+  retryDelay(attempts: number): number {
+    return Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempts - 1));
+  }
+}
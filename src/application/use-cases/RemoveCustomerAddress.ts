@@ -0,0 +1,29 @@
+/**
+ * USE CASE: RemoveCustomerAddress
+ * 
+ * Quita una dirección de la libreta de un cliente activo.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface RemoveCustomerAddressInput extends ExpectedVersionInput {
+  customerId: string;
+  label: string;
+}
+
+export class RemoveCustomerAddress {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: RemoveCustomerAddressInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    customer.removeAddress(input.label);
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
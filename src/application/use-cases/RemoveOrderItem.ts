@@ -0,0 +1,30 @@
+/**
+ * USE CASE: RemoveOrderItem
+ * 
+ * Quita la línea de un producto de un pedido pendiente.
+ * Un pedido nunca se queda sin líneas: para vaciarlo, se cancela.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface RemoveOrderItemInput extends ExpectedVersionInput {
+  orderId: string;
+  productId: string;
+}
+
+export class RemoveOrderItem {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: RemoveOrderItemInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.removeItem(input.productId);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * USE CASE: RenameCustomer
+ * 
+ * Actualiza el nombre de un cliente.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface RenameCustomerInput extends ExpectedVersionInput {
+  customerId: string;
+  name: string;
+}
+
+export class RenameCustomer {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: RenameCustomerInput): Promise<CustomerDetails> {
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    customer.updateName(input.name);
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
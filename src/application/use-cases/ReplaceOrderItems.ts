@@ -0,0 +1,31 @@
+/**
+ * USE CASE: ReplaceOrderItems
+ * 
+ * Sustituye todas las líneas de un pedido pendiente (p. ej. al sincronizar
+ * un carrito editado en el cliente).
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, OrderItemInput, toOrderDetails, toOrderItem } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ReplaceOrderItemsInput extends ExpectedVersionInput {
+  orderId: string;
+  items: OrderItemInput[];
+}
+
+export class ReplaceOrderItems {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: ReplaceOrderItemsInput): Promise<OrderDetails> {
+    const items = input.items.map(toOrderItem);
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.replaceItems(items);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * USE CASE: ReplayDeadLetters
+ * 
+ * Devuelve mensajes muertos a la bandeja (con los intentos a cero) para
+ * que `RelayOutboxMessages` los vuelva a publicar, normalmente después de
+ * corregir el problema que los hizo fallar. Sin `messageIds`, se
+ * reencolan todos.
+ */
+
+import { Outbox } from '../ports/Outbox';
+
+export interface ReplayDeadLettersInput {
+  messageIds?: string[];
+  now?: Date;
+}
+
+export class ReplayDeadLetters {
+  constructor(private readonly outbox: Outbox) {}
+
+  /**
+   * @returns ids de los mensajes reencolados
+   * @throws NotFoundError si algún id no es de un mensaje muerto
+   * (los anteriores ya quedan reencolados)
+   */
+  async execute(input: ReplayDeadLettersInput = {}): Promise<string[]> {
+    const now = input.now ?? new Date();
+    const ids = input.messageIds ?? (await this.outbox.deadLetters()).map(message => message.id);
+
+    for (const id of ids) {
+      await this.outbox.requeue(id, now);
+    }
+    return ids;
+  }
+}
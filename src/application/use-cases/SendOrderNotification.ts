@@ -0,0 +1,112 @@
+/**
+ * USE CASE: SendOrderNotification
+ * 
+ * Avisa por email al cliente de un cambio de estado de su pedido
+ * (confirmado, enviado, entregado o cancelado). Se escribe a
+ * `Order.customerEmail`, el email con el que se hizo el pedido, en el
+ * idioma preferido del cliente registrado o, si no tiene o no hay textos
+ * para él, en el locale por defecto.
+ * 
+ * No se escribe a un seudónimo de anonimización (`Email.isPseudonym()`):
+ * al anonimizar a un cliente, sus pedidos y los que hizo como invitado
+ * pasan a llevarlo en lugar de su email.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { NotificationSender } from '../ports/NotificationSender';
+import { Customer } from '../../domain/entities/Customer';
+import { Order } from '../../domain/entities/Order';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import {
+  ORDER_NOTIFICATION_MESSAGES,
+  OrderNotificationKind,
+  orderNotificationMessagesFor,
+  renderOrderNotification,
+} from './OrderNotificationTemplates';
+
+export const DEFAULT_NOTIFICATION_LOCALE = 'es-ES';
+
+export interface SendOrderNotificationOptions {
+  /** Locale si el cliente no tiene uno con textos (`es-ES` por defecto) */
+  defaultLocale?: string;
+}
+
+export interface SendOrderNotificationInput {
+  orderId: string;
+  kind: OrderNotificationKind;
+  /** Motivo de la cancelación, si se indicó */
+  reason?: string;
+}
+
+export type OrderNotificationResult =
+  | { sent: true; to: string; locale: string; subject: string }
+  | { sent: false };
+
+export class SendOrderNotification {
+  private readonly defaultLocale: string;
+
+  /**
+   * @throws ValidationError si no hay textos para el locale por defecto
+   */
+  constructor(
+    private readonly orders: OrderRepository,
+    private readonly customers: CustomerRepository,
+    private readonly sender: NotificationSender,
+    options: SendOrderNotificationOptions = {}
+  ) {
+    this.defaultLocale = options.defaultLocale ?? DEFAULT_NOTIFICATION_LOCALE;
+    if (!orderNotificationMessagesFor(this.defaultLocale)) {
+      throw ValidationError.single(
+        'SendOrderNotificationOptions',
+        'defaultLocale',
+        `Must be a locale of: ${Object.keys(ORDER_NOTIFICATION_MESSAGES).join(', ')}`,
+        this.defaultLocale
+      );
+    }
+  }
+
+  /**
+   * @throws NotFoundError si no existe un pedido con ese id
+   */
+  async execute(input: SendOrderNotificationInput): Promise<OrderNotificationResult> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    if (order.customerEmail.isPseudonym()) {
+      return { sent: false };
+    }
+    const customer = await this.customerOf(order);
+    if (customer?.isAnonymized) {
+      return { sent: false };
+    }
+
+    const preferredLocale = customer?.preferredLocale ?? null;
+    const locale = preferredLocale !== null && orderNotificationMessagesFor(preferredLocale)
+      ? preferredLocale
+      : this.defaultLocale;
+    const notification = renderOrderNotification(input.kind, order, locale, {
+      ...(input.reason === undefined ? {} : { reason: input.reason }),
+    });
+
+    await this.sender.send({ to: order.customerEmail, ...notification });
+
+    return { sent: true, to: order.customerEmail.value, locale, subject: notification.subject };
+  }
+
+  /**
+   * Cliente registrado del pedido; un cliente borrado cuenta como invitado
+   */
+  private async customerOf(order: Order): Promise<Customer | null> {
+    if (!order.customerId) {
+      return null;
+    }
+    try {
+      return await this.customers.findById(order.customerId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
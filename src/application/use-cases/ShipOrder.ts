@@ -0,0 +1,29 @@
+/**
+ * USE CASE: ShipOrder
+ * 
+ * Marca como enviado un pedido confirmado.
+ */
+
+import { OrderRepository } from '../ports/OrderRepository';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { OrderDetails, toOrderDetails } from './OrderDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface ShipOrderInput extends ExpectedVersionInput {
+  orderId: string;
+  actor?: string;
+}
+
+export class ShipOrder {
+  constructor(private readonly orders: OrderRepository) {}
+
+  async execute(input: ShipOrderInput): Promise<OrderDetails> {
+    const order = await this.orders.findById(OrderId.create(input.orderId));
+    assertExpectedVersion('Order', order, input.expectedVersion);
+
+    order.ship(input.actor);
+    await this.orders.save(order);
+
+    return toOrderDetails(order);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * USE CASE: UpdateCustomerPreferences
+ * 
+ * Cambia el idioma y/o la moneda preferidos de un cliente activo.
+ * Un campo omitido se queda como está; con `null` se borra.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { assertEnabledCurrency } from '../../domain/value-objects/Currency';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface UpdateCustomerPreferencesInput extends ExpectedVersionInput {
+  customerId: string;
+  /** Etiqueta BCP 47 ('es-ES', 'en') */
+  preferredLocale?: string | null;
+  /** Código ISO 4217 de una moneda habilitada */
+  preferredCurrency?: string | null;
+}
+
+export class UpdateCustomerPreferences {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: UpdateCustomerPreferencesInput): Promise<CustomerDetails> {
+    const currency = input.preferredCurrency;
+    if (typeof currency === 'string') {
+      assertEnabledCurrency(currency);
+    }
+
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    customer.updatePreferences({
+      ...(input.preferredLocale === undefined ? {} : { locale: input.preferredLocale }),
+      ...(currency === undefined ? {} : { currency }),
+    });
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
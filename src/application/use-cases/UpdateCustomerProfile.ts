@@ -0,0 +1,98 @@
+/**
+ * USE CASE: UpdateCustomerProfile
+ * 
+ * Aplica de una vez varios cambios al perfil de un cliente (lo que recibe
+ * `PATCH /customers/:id`): nombre, email, teléfono, preferencias,
+ * consentimientos y activación. Los campos omitidos no cambian.
+ * 
+ * Es todo o nada: los datos se validan antes de tocar el cliente, todos
+ * los cambios se hacen sobre el mismo agregado y se guarda una sola vez,
+ * así que si uno falla no queda ninguno aplicado.
+ * Reactivar se hace antes que el resto de cambios y desactivar, después,
+ * para poder editar y (des)activar en la misma petición.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { PhoneNumber } from '../../domain/value-objects/PhoneNumber';
+import { assertEnabledCurrency } from '../../domain/value-objects/Currency';
+import { assertMarketingChannel } from '../../domain/value-objects/MarketingConsent';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertEmailAvailable, customerEmailFrom, CustomerEmailRules } from './CustomerEmailRules';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface UpdateCustomerProfileInput extends ExpectedVersionInput {
+  customerId: string;
+  name?: string;
+  email?: string;
+  /** `null` quita el teléfono */
+  phoneNumber?: string | null;
+  /** Etiqueta BCP 47 ('es-ES', 'en'); `null` la borra */
+  preferredLocale?: string | null;
+  /** Código ISO 4217 de una moneda habilitada; `null` la borra */
+  preferredCurrency?: string | null;
+  /** Canal ('email', 'sms', 'phone') -> consentimiento dado o no */
+  marketingConsents?: Record<string, boolean>;
+  isActive?: boolean;
+  /** Momento de los consentimientos (ahora por defecto) */
+  at?: Date;
+}
+
+export class UpdateCustomerProfile {
+  constructor(
+    private readonly customers: CustomerRepository,
+    private readonly emailRules: CustomerEmailRules = {}
+  ) {}
+
+  async execute(input: UpdateCustomerProfileInput): Promise<CustomerDetails> {
+    const email = input.email === undefined ? undefined : customerEmailFrom(input.email, this.emailRules);
+    const currency = input.preferredCurrency;
+    if (typeof currency === 'string') {
+      assertEnabledCurrency(currency);
+    }
+    const consents = Object.entries(input.marketingConsents ?? {}).map(([channel, granted]) => {
+      assertMarketingChannel(channel);
+      return { channel, granted };
+    });
+
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    // Los números nacionales se interpretan con el país de la dirección de envío por defecto
+    const phoneNumber = typeof input.phoneNumber === 'string'
+      ? PhoneNumber.create(input.phoneNumber, customer.defaultShippingAddress?.country)
+      : input.phoneNumber;
+    if (email) {
+      await assertEmailAvailable(this.customers, email, this.emailRules, customer.id);
+    }
+
+    if (input.isActive === true && !customer.isActive) {
+      customer.activate();
+    }
+    if (input.name !== undefined) {
+      customer.updateName(input.name);
+    }
+    if (email) {
+      customer.updateEmail(email);
+    }
+    if (phoneNumber !== undefined) {
+      customer.changePhoneNumber(phoneNumber);
+    }
+    if (input.preferredLocale !== undefined || currency !== undefined) {
+      customer.updatePreferences({
+        ...(input.preferredLocale === undefined ? {} : { locale: input.preferredLocale }),
+        ...(currency === undefined ? {} : { currency }),
+      });
+    }
+    const at = input.at ?? new Date();
+    consents.filter(change => !change.granted).forEach(change => customer.withdrawMarketingConsent(change.channel, at));
+    consents.filter(change => change.granted).forEach(change => customer.grantMarketingConsent(change.channel, at));
+    if (input.isActive === false && customer.isActive) {
+      customer.deactivate();
+    }
+
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
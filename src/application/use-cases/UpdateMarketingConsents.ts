@@ -0,0 +1,43 @@
+/**
+ * USE CASE: UpdateMarketingConsents
+ * 
+ * Da o retira los consentimientos de comunicaciones comerciales de un
+ * cliente por canal (`{ email: true, sms: false }`). Los canales omitidos
+ * no cambian. Las retiradas se aplican antes y siempre son posibles;
+ * darlos exige que el cliente esté activo.
+ */
+
+import { CustomerRepository } from '../ports/CustomerRepository';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { assertMarketingChannel } from '../../domain/value-objects/MarketingConsent';
+import { CustomerDetails, toCustomerDetails } from './CustomerDetails';
+import { assertExpectedVersion, ExpectedVersionInput } from './ExpectedVersion';
+
+export interface UpdateMarketingConsentsInput extends ExpectedVersionInput {
+  customerId: string;
+  /** Canal ('email', 'sms', 'phone') -> consentimiento dado o no */
+  consents: Record<string, boolean>;
+  /** Momento del consentimiento (ahora por defecto) */
+  at?: Date;
+}
+
+export class UpdateMarketingConsents {
+  constructor(private readonly customers: CustomerRepository) {}
+
+  async execute(input: UpdateMarketingConsentsInput): Promise<CustomerDetails> {
+    const changes = Object.entries(input.consents).map(([channel, granted]) => {
+      assertMarketingChannel(channel);
+      return { channel, granted };
+    });
+
+    const customer = await this.customers.findById(CustomerId.create(input.customerId));
+    assertExpectedVersion('Customer', customer, input.expectedVersion);
+
+    const at = input.at ?? new Date();
+    changes.filter(change => !change.granted).forEach(change => customer.withdrawMarketingConsent(change.channel, at));
+    changes.filter(change => change.granted).forEach(change => customer.grantMarketingConsent(change.channel, at));
+    await this.customers.save(customer);
+
+    return toCustomerDetails(customer);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * USE CASES - Índice de exportación
+ * 
+ * Uso:
+ * import { PlaceOrder, ConfirmOrder } from '@application/use-cases';
+ */
+
+export * from './ExpectedVersion';
+export * from './OrderDetails';
+export * from './PlaceOrder';
+export * from './AddItemToOrder';
+export * from './RemoveOrderItem';
+export * from './ChangeOrderItemQuantity';
+export * from './ReplaceOrderItems';
+export * from './ChangeOrderAddresses';
+export * from './QuoteOrderShipping';
+export * from './ConfirmOrder';
+export * from './ShipOrder';
+export * from './DeliverOrder';
+export * from './CancelOrder';
+export * from './GetOrderDetails';
+
+export * from './CustomerDetails';
+export * from './CustomerEmailRules';
+export * from './RegisterCustomer';
+export * from './RenameCustomer';
+export * from './ChangeCustomerEmail';
+export * from './ChangeCustomerPhoneNumber';
+export * from './UpdateCustomerPreferences';
+export * from './AddCustomerAddress';
+export * from './ChangeCustomerAddress';
+export * from './RemoveCustomerAddress';
+export * from './UpdateMarketingConsents';
+export * from './UpdateCustomerProfile';
+export * from './DeactivateCustomer';
+export * from './ReactivateCustomer';
+export * from './GetCustomer';
+export * from './GetCustomerOrderHistory';
+export * from './AnonymizeCustomer';
+export * from './ExportCustomerData';
+
+export * from './OrderNotificationTemplates';
+export * from './SendOrderNotification';
+
+export * from './RelayOutboxMessages';
+export * from './DeadLetterDetails';
+export * from './ListDeadLetters';
+export * from './ReplayDeadLetters';
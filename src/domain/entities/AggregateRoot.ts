@@ -0,0 +1,90 @@
+/**
+ * AGGREGATE ROOT
+ * 
+ * Clase base para las Entities que actúan como raíz de un agregado
+ * (`Order`, `Customer`). Acumula los eventos de dominio producidos por
+ * sus métodos de negocio hasta que alguien los recoge.
+ * 
+ * Los eventos solo se registran en operaciones de negocio: reconstruir
+ * un agregado desde persistencia (`reconstitute()`) no emite nada.
+ * 
+ * VERSIÓN: cada evento registrado es una mutación y sube `version` en 1.
+ * `persistedVersion` es la versión con la que se cargó (o se guardó por
+ * última vez) el agregado; los repositorios la comparan con la guardada
+ * para rechazar escrituras obsoletas (control de concurrencia optimista).
+ * 
+ * Los eventos registrados desde el último guardado (`uncommittedEvents`) se
+ * guardan aparte de los pendientes de publicar: un repositorio event-sourced
+ * los necesita aunque alguien ya los haya recogido con `pullDomainEvents()`.
+ */
+
+import { DomainEvent } from '../events/DomainEvent';
+
+export abstract class AggregateRoot<TEvent extends DomainEvent> {
+  private _domainEvents: TEvent[] = [];
+  private _uncommittedEvents: TEvent[] = [];
+  private _version: number;
+  private _persistedVersion: number;
+
+  protected constructor(version = 0) {
+    this._version = version;
+    this._persistedVersion = version;
+  }
+
+  get version(): number {
+    return this._version;
+  }
+
+  get persistedVersion(): number {
+    return this._persistedVersion;
+  }
+
+  /**
+   * Lo llaman los repositorios tras guardar: la versión actual pasa a ser
+   * la persistida
+   */
+  markPersisted(): void {
+    this._persistedVersion = this._version;
+    this._uncommittedEvents = [];
+  }
+
+  /**
+   * Eventos registrados desde la última vez que se guardó el agregado,
+   * en orden: el primero corresponde a la versión `persistedVersion + 1`
+   */
+  get uncommittedEvents(): readonly TEvent[] {
+    return [...this._uncommittedEvents];
+  }
+
+  /**
+   * Registra un evento ocurrido en el agregado
+   */
+  protected record(event: TEvent): void {
+    this._domainEvents.push(event);
+    this._uncommittedEvents.push(event);
+    this._version += 1;
+  }
+
+  /**
+   * Reconstruye el estado aplicando eventos ya guardados (event sourcing).
+   * Cada evento sube la versión, pero ninguno queda pendiente de publicar
+   * ni de guardar.
+   */
+  protected replay(history: readonly TEvent[], apply: (event: TEvent) => void): void {
+    for (const event of history) {
+      apply(event);
+      this._version += 1;
+    }
+    this._persistedVersion = this._version;
+  }
+
+  /**
+   * Devuelve los eventos pendientes y vacía la lista interna,
+   * de modo que cada evento se entrega una sola vez
+   */
+  pullDomainEvents(): TEvent[] {
+    const events = this._domainEvents;
+    this._domainEvents = [];
+    return events;
+  }
+}
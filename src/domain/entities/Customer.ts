@@ -7,39 +7,79 @@
  */
 
 import { Email } from '../value-objects/Email';
-import { ValidationError, InvalidStateError } from '../errors';
+import { CustomerId } from '../value-objects/CustomerId';
+import { PhoneNumber } from '../value-objects/PhoneNumber';
+import { Address } from '../value-objects/Address';
+import { Currency } from '../value-objects/Currency';
+import {
+  MarketingChannel,
+  MarketingConsent,
+  PHONE_MARKETING_CHANNELS,
+} from '../value-objects/MarketingConsent';
+import { ValidationError, InvalidStateError, BusinessRuleViolationError, NotFoundError } from '../errors';
+import { AggregateRoot } from './AggregateRoot';
+import { Order, OrderStatus } from './Order';
+import { createDomainEvent } from '../events/DomainEvent';
+import { CustomerDomainEvent, DefaultAddressKind } from '../events/CustomerEvents';
+import { snapshotAddress } from '../events/OrderEvents';
 
-export class CustomerId {
-  private constructor(readonly value: string) {}
+/**
+ * Dirección guardada en la libreta del cliente con un nombre ("Casa", "Oficina")
+ */
+export interface AddressBookEntry {
+  readonly label: string;
+  readonly address: Address;
+}
 
-  static create(value: string): CustomerId {
-    if (!value || value.trim().length === 0) {
-      throw new Error('CustomerId cannot be empty');
-    }
-    return new CustomerId(value);
-  }
+/**
+ * Preferencias a cambiar; `undefined` deja la actual y `null` la borra
+ */
+export interface CustomerPreferences {
+  locale?: string | null;
+  currency?: Currency | null;
+}
 
-  static generate(): CustomerId {
-    return CustomerId.create(crypto.randomUUID());
-  }
+export interface ReconstituteCustomerOptions {
+  phoneNumber?: PhoneNumber;
+  addressBook?: readonly AddressBookEntry[];
+  defaultShippingLabel?: string;
+  defaultBillingLabel?: string;
+  preferredLocale?: string;
+  preferredCurrency?: Currency;
+  marketingConsents?: readonly MarketingConsent[];
+  anonymizedAt?: Date;
+  /** Versión guardada del agregado (0 si se omite) */
+  version?: number;
+}
 
-  equals(other: CustomerId): boolean {
-    return this.value === other.value;
-  }
+export const MAX_ADDRESS_BOOK_ENTRIES = 10;
+const MAX_LABEL_LENGTH = 40;
 
-  toString(): string {
-    return this.value;
-  }
-}
+/**
+ * Estados de pedido que impiden anonimizar al cliente: el pedido aún
+ * necesita sus datos para confirmarse, enviarse o entregarse
+ */
+export const ANONYMIZATION_BLOCKING_STATUSES: ReadonlySet<OrderStatus> = new Set(['PENDING', 'CONFIRMED', 'SHIPPED']);
 
-export class Customer {
+export class Customer extends AggregateRoot<CustomerDomainEvent> {
   private constructor(
     readonly id: CustomerId,
     private _name: string,
     private _email: Email,
     private _isActive: boolean,
-    readonly createdAt: Date
-  ) {}
+    readonly createdAt: Date,
+    private _phoneNumber: PhoneNumber | null,
+    private _addressBook: AddressBookEntry[],
+    private _defaultShippingLabel: string | null,
+    private _defaultBillingLabel: string | null,
+    private _preferredLocale: string | null,
+    private _preferredCurrency: Currency | null,
+    private readonly _marketingConsents: Map<MarketingChannel, MarketingConsent>,
+    private _anonymizedAt: Date | null,
+    version: number
+  ) {
+    super(version);
+  }
 
   /**
    * Factory method para crear un nuevo cliente
@@ -53,26 +93,74 @@ export class Customer {
       );
     }
 
-    return new Customer(
+    const customer = new Customer(
       CustomerId.generate(),
       name.trim(),
       email,
       true,
-      new Date()
+      new Date(),
+      null,
+      [],
+      null,
+      null,
+      null,
+      null,
+      new Map(),
+      null,
+      0
     );
+
+    customer.record(createDomainEvent(
+      'CustomerRegistered',
+      'Customer',
+      customer.id.value,
+      { name: customer._name, email: email.value },
+      customer.createdAt
+    ));
+
+    return customer;
   }
 
   /**
    * Factory method para reconstruir un cliente existente
+   * con sus datos de perfil y la versión que tenía guardada
+   * @throws ValidationError si una dirección por defecto no está en la libreta
    */
   static reconstitute(
     id: CustomerId,
     name: string,
     email: Email,
     isActive: boolean,
-    createdAt: Date
+    createdAt: Date,
+    options: ReconstituteCustomerOptions = {}
   ): Customer {
-    return new Customer(id, name, email, isActive, createdAt);
+    const addressBook = [...(options.addressBook ?? [])];
+
+    for (const [field, label] of [
+      ['defaultShippingLabel', options.defaultShippingLabel],
+      ['defaultBillingLabel', options.defaultBillingLabel],
+    ] as const) {
+      if (label !== undefined && !addressBook.some(entry => entry.label === label)) {
+        throw ValidationError.single('Customer', field, 'Not in the address book', label);
+      }
+    }
+
+    return new Customer(
+      id,
+      name,
+      email,
+      isActive,
+      createdAt,
+      options.phoneNumber ?? null,
+      addressBook,
+      options.defaultShippingLabel ?? null,
+      options.defaultBillingLabel ?? null,
+      options.preferredLocale ?? null,
+      options.preferredCurrency ?? null,
+      new Map((options.marketingConsents ?? []).map(consent => [consent.channel, consent])),
+      options.anonymizedAt ?? null,
+      options.version ?? 0
+    );
   }
 
   // Getters
@@ -88,10 +176,63 @@ export class Customer {
     return this._isActive;
   }
 
+  get phoneNumber(): PhoneNumber | null {
+    return this._phoneNumber;
+  }
+
+  get addressBook(): readonly AddressBookEntry[] {
+    return [...this._addressBook];
+  }
+
+  get defaultShippingLabel(): string | null {
+    return this._defaultShippingLabel;
+  }
+
+  get defaultBillingLabel(): string | null {
+    return this._defaultBillingLabel;
+  }
+
+  get defaultShippingAddress(): Address | null {
+    return this.findAddress(this._defaultShippingLabel)?.address ?? null;
+  }
+
+  get defaultBillingAddress(): Address | null {
+    return this.findAddress(this._defaultBillingLabel)?.address ?? null;
+  }
+
+  get preferredLocale(): string | null {
+    return this._preferredLocale;
+  }
+
+  get preferredCurrency(): Currency | null {
+    return this._preferredCurrency;
+  }
+
+  /**
+   * Consentimientos registrados alguna vez (dados o retirados)
+   */
+  get marketingConsents(): readonly MarketingConsent[] {
+    return [...this._marketingConsents.values()];
+  }
+
+  hasMarketingConsent(channel: MarketingChannel): boolean {
+    return this._marketingConsents.get(channel)?.granted ?? false;
+  }
+
+  get anonymizedAt(): Date | null {
+    return this._anonymizedAt;
+  }
+
+  get isAnonymized(): boolean {
+    return this._anonymizedAt !== null;
+  }
+
   /**
    * LÓGICA DE DOMINIO: Actualizar el nombre del cliente
+   * @throws InvalidStateError si el cliente está anonimizado
    */
   updateName(newName: string): void {
+    this.assertNotAnonymized('rename');
     if (!newName || newName.trim().length === 0) {
       throw ValidationError.single(
         'Customer',
@@ -99,14 +240,236 @@ export class Customer {
         'Customer name cannot be empty'
       );
     }
+    const previousName = this._name;
     this._name = newName.trim();
+    this.record(createDomainEvent('CustomerRenamed', 'Customer', this.id.value, {
+      previousName,
+      name: this._name,
+    }));
   }
 
   /**
    * LÓGICA DE DOMINIO: Actualizar el email del cliente
+   * @throws InvalidStateError si el cliente está anonimizado
    */
   updateEmail(newEmail: Email): void {
+    this.assertNotAnonymized('change email of');
+    if (this._email.equals(newEmail)) {
+      return;
+    }
+
+    const previousEmail = this._email;
     this._email = newEmail;
+    this.record(createDomainEvent('CustomerEmailChanged', 'Customer', this.id.value, {
+      previousEmail: previousEmail.value,
+      email: newEmail.value,
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Cambiar (o quitar, con `null`) el teléfono
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws BusinessRuleViolationError si se quita con consentimientos por SMS o teléfono
+   */
+  changePhoneNumber(phoneNumber: PhoneNumber | null): void {
+    this.assertEditable('change phone number of');
+    if (phoneNumber === null ? this._phoneNumber === null : this._phoneNumber?.equals(phoneNumber)) {
+      return;
+    }
+
+    const grantedPhoneChannels = [...PHONE_MARKETING_CHANNELS].filter(channel => this.hasMarketingConsent(channel));
+    if (phoneNumber === null && grantedPhoneChannels.length > 0) {
+      throw new BusinessRuleViolationError(
+        'PhoneRequiredForConsent',
+        'Withdraw SMS and phone marketing consents before removing the phone number',
+        { customerId: this.id.value, channels: grantedPhoneChannels }
+      );
+    }
+
+    const previousPhoneNumber = this._phoneNumber;
+    this._phoneNumber = phoneNumber;
+    this.record(createDomainEvent('CustomerPhoneNumberChanged', 'Customer', this.id.value, {
+      previousPhoneNumber: previousPhoneNumber?.value ?? null,
+      phoneNumber: phoneNumber?.value ?? null,
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Guardar una dirección en la libreta.
+   * La primera dirección pasa a ser la de envío y facturación por defecto.
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws ValidationError si la etiqueta está vacía, es muy larga o ya existe
+   * @throws BusinessRuleViolationError si la libreta está llena
+   */
+  addAddress(label: string, address: Address): void {
+    this.assertEditable('add address to');
+    const trimmed = label.trim();
+
+    if (trimmed.length === 0 || trimmed.length > MAX_LABEL_LENGTH) {
+      throw ValidationError.single('Customer', 'label', `Must have between 1 and ${MAX_LABEL_LENGTH} characters`, label);
+    }
+    if (this.findAddress(trimmed)) {
+      throw ValidationError.single('Customer', 'label', 'Address label already in use', label);
+    }
+    if (this._addressBook.length >= MAX_ADDRESS_BOOK_ENTRIES) {
+      throw new BusinessRuleViolationError(
+        'AddressBookLimit',
+        `A customer can save at most ${MAX_ADDRESS_BOOK_ENTRIES} addresses`,
+        { customerId: this.id.value, limit: MAX_ADDRESS_BOOK_ENTRIES }
+      );
+    }
+
+    this._addressBook.push({ label: trimmed, address });
+    this.record(createDomainEvent('CustomerAddressAdded', 'Customer', this.id.value, {
+      label: trimmed,
+      address: snapshotAddress(address),
+    }));
+
+    if (this._defaultShippingLabel === null) {
+      this.changeDefaultLabel('shipping', trimmed);
+    }
+    if (this._defaultBillingLabel === null) {
+      this.changeDefaultLabel('billing', trimmed);
+    }
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Sustituir una dirección de la libreta
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws NotFoundError si no hay ninguna dirección con esa etiqueta
+   */
+  changeAddress(label: string, address: Address): void {
+    this.assertEditable('change address of');
+    const entry = this.requireAddress(label);
+    if (entry.address.equals(address)) {
+      return;
+    }
+
+    this._addressBook = this._addressBook.map(current =>
+      current === entry ? { label: entry.label, address } : current
+    );
+    this.record(createDomainEvent('CustomerAddressChanged', 'Customer', this.id.value, {
+      label: entry.label,
+      address: snapshotAddress(address),
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Quitar una dirección de la libreta.
+   * Si era una dirección por defecto, el cliente se queda sin ella.
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws NotFoundError si no hay ninguna dirección con esa etiqueta
+   */
+  removeAddress(label: string): void {
+    this.assertEditable('remove address from');
+    const entry = this.requireAddress(label);
+
+    this._addressBook = this._addressBook.filter(current => current !== entry);
+    this.record(createDomainEvent('CustomerAddressRemoved', 'Customer', this.id.value, {
+      label: entry.label,
+    }));
+
+    if (this._defaultShippingLabel === entry.label) {
+      this.changeDefaultLabel('shipping', null);
+    }
+    if (this._defaultBillingLabel === entry.label) {
+      this.changeDefaultLabel('billing', null);
+    }
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Elegir la dirección de envío por defecto
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws NotFoundError si no hay ninguna dirección con esa etiqueta
+   */
+  setDefaultShippingAddress(label: string): void {
+    this.assertEditable('change default shipping address of');
+    const entry = this.requireAddress(label);
+    if (this._defaultShippingLabel !== entry.label) {
+      this.changeDefaultLabel('shipping', entry.label);
+    }
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Elegir la dirección de facturación por defecto
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws NotFoundError si no hay ninguna dirección con esa etiqueta
+   */
+  setDefaultBillingAddress(label: string): void {
+    this.assertEditable('change default billing address of');
+    const entry = this.requireAddress(label);
+    if (this._defaultBillingLabel !== entry.label) {
+      this.changeDefaultLabel('billing', entry.label);
+    }
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Cambiar el idioma y/o la moneda preferidos.
+   * El idioma es una etiqueta BCP 47 y se guarda en su forma canónica ('es-ES').
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws ValidationError si el idioma no es una etiqueta BCP 47 válida
+   */
+  updatePreferences(preferences: CustomerPreferences): void {
+    this.assertEditable('change preferences of');
+
+    const locale = preferences.locale === undefined
+      ? this._preferredLocale
+      : preferences.locale === null ? null : canonicalLocale(preferences.locale);
+    const currency = preferences.currency === undefined ? this._preferredCurrency : preferences.currency;
+
+    if (locale === this._preferredLocale && currency === this._preferredCurrency) {
+      return;
+    }
+
+    this._preferredLocale = locale;
+    this._preferredCurrency = currency;
+    this.record(createDomainEvent('CustomerPreferencesChanged', 'Customer', this.id.value, {
+      preferredLocale: locale,
+      preferredCurrency: currency,
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Registrar el consentimiento para comunicaciones
+   * comerciales por un canal. Si ya estaba dado, no cambia su fecha.
+   * @throws InvalidStateError si el cliente está desactivado
+   * @throws BusinessRuleViolationError si el canal es SMS o teléfono y no hay teléfono
+   */
+  grantMarketingConsent(channel: MarketingChannel, at: Date = new Date()): void {
+    this.assertEditable('grant marketing consent to');
+    if (this.hasMarketingConsent(channel)) {
+      return;
+    }
+
+    if (PHONE_MARKETING_CHANNELS.has(channel) && this._phoneNumber === null) {
+      throw new BusinessRuleViolationError(
+        'PhoneRequiredForConsent',
+        `Marketing consent for '${channel}' requires a phone number`,
+        { customerId: this.id.value, channel }
+      );
+    }
+
+    this._marketingConsents.set(channel, {
+      channel,
+      granted: true,
+      grantedAt: at,
+      withdrawnAt: this._marketingConsents.get(channel)?.withdrawnAt ?? null,
+    });
+    this.record(createDomainEvent('CustomerMarketingConsentGranted', 'Customer', this.id.value, { channel }, at));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Retirar el consentimiento de un canal.
+   * Retirarlo siempre es posible, también con el cliente desactivado.
+   */
+  withdrawMarketingConsent(channel: MarketingChannel, at: Date = new Date()): void {
+    const consent = this._marketingConsents.get(channel);
+    if (!consent?.granted) {
+      return;
+    }
+
+    this._marketingConsents.set(channel, { ...consent, granted: false, withdrawnAt: at });
+    this.record(createDomainEvent('CustomerMarketingConsentWithdrawn', 'Customer', this.id.value, { channel }, at));
   }
 
   /**
@@ -121,12 +484,15 @@ export class Customer {
       );
     }
     this._isActive = false;
+    this.record(createDomainEvent('CustomerDeactivated', 'Customer', this.id.value, {}));
   }
 
   /**
    * LÓGICA DE DOMINIO: Reactivar el cliente
+   * @throws InvalidStateError si ya está activo o está anonimizado
    */
   activate(): void {
+    this.assertNotAnonymized('activate');
     if (this._isActive) {
       throw new InvalidStateError(
         'Customer',
@@ -135,6 +501,113 @@ export class Customer {
       );
     }
     this._isActive = true;
+    this.record(createDomainEvent('CustomerReactivated', 'Customer', this.id.value, {}));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Anonimizar el cliente (derecho de supresión, RGPD).
+   * 
+   * Sustituye nombre y email por valores aleatorios, borra teléfono,
+   * direcciones y preferencias, retira los consentimientos y desactiva al
+   * cliente. Es irreversible: los valores nuevos no se derivan de los
+   * antiguos. El `CustomerId` no cambia, así que sus pedidos siguen
+   * ligados a él.
+   * 
+   * @param orders pedidos del cliente
+   * @throws InvalidStateError si ya estaba anonimizado
+   * @throws BusinessRuleViolationError si algún pedido está pendiente, confirmado o enviado
+   */
+  anonymize(orders: readonly Order[], at: Date = new Date()): void {
+    this.assertNotAnonymized('anonymize');
+
+    const openOrders = orders.filter(order => ANONYMIZATION_BLOCKING_STATUSES.has(order.status));
+    if (openOrders.length > 0) {
+      throw new BusinessRuleViolationError(
+        'NoOpenOrders',
+        'Customers with pending, confirmed or shipped orders cannot be anonymized',
+        { customerId: this.id.value, orderIds: openOrders.map(order => order.id.value) }
+      );
+    }
+
+    this._email = Email.pseudonym();
+    this._name = `Anonymized customer ${this._email.getLocalPart().slice(0, 8)}`;
+    this._phoneNumber = null;
+    this._addressBook = [];
+    this._defaultShippingLabel = null;
+    this._defaultBillingLabel = null;
+    this._preferredLocale = null;
+    this._preferredCurrency = null;
+    for (const consent of this._marketingConsents.values()) {
+      if (consent.granted) {
+        this._marketingConsents.set(consent.channel, { ...consent, granted: false, withdrawnAt: at });
+      }
+    }
+    this._isActive = false;
+    this._anonymizedAt = at;
+
+    // Sin datos personales: el evento acaba en el outbox y en otros sistemas
+    this.record(createDomainEvent('CustomerAnonymized', 'Customer', this.id.value, {}, at));
+  }
+
+  /**
+   * REGLA DE NEGOCIO: solo los clientes activos pueden hacer pedidos
+   * @throws BusinessRuleViolationError si el cliente está desactivado
+   */
+  assertCanPlaceOrders(): void {
+    if (!this._isActive) {
+      throw new BusinessRuleViolationError(
+        'ActiveCustomerRequired',
+        'Inactive customers cannot place orders',
+        { customerId: this.id.value }
+      );
+    }
+  }
+
+  /**
+   * Los datos de perfil solo se editan con el cliente activo
+   * @throws InvalidStateError si el cliente está desactivado
+   */
+  private assertEditable(action: string): void {
+    if (!this._isActive) {
+      throw new InvalidStateError('Customer', 'inactive', action);
+    }
+  }
+
+  /**
+   * @throws InvalidStateError si el cliente está anonimizado
+   */
+  private assertNotAnonymized(action: string): void {
+    if (this._anonymizedAt !== null) {
+      throw new InvalidStateError('Customer', 'anonymized', action);
+    }
+  }
+
+  /**
+   * Las etiquetas no distinguen mayúsculas: "Casa" y "casa" son la misma
+   */
+  private findAddress(label: string | null): AddressBookEntry | undefined {
+    const key = label?.trim().toLowerCase();
+    return this._addressBook.find(entry => entry.label.toLowerCase() === key);
+  }
+
+  /**
+   * @throws NotFoundError si no hay ninguna dirección con esa etiqueta
+   */
+  private requireAddress(label: string): AddressBookEntry {
+    const entry = this.findAddress(label);
+    if (!entry) {
+      throw new NotFoundError('CustomerAddress', label);
+    }
+    return entry;
+  }
+
+  private changeDefaultLabel(kind: DefaultAddressKind, label: string | null): void {
+    if (kind === 'shipping') {
+      this._defaultShippingLabel = label;
+    } else {
+      this._defaultBillingLabel = label;
+    }
+    this.record(createDomainEvent('CustomerDefaultAddressChanged', 'Customer', this.id.value, { kind, label }));
   }
 
   /**
@@ -147,4 +620,20 @@ export class Customer {
   toString(): string {
     return `Customer ${this.id.toString()} - ${this._name} (${this._email.toString()})`;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Forma canónica de una etiqueta de idioma BCP 47 ('ES-es' -> 'es-ES')
+ * @throws ValidationError si no es una etiqueta válida
+ */
+function canonicalLocale(value: string): string {
+  try {
+    const [locale] = Intl.getCanonicalLocales(value.trim());
+    if (locale !== undefined) {
+      return locale;
+    }
+  } catch {
+    // RangeError: etiqueta mal formada
+  }
+  throw ValidationError.single('Customer', 'preferredLocale', 'Must be a BCP 47 language tag', value);
+}
@@ -16,50 +16,182 @@
  */
 
 import { OrderId } from '../value-objects/OrderId';
+import { CustomerId } from '../value-objects/CustomerId';
 import { Price } from '../value-objects/Price';
 import { Email } from '../value-objects/Email';
-import { InvalidStateError, ValidationError } from '../errors';
+import { Currency, assertEnabledCurrency } from '../value-objects/Currency';
+import { Coupon } from '../value-objects/Coupon';
+import { MAX_DISCOUNT_PERCENTAGE } from '../value-objects/Discount';
+import { Address } from '../value-objects/Address';
+import { OrderItem } from '../value-objects/OrderItem';
+import { CurrencyConverter } from '../services/CurrencyConverter';
+import { TaxBreakdown, TaxCalculator } from '../services/TaxCalculator';
+import { TaxJurisdiction } from '../services/TaxPolicy';
+import { ShippingRateCalculator } from '../services/ShippingRateCalculator';
+import {
+  BusinessRuleViolationError,
+  InvalidStateError,
+  NotFoundError,
+  ValidationError,
+} from '../errors';
+import { AggregateRoot } from './AggregateRoot';
+import {
+  OrderAction,
+  OrderGuardFacts,
+  OrderStatus,
+  actionsFrom,
+  canTransition,
+  failedGuard,
+  getTransition,
+  transitionForEvent,
+} from './OrderStateMachine';
+import { createDomainEvent } from '../events/DomainEvent';
+import {
+  OrderDomainEvent,
+  restoreAddress,
+  restoreCoupon,
+  restoreMoney,
+  restoreOrderItem,
+  snapshotAddress,
+  snapshotCoupon,
+  snapshotMoney,
+  snapshotOrderItem,
+} from '../events/OrderEvents';
 
-export type OrderStatus = 'PENDING' | 'CONFIRMED' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED';
+export type { OrderStatus, OrderAction } from './OrderStateMachine';
 
-export interface OrderItem {
-  productId: string;
-  productName: string;
-  quantity: number;
-  unitPrice: Price;
+/**
+ * Entrada del historial de estados: quién, cuándo y por qué cambió el pedido.
+ * La primera entrada (`from: null`) corresponde a la creación.
+ */
+export interface OrderStatusChange {
+  readonly from: OrderStatus | null;
+  readonly to: OrderStatus;
+  readonly occurredAt: Date;
+  readonly actor?: string;
+  readonly reason?: string;
+}
+
+/**
+ * Desglose de una línea: importe bruto, descuento de línea y neto
+ */
+export interface OrderLinePricing {
+  readonly productId: string;
+  readonly quantity: number;
+  readonly unitPrice: Price;
+  readonly subtotal: Price;
+  readonly discount: Price;
+  readonly total: Price;
+}
+
+/**
+ * Desglose del pedido. Los descuentos de línea se aplican primero y el
+ * descuento de pedido se calcula sobre lo que queda; el envío no tiene
+ * descuento. Entre todos los descuentos nunca se rebaja más del
+ * `MAX_DISCOUNT_PERCENTAGE` del subtotal:
+ * total = subtotal - lineDiscounts - orderDiscount + shipping
+ */
+export interface OrderPricing {
+  readonly lines: readonly OrderLinePricing[];
+  readonly subtotal: Price;
+  readonly lineDiscounts: Price;
+  readonly orderDiscount: Price;
+  readonly totalDiscount: Price;
+  readonly shipping: Price;
+  readonly total: Price;
+}
+
+/**
+ * Datos opcionales al crear un pedido
+ */
+export interface CreateOrderOptions {
+  /** Cliente registrado que hace el pedido (sin él, es un pedido de invitado) */
+  customerId?: CustomerId;
+  shippingAddress?: Address;
+  billingAddress?: Address;
+}
+
+/**
+ * Datos opcionales al reconstruir un pedido desde persistencia
+ */
+export interface ReconstituteOrderOptions {
+  customerId?: CustomerId;
+  statusHistory?: readonly OrderStatusChange[];
+  coupon?: Coupon;
+  shippingAddress?: Address;
+  billingAddress?: Address;
+  shippingCost?: Price;
+  /** Versión guardada del agregado (0 si se omite) */
+  version?: number;
 }
 
-export class Order {
+export class Order extends AggregateRoot<OrderDomainEvent> {
   private constructor(
     readonly id: OrderId,
-    readonly customerEmail: Email,
+    private _customerEmail: Email,
+    readonly customerId: CustomerId | null,
     private _items: OrderItem[],
     private _status: OrderStatus,
-    readonly createdAt: Date
-  ) {}
+    readonly createdAt: Date,
+    private _statusHistory: OrderStatusChange[],
+    private _coupon: Coupon | null,
+    private _shippingAddress: Address | null,
+    private _billingAddress: Address | null,
+    private _shippingCost: Price | null,
+    version: number
+  ) {
+    super(version);
+  }
 
   /**
    * Factory method para crear una nueva orden
+   * Solo los pedidos nuevos exigen una moneda habilitada en `CurrencyRegistry`;
+   * los existentes se siguen leyendo aunque su moneda se haya deshabilitado.
+   * @throws ValidationError si la moneda no está habilitada
    */
   static create(
     customerEmail: Email,
-    items: OrderItem[]
+    items: readonly OrderItem[],
+    options: CreateOrderOptions = {}
   ): Order {
-    if (items.length === 0) {
-      throw ValidationError.single(
-        'Order',
-        'items',
-        'Order must have at least one item'
-      );
+    const validItems = Order.validItems(items);
+    const currency = validItems[0]?.unitPrice.currency;
+    if (currency !== undefined) {
+      assertEnabledCurrency(currency);
     }
 
-    return new Order(
+    const createdAt = new Date();
+    const order = new Order(
       OrderId.generate(),
       customerEmail,
-      [...items], // Copia defensiva
+      options.customerId ?? null,
+      validItems,
       'PENDING',
-      new Date()
+      createdAt,
+      [{ from: null, to: 'PENDING', occurredAt: createdAt }],
+      null,
+      options.shippingAddress ?? null,
+      options.billingAddress ?? null,
+      null,
+      0
     );
+
+    order.record(createDomainEvent(
+      'OrderPlaced',
+      'Order',
+      order.id.value,
+      {
+        customerEmail: customerEmail.value,
+        ...(options.customerId ? { customerId: options.customerId.value } : {}),
+        items: order._items.map(snapshotOrderItem),
+        total: snapshotMoney(order.calculateTotal()),
+        ...(options.shippingAddress ? { shippingAddress: snapshotAddress(options.shippingAddress) } : {}),
+        ...(options.billingAddress ? { billingAddress: snapshotAddress(options.billingAddress) } : {}),
+      },
+      order.createdAt
+    ));
+
+    return order;
   }
 
   /**
@@ -68,18 +200,100 @@ export class Order {
   static reconstitute(
     id: OrderId,
     customerEmail: Email,
-    items: OrderItem[],
+    items: readonly OrderItem[],
     status: OrderStatus,
-    createdAt: Date
+    createdAt: Date,
+    options: ReconstituteOrderOptions = {}
   ): Order {
-    return new Order(id, customerEmail, items, status, createdAt);
+    const statusHistory = [...(options.statusHistory ?? [])];
+
+    const lastChange = statusHistory[statusHistory.length - 1];
+    if (lastChange && lastChange.to !== status) {
+      throw ValidationError.single(
+        'Order',
+        'statusHistory',
+        `Status history ends in '${lastChange.to}' but the order is '${status}'`
+      );
+    }
+
+    return new Order(
+      id,
+      customerEmail,
+      options.customerId ?? null,
+      [...items],
+      status,
+      createdAt,
+      statusHistory,
+      options.coupon ?? null,
+      options.shippingAddress ?? null,
+      options.billingAddress ?? null,
+      options.shippingCost ?? null,
+      options.version ?? 0
+    );
+  }
+
+  /**
+   * Factory method para reconstruir un pedido reproduciendo sus eventos
+   * (event sourcing). La versión resultante es el número de eventos.
+   *
+   * Con `snapshot` (un pedido ya reconstruido en una versión intermedia),
+   * `history` son solo los eventos posteriores a esa versión.
+   * @throws ValidationError si el historial no empieza por `OrderPlaced`
+   * o tiene eventos de otro pedido
+   */
+  static fromHistory(history: readonly OrderDomainEvent[], snapshot?: Order): Order {
+    const order = snapshot ?? Order.placedBy(history[0]);
+
+    const foreign = history.find(event => event.aggregateId !== order.id.value);
+    if (foreign) {
+      throw ValidationError.single('Order', 'history', `Event belongs to order ${foreign.aggregateId}`, foreign.eventId);
+    }
+
+    order.replay(history, event => order.apply(event));
+    return order;
+  }
+
+  /**
+   * Pedido vacío (versión 0) listo para reproducir su `OrderPlaced`
+   */
+  private static placedBy(first: OrderDomainEvent | undefined): Order {
+    if (!first || first.eventType !== 'OrderPlaced') {
+      throw ValidationError.single('Order', 'history', 'History must start with OrderPlaced', first?.eventType);
+    }
+
+    return new Order(
+      OrderId.create(first.aggregateId),
+      Email.create(first.payload.customerEmail, { allowQuotedLocalPart: true, allowPseudonym: true }),
+      first.payload.customerId === undefined ? null : CustomerId.create(first.payload.customerId),
+      [],
+      'PENDING',
+      first.occurredAt,
+      [],
+      null,
+      null,
+      null,
+      null,
+      0
+    );
   }
 
   /**
    * Getters para acceder al estado interno de forma controlada
    */
+  get customerEmail(): Email {
+    return this._customerEmail;
+  }
+
   get items(): readonly OrderItem[] {
-    return [...this._items]; // Retornar copia para mantener inmutabilidad
+    return [...this._items]; // Las líneas son inmutables; basta con copiar la lista
+  }
+
+  /**
+   * Importe de la línea de un producto
+   * @throws NotFoundError si el producto no está en el pedido
+   */
+  lineTotal(productId: string): Price {
+    return this.findItem(productId).lineTotal();
   }
 
   get status(): OrderStatus {
@@ -87,126 +301,618 @@ export class Order {
   }
 
   /**
-   * LÓGICA DE DOMINIO: Calcular el total del pedido
+   * Historial ordenado de cambios de estado, empezando por la creación
+   */
+  get statusHistory(): readonly OrderStatusChange[] {
+    return this._statusHistory.map(change => ({ ...change }));
+  }
+
+  /**
+   * Cupón aplicado al pedido (como mucho uno)
+   */
+  get coupon(): Coupon | null {
+    return this._coupon;
+  }
+
+  get shippingAddress(): Address | null {
+    return this._shippingAddress;
+  }
+
+  get billingAddress(): Address | null {
+    return this._billingAddress;
+  }
+
+  /**
+   * Coste de envío presupuestado con `quoteShipping` (null si aún no se ha hecho)
+   */
+  get shippingCost(): Price | null {
+    return this._shippingCost;
+  }
+
+  /**
+   * Peso total del pedido en gramos
+   */
+  totalWeightGrams(): number {
+    return this._items.reduce((total, item) => total + item.quantity * (item.weightGrams ?? 0), 0);
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Calcular el total del pedido, con descuentos y envío
    */
   calculateTotal(): Price {
-    if (this._items.length === 0) {
-      return Price.create(0, 'USD');
-    }
+    return this.pricing().total;
+  }
 
-    const firstItem = this._items[0];
-    if (!firstItem) {
-      return Price.create(0, 'USD');
-    }
+  /**
+   * LÓGICA DE DOMINIO: Desglose de subtotal, descuentos y total
+   */
+  pricing(): OrderPricing {
+    return this.priceWith(this._coupon);
+  }
 
-    let total = firstItem.unitPrice.multiply(firstItem.quantity);
+  /**
+   * LÓGICA DE DOMINIO: Calcular el total en una moneda concreta
+   * Se convierte el total de `calculateTotal()` (con descuentos y envío),
+   * así los dos totales coinciden. Los pedidos antiguos con líneas en
+   * monedas distintas no tienen total propio: se convierte cada línea por
+   * separado (útil para informes multi-moneda), y no pueden tener cupón ni
+   * envío porque no habría en qué moneda aplicarlos.
+   * @throws BusinessRuleViolationError si un pedido multi-moneda tiene cupón o envío
+   */
+  calculateTotalIn(currency: Currency, converter: CurrencyConverter): Price {
+    const currencies = new Set(this._items.map(item => item.unitPrice.currency));
+    if (currencies.size <= 1) {
+      return converter.convert(this.calculateTotal(), currency).result;
+    }
 
-    for (let i = 1; i < this._items.length; i++) {
-      const item = this._items[i];
-      if (item) {
-        const itemTotal = item.unitPrice.multiply(item.quantity);
-        total = total.add(itemTotal);
-      }
+    if (this._coupon || this._shippingCost) {
+      throw new BusinessRuleViolationError(
+        'CurrencyMatch',
+        'Orders with items in several currencies cannot have a coupon or a shipping cost',
+        { orderId: this.id.value, currencies: [...currencies] }
+      );
     }
+    return Price.sum(
+      this._items.map(item => converter.convert(item.lineTotal(), currency).result),
+      currency
+    );
+  }
 
-    return total;
+  /**
+   * LÓGICA DE DOMINIO: Desglose de impuestos (neto, impuesto por tipo y bruto)
+   * del total con descuentos y envío, según la política del `TaxCalculator`
+   */
+  calculateTaxes(calculator: TaxCalculator, jurisdiction: TaxJurisdiction): TaxBreakdown {
+    return calculator.calculate(this.pricing(), jurisdiction);
   }
 
   /**
    * LÓGICA DE DOMINIO: Confirmar el pedido
    * Las Entities encapsulan las reglas de transición de estado
+   * (definidas de forma declarativa en `OrderStateMachine`): hacen falta
+   * las dos direcciones. Presupuestar el envío con `quoteShipping` es opcional
+   * @throws BusinessRuleViolationError (`AddressesRequired`)
    */
-  confirm(): void {
-    if (this._status !== 'PENDING') {
-      throw new InvalidStateError(
-        'Order',
-        this._status,
-        'confirm',
-        ['PENDING']
+  confirm(actor?: string): void {
+    this.transition('confirm', { actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Registrar que el cobro de un pedido confirmado ha fallado
+   */
+  failPayment(reason?: string, actor?: string): void {
+    this.transition('failPayment', { reason, actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Reintentar el cobro tras un fallo de pago
+   */
+  retryPayment(actor?: string): void {
+    this.transition('retryPayment', { actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Marcar como enviado
+   */
+  ship(actor?: string): void {
+    this.transition('ship', { actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Marcar como entregado
+   */
+  deliver(actor?: string): void {
+    this.transition('deliver', { actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Cancelar el pedido
+   */
+  cancel(reason?: string, actor?: string): void {
+    this.transition('cancel', { reason, actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: El cliente solicita devolver un pedido entregado
+   */
+  requestReturn(reason?: string, actor?: string): void {
+    this.transition('requestReturn', { reason, actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Rechazar una solicitud de devolución
+   */
+  rejectReturn(reason?: string, actor?: string): void {
+    this.transition('rejectReturn', { reason, actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Registrar que la mercancía devuelta se ha recibido
+   */
+  markReturned(actor?: string): void {
+    this.transition('markReturned', { actor });
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Reembolsar un pedido devuelto
+   */
+  refund(actor?: string): void {
+    this.transition('refund', { actor });
+  }
+
+  /**
+   * Indica si el pedido puede pasar directamente al estado indicado,
+   * cumpliendo también las guardas de la transición
+   */
+  canTransitionTo(status: OrderStatus): boolean {
+    return canTransition(this._status, status, this.guardFacts());
+  }
+
+  /**
+   * Acciones válidas en el estado actual y con los datos actuales del
+   * pedido (útil para mostrar solo los botones que tienen sentido en una
+   * interfaz)
+   */
+  availableActions(): OrderAction[] {
+    return actionsFrom(this._status, this.guardFacts());
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Añadir un item al pedido
+   * Si el producto ya está en el pedido se suma la cantidad a su línea.
+   */
+  addItem(item: OrderItem): void {
+    this.assertPending('add items');
+
+    const existing = this._items.find(i => i.productId === item.productId);
+    this.changeItems(
+      existing
+        ? this._items.map(i => (i === existing ? existing.withQuantity(existing.quantity + item.quantity) : i))
+        : [...this._items, item]
+    );
+
+    this.record(createDomainEvent('OrderItemAdded', 'Order', this.id.value, {
+      item: snapshotOrderItem(item),
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Quitar la línea de un producto
+   * @throws NotFoundError si el producto no está en el pedido
+   */
+  removeItem(productId: string): void {
+    this.assertPending('remove items');
+
+    const item = this.findItem(productId);
+    this.changeItems(this._items.filter(i => i !== item));
+
+    this.record(createDomainEvent('OrderItemRemoved', 'Order', this.id.value, {
+      productId: item.productId,
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Cambiar la cantidad de la línea de un producto
+   * @throws NotFoundError si el producto no está en el pedido
+   * @throws ValidationError si la cantidad no es un entero positivo
+   */
+  changeQuantity(productId: string, quantity: number): void {
+    this.assertPending('change quantities');
+
+    const item = this.findItem(productId);
+    this.changeItems(this._items.map(i => (i === item ? item.withQuantity(quantity) : i)));
+
+    this.record(createDomainEvent('OrderItemQuantityChanged', 'Order', this.id.value, {
+      productId: item.productId,
+      previousQuantity: item.quantity,
+      quantity,
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Sustituir todas las líneas del pedido
+   */
+  replaceItems(items: readonly OrderItem[]): void {
+    this.assertPending('replace items');
+
+    this.changeItems(Order.validItems(items));
+
+    this.record(createDomainEvent('OrderItemsReplaced', 'Order', this.id.value, {
+      items: this._items.map(snapshotOrderItem),
+    }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Cambiar la dirección de envío
+   * El envío presupuestado deja de valer: hay que volver a llamar a `quoteShipping`
+   */
+  changeShippingAddress(address: Address): void {
+    this.assertPending('change shipping address');
+
+    this._shippingAddress = address;
+    this._shippingCost = null;
+    this.recordAddressChange('SHIPPING', address);
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Cambiar la dirección de facturación
+   */
+  changeBillingAddress(address: Address): void {
+    this.assertPending('change billing address');
+
+    this._billingAddress = address;
+    this.recordAddressChange('BILLING', address);
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Presupuestar el envío a la dirección de envío según
+   * el peso del pedido. El coste pasa a formar parte de `pricing()`.
+   */
+  quoteShipping(calculator: ShippingRateCalculator): Price {
+    this.assertPending('quote shipping');
+
+    if (!this._shippingAddress) {
+      throw new BusinessRuleViolationError(
+        'ShippingAddressRequired',
+        'A shipping address is required to quote shipping',
+        { orderId: this.id.value }
       );
     }
-    this._status = 'CONFIRMED';
+
+    const weightGrams = this.totalWeightGrams();
+    const cost = calculator.rateFor(this._shippingAddress, weightGrams);
+    const currency = this.pricing().subtotal.currency;
+    if (cost.currency !== currency) {
+      throw new BusinessRuleViolationError(
+        'CurrencyMatch',
+        'Shipping cost must be in the order currency',
+        { orderCurrency: currency, shippingCurrency: cost.currency }
+      );
+    }
+
+    this._shippingCost = cost;
+    this.record(createDomainEvent('OrderShippingQuoted', 'Order', this.id.value, {
+      cost: snapshotMoney(cost),
+      weightGrams,
+    }));
+    return cost;
   }
 
   /**
-   * LÓGICA DE DOMINIO: Marcar como enviado
+   * LÓGICA DE DOMINIO: Aplicar un cupón promocional
+   * Solo mientras el pedido está PENDING y solo un cupón por pedido.
+   * `appliedAt` es el momento con el que se comprueba la caducidad.
    */
-  ship(): void {
-    if (this._status !== 'CONFIRMED') {
-      throw new InvalidStateError(
-        'Order',
-        this._status,
-        'ship',
-        ['CONFIRMED']
+  applyCoupon(coupon: Coupon, appliedAt: Date = new Date()): void {
+    this.assertPending('apply coupon');
+
+    if (this._coupon) {
+      throw new BusinessRuleViolationError(
+        'OneCouponPerOrder',
+        'Only one coupon can be applied per order',
+        { appliedCoupon: this._coupon.code, attemptedCoupon: coupon.code }
       );
     }
-    this._status = 'SHIPPED';
+
+    coupon.assertApplicable(this.pricing().subtotal, appliedAt);
+    this.priceWith(coupon); // Falla si el descuento está en otra moneda
+
+    this._coupon = coupon;
+    this.record(createDomainEvent('OrderCouponApplied', 'Order', this.id.value, {
+      coupon: snapshotCoupon(coupon),
+    }));
   }
 
   /**
-   * LÓGICA DE DOMINIO: Marcar como entregado
+   * LÓGICA DE DOMINIO: Quitar el cupón aplicado (si lo hay)
    */
-  deliver(): void {
-    if (this._status !== 'SHIPPED') {
-      throw new InvalidStateError(
+  removeCoupon(): void {
+    this.assertPending('remove coupon');
+
+    if (!this._coupon) {
+      return;
+    }
+
+    const code = this._coupon.code;
+    this._coupon = null;
+    this.record(createDomainEvent('OrderCouponRemoved', 'Order', this.id.value, { code }));
+  }
+
+  /**
+   * LÓGICA DE DOMINIO: Sustituir el email del cliente por el seudónimo con
+   * que se anonimizó (derecho de supresión). Vale en cualquier estado.
+   */
+  anonymizeCustomerEmail(pseudonym: Email): void {
+    if (!pseudonym.isPseudonym()) {
+      throw ValidationError.single('Order', 'customerEmail', 'Must be an anonymization pseudonym', pseudonym.value);
+    }
+    if (this._customerEmail.equals(pseudonym)) {
+      return;
+    }
+
+    this._customerEmail = pseudonym;
+    this.record(createDomainEvent('OrderCustomerEmailAnonymized', 'Order', this.id.value, {
+      customerEmail: pseudonym.value,
+    }));
+  }
+
+  /**
+   * Valida una lista de líneas nueva: al menos una, todas en la misma
+   * moneda y una sola línea por producto (las repetidas se agrupan)
+   */
+  private static validItems(items: readonly OrderItem[]): OrderItem[] {
+    if (items.length === 0) {
+      throw ValidationError.single(
         'Order',
-        this._status,
-        'deliver',
-        ['SHIPPED']
+        'items',
+        'Order must have at least one item'
+      );
+    }
+
+    const currencies = [...new Set(items.map(item => item.unitPrice.currency))];
+    if (currencies.length > 1) {
+      throw new BusinessRuleViolationError(
+        'CurrencyMatch',
+        'All order items must use the same currency',
+        { currencies }
       );
     }
-    this._status = 'DELIVERED';
+
+    const merged: OrderItem[] = [];
+    for (const item of items) {
+      const index = merged.findIndex(existing => existing.productId === item.productId);
+      const existing = merged[index];
+      if (existing) {
+        merged[index] = existing.withQuantity(existing.quantity + item.quantity);
+      } else {
+        merged.push(item);
+      }
+    }
+    return merged;
   }
 
   /**
-   * LÓGICA DE DOMINIO: Cancelar el pedido
+   * Aplica un cambio de líneas comprobando que el pedido sigue siendo válido.
+   * El envío presupuestado deja de valer porque el peso ha cambiado.
    */
-  cancel(): void {
-    if (this._status === 'DELIVERED') {
-      throw new InvalidStateError(
-        'Order',
-        this._status,
-        'cancel',
-        ['PENDING', 'CONFIRMED', 'SHIPPED']
+  private changeItems(items: readonly OrderItem[]): void {
+    if (items.length === 0) {
+      throw new BusinessRuleViolationError(
+        'AtLeastOneItem',
+        'An order must keep at least one item',
+        { orderId: this.id.value }
+      );
+    }
+
+    const validItems = Order.validItems(items);
+    const minimum = this._coupon?.minimumOrderValue;
+    if (minimum && Price.sum(validItems.map(item => item.lineTotal()), minimum.currency).lessThan(minimum)) {
+      throw new BusinessRuleViolationError(
+        'MinimumOrderValue',
+        `Coupon ${this._coupon?.code} requires an order of at least ${minimum.toString()}`,
+        { orderId: this.id.value, code: this._coupon?.code, minimumOrderValue: minimum.toString() }
       );
     }
-    if (this._status === 'CANCELLED') {
+
+    this._items = validItems;
+    this._shippingCost = null;
+  }
+
+  private findItem(productId: string): OrderItem {
+    const item = this._items.find(i => i.productId === productId);
+    if (!item) {
+      throw new NotFoundError('OrderItem', productId);
+    }
+    return item;
+  }
+
+  private priceWith(coupon: Coupon | null): OrderPricing {
+    const currency = this._items[0]?.unitPrice.currency ?? 'USD';
+    const discount = coupon?.discount;
+    const zero = Price.fromMinorUnits(0, currency);
+
+    const subtotal = Price.sum(this._items.map(item => item.lineTotal()), currency);
+
+    // El tope se aplica a lo que se descuenta, sea cual sea el tipo de
+    // descuento: lo que pase de él no se descuenta
+    let allowance = subtotal.percentage(MAX_DISCOUNT_PERCENTAGE);
+    const capped = (amount: Price): Price => {
+      const granted = amount.greaterThan(allowance) ? allowance : amount;
+      allowance = allowance.subtract(granted);
+      return granted;
+    };
+
+    const lines = this._items.map(item => {
+      const lineSubtotal = item.lineTotal();
+      const lineDiscount = discount?.isLineDiscount()
+        ? capped(discount.discountForLine(item, subtotal))
+        : zero;
+
+      return {
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        subtotal: lineSubtotal,
+        discount: lineDiscount,
+        total: lineSubtotal.subtract(lineDiscount),
+      };
+    });
+
+    const lineDiscounts = Price.sum(lines.map(line => line.discount), currency);
+    const afterLineDiscounts = subtotal.subtract(lineDiscounts);
+    const orderDiscount = discount && !discount.isLineDiscount()
+      ? capped(discount.discountForOrder(afterLineDiscounts))
+      : zero;
+
+    const shipping = this._shippingCost ?? zero;
+
+    return {
+      lines,
+      subtotal,
+      lineDiscounts,
+      orderDiscount,
+      totalDiscount: lineDiscounts.add(orderDiscount),
+      shipping,
+      total: afterLineDiscounts.subtract(orderDiscount).add(shipping),
+    };
+  }
+
+  private recordAddressChange(addressType: 'SHIPPING' | 'BILLING', address: Address): void {
+    this.record(createDomainEvent('OrderAddressChanged', 'Order', this.id.value, {
+      addressType,
+      address: snapshotAddress(address),
+    }));
+  }
+
+  private assertPending(action: string): void {
+    if (this._status !== 'PENDING') {
       throw new InvalidStateError(
         'Order',
         this._status,
-        'cancel'
+        action,
+        ['PENDING']
       );
     }
-    this._status = 'CANCELLED';
   }
 
   /**
-   * LÓGICA DE DOMINIO: Añadir un item al pedido
+   * Ejecuta una acción de la tabla de transiciones: valida el estado actual,
+   * cambia al estado destino, lo anota en el historial y registra el evento
    */
-  addItem(item: OrderItem): void {
-    if (this._status !== 'PENDING') {
+  private transition(
+    action: OrderAction,
+    context: { actor?: string | undefined; reason?: string | undefined }
+  ): void {
+    const transition = getTransition(action);
+
+    if (!transition.from.includes(this._status)) {
       throw new InvalidStateError(
         'Order',
         this._status,
-        'add items',
-        ['PENDING']
+        action,
+        [...transition.from]
       );
     }
 
-    // Verificar si el producto ya existe en el pedido
-    const existingItemIndex = this._items.findIndex(
-      i => i.productId === item.productId
-    );
+    const failure = failedGuard(action, this.guardFacts());
+    if (failure) {
+      throw new BusinessRuleViolationError(
+        failure.guard.rule,
+        failure.guard.message,
+        { orderId: this.id.value, missing: failure.missing }
+      );
+    }
+
+    const previousStatus = this._status;
+    const occurredAt = new Date();
+    const details = {
+      ...(context.actor === undefined ? {} : { actor: context.actor }),
+      ...(context.reason === undefined ? {} : { reason: context.reason }),
+    };
+
+    this._status = transition.to;
+    this._statusHistory.push({ from: previousStatus, to: transition.to, occurredAt, ...details });
+    this.record(createDomainEvent(
+      transition.event,
+      'Order',
+      this.id.value,
+      { previousStatus, ...details },
+      occurredAt
+    ));
+  }
+
+  private guardFacts(): OrderGuardFacts {
+    return {
+      hasShippingAddress: this._shippingAddress !== null,
+      hasBillingAddress: this._billingAddress !== null,
+    };
+  }
 
-    if (existingItemIndex >= 0) {
-      // Si existe, incrementar la cantidad
-      const existingItem = this._items[existingItemIndex];
-      if (existingItem) {
-        existingItem.quantity += item.quantity;
+  /**
+   * Aplica el efecto de un evento ya ocurrido, sin volver a validar las
+   * reglas de negocio: se comprobaron cuando el evento se registró
+   */
+  private apply(event: OrderDomainEvent): void {
+    switch (event.eventType) {
+      case 'OrderPlaced':
+        this._items = event.payload.items.map(restoreOrderItem);
+        this._shippingAddress = event.payload.shippingAddress ? restoreAddress(event.payload.shippingAddress) : null;
+        this._billingAddress = event.payload.billingAddress ? restoreAddress(event.payload.billingAddress) : null;
+        this._statusHistory = [{ from: null, to: 'PENDING', occurredAt: event.occurredAt }];
+        return;
+      case 'OrderItemAdded':
+        this._items = Order.validItems([...this._items, restoreOrderItem(event.payload.item)]);
+        this._shippingCost = null;
+        return;
+      case 'OrderItemRemoved':
+        this._items = this._items.filter(item => item.productId !== event.payload.productId);
+        this._shippingCost = null;
+        return;
+      case 'OrderItemQuantityChanged':
+        this._items = this._items.map(item =>
+          item.productId === event.payload.productId ? item.withQuantity(event.payload.quantity) : item
+        );
+        this._shippingCost = null;
+        return;
+      case 'OrderItemsReplaced':
+        this._items = event.payload.items.map(restoreOrderItem);
+        this._shippingCost = null;
+        return;
+      case 'OrderAddressChanged':
+        if (event.payload.addressType === 'SHIPPING') {
+          this._shippingAddress = restoreAddress(event.payload.address);
+          this._shippingCost = null;
+        } else {
+          this._billingAddress = restoreAddress(event.payload.address);
+        }
+        return;
+      case 'OrderShippingQuoted':
+        this._shippingCost = restoreMoney(event.payload.cost);
+        return;
+      case 'OrderCouponApplied':
+        this._coupon = restoreCoupon(event.payload.coupon);
+        return;
+      case 'OrderCouponRemoved':
+        this._coupon = null;
+        return;
+      case 'OrderCustomerEmailAnonymized':
+        this._customerEmail = Email.create(event.payload.customerEmail, { allowPseudonym: true });
+        return;
+      default: {
+        const transition = transitionForEvent(event.eventType);
+        if (!transition) {
+          throw ValidationError.single('Order', 'history', 'Unknown event type', event.eventType);
+        }
+        const { previousStatus, actor, reason } = event.payload;
+        this._status = transition.to;
+        this._statusHistory.push({
+          from: previousStatus,
+          to: transition.to,
+          occurredAt: event.occurredAt,
+          ...(actor === undefined ? {} : { actor }),
+          ...(reason === undefined ? {} : { reason }),
+        });
       }
-    } else {
-      // Si no existe, añadir el nuevo item
-      this._items.push(item);
     }
   }
 
@@ -217,7 +923,13 @@ export class Order {
     return this.id.equals(other.id);
   }
 
-  toString(): string {
-    return `Order ${this.id.toString()} - Status: ${this._status} - Total: ${this.calculateTotal().toString()}`;
+  /**
+   * Con `locale` el total se muestra formateado para el usuario ("45,50 €")
+   */
+  toString(locale?: string): string {
+    const total = this.calculateTotal();
+    const formattedTotal = locale === undefined ? total.toString() : total.format(locale);
+
+    return `Order ${this.id.toString()} - Status: ${this._status} - Total: ${formattedTotal}`;
   }
 }
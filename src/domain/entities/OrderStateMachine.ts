@@ -0,0 +1,155 @@
+/**
+ * MÁQUINA DE ESTADOS: Order
+ * 
+ * Tabla declarativa con TODAS las transiciones legales de un pedido.
+ * `Order` no contiene condiciones sueltas sobre su estado: consulta esta
+ * tabla tanto para ejecutar una acción como para informar de qué acciones
+ * son posibles, de modo que los mensajes de error (estados permitidos) y el
+ * comportamiento nunca se desincronizan.
+ * 
+ *   PENDING ──confirm──▶ CONFIRMED ──ship──▶ SHIPPED ──deliver──▶ DELIVERED
+ *                          │    ▲                                   │
+ *                failPayment    retryPayment                 requestReturn
+ *                          ▼    │                                   ▼
+ *                       PAYMENT_FAILED          RETURN_REQUESTED ──markReturned──▶ RETURNED ──refund──▶ REFUNDED
+ *                                                     │
+ *                                                rejectReturn (vuelve a DELIVERED)
+ * 
+ *   cancel: PENDING | CONFIRMED | SHIPPED | PAYMENT_FAILED ──▶ CANCELLED
+ * 
+ * Algunas transiciones tienen además GUARDAS: condiciones sobre los datos
+ * del pedido que deben cumplirse aunque el estado de origen sea válido
+ * (confirmar exige las direcciones de envío y facturación).
+ */
+
+export type OrderStatus =
+  | 'PENDING'
+  | 'CONFIRMED'
+  | 'SHIPPED'
+  | 'DELIVERED'
+  | 'CANCELLED'
+  | 'PAYMENT_FAILED'
+  | 'RETURN_REQUESTED'
+  | 'RETURNED'
+  | 'REFUNDED';
+
+export type OrderStatusChangedEventType =
+  | 'OrderConfirmed'
+  | 'OrderShipped'
+  | 'OrderDelivered'
+  | 'OrderCancelled'
+  | 'OrderPaymentFailed'
+  | 'OrderPaymentRetried'
+  | 'OrderReturnRequested'
+  | 'OrderReturnRejected'
+  | 'OrderReturned'
+  | 'OrderRefunded';
+
+/**
+ * Lo que las guardas necesitan saber de un pedido
+ */
+export interface OrderGuardFacts {
+  readonly hasShippingAddress: boolean;
+  readonly hasBillingAddress: boolean;
+}
+
+/**
+ * Regla de negocio que protege una transición. `missing` devuelve los datos
+ * que faltan al pedido (vacío si la guarda se cumple)
+ */
+export interface OrderGuard {
+  readonly rule: string;
+  readonly message: string;
+  missing(facts: OrderGuardFacts): string[];
+}
+
+export const ORDER_GUARDS = {
+  addressesRequired: {
+    rule: 'AddressesRequired',
+    message: 'Shipping and billing addresses are required to confirm an order',
+    missing: facts => [
+      ...(facts.hasShippingAddress ? [] : ['shippingAddress']),
+      ...(facts.hasBillingAddress ? [] : ['billingAddress']),
+    ],
+  },
+} as const satisfies Record<string, OrderGuard>;
+
+export interface OrderTransition {
+  readonly from: readonly OrderStatus[];
+  readonly to: OrderStatus;
+  readonly event: OrderStatusChangedEventType;
+  /** Se comprueban en orden; la primera que falla impide la transición */
+  readonly guards?: readonly OrderGuard[];
+}
+
+export const ORDER_TRANSITIONS = {
+  confirm: {
+    from: ['PENDING'],
+    to: 'CONFIRMED',
+    event: 'OrderConfirmed',
+    guards: [ORDER_GUARDS.addressesRequired],
+  },
+  failPayment: { from: ['CONFIRMED'], to: 'PAYMENT_FAILED', event: 'OrderPaymentFailed' },
+  retryPayment: { from: ['PAYMENT_FAILED'], to: 'CONFIRMED', event: 'OrderPaymentRetried' },
+  ship: { from: ['CONFIRMED'], to: 'SHIPPED', event: 'OrderShipped' },
+  deliver: { from: ['SHIPPED'], to: 'DELIVERED', event: 'OrderDelivered' },
+  cancel: {
+    from: ['PENDING', 'CONFIRMED', 'SHIPPED', 'PAYMENT_FAILED'],
+    to: 'CANCELLED',
+    event: 'OrderCancelled',
+  },
+  requestReturn: { from: ['DELIVERED'], to: 'RETURN_REQUESTED', event: 'OrderReturnRequested' },
+  rejectReturn: { from: ['RETURN_REQUESTED'], to: 'DELIVERED', event: 'OrderReturnRejected' },
+  markReturned: { from: ['RETURN_REQUESTED'], to: 'RETURNED', event: 'OrderReturned' },
+  refund: { from: ['RETURNED'], to: 'REFUNDED', event: 'OrderRefunded' },
+} as const satisfies Record<string, OrderTransition>;
+
+export type OrderAction = keyof typeof ORDER_TRANSITIONS;
+
+const ACTIONS = Object.keys(ORDER_TRANSITIONS) as OrderAction[];
+
+export function getTransition(action: OrderAction): OrderTransition {
+  return ORDER_TRANSITIONS[action];
+}
+
+/**
+ * Transición que produce un evento de cambio de estado (para reproducir
+ * el historial de un pedido)
+ */
+export function transitionForEvent(event: string): OrderTransition | undefined {
+  return Object.values<OrderTransition>(ORDER_TRANSITIONS).find(transition => transition.event === event);
+}
+
+/**
+ * Primera guarda de la acción que el pedido no cumple, con lo que le falta
+ */
+export function failedGuard(
+  action: OrderAction,
+  facts: OrderGuardFacts
+): { guard: OrderGuard; missing: string[] } | undefined {
+  for (const guard of getTransition(action).guards ?? []) {
+    const missing = guard.missing(facts);
+    if (missing.length > 0) {
+      return { guard, missing };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Acciones que se pueden ejecutar desde un estado, en el orden de la tabla.
+ * Con `facts`, solo las que además cumplen sus guardas
+ */
+export function actionsFrom(status: OrderStatus, facts?: OrderGuardFacts): OrderAction[] {
+  return ACTIONS.filter(action =>
+    getTransition(action).from.includes(status) && (!facts || !failedGuard(action, facts))
+  );
+}
+
+/**
+ * Indica si existe alguna acción que lleve de `from` a `to` (cumpliendo sus
+ * guardas si se pasan los `facts` del pedido)
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus, facts?: OrderGuardFacts): boolean {
+  return actionsFrom(from, facts).some(action => getTransition(action).to === to);
+}
@@ -20,6 +20,39 @@ export class ConflictError extends DomainError {
       { ...context, entityName, conflictReason }
     );
   }
+
+  /**
+   * Crea un ConflictError para una escritura sobre una versión obsoleta
+   * del agregado (otro proceso lo modificó entre la lectura y el guardado)
+   */
+  static staleVersion(
+    entityName: string,
+    entityId: string,
+    expectedVersion: number,
+    actualVersion: number
+  ): ConflictError {
+    return new ConflictError(
+      entityName,
+      `Expected version ${expectedVersion} but found ${actualVersion}`,
+      { entityId, expectedVersion, actualVersion }
+    );
+  }
+
+  /**
+   * Versión que esperaba quien escribía (solo en conflictos de versión)
+   */
+  get expectedVersion(): number | undefined {
+    const value = this.context?.expectedVersion;
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  /**
+   * Versión que había realmente guardada (solo en conflictos de versión)
+   */
+  get actualVersion(): number | undefined {
+    const value = this.context?.actualVersion;
+    return typeof value === 'number' ? value : undefined;
+  }
 }
 
 /**
@@ -30,4 +63,7 @@ export class ConflictError extends DomainError {
  *   'Email already exists',
  *   { email: 'user@example.com' }
  * );
+ * 
+ * throw ConflictError.staleVersion('Order', 'abc-123-def', 3, 4);
+ * // Output: "Order conflict: Expected version 3 but found 4"
  */
\ No newline at end of file
@@ -10,6 +10,11 @@
 import { DomainError } from './DomainError';
 
 export class InvalidStateError extends DomainError {
+  public readonly entityName: string;
+  public readonly currentState: string;
+  public readonly attemptedAction: string;
+  public readonly allowedStates: string[] | undefined;
+
   constructor(
     entityName: string,
     currentState: string,
@@ -26,6 +31,11 @@ export class InvalidStateError extends DomainError {
       attemptedAction,
       allowedStates,
     });
+
+    this.entityName = entityName;
+    this.currentState = currentState;
+    this.attemptedAction = attemptedAction;
+    this.allowedStates = allowedStates;
   }
 }
 
@@ -0,0 +1,96 @@
+/**
+ * EVENTOS DE DOMINIO: Customer
+ * 
+ * Eventos que registra el agregado `Customer` durante su ciclo de vida.
+ */
+
+import { DomainEvent, PayloadRedaction } from './DomainEvent';
+import { AddressSnapshot } from './OrderEvents';
+import { MarketingChannel } from '../value-objects/MarketingConsent';
+
+export type DefaultAddressKind = 'shipping' | 'billing';
+
+export type CustomerRegistered = DomainEvent<'CustomerRegistered', {
+  name: string;
+  email: string;
+}>;
+
+export type CustomerRenamed = DomainEvent<'CustomerRenamed', {
+  previousName: string;
+  name: string;
+}>;
+
+export type CustomerEmailChanged = DomainEvent<'CustomerEmailChanged', {
+  previousEmail: string;
+  email: string;
+}>;
+
+export type CustomerPhoneNumberChanged = DomainEvent<'CustomerPhoneNumberChanged', {
+  previousPhoneNumber: string | null;
+  phoneNumber: string | null;
+}>;
+
+export type CustomerAddressAdded = DomainEvent<'CustomerAddressAdded', {
+  label: string;
+  address: AddressSnapshot;
+}>;
+
+export type CustomerAddressChanged = DomainEvent<'CustomerAddressChanged', {
+  label: string;
+  address: AddressSnapshot;
+}>;
+
+export type CustomerAddressRemoved = DomainEvent<'CustomerAddressRemoved', {
+  label: string;
+}>;
+
+export type CustomerDefaultAddressChanged = DomainEvent<'CustomerDefaultAddressChanged', {
+  kind: DefaultAddressKind;
+  /** `null` si el cliente se queda sin dirección por defecto */
+  label: string | null;
+}>;
+
+export type CustomerPreferencesChanged = DomainEvent<'CustomerPreferencesChanged', {
+  preferredLocale: string | null;
+  preferredCurrency: string | null;
+}>;
+
+export type CustomerMarketingConsentGranted = DomainEvent<'CustomerMarketingConsentGranted', {
+  channel: MarketingChannel;
+}>;
+
+export type CustomerMarketingConsentWithdrawn = DomainEvent<'CustomerMarketingConsentWithdrawn', {
+  channel: MarketingChannel;
+}>;
+
+/**
+ * Sin datos personales: ni los antiguos ni los seudónimos
+ */
+export type CustomerAnonymized = DomainEvent<'CustomerAnonymized', Record<string, never>>;
+
+export type CustomerDeactivated = DomainEvent<'CustomerDeactivated', Record<string, never>>;
+
+export type CustomerReactivated = DomainEvent<'CustomerReactivated', Record<string, never>>;
+
+export type CustomerDomainEvent =
+  | CustomerRegistered
+  | CustomerRenamed
+  | CustomerEmailChanged
+  | CustomerPhoneNumberChanged
+  | CustomerAddressAdded
+  | CustomerAddressChanged
+  | CustomerAddressRemoved
+  | CustomerDefaultAddressChanged
+  | CustomerPreferencesChanged
+  | CustomerMarketingConsentGranted
+  | CustomerMarketingConsentWithdrawn
+  | CustomerAnonymized
+  | CustomerDeactivated
+  | CustomerReactivated;
+
+/**
+ * Vacía el payload de los eventos de un cliente: todos describen sus datos
+ * personales (nombre, email, teléfono, direcciones, preferencias)
+ */
+export const redactCustomerPersonalData: PayloadRedaction = ({ payload }) =>
+  Object.keys(payload).length > 0 ? {} : undefined;
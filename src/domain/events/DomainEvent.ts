@@ -0,0 +1,53 @@
+/**
+ * DOMAIN EVENT
+ * 
+ * Un evento de dominio representa algo que YA ha ocurrido en el negocio
+ * ("el pedido fue confirmado", "el cliente cambió su email").
+ * 
+ * Características:
+ * - Inmutable: describe un hecho pasado que no puede cambiar
+ * - Nombrado en pasado: OrderPlaced, CustomerDeactivated...
+ * - Autocontenido: incluye el id del agregado, el momento y los datos relevantes
+ * 
+ * Los agregados registran sus eventos y las capas superiores los recogen
+ * con `pullDomainEvents()` para notificar a otros sistemas.
+ */
+
+export interface DomainEvent<
+  TType extends string = string,
+  TPayload extends object = Record<string, unknown>
+> {
+  readonly eventId: string;
+  readonly eventType: TType;
+  readonly aggregateType: string;
+  readonly aggregateId: string;
+  readonly occurredAt: Date;
+  readonly payload: TPayload;
+}
+
+/**
+ * Supresión de datos personales (RGPD) en eventos ya registrados: devuelve
+ * el payload sin esos datos, o `undefined` si el evento no los contiene.
+ * Es la única forma en que cambia un evento después de ocurrir.
+ */
+export type PayloadRedaction = (event: DomainEvent) => Record<string, unknown> | undefined;
+
+/**
+ * Crea un evento de dominio con un id único y la fecha actual
+ */
+export function createDomainEvent<TType extends string, TPayload extends object>(
+  eventType: TType,
+  aggregateType: string,
+  aggregateId: string,
+  payload: TPayload,
+  occurredAt: Date = new Date()
+): DomainEvent<TType, TPayload> {
+  return {
+    eventId: crypto.randomUUID(),
+    eventType,
+    aggregateType,
+    aggregateId,
+    occurredAt,
+    payload,
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * EVENTOS DE DOMINIO: Order
+ * 
+ * Eventos que registra el agregado `Order` en cada cambio de estado.
+ * Los payloads solo contienen tipos primitivos para poder serializarse
+ * sin depender de los Value Objects.
+ * 
+ * Los payloads son completos: reproduciéndolos en orden se obtiene el
+ * pedido exacto (ver `Order.fromHistory()`). Las funciones `snapshot*`
+ * convierten Value Objects en payload y las `restore*` hacen lo contrario.
+ * 
+ * Los importes se guardan en unidades mínimas (`MoneySnapshot`), nunca como
+ * decimales en coma flotante, así la reproducción es exacta.
+ */
+
+import type { OrderStatus, OrderStatusChangedEventType } from '../entities/OrderStateMachine';
+import { OrderItem } from '../value-objects/OrderItem';
+import { Price } from '../value-objects/Price';
+import { Coupon } from '../value-objects/Coupon';
+import { Discount } from '../value-objects/Discount';
+import { Address } from '../value-objects/Address';
+import { assertCurrency } from '../value-objects/Currency';
+import { ValidationError } from '../errors';
+import { DomainEvent, PayloadRedaction } from './DomainEvent';
+
+/**
+ * Importe en unidades mínimas de la moneda: `{ minor: '1050', currency: 'EUR' }`
+ * son 10.50 EUR. Se escribe como texto con solo dígitos; al leer también se
+ * acepta un número entero
+ */
+export interface MoneySnapshot {
+  minor: string | number;
+  currency: string;
+}
+
+/**
+ * Formato de los eventos guardados antes de `MoneySnapshot`: importe
+ * decimal. Solo se lee, para reproducir historiales antiguos
+ */
+export interface LegacyMoneySnapshot {
+  amount: number;
+  currency: string;
+}
+
+export interface OrderItemSnapshot {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: MoneySnapshot;
+  weightGrams?: number;
+}
+
+export interface AddressSnapshot {
+  lines: string[];
+  city: string;
+  postalCode: string;
+  region?: string;
+  country: string;
+}
+
+export type DiscountSnapshot =
+  | { type: 'PERCENTAGE'; percentage: number }
+  | { type: 'FIXED_AMOUNT'; amount: MoneySnapshot }
+  | { type: 'BUY_X_GET_Y'; productId: string; buy: number; get: number }
+  | { type: 'FREE_ITEM'; productId: string; threshold: MoneySnapshot };
+
+export interface CouponSnapshot {
+  code: string;
+  discount: DiscountSnapshot;
+  expiresAt?: string;
+  minimumOrderValue?: MoneySnapshot;
+}
+
+export type OrderPlaced = DomainEvent<'OrderPlaced', {
+  customerEmail: string;
+  customerId?: string;
+  items: OrderItemSnapshot[];
+  total: MoneySnapshot;
+  shippingAddress?: AddressSnapshot;
+  billingAddress?: AddressSnapshot;
+}>;
+
+/**
+ * El email del cliente se sustituye por el seudónimo con que se anonimizó
+ */
+export type OrderCustomerEmailAnonymized = DomainEvent<'OrderCustomerEmailAnonymized', {
+  customerEmail: string;
+}>;
+
+export type OrderItemAdded = DomainEvent<'OrderItemAdded', {
+  item: OrderItemSnapshot;
+}>;
+
+export type OrderItemRemoved = DomainEvent<'OrderItemRemoved', {
+  productId: string;
+}>;
+
+export type OrderItemQuantityChanged = DomainEvent<'OrderItemQuantityChanged', {
+  productId: string;
+  previousQuantity: number;
+  quantity: number;
+}>;
+
+export type OrderItemsReplaced = DomainEvent<'OrderItemsReplaced', {
+  items: OrderItemSnapshot[];
+}>;
+
+export type OrderAddressChanged = DomainEvent<'OrderAddressChanged', {
+  addressType: 'SHIPPING' | 'BILLING';
+  address: AddressSnapshot;
+}>;
+
+export type OrderShippingQuoted = DomainEvent<'OrderShippingQuoted', {
+  cost: MoneySnapshot;
+  weightGrams: number;
+}>;
+
+export type OrderCouponApplied = DomainEvent<'OrderCouponApplied', {
+  coupon: CouponSnapshot;
+}>;
+
+export type OrderCouponRemoved = DomainEvent<'OrderCouponRemoved', {
+  code: string;
+}>;
+
+/**
+ * Eventos de cambio de estado (uno por acción de `OrderStateMachine`):
+ * OrderConfirmed, OrderShipped, OrderDelivered, OrderCancelled,
+ * OrderPaymentFailed, OrderPaymentRetried, OrderReturnRequested,
+ * OrderReturnRejected, OrderReturned y OrderRefunded
+ */
+export type OrderStatusChanged<TType extends OrderStatusChangedEventType = OrderStatusChangedEventType> =
+  TType extends OrderStatusChangedEventType
+    ? DomainEvent<TType, { previousStatus: OrderStatus; actor?: string; reason?: string }>
+    : never;
+
+export type OrderConfirmed = OrderStatusChanged<'OrderConfirmed'>;
+export type OrderShipped = OrderStatusChanged<'OrderShipped'>;
+export type OrderDelivered = OrderStatusChanged<'OrderDelivered'>;
+export type OrderCancelled = OrderStatusChanged<'OrderCancelled'>;
+
+export type OrderDomainEvent =
+  | OrderPlaced
+  | OrderItemAdded
+  | OrderItemRemoved
+  | OrderItemQuantityChanged
+  | OrderItemsReplaced
+  | OrderAddressChanged
+  | OrderShippingQuoted
+  | OrderCouponApplied
+  | OrderCouponRemoved
+  | OrderCustomerEmailAnonymized
+  | OrderStatusChanged;
+
+/**
+ * Sustituye el email del cliente por `pseudonym` en los eventos de un
+ * pedido (el único dato de contacto que guardan)
+ */
+export function redactOrderCustomerEmail(pseudonym: string): PayloadRedaction {
+  return ({ payload }) => typeof payload.customerEmail === 'string' && payload.customerEmail !== pseudonym
+    ? { ...payload, customerEmail: pseudonym }
+    : undefined;
+}
+
+export function snapshotMoney(price: Price): MoneySnapshot {
+  return { minor: String(price.toMinorUnits()), currency: price.currency };
+}
+
+export function snapshotOrderItem(item: OrderItem): OrderItemSnapshot {
+  return {
+    productId: item.productId,
+    productName: item.productName,
+    quantity: item.quantity,
+    unitPrice: snapshotMoney(item.unitPrice),
+    ...(item.weightGrams === undefined ? {} : { weightGrams: item.weightGrams }),
+  };
+}
+
+export function snapshotAddress(address: Address): AddressSnapshot {
+  return {
+    lines: [...address.lines],
+    city: address.city,
+    postalCode: address.postalCode,
+    ...(address.region === undefined ? {} : { region: address.region }),
+    country: address.country,
+  };
+}
+
+export function snapshotDiscount(discount: Discount): DiscountSnapshot {
+  const definition = discount.definition;
+
+  switch (definition.type) {
+    case 'FIXED_AMOUNT':
+      return { type: definition.type, amount: snapshotMoney(definition.amount) };
+    case 'FREE_ITEM':
+      return { ...definition, threshold: snapshotMoney(definition.threshold) };
+    default:
+      return { ...definition };
+  }
+}
+
+export function snapshotCoupon(coupon: Coupon): CouponSnapshot {
+  return {
+    code: coupon.code,
+    discount: snapshotDiscount(coupon.discount),
+    ...(coupon.expiresAt === undefined ? {} : { expiresAt: coupon.expiresAt.toISOString() }),
+    ...(coupon.minimumOrderValue === undefined
+      ? {}
+      : { minimumOrderValue: snapshotMoney(coupon.minimumOrderValue) }),
+  };
+}
+
+/**
+ * @throws ValidationError si la moneda o las unidades mínimas no son válidas
+ */
+export function restoreMoney(snapshot: MoneySnapshot | LegacyMoneySnapshot): Price {
+  const currency = snapshot.currency;
+  assertCurrency(currency);
+
+  if (!('minor' in snapshot)) {
+    return Price.create(snapshot.amount, currency);
+  }
+
+  const { minor } = snapshot;
+  if (typeof minor === 'string' && !/^\d+$/.test(minor)) {
+    throw ValidationError.single('MoneySnapshot', 'minor', 'Must be a non-negative integer of minor units', minor);
+  }
+  return Price.fromMinorUnits(Number(minor), currency);
+}
+
+export function restoreOrderItem(snapshot: OrderItemSnapshot): OrderItem {
+  return OrderItem.create({ ...snapshot, unitPrice: restoreMoney(snapshot.unitPrice) });
+}
+
+export function restoreAddress(snapshot: AddressSnapshot): Address {
+  return Address.create(snapshot);
+}
+
+export function restoreDiscount(snapshot: DiscountSnapshot): Discount {
+  switch (snapshot.type) {
+    case 'PERCENTAGE':
+      return Discount.percentage(snapshot.percentage);
+    case 'FIXED_AMOUNT':
+      return Discount.fixedAmount(restoreMoney(snapshot.amount));
+    case 'BUY_X_GET_Y':
+      return Discount.buyXGetY(snapshot.productId, snapshot.buy, snapshot.get);
+    case 'FREE_ITEM':
+      return Discount.freeItemAbove(restoreMoney(snapshot.threshold), snapshot.productId);
+  }
+}
+
+export function restoreCoupon(snapshot: CouponSnapshot): Coupon {
+  return Coupon.create({
+    code: snapshot.code,
+    discount: restoreDiscount(snapshot.discount),
+    ...(snapshot.expiresAt === undefined ? {} : { expiresAt: new Date(snapshot.expiresAt) }),
+    ...(snapshot.minimumOrderValue === undefined
+      ? {}
+      : { minimumOrderValue: restoreMoney(snapshot.minimumOrderValue) }),
+  });
+}
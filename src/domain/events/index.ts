@@ -0,0 +1,10 @@
+/**
+ * DOMAIN EVENTS - Índice de exportación
+ * 
+ * Uso:
+ * import { OrderDomainEvent, CustomerDomainEvent } from '@domain/events';
+ */
+
+export { type DomainEvent, type PayloadRedaction, createDomainEvent } from './DomainEvent';
+export * from './OrderEvents';
+export * from './CustomerEvents';
@@ -0,0 +1,74 @@
+/**
+ * DOMAIN SERVICE: CurrencyConverter
+ * 
+ * Convierte precios entre monedas usando un `ExchangeRateProvider`.
+ * Es un servicio de dominio (y no un método de `Price`) porque necesita un
+ * colaborador externo: el tipo de cambio no es propiedad de ningún precio.
+ * 
+ * El cálculo es exacto sobre unidades mínimas y solo redondea una vez, al
+ * final, con el modo indicado. Cada conversión devuelve el tipo de cambio
+ * usado para poder auditarla y reproducirla.
+ */
+
+import { Currency, getCurrencyExponent } from '../value-objects/Currency';
+import { ExchangeRate } from '../value-objects/ExchangeRate';
+import { Price } from '../value-objects/Price';
+import {
+  DEFAULT_ROUNDING_MODE,
+  RoundingMode,
+  roundDivision,
+  toDecimalFraction,
+} from '../value-objects/RoundingMode';
+import { BusinessRuleViolationError } from '../errors';
+import { ExchangeRateProvider } from './ExchangeRateProvider';
+
+export interface CurrencyConversion {
+  readonly source: Price;
+  readonly result: Price;
+  readonly rate: ExchangeRate;
+}
+
+export class CurrencyConverter {
+  constructor(
+    private readonly rates: ExchangeRateProvider,
+    private readonly rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+  ) {}
+
+  /**
+   * Convierte un precio a otra moneda devolviendo el detalle de la conversión
+   */
+  convert(price: Price, to: Currency): CurrencyConversion {
+    const rate = this.rates.getRate(price.currency, to);
+    return { source: price, result: CurrencyConverter.apply(price, rate, this.rounding), rate };
+  }
+
+  /**
+   * Aplica un tipo de cambio concreto a un precio. Es una función pura:
+   * con el mismo precio y el mismo tipo de cambio el resultado es idéntico.
+   */
+  static apply(
+    price: Price,
+    rate: ExchangeRate,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+  ): Price {
+    if (price.currency !== rate.base) {
+      throw new BusinessRuleViolationError(
+        'CurrencyMatch',
+        'Exchange rate does not apply to the price currency',
+        { priceCurrency: price.currency, rateBase: rate.base }
+      );
+    }
+
+    const { numerator, denominator } = toDecimalFraction(rate.rate);
+    const fromScale = 10n ** BigInt(getCurrencyExponent(rate.base));
+    const toScale = 10n ** BigInt(getCurrencyExponent(rate.quote));
+
+    const minorUnits = roundDivision(
+      BigInt(price.toMinorUnits()) * numerator * toScale,
+      denominator * fromScale,
+      rounding
+    );
+
+    return Price.fromMinorUnits(Number(minorUnits), rate.quote);
+  }
+}
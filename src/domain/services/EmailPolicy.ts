@@ -0,0 +1,19 @@
+/**
+ * PORT: EmailPolicy
+ *
+ * Decide si un email (ya válido) se admite para un cliente: permite
+ * rechazar buzones desechables, dominios internos de la empresa, etc.
+ * La validez del formato es cosa de `Email`; esto es una regla de negocio
+ * y cada despliegue puede tener la suya.
+ *
+ * Las implementaciones viven en `src/infraestructure/adapters`.
+ */
+
+import { Email } from '../value-objects/Email';
+
+export interface EmailPolicy {
+  /**
+   * @throws BusinessRuleViolationError si el email no se admite
+   */
+  assertAllowed(email: Email): void;
+}
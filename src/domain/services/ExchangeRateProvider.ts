@@ -0,0 +1,23 @@
+/**
+ * PORT: ExchangeRateProvider
+ * 
+ * Fuente de tipos de cambio que necesita el servicio de dominio
+ * `CurrencyConverter`. Se define en el dominio porque lo usa un servicio de
+ * dominio; las implementaciones (tabla estática, fichero JSON...) viven en
+ * `src/infraestructure/adapters`.
+ * 
+ * Es síncrono a propósito: trabaja sobre una "foto" de tipos de cambio ya
+ * cargada, lo que hace que las conversiones sean reproducibles.
+ */
+
+import { Currency } from '../value-objects/Currency';
+import { ExchangeRate } from '../value-objects/ExchangeRate';
+
+export interface ExchangeRateProvider {
+  /**
+   * Tipo de cambio para convertir de `base` a `quote`.
+   * Para la misma moneda devuelve un tipo de 1.
+   * @throws NotFoundError si no hay tipo de cambio para ese par
+   */
+  getRate(base: Currency, quote: Currency): ExchangeRate;
+}
@@ -0,0 +1,21 @@
+/**
+ * PORT: ShippingRateCalculator
+ * 
+ * Calcula el coste de envío de un paquete según su destino y su peso.
+ * Las implementaciones (tabla de pesos por zona, API de un transportista...)
+ * viven en `src/infraestructure/adapters`.
+ * 
+ * Es síncrono, como `ExchangeRateProvider`: trabaja sobre tarifas ya
+ * cargadas, así el mismo pedido siempre cuesta lo mismo de enviar.
+ */
+
+import { Address } from '../value-objects/Address';
+import { Price } from '../value-objects/Price';
+
+export interface ShippingRateCalculator {
+  /**
+   * @throws NotFoundError si no se envía a ese destino
+   * @throws BusinessRuleViolationError si el paquete supera el peso máximo
+   */
+  rateFor(destination: Address, weightGrams: number): Price;
+}
@@ -0,0 +1,146 @@
+/**
+ * DOMAIN SERVICE: TaxCalculator
+ *
+ * Calcula los impuestos de un pedido con la `TaxPolicy` que se le inyecte.
+ * La base imponible de cada línea es su importe tras TODOS los descuentos:
+ * el descuento de pedido se reparte entre las líneas con `Price.allocate`.
+ * Los gastos de envío tributan como una línea aparte (`shipping`) con el tipo
+ * que la política da al envío, así la suma de las bases de las líneas y del
+ * envío coincide exactamente con `Order.calculateTotal()`.
+ *
+ * Los precios del catálogo pueden venir con impuestos incluidos (lo habitual
+ * en Europa) o sin ellos (lo habitual en EE.UU.):
+ * - TAX_EXCLUSIVE: el importe de la línea es el neto y el impuesto se suma
+ * - TAX_INCLUSIVE: el importe de la línea es el bruto y el neto se desglosa
+ *
+ * El impuesto se redondea por línea; los totales por tipo y del pedido son
+ * la suma de las líneas, así el desglose siempre cuadra.
+ */
+
+import type { OrderPricing } from '../entities/Order';
+import { Price } from '../value-objects/Price';
+import {
+  DEFAULT_ROUNDING_MODE,
+  RoundingMode,
+  roundDivision,
+  toDecimalFraction,
+} from '../value-objects/RoundingMode';
+import { TaxJurisdiction, TaxPolicy, TaxRate } from './TaxPolicy';
+
+export type TaxPricingMode = 'TAX_EXCLUSIVE' | 'TAX_INCLUSIVE';
+
+export interface TaxLine {
+  readonly productId: string;
+  readonly rate: TaxRate;
+  readonly net: Price;
+  readonly tax: Price;
+  readonly gross: Price;
+}
+
+/**
+ * Impuesto de los gastos de envío del pedido
+ */
+export interface TaxShippingLine {
+  readonly rate: TaxRate;
+  readonly net: Price;
+  readonly tax: Price;
+  readonly gross: Price;
+}
+
+export interface TaxRateTotal {
+  readonly rate: TaxRate;
+  readonly net: Price;
+  readonly tax: Price;
+}
+
+export interface TaxBreakdown {
+  readonly mode: TaxPricingMode;
+  readonly lines: readonly TaxLine[];
+  /** null si el pedido no tiene gastos de envío */
+  readonly shipping: TaxShippingLine | null;
+  readonly rates: readonly TaxRateTotal[];
+  readonly net: Price;
+  readonly tax: Price;
+  readonly gross: Price;
+}
+
+export class TaxCalculator {
+  constructor(
+    private readonly policy: TaxPolicy,
+    private readonly mode: TaxPricingMode = 'TAX_EXCLUSIVE',
+    private readonly rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+  ) {}
+
+  calculate(pricing: OrderPricing, jurisdiction: TaxJurisdiction): TaxBreakdown {
+    const currency = pricing.total.currency;
+    const zero = Price.fromMinorUnits(0, currency);
+
+    const discountShares = pricing.orderDiscount.isZero() ? [] : this.orderDiscountShares(pricing);
+
+    const lines = pricing.lines.map((line, index) => {
+      const rate = this.policy.rateFor(line, jurisdiction);
+      const base = line.total.subtract(discountShares[index] ?? zero);
+      return { productId: line.productId, rate, ...this.split(base, rate) };
+    });
+
+    const shipping = pricing.shipping.isZero()
+      ? null
+      : this.shippingLine(pricing.shipping, jurisdiction);
+    const taxed = shipping ? [...lines, shipping] : lines;
+
+    const rates: TaxRateTotal[] = [];
+    for (const line of taxed) {
+      const index = rates.findIndex(total => sameRate(total.rate, line.rate));
+      const current = rates[index];
+      if (current) {
+        rates[index] = { rate: current.rate, net: current.net.add(line.net), tax: current.tax.add(line.tax) };
+      } else {
+        rates.push({ rate: line.rate, net: line.net, tax: line.tax });
+      }
+    }
+
+    return {
+      mode: this.mode,
+      lines,
+      shipping,
+      rates,
+      net: Price.sum(taxed.map(line => line.net), currency),
+      tax: Price.sum(taxed.map(line => line.tax), currency),
+      gross: Price.sum(taxed.map(line => line.gross), currency),
+    };
+  }
+
+  private shippingLine(amount: Price, jurisdiction: TaxJurisdiction): TaxShippingLine {
+    const rate = this.policy.shippingRateFor(jurisdiction);
+    return { rate, ...this.split(amount, rate) };
+  }
+
+  /**
+   * Reparte el descuento de pedido en proporción al importe de cada línea
+   */
+  private orderDiscountShares(pricing: OrderPricing): Price[] {
+    return pricing.orderDiscount.allocate(pricing.lines.map(line => line.total.toMinorUnits()));
+  }
+
+  private split(amount: Price, rate: TaxRate): { net: Price; tax: Price; gross: Price } {
+    if (this.mode === 'TAX_EXCLUSIVE') {
+      const tax = amount.percentage(rate.percentage, this.rounding);
+      return { net: amount, tax, gross: amount.add(tax) };
+    }
+
+    // net = gross / (1 + rate / 100), con el tipo como fracción exacta
+    const { numerator, denominator } = toDecimalFraction(rate.percentage);
+    const netMinorUnits = roundDivision(
+      BigInt(amount.toMinorUnits()) * 100n * denominator,
+      100n * denominator + numerator,
+      this.rounding
+    );
+    const net = Price.fromMinorUnits(Number(netMinorUnits), amount.currency);
+
+    return { net, tax: amount.subtract(net), gross: amount };
+  }
+}
+
+function sameRate(a: TaxRate, b: TaxRate): boolean {
+  return a.name === b.name && a.percentage === b.percentage;
+}
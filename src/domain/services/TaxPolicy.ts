@@ -0,0 +1,55 @@
+/**
+ * PORT: TaxPolicy
+ *
+ * Decide qué impuesto se aplica a cada línea de un pedido, y a su envío,
+ * según dónde se entrega (IVA europeo por país, sales tax de EE.UU. por
+ * estado, clientes exentos...). Solo elige el TIPO: el cálculo de importes lo hace siempre el
+ * servicio de dominio `TaxCalculator`, igual para todas las políticas.
+ *
+ * Las implementaciones viven en `src/infraestructure/adapters`. Es síncrono
+ * por el mismo motivo que `ExchangeRateProvider`: trabaja con tablas ya
+ * cargadas y así los cálculos son reproducibles.
+ */
+
+/**
+ * Dónde se devenga el impuesto: país ISO 3166-1 alpha-2 y, si hace falta,
+ * región (estado en EE.UU.)
+ */
+export interface TaxJurisdiction {
+  readonly country: string;
+  readonly region?: string;
+}
+
+/**
+ * Tipo impositivo en porcentaje (21 es un 21%) con un nombre para
+ * mostrarlo en facturas ("ES VAT", "US-CA sales tax")
+ */
+export interface TaxRate {
+  readonly name: string;
+  readonly percentage: number;
+}
+
+/**
+ * Lo que una política necesita saber de una línea
+ */
+export interface TaxableLine {
+  readonly productId: string;
+}
+
+export interface TaxPolicy {
+  /**
+   * Tipo que corresponde a la línea en esa jurisdicción
+   * @throws NotFoundError si la política no cubre la jurisdicción
+   * @throws ValidationError si a la jurisdicción le faltan datos
+   */
+  rateFor(line: TaxableLine, jurisdiction: TaxJurisdiction): TaxRate;
+
+  /**
+   * Tipo que corresponde a los gastos de envío en esa jurisdicción. El envío
+   * tributa como una línea más, pero cada política decide su tipo (en
+   * algunos estados de EE.UU., por ejemplo, está exento)
+   * @throws NotFoundError si la política no cubre la jurisdicción
+   * @throws ValidationError si a la jurisdicción le faltan datos
+   */
+  shippingRateFor(jurisdiction: TaxJurisdiction): TaxRate;
+}
@@ -0,0 +1,120 @@
+/**
+ * VALUE OBJECT: Address
+ *
+ * Dirección postal: de 1 a 3 líneas de calle, ciudad, código postal,
+ * región (estado, provincia...) y país ISO 3166-1 alpha-2.
+ *
+ * El código postal se valida con el formato de cada país cuando se conoce
+ * (28013 en ES, SW1A 1AA en GB, 94105-1234 en US...). Todos los fallos se
+ * acumulan en un único `ValidationError`, para poder mostrarlos juntos en
+ * un formulario.
+ */
+
+import { ValidationError, ValidationFailure } from '../errors';
+
+export interface AddressProps {
+  lines: readonly string[];
+  city: string;
+  postalCode: string;
+  region?: string;
+  country: string;
+}
+
+/**
+ * Formato del código postal por país (ya normalizado a mayúsculas).
+ * Los países que no aparecen aceptan cualquier código no vacío.
+ */
+export const POSTAL_CODE_PATTERNS: Readonly<Record<string, RegExp>> = {
+  AT: /^\d{4}$/,
+  AU: /^\d{4}$/,
+  BE: /^\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+  CH: /^\d{4}$/,
+  DE: /^\d{5}$/,
+  DK: /^\d{4}$/,
+  ES: /^\d{5}$/,
+  FI: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+  IE: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/,
+  IT: /^\d{5}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  MX: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/,
+  NO: /^\d{4}$/,
+  PL: /^\d{2}-\d{3}$/,
+  PT: /^\d{4}-\d{3}$/,
+  SE: /^\d{3} ?\d{2}$/,
+  US: /^\d{5}(-\d{4})?$/,
+};
+
+/**
+ * Países en los que la región (estado, provincia) es obligatoria
+ */
+const REGION_REQUIRED = new Set(['US', 'CA', 'AU']);
+
+const MAX_LINES = 3;
+
+export class Address {
+  private constructor(
+    readonly lines: readonly string[],
+    readonly city: string,
+    readonly postalCode: string,
+    readonly region: string | undefined,
+    readonly country: string
+  ) {}
+
+  /**
+   * @throws ValidationError con todos los campos incorrectos
+   */
+  static create(props: AddressProps): Address {
+    const lines = props.lines.map(line => line.trim()).filter(line => line.length > 0);
+    const city = props.city.trim();
+    const postalCode = props.postalCode.trim().toUpperCase();
+    const region = props.region?.trim() || undefined;
+    const country = props.country.trim().toUpperCase();
+    const failures: ValidationFailure[] = [];
+
+    if (lines.length === 0 || lines.length > MAX_LINES) {
+      failures.push({ field: 'lines', message: `Must have between 1 and ${MAX_LINES} street lines`, value: props.lines });
+    }
+    if (city.length === 0) {
+      failures.push({ field: 'city', message: 'Must not be empty', value: props.city });
+    }
+    if (!/^[A-Z]{2}$/.test(country)) {
+      failures.push({ field: 'country', message: 'Must be an ISO 3166-1 alpha-2 code', value: props.country });
+    }
+
+    const pattern = POSTAL_CODE_PATTERNS[country];
+    if (postalCode.length === 0 || (pattern && !pattern.test(postalCode))) {
+      failures.push({ field: 'postalCode', message: `Invalid postal code for ${country}`, value: props.postalCode });
+    }
+    if (REGION_REQUIRED.has(country) && region === undefined) {
+      failures.push({ field: 'region', message: `Required for ${country}`, value: props.region });
+    }
+
+    if (failures.length > 0) {
+      throw new ValidationError('Address', failures);
+    }
+
+    return new Address(lines, city, postalCode, region, country);
+  }
+
+  equals(other: Address): boolean {
+    return this.lines.length === other.lines.length
+      && this.lines.every((line, index) => line === other.lines[index])
+      && this.city === other.city
+      && this.postalCode === other.postalCode
+      && this.region === other.region
+      && this.country === other.country;
+  }
+
+  /**
+   * Dirección en una línea ("Calle Mayor 1, 28013 Madrid, ES")
+   */
+  toString(): string {
+    const locality = [this.postalCode, this.city, this.region].filter(Boolean).join(' ');
+    return [...this.lines, locality, this.country].join(', ');
+  }
+}
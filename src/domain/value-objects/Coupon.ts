@@ -0,0 +1,90 @@
+/**
+ * VALUE OBJECT: Coupon
+ *
+ * Un código promocional ("VERANO10") con el descuento que otorga y las
+ * condiciones para usarlo: fecha de caducidad e importe mínimo de pedido.
+ * El código se normaliza a mayúsculas, así "verano10" y "VERANO10" son
+ * el mismo cupón.
+ */
+
+import { Discount } from './Discount';
+import { Price } from './Price';
+import { ValidationError, BusinessRuleViolationError } from '../errors';
+
+export interface CouponProps {
+  code: string;
+  discount: Discount;
+  expiresAt?: Date;
+  minimumOrderValue?: Price;
+}
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export class Coupon {
+  private constructor(
+    readonly code: string,
+    readonly discount: Discount,
+    readonly expiresAt: Date | undefined,
+    readonly minimumOrderValue: Price | undefined
+  ) {}
+
+  static create(props: CouponProps): Coupon {
+    const code = props.code.trim().toUpperCase();
+    if (!COUPON_CODE_PATTERN.test(code)) {
+      throw ValidationError.single(
+        'Coupon',
+        'code',
+        'Must be 3-32 letters, digits, "-" or "_"',
+        props.code
+      );
+    }
+    if (props.expiresAt && Number.isNaN(props.expiresAt.getTime())) {
+      throw ValidationError.single('Coupon', 'expiresAt', 'Must be a valid date', props.expiresAt);
+    }
+
+    return new Coupon(
+      code,
+      props.discount,
+      props.expiresAt ? new Date(props.expiresAt.getTime()) : undefined,
+      props.minimumOrderValue
+    );
+  }
+
+  isExpiredAt(date: Date): boolean {
+    return this.expiresAt !== undefined && date.getTime() > this.expiresAt.getTime();
+  }
+
+  /**
+   * Comprueba que el cupón se puede usar en un pedido con ese subtotal
+   * @throws BusinessRuleViolationError si ha caducado o no llega al mínimo
+   */
+  assertApplicable(subtotal: Price, at: Date): void {
+    if (this.isExpiredAt(at)) {
+      throw new BusinessRuleViolationError(
+        'CouponExpired',
+        `Coupon ${this.code} has expired`,
+        { code: this.code, expiresAt: this.expiresAt?.toISOString() }
+      );
+    }
+    if (this.minimumOrderValue && subtotal.lessThan(this.minimumOrderValue)) {
+      throw new BusinessRuleViolationError(
+        'MinimumOrderValue',
+        `Coupon ${this.code} requires an order of at least ${this.minimumOrderValue.toString()}`,
+        { code: this.code, minimumOrderValue: this.minimumOrderValue.toString(), subtotal: subtotal.toString() }
+      );
+    }
+  }
+
+  equals(other: Coupon): boolean {
+    return this.code === other.code
+      && this.discount.equals(other.discount)
+      && this.expiresAt?.getTime() === other.expiresAt?.getTime()
+      && (this.minimumOrderValue === undefined
+        ? other.minimumOrderValue === undefined
+        : other.minimumOrderValue !== undefined && this.minimumOrderValue.equals(other.minimumOrderValue));
+  }
+
+  toString(): string {
+    return `${this.code} (${this.discount.toString()})`;
+  }
+}
@@ -10,19 +10,59 @@
  * - Sin identidad: Se compara por valor, no por referencia
  * - Auto-validación: Garantiza que siempre está en un estado válido
  * - Lógica de dominio: Encapsula reglas de negocio relacionadas con ese concepto
+ * 
+ * Una moneda es un código ISO 4217 ('EUR', 'MXN', 'CHF'...). Los metadatos
+ * (decimales, símbolo, nombre) y las monedas habilitadas viven en
+ * `CurrencyRegistry`.
+ * 
+ * Cualquier moneda ISO 4217 es válida para leer datos (pedidos antiguos,
+ * eventos, tarifas); la lista de monedas habilitadas solo se comprueba al
+ * aceptar operaciones nuevas con `assertEnabledCurrency`.
  */
 
-export type Currency = "USD" | "EUR" | "GBP" | "JPY";
+import { ValidationError } from '../errors';
+import { CurrencyCode, CurrencyDefinition, currencyRegistry } from './CurrencyRegistry';
 
-export const VALID_CURRENCIES: readonly Currency[] = ["USD", "EUR", "GBP", "JPY"] as const;
+export type Currency = CurrencyCode;
 
+/**
+ * Indica si el valor es una moneda ISO 4217, esté habilitada o no
+ */
 export function isCurrency(value: string): value is Currency {
-  return VALID_CURRENCIES.includes(value as Currency);
+  return currencyRegistry.isKnown(value);
 }
 
+/**
+ * @throws ValidationError si el valor no es una moneda ISO 4217
+ */
 export function assertCurrency(value: string): asserts value is Currency {
   if (!isCurrency(value)) {
-    throw new Error(`Invalid currency: ${value}. Valid currencies are: ${VALID_CURRENCIES.join(', ')}`);
+    throw ValidationError.single('Currency', 'code', 'Unknown ISO 4217 currency code', value);
+  }
+}
+
+/**
+ * Para operaciones nuevas (crear un pedido, elegir la moneda preferida)
+ * @throws ValidationError si el valor no es una moneda ISO 4217 habilitada
+ */
+export function assertEnabledCurrency(value: string): asserts value is Currency {
+  assertCurrency(value);
+  if (!currencyRegistry.isEnabled(value)) {
+    throw ValidationError.single('Currency', 'code', 'Currency is not enabled', value);
   }
 }
 
+/**
+ * Metadatos ISO 4217 de la moneda (código numérico, decimales, símbolo, nombre)
+ */
+export function getCurrencyDefinition(currency: Currency): CurrencyDefinition {
+  return currencyRegistry.get(currency);
+}
+
+/**
+ * Número de decimales de la unidad mínima de la moneda.
+ * El yen no tiene céntimos (0), el dinar kuwaití tiene milésimas (3).
+ */
+export function getCurrencyExponent(currency: Currency): number {
+  return currencyRegistry.get(currency).exponent;
+}
@@ -0,0 +1,259 @@
+/**
+ * REGISTRO DE MONEDAS (ISO 4217)
+ * 
+ * Catálogo de las monedas activas del estándar ISO 4217 con su código
+ * alfabético, código numérico, número de decimales de la unidad mínima
+ * (exponente), símbolo y nombre.
+ * 
+ * La aplicación puede restringir qué monedas acepta (ej: solo las de los
+ * países donde vende) con `restrictTo()`; el resto sigue siendo conocido y
+ * válido para los datos ya existentes, pero no se pueden crear pedidos
+ * nuevos en ellas (ver `assertEnabledCurrency`).
+ */
+
+import { ValidationError } from '../errors';
+
+export interface CurrencyDefinition {
+  readonly code: string;
+  readonly numericCode: string;
+  readonly exponent: number;
+  readonly symbol: string;
+  readonly name: string;
+}
+
+export const ISO_4217_CURRENCIES = {
+  AED: { numericCode: '784', exponent: 2, symbol: 'د.إ', name: 'UAE Dirham' },
+  AFN: { numericCode: '971', exponent: 2, symbol: '؋', name: 'Afghani' },
+  ALL: { numericCode: '008', exponent: 2, symbol: 'L', name: 'Lek' },
+  AMD: { numericCode: '051', exponent: 2, symbol: '֏', name: 'Armenian Dram' },
+  ANG: { numericCode: '532', exponent: 2, symbol: 'ƒ', name: 'Netherlands Antillean Guilder' },
+  AOA: { numericCode: '973', exponent: 2, symbol: 'Kz', name: 'Kwanza' },
+  ARS: { numericCode: '032', exponent: 2, symbol: '$', name: 'Argentine Peso' },
+  AUD: { numericCode: '036', exponent: 2, symbol: 'A$', name: 'Australian Dollar' },
+  AWG: { numericCode: '533', exponent: 2, symbol: 'ƒ', name: 'Aruban Florin' },
+  AZN: { numericCode: '944', exponent: 2, symbol: '₼', name: 'Azerbaijan Manat' },
+  BAM: { numericCode: '977', exponent: 2, symbol: 'KM', name: 'Convertible Mark' },
+  BBD: { numericCode: '052', exponent: 2, symbol: 'Bds$', name: 'Barbados Dollar' },
+  BDT: { numericCode: '050', exponent: 2, symbol: '৳', name: 'Taka' },
+  BGN: { numericCode: '975', exponent: 2, symbol: 'лв', name: 'Bulgarian Lev' },
+  BHD: { numericCode: '048', exponent: 3, symbol: '.د.ب', name: 'Bahraini Dinar' },
+  BIF: { numericCode: '108', exponent: 0, symbol: 'FBu', name: 'Burundi Franc' },
+  BMD: { numericCode: '060', exponent: 2, symbol: '$', name: 'Bermudian Dollar' },
+  BND: { numericCode: '096', exponent: 2, symbol: 'B$', name: 'Brunei Dollar' },
+  BOB: { numericCode: '068', exponent: 2, symbol: 'Bs.', name: 'Boliviano' },
+  BRL: { numericCode: '986', exponent: 2, symbol: 'R$', name: 'Brazilian Real' },
+  BSD: { numericCode: '044', exponent: 2, symbol: 'B$', name: 'Bahamian Dollar' },
+  BTN: { numericCode: '064', exponent: 2, symbol: 'Nu.', name: 'Ngultrum' },
+  BWP: { numericCode: '072', exponent: 2, symbol: 'P', name: 'Pula' },
+  BYN: { numericCode: '933', exponent: 2, symbol: 'Br', name: 'Belarusian Ruble' },
+  BZD: { numericCode: '084', exponent: 2, symbol: 'BZ$', name: 'Belize Dollar' },
+  CAD: { numericCode: '124', exponent: 2, symbol: 'CA$', name: 'Canadian Dollar' },
+  CDF: { numericCode: '976', exponent: 2, symbol: 'FC', name: 'Congolese Franc' },
+  CHF: { numericCode: '756', exponent: 2, symbol: 'CHF', name: 'Swiss Franc' },
+  CLP: { numericCode: '152', exponent: 0, symbol: '$', name: 'Chilean Peso' },
+  CNY: { numericCode: '156', exponent: 2, symbol: '¥', name: 'Yuan Renminbi' },
+  COP: { numericCode: '170', exponent: 2, symbol: '$', name: 'Colombian Peso' },
+  CRC: { numericCode: '188', exponent: 2, symbol: '₡', name: 'Costa Rican Colon' },
+  CUP: { numericCode: '192', exponent: 2, symbol: '$', name: 'Cuban Peso' },
+  CVE: { numericCode: '132', exponent: 2, symbol: 'Esc', name: 'Cabo Verde Escudo' },
+  CZK: { numericCode: '203', exponent: 2, symbol: 'Kč', name: 'Czech Koruna' },
+  DJF: { numericCode: '262', exponent: 0, symbol: 'Fdj', name: 'Djibouti Franc' },
+  DKK: { numericCode: '208', exponent: 2, symbol: 'kr', name: 'Danish Krone' },
+  DOP: { numericCode: '214', exponent: 2, symbol: 'RD$', name: 'Dominican Peso' },
+  DZD: { numericCode: '012', exponent: 2, symbol: 'دج', name: 'Algerian Dinar' },
+  EGP: { numericCode: '818', exponent: 2, symbol: 'E£', name: 'Egyptian Pound' },
+  ERN: { numericCode: '232', exponent: 2, symbol: 'Nfk', name: 'Nakfa' },
+  ETB: { numericCode: '230', exponent: 2, symbol: 'Br', name: 'Ethiopian Birr' },
+  EUR: { numericCode: '978', exponent: 2, symbol: '€', name: 'Euro' },
+  FJD: { numericCode: '242', exponent: 2, symbol: 'FJ$', name: 'Fiji Dollar' },
+  FKP: { numericCode: '238', exponent: 2, symbol: '£', name: 'Falkland Islands Pound' },
+  GBP: { numericCode: '826', exponent: 2, symbol: '£', name: 'Pound Sterling' },
+  GEL: { numericCode: '981', exponent: 2, symbol: '₾', name: 'Lari' },
+  GHS: { numericCode: '936', exponent: 2, symbol: 'GH₵', name: 'Ghana Cedi' },
+  GIP: { numericCode: '292', exponent: 2, symbol: '£', name: 'Gibraltar Pound' },
+  GMD: { numericCode: '270', exponent: 2, symbol: 'D', name: 'Dalasi' },
+  GNF: { numericCode: '324', exponent: 0, symbol: 'FG', name: 'Guinean Franc' },
+  GTQ: { numericCode: '320', exponent: 2, symbol: 'Q', name: 'Quetzal' },
+  GYD: { numericCode: '328', exponent: 2, symbol: 'G$', name: 'Guyana Dollar' },
+  HKD: { numericCode: '344', exponent: 2, symbol: 'HK$', name: 'Hong Kong Dollar' },
+  HNL: { numericCode: '340', exponent: 2, symbol: 'L', name: 'Lempira' },
+  HTG: { numericCode: '332', exponent: 2, symbol: 'G', name: 'Gourde' },
+  HUF: { numericCode: '348', exponent: 2, symbol: 'Ft', name: 'Forint' },
+  IDR: { numericCode: '360', exponent: 2, symbol: 'Rp', name: 'Rupiah' },
+  ILS: { numericCode: '376', exponent: 2, symbol: '₪', name: 'New Israeli Sheqel' },
+  INR: { numericCode: '356', exponent: 2, symbol: '₹', name: 'Indian Rupee' },
+  IQD: { numericCode: '368', exponent: 3, symbol: 'ع.د', name: 'Iraqi Dinar' },
+  IRR: { numericCode: '364', exponent: 2, symbol: '﷼', name: 'Iranian Rial' },
+  ISK: { numericCode: '352', exponent: 0, symbol: 'kr', name: 'Iceland Krona' },
+  JMD: { numericCode: '388', exponent: 2, symbol: 'J$', name: 'Jamaican Dollar' },
+  JOD: { numericCode: '400', exponent: 3, symbol: 'JD', name: 'Jordanian Dinar' },
+  JPY: { numericCode: '392', exponent: 0, symbol: '¥', name: 'Yen' },
+  KES: { numericCode: '404', exponent: 2, symbol: 'KSh', name: 'Kenyan Shilling' },
+  KGS: { numericCode: '417', exponent: 2, symbol: 'сом', name: 'Som' },
+  KHR: { numericCode: '116', exponent: 2, symbol: '៛', name: 'Riel' },
+  KMF: { numericCode: '174', exponent: 0, symbol: 'CF', name: 'Comorian Franc' },
+  KPW: { numericCode: '408', exponent: 2, symbol: '₩', name: 'North Korean Won' },
+  KRW: { numericCode: '410', exponent: 0, symbol: '₩', name: 'Won' },
+  KWD: { numericCode: '414', exponent: 3, symbol: 'KD', name: 'Kuwaiti Dinar' },
+  KYD: { numericCode: '136', exponent: 2, symbol: 'CI$', name: 'Cayman Islands Dollar' },
+  KZT: { numericCode: '398', exponent: 2, symbol: '₸', name: 'Tenge' },
+  LAK: { numericCode: '418', exponent: 2, symbol: '₭', name: 'Lao Kip' },
+  LBP: { numericCode: '422', exponent: 2, symbol: 'ل.ل', name: 'Lebanese Pound' },
+  LKR: { numericCode: '144', exponent: 2, symbol: 'Rs', name: 'Sri Lanka Rupee' },
+  LRD: { numericCode: '430', exponent: 2, symbol: 'L$', name: 'Liberian Dollar' },
+  LSL: { numericCode: '426', exponent: 2, symbol: 'L', name: 'Loti' },
+  LYD: { numericCode: '434', exponent: 3, symbol: 'LD', name: 'Libyan Dinar' },
+  MAD: { numericCode: '504', exponent: 2, symbol: 'DH', name: 'Moroccan Dirham' },
+  MDL: { numericCode: '498', exponent: 2, symbol: 'L', name: 'Moldovan Leu' },
+  MGA: { numericCode: '969', exponent: 2, symbol: 'Ar', name: 'Malagasy Ariary' },
+  MKD: { numericCode: '807', exponent: 2, symbol: 'ден', name: 'Denar' },
+  MMK: { numericCode: '104', exponent: 2, symbol: 'K', name: 'Kyat' },
+  MNT: { numericCode: '496', exponent: 2, symbol: '₮', name: 'Tugrik' },
+  MOP: { numericCode: '446', exponent: 2, symbol: 'MOP$', name: 'Pataca' },
+  MRU: { numericCode: '929', exponent: 2, symbol: 'UM', name: 'Ouguiya' },
+  MUR: { numericCode: '480', exponent: 2, symbol: '₨', name: 'Mauritius Rupee' },
+  MVR: { numericCode: '462', exponent: 2, symbol: 'Rf', name: 'Rufiyaa' },
+  MWK: { numericCode: '454', exponent: 2, symbol: 'MK', name: 'Malawi Kwacha' },
+  MXN: { numericCode: '484', exponent: 2, symbol: 'MX$', name: 'Mexican Peso' },
+  MYR: { numericCode: '458', exponent: 2, symbol: 'RM', name: 'Malaysian Ringgit' },
+  MZN: { numericCode: '943', exponent: 2, symbol: 'MT', name: 'Mozambique Metical' },
+  NAD: { numericCode: '516', exponent: 2, symbol: 'N$', name: 'Namibia Dollar' },
+  NGN: { numericCode: '566', exponent: 2, symbol: '₦', name: 'Naira' },
+  NIO: { numericCode: '558', exponent: 2, symbol: 'C$', name: 'Cordoba Oro' },
+  NOK: { numericCode: '578', exponent: 2, symbol: 'kr', name: 'Norwegian Krone' },
+  NPR: { numericCode: '524', exponent: 2, symbol: 'Rs', name: 'Nepalese Rupee' },
+  NZD: { numericCode: '554', exponent: 2, symbol: 'NZ$', name: 'New Zealand Dollar' },
+  OMR: { numericCode: '512', exponent: 3, symbol: 'ر.ع.', name: 'Rial Omani' },
+  PAB: { numericCode: '590', exponent: 2, symbol: 'B/.', name: 'Balboa' },
+  PEN: { numericCode: '604', exponent: 2, symbol: 'S/', name: 'Sol' },
+  PGK: { numericCode: '598', exponent: 2, symbol: 'K', name: 'Kina' },
+  PHP: { numericCode: '608', exponent: 2, symbol: '₱', name: 'Philippine Peso' },
+  PKR: { numericCode: '586', exponent: 2, symbol: 'Rs', name: 'Pakistan Rupee' },
+  PLN: { numericCode: '985', exponent: 2, symbol: 'zł', name: 'Zloty' },
+  PYG: { numericCode: '600', exponent: 0, symbol: '₲', name: 'Guarani' },
+  QAR: { numericCode: '634', exponent: 2, symbol: 'QR', name: 'Qatari Rial' },
+  RON: { numericCode: '946', exponent: 2, symbol: 'lei', name: 'Romanian Leu' },
+  RSD: { numericCode: '941', exponent: 2, symbol: 'дин', name: 'Serbian Dinar' },
+  RUB: { numericCode: '643', exponent: 2, symbol: '₽', name: 'Russian Ruble' },
+  RWF: { numericCode: '646', exponent: 0, symbol: 'FRw', name: 'Rwanda Franc' },
+  SAR: { numericCode: '682', exponent: 2, symbol: 'SR', name: 'Saudi Riyal' },
+  SBD: { numericCode: '090', exponent: 2, symbol: 'SI$', name: 'Solomon Islands Dollar' },
+  SCR: { numericCode: '690', exponent: 2, symbol: 'SRe', name: 'Seychelles Rupee' },
+  SDG: { numericCode: '938', exponent: 2, symbol: '£', name: 'Sudanese Pound' },
+  SEK: { numericCode: '752', exponent: 2, symbol: 'kr', name: 'Swedish Krona' },
+  SGD: { numericCode: '702', exponent: 2, symbol: 'S$', name: 'Singapore Dollar' },
+  SHP: { numericCode: '654', exponent: 2, symbol: '£', name: 'Saint Helena Pound' },
+  SLE: { numericCode: '925', exponent: 2, symbol: 'Le', name: 'Leone' },
+  SOS: { numericCode: '706', exponent: 2, symbol: 'Sh', name: 'Somali Shilling' },
+  SRD: { numericCode: '968', exponent: 2, symbol: '$', name: 'Surinam Dollar' },
+  SSP: { numericCode: '728', exponent: 2, symbol: '£', name: 'South Sudanese Pound' },
+  STN: { numericCode: '930', exponent: 2, symbol: 'Db', name: 'Dobra' },
+  SVC: { numericCode: '222', exponent: 2, symbol: '₡', name: 'El Salvador Colon' },
+  SYP: { numericCode: '760', exponent: 2, symbol: '£S', name: 'Syrian Pound' },
+  SZL: { numericCode: '748', exponent: 2, symbol: 'E', name: 'Lilangeni' },
+  THB: { numericCode: '764', exponent: 2, symbol: '฿', name: 'Baht' },
+  TJS: { numericCode: '972', exponent: 2, symbol: 'SM', name: 'Somoni' },
+  TMT: { numericCode: '934', exponent: 2, symbol: 'm', name: 'Turkmenistan New Manat' },
+  TND: { numericCode: '788', exponent: 3, symbol: 'DT', name: 'Tunisian Dinar' },
+  TOP: { numericCode: '776', exponent: 2, symbol: 'T$', name: 'Pa\'anga' },
+  TRY: { numericCode: '949', exponent: 2, symbol: '₺', name: 'Turkish Lira' },
+  TTD: { numericCode: '780', exponent: 2, symbol: 'TT$', name: 'Trinidad and Tobago Dollar' },
+  TWD: { numericCode: '901', exponent: 2, symbol: 'NT$', name: 'New Taiwan Dollar' },
+  TZS: { numericCode: '834', exponent: 2, symbol: 'TSh', name: 'Tanzanian Shilling' },
+  UAH: { numericCode: '980', exponent: 2, symbol: '₴', name: 'Hryvnia' },
+  UGX: { numericCode: '800', exponent: 0, symbol: 'USh', name: 'Uganda Shilling' },
+  USD: { numericCode: '840', exponent: 2, symbol: '$', name: 'US Dollar' },
+  UYU: { numericCode: '858', exponent: 2, symbol: '$U', name: 'Peso Uruguayo' },
+  UZS: { numericCode: '860', exponent: 2, symbol: 'soʻm', name: 'Uzbekistan Sum' },
+  VES: { numericCode: '928', exponent: 2, symbol: 'Bs.S', name: 'Bolívar Soberano' },
+  VND: { numericCode: '704', exponent: 0, symbol: '₫', name: 'Dong' },
+  VUV: { numericCode: '548', exponent: 0, symbol: 'VT', name: 'Vatu' },
+  WST: { numericCode: '882', exponent: 2, symbol: 'WS$', name: 'Tala' },
+  XAF: { numericCode: '950', exponent: 0, symbol: 'FCFA', name: 'CFA Franc BEAC' },
+  XCD: { numericCode: '951', exponent: 2, symbol: 'EC$', name: 'East Caribbean Dollar' },
+  XOF: { numericCode: '952', exponent: 0, symbol: 'CFA', name: 'CFA Franc BCEAO' },
+  XPF: { numericCode: '953', exponent: 0, symbol: 'CFP', name: 'CFP Franc' },
+  YER: { numericCode: '886', exponent: 2, symbol: '﷼', name: 'Yemeni Rial' },
+  ZAR: { numericCode: '710', exponent: 2, symbol: 'R', name: 'Rand' },
+  ZMW: { numericCode: '967', exponent: 2, symbol: 'ZK', name: 'Zambian Kwacha' },
+  ZWG: { numericCode: '924', exponent: 2, symbol: 'ZiG', name: 'Zimbabwe Gold' },
+} as const satisfies Record<string, Omit<CurrencyDefinition, 'code'>>;
+
+export type CurrencyCode = keyof typeof ISO_4217_CURRENCIES;
+
+const ALL_CODES = Object.keys(ISO_4217_CURRENCIES) as CurrencyCode[];
+
+export class CurrencyRegistry {
+  private enabled: ReadonlySet<CurrencyCode> = new Set(ALL_CODES);
+
+  /**
+   * Indica si el código pertenece al estándar ISO 4217
+   */
+  isKnown(code: string): code is CurrencyCode {
+    return Object.prototype.hasOwnProperty.call(ISO_4217_CURRENCIES, code);
+  }
+
+  /**
+   * Indica si el código es conocido Y está habilitado en la aplicación
+   */
+  isEnabled(code: string): code is CurrencyCode {
+    return this.isKnown(code) && this.enabled.has(code);
+  }
+
+  /**
+   * @throws ValidationError si el código no pertenece a ISO 4217
+   */
+  get(code: string): CurrencyDefinition {
+    if (!this.isKnown(code)) {
+      throw ValidationError.single('Currency', 'code', 'Unknown ISO 4217 currency code', code);
+    }
+    return { code, ...ISO_4217_CURRENCIES[code] };
+  }
+
+  /**
+   * Busca una moneda por su código numérico (ej: '978' → EUR)
+   */
+  findByNumericCode(numericCode: string): CurrencyDefinition | undefined {
+    const code = ALL_CODES.find(c => ISO_4217_CURRENCIES[c].numericCode === numericCode);
+    return code === undefined ? undefined : this.get(code);
+  }
+
+  /**
+   * Monedas habilitadas, ordenadas por código
+   */
+  enabledCurrencies(): CurrencyDefinition[] {
+    return ALL_CODES.filter(code => this.enabled.has(code)).map(code => this.get(code));
+  }
+
+  /**
+   * Limita las monedas aceptadas a las indicadas
+   * @throws ValidationError si alguno de los códigos no existe
+   */
+  restrictTo(codes: readonly string[]): void {
+    const unknown = codes.filter(code => !this.isKnown(code));
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        'CurrencyRegistry',
+        unknown.map(code => ({ field: 'enabledCurrencies', message: 'Unknown ISO 4217 currency code', value: code }))
+      );
+    }
+    if (codes.length === 0) {
+      throw ValidationError.single('CurrencyRegistry', 'enabledCurrencies', 'At least one currency must be enabled');
+    }
+
+    this.enabled = new Set(codes as CurrencyCode[]);
+  }
+
+  /**
+   * Vuelve a habilitar todas las monedas ISO 4217
+   */
+  enableAll(): void {
+    this.enabled = new Set(ALL_CODES);
+  }
+}
+
+/**
+ * Registro compartido por toda la aplicación.
+ * Se configura una sola vez al arrancar (ver `main.ts`).
+ */
+export const currencyRegistry = new CurrencyRegistry();
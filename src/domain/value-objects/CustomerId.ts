@@ -0,0 +1,50 @@
+/**
+ * VALUE OBJECT: CustomerId
+ * 
+ * Identificador único de cliente (UUID v4), con las mismas reglas que
+ * `OrderId`. Los pedidos lo guardan para seguir ligados al cliente aunque
+ * este cambie de email.
+ */
+
+import { ValidationError } from '../errors';
+
+export class CustomerId {
+  private constructor(readonly value: string) {}
+
+  /**
+   * @throws ValidationError si está vacío o no es un UUID v4
+   */
+  static create(value: string): CustomerId {
+    if (!value || value.trim().length === 0) {
+      throw ValidationError.single(
+        'CustomerId',
+        'value',
+        'CustomerId cannot be empty'
+      );
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(value)) {
+      throw ValidationError.single(
+        'CustomerId',
+        'value',
+        'Invalid CustomerId format (must be UUID v4)',
+        value
+      );
+    }
+
+    return new CustomerId(value);
+  }
+
+  static generate(): CustomerId {
+    return CustomerId.create(crypto.randomUUID());
+  }
+
+  equals(other: CustomerId): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
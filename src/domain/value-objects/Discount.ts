@@ -0,0 +1,194 @@
+/**
+ * VALUE OBJECT: Discount
+ *
+ * Una regla de descuento, sin saber nada de cupones ni de pedidos concretos.
+ * Hay dos ámbitos:
+ * - De LÍNEA: `BUY_X_GET_Y` (3x2 en un producto) y `FREE_ITEM` (un producto
+ *   gratis si el pedido supera un importe). Rebajan líneas concretas.
+ * - De PEDIDO: `PERCENTAGE` y `FIXED_AMOUNT`. Se aplican sobre el importe
+ *   que queda tras los descuentos de línea.
+ *
+ * Un descuento nunca deja un importe negativo: como mucho lo deja a cero.
+ * El tope de `MAX_DISCOUNT_PERCENTAGE` sobre el subtotal lo aplica el
+ * pedido (`Order.pricing()`) a lo que se descuenta, para todos los tipos.
+ */
+
+import { Price } from './Price';
+import { ValidationError, BusinessRuleViolationError } from '../errors';
+
+/**
+ * Porcentaje máximo del subtotal que puede descontar un cupón, sea del tipo
+ * que sea
+ */
+export const MAX_DISCOUNT_PERCENTAGE = 50;
+
+export type DiscountDefinition =
+  | { readonly type: 'PERCENTAGE'; readonly percentage: number }
+  | { readonly type: 'FIXED_AMOUNT'; readonly amount: Price }
+  | { readonly type: 'BUY_X_GET_Y'; readonly productId: string; readonly buy: number; readonly get: number }
+  | { readonly type: 'FREE_ITEM'; readonly productId: string; readonly threshold: Price };
+
+export type DiscountType = DiscountDefinition['type'];
+
+/**
+ * Lo mínimo que necesita un descuento de una línea para calcularse
+ */
+export interface DiscountableLine {
+  readonly productId: string;
+  readonly quantity: number;
+  readonly unitPrice: Price;
+}
+
+export class Discount {
+  private constructor(readonly definition: DiscountDefinition) {}
+
+  /**
+   * Porcentaje sobre el pedido: `Discount.percentage(10)` es un 10% menos
+   * @throws BusinessRuleViolationError si supera `MAX_DISCOUNT_PERCENTAGE`
+   */
+  static percentage(percentage: number): Discount {
+    if (!Number.isFinite(percentage) || percentage <= 0) {
+      throw ValidationError.single(
+        'Discount',
+        'percentage',
+        'Must be a positive finite number',
+        percentage
+      );
+    }
+    if (percentage > MAX_DISCOUNT_PERCENTAGE) {
+      throw new BusinessRuleViolationError(
+        'MaxDiscountPercentage',
+        `Discount cannot exceed ${MAX_DISCOUNT_PERCENTAGE}%`,
+        { attemptedDiscount: percentage, maxAllowed: MAX_DISCOUNT_PERCENTAGE }
+      );
+    }
+
+    return new Discount({ type: 'PERCENTAGE', percentage });
+  }
+
+  /**
+   * Importe fijo sobre el pedido (ej: 5 EUR menos)
+   */
+  static fixedAmount(amount: Price): Discount {
+    if (amount.isZero()) {
+      throw ValidationError.single('Discount', 'amount', 'Must be greater than zero', amount.toString());
+    }
+
+    return new Discount({ type: 'FIXED_AMOUNT', amount });
+  }
+
+  /**
+   * Compra `buy` y llévate `get` gratis de un producto:
+   * `buyXGetY('p1', 2, 1)` es un 3x2
+   */
+  static buyXGetY(productId: string, buy: number, get: number): Discount {
+    Discount.assertProductId(productId);
+    for (const [field, value] of [['buy', buy], ['get', get]] as const) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw ValidationError.single('Discount', field, 'Must be a positive integer', value);
+      }
+    }
+
+    return new Discount({ type: 'BUY_X_GET_Y', productId, buy, get });
+  }
+
+  /**
+   * Una unidad de `productId` gratis si el subtotal llega a `threshold`
+   */
+  static freeItemAbove(threshold: Price, productId: string): Discount {
+    Discount.assertProductId(productId);
+
+    return new Discount({ type: 'FREE_ITEM', productId, threshold });
+  }
+
+  get type(): DiscountType {
+    return this.definition.type;
+  }
+
+  /**
+   * Indica si el descuento rebaja líneas (y no el total del pedido)
+   */
+  isLineDiscount(): boolean {
+    return this.definition.type === 'BUY_X_GET_Y' || this.definition.type === 'FREE_ITEM';
+  }
+
+  /**
+   * Descuento sobre una línea. `subtotal` es el del pedido completo
+   * (lo necesita `FREE_ITEM` para comprobar el umbral).
+   */
+  discountForLine(line: DiscountableLine, subtotal: Price): Price {
+    const none = Price.fromMinorUnits(0, line.unitPrice.currency);
+    const definition = this.definition;
+
+    switch (definition.type) {
+      case 'BUY_X_GET_Y': {
+        if (line.productId !== definition.productId) {
+          return none;
+        }
+        const freeUnits = Math.floor(line.quantity / (definition.buy + definition.get)) * definition.get;
+        return line.unitPrice.multiply(freeUnits);
+      }
+      case 'FREE_ITEM':
+        if (line.productId !== definition.productId || line.quantity === 0) {
+          return none;
+        }
+        return subtotal.lessThan(definition.threshold) ? none : line.unitPrice;
+      default:
+        return none;
+    }
+  }
+
+  /**
+   * Descuento sobre el pedido, calculado sobre `amount` (el importe tras
+   * los descuentos de línea). Nunca es mayor que `amount`.
+   */
+  discountForOrder(amount: Price): Price {
+    const definition = this.definition;
+
+    switch (definition.type) {
+      case 'PERCENTAGE':
+        return amount.percentage(definition.percentage);
+      case 'FIXED_AMOUNT':
+        return definition.amount.greaterThan(amount) ? amount : definition.amount;
+      default:
+        return Price.fromMinorUnits(0, amount.currency);
+    }
+  }
+
+  equals(other: Discount): boolean {
+    const a = this.definition;
+    const b = other.definition;
+
+    switch (a.type) {
+      case 'PERCENTAGE':
+        return b.type === 'PERCENTAGE' && a.percentage === b.percentage;
+      case 'FIXED_AMOUNT':
+        return b.type === 'FIXED_AMOUNT' && a.amount.equals(b.amount);
+      case 'BUY_X_GET_Y':
+        return b.type === 'BUY_X_GET_Y' && a.productId === b.productId && a.buy === b.buy && a.get === b.get;
+      case 'FREE_ITEM':
+        return b.type === 'FREE_ITEM' && a.productId === b.productId && a.threshold.equals(b.threshold);
+    }
+  }
+
+  toString(): string {
+    const definition = this.definition;
+
+    switch (definition.type) {
+      case 'PERCENTAGE':
+        return `${definition.percentage}% off`;
+      case 'FIXED_AMOUNT':
+        return `${definition.amount.toString()} off`;
+      case 'BUY_X_GET_Y':
+        return `Buy ${definition.buy} get ${definition.get} free on ${definition.productId}`;
+      case 'FREE_ITEM':
+        return `Free ${definition.productId} from ${definition.threshold.toString()}`;
+    }
+  }
+
+  private static assertProductId(productId: string): void {
+    if (productId.trim() === '') {
+      throw ValidationError.single('Discount', 'productId', 'Must not be empty', productId);
+    }
+  }
+}
@@ -3,15 +3,63 @@
  * 
  * Representa una dirección de correo electrónico válida.
  * Ejemplo perfecto de Value Object que encapsula validación y lógica de dominio.
+ * 
+ * La validación sigue RFC 5321/5322: parte local "dot-atom" de hasta 64
+ * caracteres, dominio de etiquetas de hasta 63 y 253 en total, y 254 para
+ * la dirección completa. Las partes locales entre comillas
+ * ('"john smith"@example.com') solo se admiten con `allowQuotedLocalPart`.
+ * 
+ * Los dominios internacionalizados se guardan en punycode
+ * ('ana@bücher.de' -> 'ana@xn--bcher-kva.de'), así el valor es ASCII y dos
+ * formas de escribir el mismo dominio dan el mismo email.
+ * 
+ * El dominio de los seudónimos (`ANONYMIZED_EMAIL_DOMAIN`) está reservado:
+ * solo se admite con `allowPseudonym`, al reconstruir datos ya guardados.
  */
 
+import { domainToASCII } from 'node:url';
 import { ValidationError } from '../errors';
 
+export interface EmailOptions {
+  /** Admite partes locales entre comillas (`false` por defecto) */
+  allowQuotedLocalPart?: boolean;
+  /** Admite seudónimos de anonimización (`false` por defecto) */
+  allowPseudonym?: boolean;
+}
+
+export const MAX_EMAIL_LENGTH = 254;
+export const MAX_LOCAL_PART_LENGTH = 64;
+export const MAX_DOMAIN_LENGTH = 253;
+
+/**
+ * Dominio reservado (RFC 2606) de los seudónimos con que se sustituye el
+ * email de un cliente anonimizado
+ */
+export const ANONYMIZED_EMAIL_DOMAIN = 'anonymized.invalid';
+
+const DOT_ATOM = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const QUOTED_STRING = /^"(?:[\x20\x21\x23-\x5b\x5d-\x7e]|\\[\x20-\x7e])+"$/;
+const DOMAIN_LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const TOP_LEVEL_DOMAIN = /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+/**
+ * Proveedores que ignoran los puntos de la parte local, con su dominio principal
+ */
+const DOTLESS_DOMAINS: Readonly<Record<string, string>> = {
+  'gmail.com': 'gmail.com',
+  'googlemail.com': 'gmail.com',
+};
+
+const SUBADDRESS_SEPARATOR = '+';
+
 export class Email {
   private constructor(readonly value: string) {}
 
-  static create(value: string): Email {
-    const trimmed = value.trim().toLowerCase();
+  /**
+   * @throws ValidationError si el email no es válido
+   */
+  static create(value: string, options: EmailOptions = {}): Email {
+    const trimmed = value.trim();
 
     if (!trimmed) {
       throw ValidationError.single(
@@ -21,22 +69,127 @@ export class Email {
       );
     }
 
-    // Validación básica de email
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(trimmed)) {
-      throw ValidationError.single(
-        'Email',
-        'value',
-        'Invalid email format',
-        value
-      );
+    const at = trimmed.lastIndexOf('@');
+    const rawLocalPart = trimmed.slice(0, at);
+    const rawDomain = trimmed.slice(at + 1);
+    if (at < 1 || rawDomain.length === 0) {
+      throw Email.invalid('Invalid email format', value);
+    }
+
+    const localPart = Email.normalizeLocalPart(rawLocalPart, options, value);
+    const domain = Email.normalizeDomain(rawDomain, value);
+    if (domain === ANONYMIZED_EMAIL_DOMAIN && !options.allowPseudonym) {
+      throw Email.invalid(`The ${ANONYMIZED_EMAIL_DOMAIN} domain is reserved`, value);
+    }
+
+    const normalized = `${localPart}@${domain}`;
+    if (normalized.length > MAX_EMAIL_LENGTH) {
+      throw Email.invalid(`Email must be at most ${MAX_EMAIL_LENGTH} characters`, value);
+    }
+
+    return new Email(normalized);
+  }
+
+  /**
+   * Las partes locales sin comillas no distinguen mayúsculas en la práctica;
+   * las entrecomilladas se guardan tal cual
+   */
+  private static normalizeLocalPart(localPart: string, options: EmailOptions, value: string): string {
+    if (localPart.startsWith('"')) {
+      if (!options.allowQuotedLocalPart) {
+        throw Email.invalid('Quoted local parts are not allowed', value);
+      }
+      if (!QUOTED_STRING.test(localPart)) {
+        throw Email.invalid('Invalid quoted local part', value);
+      }
+    } else if (!DOT_ATOM.test(localPart.toLowerCase())) {
+      throw Email.invalid('Invalid email format', value);
+    }
+
+    if (localPart.length > MAX_LOCAL_PART_LENGTH) {
+      throw Email.invalid(`Local part must be at most ${MAX_LOCAL_PART_LENGTH} characters`, value);
+    }
+    return localPart.startsWith('"') ? localPart : localPart.toLowerCase();
+  }
+
+  /**
+   * Dominio en minúsculas y punycode (IDNA); no se admiten IPs literales
+   */
+  private static normalizeDomain(domain: string, value: string): string {
+    const ascii = domainToASCII(domain);
+    const labels = ascii.split('.');
+    const topLevel = labels[labels.length - 1] ?? '';
+
+    if (
+      ascii.length === 0
+      || labels.length < 2
+      || !labels.every(label => DOMAIN_LABEL.test(label))
+      || !TOP_LEVEL_DOMAIN.test(topLevel)
+    ) {
+      throw Email.invalid('Invalid email format', value);
+    }
+    if (ascii.length > MAX_DOMAIN_LENGTH) {
+      throw Email.invalid(`Domain must be at most ${MAX_DOMAIN_LENGTH} characters`, value);
     }
+    return ascii;
+  }
+
+  /**
+   * Email aleatorio en `ANONYMIZED_EMAIL_DOMAIN`: no se deriva de ningún
+   * email real ni llega a ningún buzón
+   */
+  static pseudonym(): Email {
+    return new Email(`${crypto.randomUUID()}@${ANONYMIZED_EMAIL_DOMAIN}`);
+  }
 
-    return new Email(trimmed);
+  private static invalid(message: string, value: string): ValidationError {
+    return ValidationError.single('Email', 'value', message, value);
   }
 
+  /**
+   * Indica si es un seudónimo de anonimización (no se le puede escribir)
+   */
+  isPseudonym(): boolean {
+    return this.getDomain() === ANONYMIZED_EMAIL_DOMAIN;
+  }
+
+  getLocalPart(): string {
+    return this.value.slice(0, this.value.lastIndexOf('@'));
+  }
+
+  /**
+   * Dominio normalizado (minúsculas y punycode)
+   */
   getDomain(): string {
-    return this.value.split('@')[1] || '';
+    return this.value.slice(this.value.lastIndexOf('@') + 1);
+  }
+
+  /**
+   * Forma canónica del buzón para detectar duplicados: sin subdirección
+   * ('ana+tienda@...' -> 'ana@...') y, en Gmail, sin puntos y con su
+   * dominio principal. NO es una dirección a la que enviar correo.
+   */
+  canonical(): string {
+    const localPart = this.getLocalPart();
+    const domain = this.getDomain();
+    if (localPart.startsWith('"')) {
+      return this.value;
+    }
+
+    const separator = localPart.indexOf(SUBADDRESS_SEPARATOR);
+    const mailbox = separator > 0 ? localPart.slice(0, separator) : localPart;
+    const dotlessDomain = DOTLESS_DOMAINS[domain];
+
+    return dotlessDomain === undefined
+      ? `${mailbox}@${domain}`
+      : `${mailbox.replaceAll('.', '')}@${dotlessDomain}`;
+  }
+
+  /**
+   * Indica si los dos emails llegan al mismo buzón según `canonical()`
+   */
+  isSameMailbox(other: Email): boolean {
+    return this.canonical() === other.canonical();
   }
 
   equals(other: Email): boolean {
@@ -46,4 +199,4 @@ export class Email {
   toString(): string {
     return this.value;
   }
-}
\ No newline at end of file
+}
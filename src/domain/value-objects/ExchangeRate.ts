@@ -0,0 +1,63 @@
+/**
+ * VALUE OBJECT: ExchangeRate
+ * 
+ * Tipo de cambio entre dos monedas en un momento dado:
+ * 1 `base` = `rate` `quote` (ej: 1 EUR = 1.08 USD a fecha 2024-01-01).
+ * 
+ * Guardar el momento (`asOf`) junto al valor permite reproducir cualquier
+ * conversión: con el mismo tipo de cambio se obtiene siempre el mismo importe.
+ */
+
+import { Currency } from './Currency';
+import { ValidationError } from '../errors';
+
+export class ExchangeRate {
+  private constructor(
+    readonly base: Currency,
+    readonly quote: Currency,
+    readonly rate: number,
+    readonly asOf: Date
+  ) {}
+
+  static create(base: Currency, quote: Currency, rate: number, asOf: Date): ExchangeRate {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw ValidationError.single(
+        'ExchangeRate',
+        'rate',
+        'Must be a positive finite number',
+        rate
+      );
+    }
+    if (base === quote && rate !== 1) {
+      throw ValidationError.single(
+        'ExchangeRate',
+        'rate',
+        'Rate between the same currency must be 1',
+        rate
+      );
+    }
+    if (Number.isNaN(asOf.getTime())) {
+      throw ValidationError.single('ExchangeRate', 'asOf', 'Must be a valid date', asOf);
+    }
+
+    return new ExchangeRate(base, quote, rate, new Date(asOf.getTime()));
+  }
+
+  /**
+   * Tipo de cambio en sentido contrario (quote → base)
+   */
+  inverse(): ExchangeRate {
+    return ExchangeRate.create(this.quote, this.base, 1 / this.rate, this.asOf);
+  }
+
+  equals(other: ExchangeRate): boolean {
+    return this.base === other.base
+      && this.quote === other.quote
+      && this.rate === other.rate
+      && this.asOf.getTime() === other.asOf.getTime();
+  }
+
+  toString(): string {
+    return `1 ${this.base} = ${this.rate} ${this.quote} (${this.asOf.toISOString()})`;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * VALUE OBJECT: MarketingConsent
+ *
+ * Consentimiento de un cliente para recibir comunicaciones comerciales por
+ * un canal. Guarda cuándo se dio y cuándo se retiró por última vez, que es
+ * lo que hay que poder demostrar ante una reclamación (RGPD).
+ */
+
+import { ValidationError } from '../errors';
+
+export const MARKETING_CHANNELS = ['email', 'sms', 'phone'] as const;
+
+export type MarketingChannel = typeof MARKETING_CHANNELS[number];
+
+export interface MarketingConsent {
+  readonly channel: MarketingChannel;
+  readonly granted: boolean;
+  readonly grantedAt: Date | null;
+  readonly withdrawnAt: Date | null;
+}
+
+/**
+ * Canales que solo tienen sentido si el cliente tiene teléfono
+ */
+export const PHONE_MARKETING_CHANNELS: ReadonlySet<MarketingChannel> = new Set(['sms', 'phone']);
+
+export function isMarketingChannel(value: string): value is MarketingChannel {
+  return (MARKETING_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * @throws ValidationError si el canal no existe
+ */
+export function assertMarketingChannel(value: string): asserts value is MarketingChannel {
+  if (!isMarketingChannel(value)) {
+    throw ValidationError.single(
+      'MarketingConsent',
+      'channel',
+      `Must be one of: ${MARKETING_CHANNELS.join(', ')}`,
+      value
+    );
+  }
+}
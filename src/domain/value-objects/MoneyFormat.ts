@@ -0,0 +1,138 @@
+/**
+ * Formateo y lectura de importes según el locale, sobre `Intl.NumberFormat`.
+ *
+ * Lo usa `Price.format()` / `Price.parse()`. Aquí solo se trabaja con texto:
+ * los importes entran y salen como strings decimales ("1234.56") para no
+ * pasar nunca por coma flotante.
+ */
+
+import { Currency, isCurrency } from './Currency';
+import { currencyRegistry } from './CurrencyRegistry';
+import { ValidationError } from '../errors';
+
+/**
+ * Cómo se muestra la moneda:
+ * - `symbol`: símbolo del locale ("€", "US$")
+ * - `narrowSymbol`: símbolo corto ("$")
+ * - `code`: código ISO ("EUR")
+ * - `name`: nombre ("euros")
+ */
+export type CurrencyDisplay = 'symbol' | 'narrowSymbol' | 'code' | 'name';
+
+export interface PriceFormatOptions {
+  /** Por defecto `symbol` */
+  display?: CurrencyDisplay;
+  /** Estilo contable (los negativos irían entre paréntesis) */
+  accounting?: boolean;
+  /** Notación compacta ("1,2 mil €", "$1.2K") */
+  compact?: boolean;
+}
+
+export interface ParsedMoney {
+  integerPart: string;
+  fractionPart: string;
+  currency: Currency;
+}
+
+export function formatMoney(
+  decimal: string,
+  currency: Currency,
+  exponent: number,
+  locale: string,
+  options: PriceFormatOptions = {}
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    currencyDisplay: options.display ?? 'symbol',
+    currencySign: options.accounting ? 'accounting' : 'standard',
+    ...(options.compact
+      ? { notation: 'compact' }
+      : { minimumFractionDigits: exponent, maximumFractionDigits: exponent })
+  }).format(decimal as Intl.StringNumericLiteral);
+}
+
+/**
+ * Lee un importe escrito según las convenciones del locale ("1.234,56 €"
+ * en es-ES, "£1,234.56" en en-GB). La moneda sale del propio texto (código
+ * ISO o símbolo del locale) o del parámetro `currency`; si vienen las dos
+ * tienen que coincidir.
+ *
+ * @throws ValidationError si el texto no es un importe válido
+ */
+export function parseMoney(text: string, locale: string, currency?: Currency): ParsedMoney {
+  const fail = (reason: string): never => {
+    throw ValidationError.single('Price', 'text', reason, text);
+  };
+
+  const normalized = text.replace(/[\u00a0\u202f]/g, ' ').trim();
+  if (normalized === '') {
+    fail('Must not be empty');
+  }
+  if (/^[-−(]|[-−)]$/.test(normalized)) {
+    fail('Must not be negative');
+  }
+
+  const { group, decimal } = separatorsOf(locale);
+  const token = normalized.replace(/[\d\s.,'’]/g, '').trim();
+  const resolved = token === '' ? currency : resolveCurrency(token, locale);
+
+  if (resolved === undefined) {
+    return fail(token === '' ? 'Missing currency' : `Unknown currency "${token}" for locale ${locale}`);
+  }
+  if (currency !== undefined && resolved !== currency) {
+    fail(`Expected an amount in ${currency}`);
+  }
+
+  // Los separadores de miles pueden ser espacios (fr-FR): se quitan junto al resto
+  const amount = normalized.replace(token, '').replace(/\s/g, '');
+  const digits = group.trim() === '' ? amount : amount.split(group).join('');
+  const [integerPart = '', fractionPart = '', ...rest] = digits.split(decimal);
+
+  if (rest.length > 0 || !/^\d+$/.test(integerPart) || !/^\d*$/.test(fractionPart)) {
+    fail(`Not a valid amount for locale ${locale}`);
+  }
+
+  return { integerPart, fractionPart, currency: resolved };
+}
+
+function separatorsOf(locale: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+
+  return {
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+  };
+}
+
+/**
+ * Un código ISO se acepta tal cual; un símbolo solo si identifica UNA moneda
+ * habilitada en ese locale ("$" es USD en en-US pero ambiguo en otros).
+ */
+function resolveCurrency(token: string, locale: string): Currency | undefined {
+  const upper = token.toUpperCase();
+  if (/^[A-Z]{3}$/.test(upper)) {
+    return currencyRegistry.isEnabled(upper) ? upper : undefined;
+  }
+
+  const codes = currencyRegistry.enabledCurrencies().map(definition => definition.code).filter(isCurrency);
+  const matches = codes.filter(code =>
+    (['symbol', 'narrowSymbol'] as const).some(display => symbolOf(code, locale, display) === token)
+  );
+
+  // "$" es el símbolo corto de muchas monedas: gana la que lo usa como símbolo normal
+  const symbolMatches = matches.filter(code => symbolOf(code, locale, 'symbol') === token);
+  const candidates = symbolMatches.length > 0 ? symbolMatches : matches;
+
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+function symbolOf(
+  currency: Currency,
+  locale: string,
+  display: 'symbol' | 'narrowSymbol'
+): string | undefined {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: display })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value;
+}
@@ -0,0 +1,92 @@
+/**
+ * VALUE OBJECT: OrderItem
+ *
+ * Una línea de pedido: producto, cantidad, precio unitario y (opcionalmente)
+ * peso unitario para calcular el envío.
+ *
+ * Es inmutable: cambiar la cantidad devuelve una línea NUEVA con
+ * `withQuantity()`, así ningún cambio en un pedido puede afectar a otro
+ * objeto que comparta la misma línea.
+ */
+
+import { Price } from './Price';
+import { ValidationError, ValidationFailure } from '../errors';
+
+export interface OrderItemProps {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: Price;
+  weightGrams?: number;
+}
+
+export class OrderItem {
+  private constructor(
+    readonly productId: string,
+    readonly productName: string,
+    readonly quantity: number,
+    readonly unitPrice: Price,
+    readonly weightGrams: number | undefined
+  ) {}
+
+  /**
+   * @throws ValidationError con todos los campos incorrectos de la línea
+   */
+  static create(props: OrderItemProps): OrderItem {
+    const productId = props.productId.trim();
+    const productName = props.productName.trim();
+    const failures: ValidationFailure[] = [];
+
+    if (productId.length === 0) {
+      failures.push({ field: 'productId', message: 'Must not be empty', value: props.productId });
+    }
+    if (productName.length === 0) {
+      failures.push({ field: 'productName', message: 'Must not be empty', value: props.productName });
+    }
+    if (!Number.isSafeInteger(props.quantity) || props.quantity < 1) {
+      failures.push({ field: 'quantity', message: 'Must be a positive integer', value: props.quantity });
+    }
+    if (props.weightGrams !== undefined && (!Number.isSafeInteger(props.weightGrams) || props.weightGrams < 0)) {
+      failures.push({ field: 'weightGrams', message: 'Must be a non-negative integer', value: props.weightGrams });
+    }
+
+    if (failures.length > 0) {
+      throw new ValidationError('OrderItem', failures);
+    }
+
+    return new OrderItem(productId, productName, props.quantity, props.unitPrice, props.weightGrams);
+  }
+
+  /**
+   * Importe de la línea: precio unitario x cantidad
+   */
+  lineTotal(): Price {
+    return this.unitPrice.multiply(this.quantity);
+  }
+
+  /**
+   * Misma línea con otra cantidad
+   * @throws ValidationError si la cantidad no es un entero positivo
+   */
+  withQuantity(quantity: number): OrderItem {
+    return OrderItem.create({
+      productId: this.productId,
+      productName: this.productName,
+      quantity,
+      unitPrice: this.unitPrice,
+      ...(this.weightGrams === undefined ? {} : { weightGrams: this.weightGrams }),
+    });
+  }
+
+  equals(other: OrderItem): boolean {
+    return this.productId === other.productId
+      && this.productName === other.productName
+      && this.quantity === other.quantity
+      && this.unitPrice.equals(other.unitPrice)
+      && this.weightGrams === other.weightGrams;
+  }
+
+  toString(): string {
+    return `${this.quantity} x ${this.productName} (${this.unitPrice.toString()})`;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * VALUE OBJECT: PhoneNumber
+ *
+ * Número de teléfono normalizado a E.164: '+', código de país y número,
+ * solo dígitos y como mucho 15 ('+34612345678').
+ *
+ * Acepta los formatos que escribe la gente: espacios, guiones, puntos y
+ * paréntesis ('+34 612 34 56 78', '(415) 555-2671'), el prefijo
+ * internacional '00' en lugar de '+' y, si se indica el país por defecto,
+ * números nacionales sin prefijo ('612 345 678' en ES). Así dos formas de
+ * escribir el mismo teléfono dan el mismo valor y se pueden comparar.
+ */
+
+import { ValidationError } from '../errors';
+
+/**
+ * Código de llamada de los países con los que se admiten números
+ * nacionales (sin prefijo internacional)
+ */
+export const COUNTRY_CALLING_CODES: Readonly<Record<string, string>> = {
+  AR: '54',
+  AT: '43',
+  AU: '61',
+  BE: '32',
+  BR: '55',
+  CA: '1',
+  CH: '41',
+  CL: '56',
+  CO: '57',
+  DE: '49',
+  DK: '45',
+  ES: '34',
+  FI: '358',
+  FR: '33',
+  GB: '44',
+  IE: '353',
+  IT: '39',
+  JP: '81',
+  MX: '52',
+  NL: '31',
+  NO: '47',
+  PL: '48',
+  PT: '351',
+  SE: '46',
+  US: '1',
+};
+
+/**
+ * Países cuyo 0 inicial forma parte del número y no es prefijo de larga distancia
+ */
+const KEEPS_LEADING_ZERO = new Set(['IT']);
+
+const SEPARATORS = /[\s\-.()/]/g;
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+export class PhoneNumber {
+  private constructor(readonly value: string) {}
+
+  /**
+   * @param defaultCountry país ISO 3166-1 alpha-2 de los números sin prefijo internacional
+   * @throws ValidationError si no es un número E.164 válido o el país no se conoce
+   */
+  static create(value: string, defaultCountry?: string): PhoneNumber {
+    const compact = value.trim().replace(SEPARATORS, '');
+
+    if (compact.length === 0) {
+      throw ValidationError.single('PhoneNumber', 'value', 'Phone number cannot be empty');
+    }
+
+    const normalized = compact.startsWith('+') || compact.startsWith('00')
+      ? `+${compact.replace(/^(\+|00)/, '')}`
+      : PhoneNumber.internationalize(compact, defaultCountry);
+
+    if (!E164.test(normalized)) {
+      throw ValidationError.single('PhoneNumber', 'value', 'Invalid E.164 phone number', value);
+    }
+
+    return new PhoneNumber(normalized);
+  }
+
+  private static internationalize(national: string, defaultCountry: string | undefined): string {
+    if (defaultCountry === undefined) {
+      throw ValidationError.single(
+        'PhoneNumber',
+        'value',
+        'National numbers need a country; use the +<country code> format',
+        national
+      );
+    }
+
+    const country = defaultCountry.trim().toUpperCase();
+    const callingCode = COUNTRY_CALLING_CODES[country];
+    if (callingCode === undefined) {
+      throw ValidationError.single('PhoneNumber', 'country', 'Unsupported country for national numbers', defaultCountry);
+    }
+
+    const subscriber = KEEPS_LEADING_ZERO.has(country) ? national : national.replace(/^0/, '');
+    return `+${callingCode}${subscriber}`;
+  }
+
+  equals(other: PhoneNumber): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
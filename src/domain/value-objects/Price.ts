@@ -2,26 +2,48 @@
  * VALUE OBJECT: Price
  * 
  * Representa un precio monetario. Es inmutable y contiene lógica de negocio
- * relacionada con precios (suma, multiplicación, comparación).
+ * relacionada con precios (suma, resta, porcentajes, reparto, comparación).
  * 
  * Un Value Object NUNCA tiene identidad propia. Dos precios de 10 EUR son
  * exactamente el mismo concepto, no importa dónde o cuándo fueron creados.
+ * 
+ * Internamente el importe se guarda como un ENTERO de unidades mínimas
+ * (céntimos para EUR, yenes para JPY...), según los decimales de cada moneda.
+ * Así las sumas y multiplicaciones son exactas y no acumulan errores de
+ * coma flotante.
  */
 
-import { Currency } from "./Currency";
+import { Currency, assertCurrency, getCurrencyExponent } from "./Currency";
+import {
+  DEFAULT_ROUNDING_MODE,
+  RoundingMode,
+  roundDivision,
+  toDecimalFraction,
+  toScaledInteger,
+} from './RoundingMode';
+import { PriceFormatOptions, formatMoney, parseMoney } from './MoneyFormat';
 import { ValidationError, BusinessRuleViolationError } from '../errors';
 
 export class Price {
   private constructor(
-    readonly amount: number,
+    private readonly minorUnits: number,
     readonly currency: Currency
   ) {}
 
   /**
    * Factory method: Crea un Price validando que los datos son correctos.
    * Los Value Objects deben ser siempre válidos desde su creación.
+   * 
+   * El importe se redondea a los decimales de la moneda (2 para EUR, 0 para JPY)
+   * con el modo de redondeo indicado (HALF_UP por defecto).
+   * 
+   * @throws ValidationError si la moneda no es ISO 4217 o no está habilitada
    */
-  static create(amount: number, currency: Currency): Price {
+  static create(
+    amount: number,
+    currency: Currency,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+  ): Price {
     if (!Number.isFinite(amount) || amount < 0) {
       throw ValidationError.single(
         'Price',
@@ -30,11 +52,79 @@ export class Price {
         amount
       );
     }
-    
-    // Redondear a 2 decimales para evitar problemas de precisión
-    const rounded = Math.round(amount * 100) / 100;
-    
-    return new Price(rounded, currency);
+    assertCurrency(currency);
+
+    const minorUnits = toScaledInteger(amount, getCurrencyExponent(currency), rounding);
+
+    return Price.fromMinorUnits(Number(minorUnits), currency);
+  }
+
+  /**
+   * Factory method: Crea un Price a partir de unidades mínimas
+   * (ej: 1050 céntimos → 10.50 EUR)
+   */
+  static fromMinorUnits(minorUnits: number, currency: Currency): Price {
+    assertCurrency(currency);
+    if (!Number.isSafeInteger(minorUnits) || minorUnits < 0) {
+      throw ValidationError.single(
+        'Price',
+        'minorUnits',
+        'Must be a non-negative safe integer',
+        minorUnits
+      );
+    }
+
+    return new Price(minorUnits, currency);
+  }
+
+  /**
+   * Suma una lista de precios. La moneda se indica siempre de forma explícita,
+   * así una lista vacía da cero EN ESA MONEDA en lugar de inventarse una.
+   * @throws BusinessRuleViolationError si algún precio está en otra moneda
+   */
+  static sum(prices: readonly Price[], currency: Currency): Price {
+    return prices.reduce(
+      (total, price) => total.add(price),
+      Price.fromMinorUnits(0, currency)
+    );
+  }
+
+  /**
+   * Lee un importe escrito según el locale: `Price.parse("1.234,56 €", "es-ES")`.
+   * La moneda se toma del texto (símbolo o código ISO) o de `currency`.
+   * No redondea: más decimales de los que admite la moneda es un error.
+   * 
+   * @throws ValidationError si el texto no es un precio válido
+   */
+  static parse(text: string, locale: string, currency?: Currency): Price {
+    const parsed = parseMoney(text, locale, currency);
+    const exponent = getCurrencyExponent(parsed.currency);
+
+    if (parsed.fractionPart.length > exponent) {
+      throw ValidationError.single(
+        'Price',
+        'text',
+        `${parsed.currency} allows at most ${exponent} decimals`,
+        text
+      );
+    }
+
+    const minorUnits = BigInt(parsed.integerPart + parsed.fractionPart.padEnd(exponent, '0'));
+    return Price.fromMinorUnits(Number(minorUnits), parsed.currency);
+  }
+
+  /**
+   * Importe en unidades de la moneda (ej: 10.5 para 10.50 EUR)
+   */
+  get amount(): number {
+    return this.minorUnits / 10 ** getCurrencyExponent(this.currency);
+  }
+
+  /**
+   * Importe en unidades mínimas (ej: 1050 para 10.50 EUR)
+   */
+  toMinorUnits(): number {
+    return this.minorUnits;
   }
 
   /**
@@ -42,17 +132,51 @@ export class Price {
    * Retorna un NUEVO Price (inmutabilidad).
    */
   add(other: Price): Price {
-    if (this.currency !== other.currency) {
+    this.assertSameCurrency(other, 'add');
+    return Price.fromMinorUnits(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  /**
+   * Resta dos precios de la misma moneda. Un precio nunca es negativo,
+   * así que restar más de lo que hay es una violación de regla de negocio.
+   */
+  subtract(other: Price): Price {
+    this.assertSameCurrency(other, 'subtract');
+
+    if (other.minorUnits > this.minorUnits) {
       throw new BusinessRuleViolationError(
-        'CurrencyMatch',
-        `Cannot add prices with different currencies`,
-        { 
-          currency1: this.currency,
-          currency2: other.currency
+        'NonNegativePrice',
+        'Subtraction would result in a negative price',
+        {
+          minuend: this.toString(),
+          subtrahend: other.toString()
         }
       );
     }
-    return Price.create(this.amount + other.amount, this.currency);
+    return Price.fromMinorUnits(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  /**
+   * Calcula un porcentaje del precio: `percentage(21)` es el 21%.
+   * Se redondea una sola vez a la unidad mínima de la moneda.
+   */
+  percentage(rate: number, rounding: RoundingMode = DEFAULT_ROUNDING_MODE): Price {
+    if (!Number.isFinite(rate) || rate < 0) {
+      throw ValidationError.single(
+        'Price',
+        'rate',
+        'Must be a positive finite number',
+        rate
+      );
+    }
+
+    const { numerator, denominator } = toDecimalFraction(rate);
+    const minorUnits = roundDivision(
+      BigInt(this.minorUnits) * numerator,
+      denominator * 100n,
+      rounding
+    );
+    return Price.fromMinorUnits(Number(minorUnits), this.currency);
   }
 
   /**
@@ -68,7 +192,85 @@ export class Price {
         quantity
       );
     }
-    return Price.create(this.amount * quantity, this.currency);
+    return Price.fromMinorUnits(this.minorUnits * quantity, this.currency);
+  }
+
+  /**
+   * Reparte el precio en partes proporcionales a `ratios` sin perder ni
+   * inventar céntimos: la suma de las partes es SIEMPRE el importe original.
+   * Las unidades mínimas sobrantes se asignan a las partes con mayor resto
+   * (y, a igualdad, a las primeras).
+   * 
+   * Ejemplo: 10.00 EUR en [1, 1, 1] → [3.34, 3.33, 3.33]
+   */
+  allocate(ratios: readonly number[]): Price[] {
+    if (ratios.length === 0 || ratios.some(r => !Number.isFinite(r) || r < 0)) {
+      throw ValidationError.single(
+        'Price',
+        'ratios',
+        'Must be a non-empty list of positive finite numbers',
+        ratios
+      );
+    }
+
+    // Ratios como enteros sobre un denominador común (potencia de 10)
+    const fractions = ratios.map(toDecimalFraction);
+    const commonDenominator = fractions.reduce(
+      (max, f) => (f.denominator > max ? f.denominator : max),
+      1n
+    );
+    const weights = fractions.map(f => f.numerator * (commonDenominator / f.denominator));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0n);
+
+    if (totalWeight === 0n) {
+      throw ValidationError.single(
+        'Price',
+        'ratios',
+        'At least one ratio must be greater than zero',
+        ratios
+      );
+    }
+
+    const total = BigInt(this.minorUnits);
+    const shares = weights.map(w => total * w / totalWeight);
+    const remainders = weights.map((w, index) => ({ index, remainder: total * w % totalWeight }));
+
+    let leftover = total - shares.reduce((sum, share) => sum + share, 0n);
+    remainders.sort((a, b) => {
+      if (a.remainder === b.remainder) {
+        return a.index - b.index;
+      }
+      return a.remainder > b.remainder ? -1 : 1;
+    });
+    for (const { index } of remainders) {
+      if (leftover === 0n) {
+        break;
+      }
+      shares[index] = (shares[index] as bigint) + 1n;
+      leftover -= 1n;
+    }
+
+    return shares.map(share => Price.fromMinorUnits(Number(share), this.currency));
+  }
+
+  /**
+   * Compara con otro precio de la misma moneda: -1 (menor), 0 (igual) o 1 (mayor)
+   */
+  compare(other: Price): -1 | 0 | 1 {
+    this.assertSameCurrency(other, 'compare');
+    return this.minorUnits === other.minorUnits ? 0 : this.minorUnits > other.minorUnits ? 1 : -1;
+  }
+
+  greaterThan(other: Price): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Price): boolean {
+    return this.compare(other) < 0;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
   }
 
   /**
@@ -76,13 +278,50 @@ export class Price {
    * En Value Objects, la igualdad se basa en los atributos, no en la referencia.
    */
   equals(other: Price): boolean {
-    return this.amount === other.amount && this.currency === other.currency;
+    return this.minorUnits === other.minorUnits && this.currency === other.currency;
+  }
+
+  private assertSameCurrency(other: Price, operation: string): void {
+    if (this.currency !== other.currency) {
+      throw new BusinessRuleViolationError(
+        'CurrencyMatch',
+        `Cannot ${operation} prices with different currencies`,
+        { 
+          currency1: this.currency,
+          currency2: other.currency
+        }
+      );
+    }
+  }
+
+  /**
+   * Formatea el precio para mostrarlo al usuario según el locale
+   * ("1234,50 €" en es-ES, "£1,234.50" en en-GB).
+   */
+  format(locale: string, options: PriceFormatOptions = {}): string {
+    return formatMoney(
+      this.toDecimalString(),
+      this.currency,
+      getCurrencyExponent(this.currency),
+      locale,
+      options
+    );
   }
 
   /**
-   * Representación en string para debug/logging
+   * Representación en string para debug/logging, con los decimales
+   * propios de la moneda ("10.50 EUR", "1000 JPY")
    */
   toString(): string {
-    return `${this.amount.toFixed(2)} ${this.currency}`;
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  private toDecimalString(): string {
+    const exponent = getCurrencyExponent(this.currency);
+    const digits = this.minorUnits.toString().padStart(exponent + 1, '0');
+    const integerPart = digits.slice(0, digits.length - exponent);
+    const fractionPart = digits.slice(digits.length - exponent);
+
+    return exponent > 0 ? `${integerPart}.${fractionPart}` : integerPart;
   }
 }
@@ -0,0 +1,90 @@
+/**
+ * ROUNDING MODE
+ * 
+ * Estrategias de redondeo para convertir importes decimales en unidades
+ * mínimas de una moneda (céntimos, yenes...):
+ * - HALF_UP: el .5 se aleja del cero (1.005 → 1.01). Es el habitual en comercio.
+ * - HALF_EVEN: el .5 va al par más cercano ("redondeo bancario", 1.005 → 1.00)
+ * - FLOOR: siempre hacia abajo (1.009 → 1.00)
+ * 
+ * Toda la aritmética se hace con enteros (`bigint`) sobre la representación
+ * decimal del número, nunca multiplicando floats (`1.005 * 100 = 100.49999...`).
+ */
+
+import { ValidationError } from '../errors';
+
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN' | 'FLOOR';
+
+export const DEFAULT_ROUNDING_MODE: RoundingMode = 'HALF_UP';
+
+export const ROUNDING_MODES: readonly RoundingMode[] = ['HALF_UP', 'HALF_EVEN', 'FLOOR'] as const;
+
+/**
+ * Redondea a entero la fracción exacta `numerator / denominator`
+ */
+export function roundDivision(
+  numerator: bigint,
+  denominator: bigint,
+  mode: RoundingMode
+): bigint {
+  if (denominator <= 0n) {
+    throw new RangeError('Denominator must be positive');
+  }
+
+  const quotient = numerator / denominator; // trunca hacia cero
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const negative = numerator < 0n;
+  const twiceRemainder = (negative ? -remainder : remainder) * 2n;
+  const awayFromZero = negative ? quotient - 1n : quotient + 1n;
+
+  switch (mode) {
+    case 'FLOOR':
+      return negative ? quotient - 1n : quotient;
+    case 'HALF_UP':
+      return twiceRemainder >= denominator ? awayFromZero : quotient;
+    case 'HALF_EVEN':
+      if (twiceRemainder === denominator) {
+        return quotient % 2n === 0n ? quotient : awayFromZero;
+      }
+      return twiceRemainder > denominator ? awayFromZero : quotient;
+  }
+}
+
+/**
+ * Fracción exacta (`numerator / denominator`) equivalente a la representación
+ * decimal más corta de un número finito (la que ve el usuario: "1.005", "1e-7")
+ */
+export function toDecimalFraction(value: number): { numerator: bigint; denominator: bigint } {
+  const match = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(value));
+  if (!match) {
+    throw new RangeError(`Not a finite number: ${value}`);
+  }
+
+  const [, sign = '', integerPart = '0', fractionPart = '', exponentPart = '0'] = match;
+  const digits = BigInt(`${sign}${integerPart}${fractionPart}`);
+  const scale = Number(exponentPart) - fractionPart.length;
+
+  return scale >= 0
+    ? { numerator: digits * 10n ** BigInt(scale), denominator: 1n }
+    : { numerator: digits, denominator: 10n ** BigInt(-scale) };
+}
+
+/**
+ * Convierte un número finito en unidades enteras con `exponent` decimales
+ */
+export function toScaledInteger(
+  value: number,
+  exponent: number,
+  mode: RoundingMode
+): bigint {
+  if (!Number.isFinite(value)) {
+    throw ValidationError.single('Price', 'amount', 'Must be a finite number', value);
+  }
+
+  const { numerator, denominator } = toDecimalFraction(value);
+  return roundDivision(numerator * 10n ** BigInt(exponent), denominator, mode);
+}
@@ -0,0 +1,91 @@
+/**
+ * ADAPTER: BlockedDomainsEmailPolicy
+ *
+ * Política de emails por listas de dominios: rechaza los proveedores de
+ * buzones desechables (`DisposableEmailDomain`) y los dominios internos de
+ * la empresa (`InternalEmailDomain`), para que nadie se registre como
+ * cliente con una cuenta de empleado. Un dominio bloqueado incluye sus
+ * subdominios.
+ *
+ * Los dominios de las listas se normalizan como los de `Email` (minúsculas
+ * y punycode), así da igual cómo estén escritos en la configuración.
+ */
+
+import { domainToASCII } from 'node:url';
+import { EmailPolicy } from '../../domain/services/EmailPolicy';
+import { Email } from '../../domain/value-objects/Email';
+import { BusinessRuleViolationError, ValidationError } from '../../domain/errors';
+
+/**
+ * Proveedores de buzones desechables más habituales
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: readonly string[] = [
+  '10minutemail.com',
+  'dispostable.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'mailinator.com',
+  'maildrop.cc',
+  'sharklasers.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+];
+
+export interface BlockedDomainsEmailPolicyOptions {
+  /** `DISPOSABLE_EMAIL_DOMAINS` por defecto; `[]` para no bloquearlos */
+  disposableDomains?: readonly string[];
+  internalDomains?: readonly string[];
+}
+
+export class BlockedDomainsEmailPolicy implements EmailPolicy {
+  private readonly disposable: ReadonlySet<string>;
+  private readonly internal: ReadonlySet<string>;
+
+  /**
+   * @throws ValidationError si algún dominio de las listas no es válido
+   */
+  constructor(options: BlockedDomainsEmailPolicyOptions = {}) {
+    this.disposable = normalizeDomains(options.disposableDomains ?? DISPOSABLE_EMAIL_DOMAINS);
+    this.internal = normalizeDomains(options.internalDomains ?? []);
+  }
+
+  assertAllowed(email: Email): void {
+    const domain = email.getDomain();
+
+    if (matches(this.internal, domain)) {
+      throw new BusinessRuleViolationError(
+        'InternalEmailDomain',
+        'Internal email domains cannot be used by customers',
+        { domain }
+      );
+    }
+    if (matches(this.disposable, domain)) {
+      throw new BusinessRuleViolationError(
+        'DisposableEmailDomain',
+        'Disposable email addresses are not allowed',
+        { domain }
+      );
+    }
+  }
+}
+
+function normalizeDomains(domains: readonly string[]): ReadonlySet<string> {
+  return new Set(domains.map(domain => {
+    const ascii = domainToASCII(domain.trim());
+    if (ascii.length === 0) {
+      throw ValidationError.single('BlockedDomainsEmailPolicy', 'domains', 'Invalid domain', domain);
+    }
+    return ascii;
+  }));
+}
+
+/**
+ * El dominio o cualquiera de sus dominios padre está en la lista
+ */
+function matches(blocked: ReadonlySet<string>, domain: string): boolean {
+  const labels = domain.split('.');
+  return labels.some((_, index) => blocked.has(labels.slice(index).join('.')));
+}
@@ -0,0 +1,21 @@
+/**
+ * ADAPTER: CompositeEventPublisher
+ * 
+ * Publica cada evento en varios `EventPublisher`, uno detrás de otro y en
+ * el orden indicado. Si uno falla, el evento se reintenta entero: los que
+ * ya lo habían publicado lo recibirán otra vez, así que deben tolerar
+ * duplicados (entrega "al menos una vez", como el propio `Outbox`).
+ */
+
+import { EventPublisher } from '../../application/ports/EventPublisher';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+export class CompositeEventPublisher implements EventPublisher {
+  constructor(private readonly publishers: readonly EventPublisher[]) {}
+
+  async publish(event: DomainEvent): Promise<void> {
+    for (const publisher of this.publishers) {
+      await publisher.publish(event);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * ADAPTER: ConsoleEventPublisher
+ * 
+ * Implementación del port `EventPublisher` que escribe cada evento como
+ * una línea JSON. Sirve para arrancar la aplicación sin un broker de
+ * mensajes y ver en la salida lo que se publicaría.
+ */
+
+import { EventPublisher } from '../../application/ports/EventPublisher';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+export class ConsoleEventPublisher implements EventPublisher {
+  constructor(private readonly write: (line: string) => void = line => console.log(line)) {}
+
+  async publish(event: DomainEvent): Promise<void> {
+    this.write(JSON.stringify({
+      eventId: event.eventId,
+      eventType: event.eventType,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      occurredAt: event.occurredAt.toISOString(),
+      payload: event.payload,
+    }));
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * ADAPTER: EmlFileNotificationSender
+ * 
+ * Implementación del port `NotificationSender` que no envía nada: guarda
+ * cada email como un fichero `.eml` (el mismo mensaje MIME que iría por
+ * SMTP) en un directorio. Sirve para desarrollo, para revisar los emails
+ * abriéndolos con cualquier cliente de correo, o como directorio de
+ * recogida de un MTA.
+ * 
+ * Los nombres empiezan por la fecha, así se listan en orden de envío. El
+ * mensaje se escribe en un fichero temporal y se renombra, para que quien
+ * vigile el directorio nunca lea un `.eml` a medias.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { EmailNotification, NotificationSender } from '../../application/ports/NotificationSender';
+import { Email } from '../../domain/value-objects/Email';
+import { toMimeMessage } from './mimeMessage';
+
+export interface EmlFileNotificationSenderOptions {
+  from: Email;
+  /** Reloj para la fecha del mensaje y el nombre del fichero */
+  now?: () => Date;
+}
+
+export class EmlFileNotificationSender implements NotificationSender {
+  constructor(
+    private readonly directory: string,
+    private readonly options: EmlFileNotificationSenderOptions
+  ) {}
+
+  async send(notification: EmailNotification): Promise<void> {
+    const date = this.options.now?.() ?? new Date();
+    const path = join(this.directory, `${date.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, toMimeMessage(notification, { from: this.options.from, date }));
+    await rename(`${path}.tmp`, path);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * ADAPTER: EuVatTaxPolicy
+ * 
+ * IVA de la Unión Europea según el país de entrega. Por defecto usa el tipo
+ * general de cada Estado miembro; los productos marcados como de tipo
+ * reducido usan el tipo reducido que se configure para ese país. El envío
+ * tributa al tipo general (se trata como accesorio de la entrega).
+ * 
+ *   new EuVatTaxPolicy({ reducedRates: { ES: 10 }, reducedRateProducts: ['book-1'] })
+ */
+
+import { TaxableLine, TaxJurisdiction, TaxPolicy, TaxRate } from '../../domain/services/TaxPolicy';
+import { NotFoundError } from '../../domain/errors';
+
+/**
+ * Tipos generales de IVA por país (ISO 3166-1 alpha-2), en porcentaje
+ */
+export const EU_VAT_STANDARD_RATES: Readonly<Record<string, number>> = {
+  AT: 20, BE: 21, BG: 20, CY: 19, CZ: 21, DE: 19, DK: 25, EE: 24, ES: 21,
+  FI: 25.5, FR: 20, GR: 24, HR: 25, HU: 27, IE: 23, IT: 22, LT: 21, LU: 17,
+  LV: 21, MT: 18, NL: 21, PL: 23, PT: 23, RO: 21, SE: 25, SI: 22, SK: 23,
+};
+
+export interface EuVatTaxPolicyOptions {
+  standardRates?: Readonly<Record<string, number>>;
+  reducedRates?: Readonly<Record<string, number>>;
+  reducedRateProducts?: Iterable<string>;
+}
+
+export class EuVatTaxPolicy implements TaxPolicy {
+  private readonly standardRates: Readonly<Record<string, number>>;
+  private readonly reducedRates: Readonly<Record<string, number>>;
+  private readonly reducedRateProducts: ReadonlySet<string>;
+
+  constructor(options: EuVatTaxPolicyOptions = {}) {
+    this.standardRates = { ...(options.standardRates ?? EU_VAT_STANDARD_RATES) };
+    this.reducedRates = { ...options.reducedRates };
+    this.reducedRateProducts = new Set(options.reducedRateProducts ?? []);
+  }
+
+  rateFor(line: TaxableLine, jurisdiction: TaxJurisdiction): TaxRate {
+    const country = jurisdiction.country.toUpperCase();
+    const reduced = this.reducedRates[country];
+
+    if (this.reducedRateProducts.has(line.productId) && reduced !== undefined) {
+      return { name: `${country} VAT reduced`, percentage: reduced };
+    }
+
+    return this.standardRate(country);
+  }
+
+  shippingRateFor(jurisdiction: TaxJurisdiction): TaxRate {
+    return this.standardRate(jurisdiction.country.toUpperCase());
+  }
+
+  private standardRate(country: string): TaxRate {
+    const standard = this.standardRates[country];
+    if (standard === undefined) {
+      throw new NotFoundError('VatRate', country);
+    }
+    return { name: `${country} VAT`, percentage: standard };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * ADAPTER: JsonFileExchangeRateProvider
+ * 
+ * Carga una tabla de tipos de cambio desde un fichero JSON local, para
+ * trabajar sin conexión o reproducir conversiones pasadas con la misma foto:
+ * 
+ *   { "base": "EUR", "asOf": "2024-01-01T00:00:00.000Z", "rates": { "USD": 1.08 } }
+ */
+
+import { readFile } from 'node:fs/promises';
+import { ExchangeRateProvider } from '../../domain/services/ExchangeRateProvider';
+import { Currency, isCurrency } from '../../domain/value-objects/Currency';
+import { ExchangeRate } from '../../domain/value-objects/ExchangeRate';
+import { ValidationError, ValidationFailure } from '../../domain/errors';
+import { ExchangeRateTable, StaticExchangeRateProvider } from './StaticExchangeRateProvider';
+
+export class JsonFileExchangeRateProvider implements ExchangeRateProvider {
+  private constructor(private readonly table: StaticExchangeRateProvider) {}
+
+  /**
+   * @throws ValidationError si el fichero no tiene el formato esperado
+   */
+  static async load(path: string): Promise<JsonFileExchangeRateProvider> {
+    const content = await readFile(path, 'utf8');
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw ValidationError.single('ExchangeRateFile', 'content', 'File is not valid JSON', path);
+    }
+
+    return new JsonFileExchangeRateProvider(new StaticExchangeRateProvider(parseTable(data)));
+  }
+
+  getRate(base: Currency, quote: Currency): ExchangeRate {
+    return this.table.getRate(base, quote);
+  }
+}
+
+function parseTable(data: unknown): ExchangeRateTable {
+  const source = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  const { base, asOf, rates } = source;
+  const failures: ValidationFailure[] = [];
+
+  if (typeof base !== 'string' || !isCurrency(base)) {
+    failures.push({ field: 'base', message: 'Must be a supported currency', value: base });
+  }
+  const asOfDate = typeof asOf === 'string' ? new Date(asOf) : undefined;
+  if (!asOfDate || Number.isNaN(asOfDate.getTime())) {
+    failures.push({ field: 'asOf', message: 'Must be an ISO date', value: asOf });
+  }
+  if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+    failures.push({ field: 'rates', message: 'Must be an object of currency to rate' });
+  } else {
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (!isCurrency(currency) || typeof rate !== 'number') {
+        failures.push({ field: `rates.${currency}`, message: 'Must be a supported currency with a numeric rate', value: rate });
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new ValidationError('ExchangeRateFile', failures);
+  }
+
+  return {
+    base: base as Currency,
+    asOf: asOfDate as Date,
+    rates: rates as Partial<Record<Currency, number>>,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * ADAPTER: OrderNotificationPublisher
+ * 
+ * Implementación del port `EventPublisher` que convierte los cambios de
+ * estado de los pedidos (`OrderConfirmed`, `OrderShipped`, `OrderDelivered`
+ * y `OrderCancelled`) en emails al cliente con `SendOrderNotification`.
+ * El resto de eventos se ignoran.
+ * 
+ * Al ir detrás del `Outbox`, un envío fallido se reintenta como cualquier
+ * otra publicación.
+ */
+
+import { EventPublisher } from '../../application/ports/EventPublisher';
+import { OrderNotificationKind, SendOrderNotification } from '../../application/use-cases';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+const NOTIFICATION_KIND_BY_EVENT: Readonly<Record<string, OrderNotificationKind>> = {
+  OrderConfirmed: 'confirmed',
+  OrderShipped: 'shipped',
+  OrderDelivered: 'delivered',
+  OrderCancelled: 'cancelled',
+};
+
+export class OrderNotificationPublisher implements EventPublisher {
+  constructor(private readonly sendOrderNotification: SendOrderNotification) {}
+
+  async publish(event: DomainEvent): Promise<void> {
+    const kind = NOTIFICATION_KIND_BY_EVENT[event.eventType];
+    if (event.aggregateType !== 'Order' || kind === undefined) {
+      return;
+    }
+
+    const reason = event.payload['reason'];
+    await this.sendOrderNotification.execute({
+      orderId: event.aggregateId,
+      kind,
+      ...(typeof reason === 'string' ? { reason } : {}),
+    });
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * ADAPTER: SmtpNotificationSender
+ * 
+ * Implementación del port `NotificationSender` que entrega cada email a un
+ * servidor SMTP (RFC 5321) con `node:net`: una conexión por mensaje,
+ * `EHLO` (o `HELO` si el servidor no lo entiende), `MAIL FROM`,
+ * `RCPT TO`, `DATA` y `QUIT`.
+ * 
+ * Pensado para un relay local de confianza (Postfix, Mailpit...): no
+ * negocia TLS ni se autentica. Cualquier respuesta inesperada, corte o
+ * silencio de más de `timeoutMs` es un `SmtpError`, y el `Outbox`
+ * reintentará el envío.
+ */
+
+import { createConnection, Socket } from 'node:net';
+import { EmailNotification, NotificationSender } from '../../application/ports/NotificationSender';
+import { Email } from '../../domain/value-objects/Email';
+import { toMimeMessage } from './mimeMessage';
+
+export interface SmtpNotificationSenderOptions {
+  host: string;
+  /** 25 por defecto */
+  port?: number;
+  from: Email;
+  /** Nombre con el que se presenta en `EHLO` ('localhost' por defecto) */
+  clientName?: string;
+  /** Espera máxima por cada respuesta del servidor (10 s por defecto) */
+  timeoutMs?: number;
+}
+
+/**
+ * Error técnico del transporte SMTP. `replyCode` es el código de la
+ * respuesta rechazada, o `null` si la conexión falló o se cortó.
+ */
+export class SmtpError extends Error {
+  constructor(
+    readonly replyCode: number | null,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const DEFAULT_PORT = 25;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const REPLY_CODE = /^[2-5]\d\d(?: |$)/;
+
+export class SmtpNotificationSender implements NotificationSender {
+  constructor(private readonly options: SmtpNotificationSenderOptions) {}
+
+  async send(notification: EmailNotification): Promise<void> {
+    const message = toMimeMessage(notification, { from: this.options.from });
+    const connection = new SmtpConnection(
+      createConnection({ host: this.options.host, port: this.options.port ?? DEFAULT_PORT }),
+      this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+
+    try {
+      await connection.expect('greeting', 220);
+      await this.greet(connection);
+      await connection.command(`MAIL FROM:<${this.options.from.value}>`, 'MAIL FROM', 250);
+      await connection.command(`RCPT TO:<${notification.to.value}>`, 'RCPT TO', 250, 251);
+      await connection.command('DATA', 'DATA', 354);
+      await connection.command(`${dotStuff(message)}.`, 'message', 250);
+      await connection.quit();
+    } finally {
+      connection.close();
+    }
+  }
+
+  private async greet(connection: SmtpConnection): Promise<void> {
+    const clientName = this.options.clientName ?? 'localhost';
+    const reply = await connection.request(`EHLO ${clientName}`);
+    if (reply.code === 250) {
+      return;
+    }
+    if (reply.code !== 500 && reply.code !== 502) {
+      throw rejected('EHLO', reply);
+    }
+    await connection.command(`HELO ${clientName}`, 'HELO', 250);
+  }
+}
+
+/**
+ * Conversación con el servidor: cada orden se escribe en una línea y se
+ * espera su respuesta, que puede ocupar varias líneas ('250-...', '250 ...')
+ */
+class SmtpConnection {
+  private buffered = '';
+  private replyLines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | undefined;
+  private failure: SmtpError | undefined;
+
+  constructor(private readonly socket: Socket, timeoutMs: number) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () => this.fail(new SmtpError(null, `SMTP server did not answer within ${timeoutMs} ms`)));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', error => this.fail(new SmtpError(null, `SMTP connection failed: ${error.message}`)));
+    socket.on('close', () => this.fail(new SmtpError(null, 'SMTP connection closed unexpectedly')));
+  }
+
+  /**
+   * @throws SmtpError si la respuesta no tiene uno de los códigos esperados
+   */
+  async expect(step: string, ...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (!codes.includes(reply.code)) {
+      throw rejected(step, reply);
+    }
+    return reply;
+  }
+
+  async request(line: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.nextReply();
+  }
+
+  /**
+   * @throws SmtpError si la respuesta no tiene uno de los códigos esperados
+   */
+  async command(line: string, step: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(step, ...codes);
+  }
+
+  /**
+   * El mensaje ya está aceptado: un fallo al despedirse no lo invalida
+   */
+  async quit(): Promise<void> {
+    await this.request('QUIT').catch(() => undefined);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffered += chunk;
+
+    let end = this.buffered.indexOf('\n');
+    while (end >= 0) {
+      const line = this.buffered.slice(0, end).replace(/\r$/, '');
+      this.buffered = this.buffered.slice(end + 1);
+      this.receiveLine(line);
+      end = this.buffered.indexOf('\n');
+    }
+  }
+
+  private receiveLine(line: string): void {
+    this.replyLines.push(line);
+    if (line.charAt(3) === '-') {
+      return;
+    }
+
+    const text = this.replyLines.map(replyLine => replyLine.slice(4)).join(' ');
+    this.replyLines = [];
+    if (!REPLY_CODE.test(line)) {
+      this.fail(new SmtpError(null, `Malformed SMTP reply: ${line}`));
+      return;
+    }
+    const code = Number(line.slice(0, 3));
+
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting.resolve({ code, text });
+    } else {
+      this.replies.push({ code, text });
+    }
+  }
+
+  private fail(error: SmtpError): void {
+    this.failure ??= error;
+    this.socket.destroy();
+
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(this.failure);
+  }
+}
+
+function rejected(step: string, reply: SmtpReply): SmtpError {
+  return new SmtpError(reply.code, `SMTP server rejected ${step}: ${reply.code} ${reply.text}`.trimEnd());
+}
+
+/**
+ * Duplica el punto inicial de cada línea para que ninguna se confunda con
+ * el final de `DATA`, y termina en CRLF
+ */
+function dotStuff(message: string): string {
+  const stuffed = message.replace(/^\./gm, '..');
+  return stuffed.endsWith('\r\n') ? stuffed : `${stuffed}\r\n`;
+}
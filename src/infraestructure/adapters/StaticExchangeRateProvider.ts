@@ -0,0 +1,59 @@
+/**
+ * ADAPTER: StaticExchangeRateProvider
+ * 
+ * Implementa `ExchangeRateProvider` a partir de una tabla fija de tipos de
+ * cambio respecto a una moneda base (la forma en que los publican la mayoría
+ * de bancos centrales):
+ * 
+ *   { base: 'EUR', asOf: 2024-01-01, rates: { USD: 1.08, GBP: 0.86 } }
+ * 
+ * Los pares cruzados (USD → GBP) se calculan pasando por la base.
+ * Todas las conversiones usan el `asOf` de la tabla, así que con la misma
+ * tabla los resultados son siempre los mismos.
+ */
+
+import { ExchangeRateProvider } from '../../domain/services/ExchangeRateProvider';
+import { Currency } from '../../domain/value-objects/Currency';
+import { ExchangeRate } from '../../domain/value-objects/ExchangeRate';
+import { NotFoundError } from '../../domain/errors';
+
+export interface ExchangeRateTable {
+  base: Currency;
+  asOf: Date;
+  rates: Partial<Record<Currency, number>>;
+}
+
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  private readonly table: ExchangeRateTable;
+
+  constructor(table: ExchangeRateTable) {
+    // Se valida cada tipo al construir para fallar pronto con datos corruptos
+    for (const [quote, rate] of Object.entries(table.rates)) {
+      ExchangeRate.create(table.base, quote as Currency, rate, table.asOf);
+    }
+    this.table = { base: table.base, asOf: new Date(table.asOf.getTime()), rates: { ...table.rates } };
+  }
+
+  getRate(base: Currency, quote: Currency): ExchangeRate {
+    const asOf = this.table.asOf;
+
+    if (base === quote) {
+      return ExchangeRate.create(base, quote, 1, asOf);
+    }
+
+    const baseRate = this.rateFromTableBase(base);
+    const quoteRate = this.rateFromTableBase(quote);
+    if (baseRate === undefined || quoteRate === undefined) {
+      throw new NotFoundError('ExchangeRate', `${base}/${quote}`);
+    }
+
+    return ExchangeRate.create(base, quote, quoteRate / baseRate, asOf);
+  }
+
+  /**
+   * Unidades de `currency` por 1 unidad de la moneda base de la tabla
+   */
+  private rateFromTableBase(currency: Currency): number | undefined {
+    return currency === this.table.base ? 1 : this.table.rates[currency];
+  }
+}
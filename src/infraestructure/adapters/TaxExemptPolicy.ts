@@ -0,0 +1,21 @@
+/**
+ * ADAPTER: TaxExemptPolicy
+ * 
+ * Política para clientes exentos de impuestos (organismos públicos, ONG,
+ * reventa con certificado...): toda línea, y el envío, tributa al 0%. Sigue generando un
+ * desglose completo, así la factura indica explícitamente la exención.
+ */
+
+import { TaxPolicy, TaxRate } from '../../domain/services/TaxPolicy';
+
+export class TaxExemptPolicy implements TaxPolicy {
+  constructor(private readonly reason: string = 'Tax exempt') {}
+
+  rateFor(): TaxRate {
+    return { name: this.reason, percentage: 0 };
+  }
+
+  shippingRateFor(): TaxRate {
+    return this.rateFor();
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * ADAPTER: UsSalesTaxPolicy
+ * 
+ * Sales tax de Estados Unidos según el estado de entrega (`region`, código
+ * postal USPS de dos letras). La tabla por defecto contiene el tipo estatal;
+ * los impuestos locales (condado, ciudad) no están incluidos y se pueden
+ * añadir pasando una tabla propia.
+ * 
+ * El envío tributa al mismo tipo que los productos salvo en los estados que
+ * se configuren como exentos (`shippingExemptStates`).
+ */
+
+import { TaxableLine, TaxJurisdiction, TaxPolicy, TaxRate } from '../../domain/services/TaxPolicy';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+
+/**
+ * Tipos estatales de sales tax, en porcentaje (0 en estados sin sales tax)
+ */
+export const US_STATE_SALES_TAX_RATES: Readonly<Record<string, number>> = {
+  AL: 4, AK: 0, AZ: 5.6, AR: 6.5, CA: 7.25, CO: 2.9, CT: 6.35, DE: 0, DC: 6,
+  FL: 6, GA: 4, HI: 4, ID: 6, IL: 6.25, IN: 7, IA: 6, KS: 6.5, KY: 6, LA: 5,
+  ME: 5.5, MD: 6, MA: 6.25, MI: 6, MN: 6.875, MS: 7, MO: 4.225, MT: 0, NE: 5.5,
+  NV: 6.85, NH: 0, NJ: 6.625, NM: 4.875, NY: 4, NC: 4.75, ND: 5, OH: 5.75,
+  OK: 4.5, OR: 0, PA: 6, RI: 7, SC: 6, SD: 4.2, TN: 7, TX: 6.25, UT: 6.1,
+  VT: 6, VA: 5.3, WA: 6.5, WV: 6, WI: 5, WY: 4,
+};
+
+export interface UsSalesTaxPolicyOptions {
+  shippingExemptStates?: Iterable<string>;
+}
+
+export class UsSalesTaxPolicy implements TaxPolicy {
+  private readonly rates: Readonly<Record<string, number>>;
+  private readonly shippingExemptStates: ReadonlySet<string>;
+
+  constructor(
+    rates: Readonly<Record<string, number>> = US_STATE_SALES_TAX_RATES,
+    options: UsSalesTaxPolicyOptions = {}
+  ) {
+    this.rates = { ...rates };
+    this.shippingExemptStates = new Set([...(options.shippingExemptStates ?? [])].map(state => state.toUpperCase()));
+  }
+
+  rateFor(_line: TaxableLine, jurisdiction: TaxJurisdiction): TaxRate {
+    return this.stateRate(jurisdiction);
+  }
+
+  shippingRateFor(jurisdiction: TaxJurisdiction): TaxRate {
+    const rate = this.stateRate(jurisdiction);
+    const state = jurisdiction.region?.toUpperCase();
+    return state !== undefined && this.shippingExemptStates.has(state)
+      ? { name: `US-${state} shipping exempt`, percentage: 0 }
+      : rate;
+  }
+
+  private stateRate(jurisdiction: TaxJurisdiction): TaxRate {
+    if (jurisdiction.country.toUpperCase() !== 'US') {
+      throw new NotFoundError('SalesTaxRate', jurisdiction.country);
+    }
+    if (jurisdiction.region === undefined) {
+      throw ValidationError.single('TaxJurisdiction', 'region', 'US sales tax requires a state');
+    }
+
+    const state = jurisdiction.region.toUpperCase();
+    const rate = this.rates[state];
+    if (rate === undefined) {
+      throw new NotFoundError('SalesTaxRate', `US-${state}`);
+    }
+    return { name: `US-${state} sales tax`, percentage: rate };
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * ADAPTER: WeightZoneShippingRateCalculator
+ * 
+ * Implementa `ShippingRateCalculator` con la tabla clásica de transportista:
+ * los países se agrupan en zonas y cada zona tiene tramos de peso.
+ * 
+ *   {
+ *     currency: 'EUR',
+ *     zones: [{ name: 'national', countries: ['ES'] }, { name: 'world', countries: ['*'] }],
+ *     rates: {
+ *       national: [{ maxWeightGrams: 2000, amount: 4.95 }, { maxWeightGrams: 20000, amount: 9.95 }],
+ *       world: [{ maxWeightGrams: 2000, amount: 19.95 }]
+ *     }
+ *   }
+ * 
+ * Un país pertenece a la primera zona que lo incluye; `'*'` incluye a todos.
+ * La tabla también se puede cargar de un fichero JSON con ese formato (`load`).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { ShippingRateCalculator } from '../../domain/services/ShippingRateCalculator';
+import { Address } from '../../domain/value-objects/Address';
+import { Currency, isCurrency } from '../../domain/value-objects/Currency';
+import { Price } from '../../domain/value-objects/Price';
+import {
+  BusinessRuleViolationError,
+  NotFoundError,
+  ValidationError,
+  ValidationFailure,
+} from '../../domain/errors';
+
+export interface ShippingZone {
+  name: string;
+  countries: string[];
+}
+
+export interface WeightBracket {
+  maxWeightGrams: number;
+  amount: number;
+}
+
+export interface WeightZoneTable {
+  currency: Currency;
+  zones: ShippingZone[];
+  rates: Record<string, WeightBracket[]>;
+}
+
+interface PricedBracket {
+  maxWeightGrams: number;
+  price: Price;
+}
+
+export class WeightZoneShippingRateCalculator implements ShippingRateCalculator {
+  private readonly zones: ShippingZone[];
+  private readonly rates: Map<string, PricedBracket[]>;
+
+  /**
+   * @throws ValidationError si la tabla es incoherente (zonas sin tarifas, pesos inválidos...)
+   */
+  constructor(table: WeightZoneTable) {
+    const failures: ValidationFailure[] = [];
+    this.zones = table.zones.map(zone => ({
+      name: zone.name,
+      countries: zone.countries.map(country => country.toUpperCase()),
+    }));
+    this.rates = new Map();
+
+    for (const zone of this.zones) {
+      const brackets = table.rates[zone.name] ?? [];
+      if (brackets.length === 0) {
+        failures.push({ field: `rates.${zone.name}`, message: 'Zone has no weight brackets' });
+        continue;
+      }
+      if (brackets.some(bracket => !Number.isInteger(bracket.maxWeightGrams) || bracket.maxWeightGrams <= 0)) {
+        failures.push({ field: `rates.${zone.name}`, message: 'Max weights must be positive integers (grams)' });
+        continue;
+      }
+
+      this.rates.set(
+        zone.name,
+        [...brackets]
+          .sort((a, b) => a.maxWeightGrams - b.maxWeightGrams)
+          .map(bracket => ({ maxWeightGrams: bracket.maxWeightGrams, price: Price.create(bracket.amount, table.currency) }))
+      );
+    }
+
+    if (failures.length > 0) {
+      throw new ValidationError('ShippingRateTable', failures);
+    }
+  }
+
+  /**
+   * @throws ValidationError si el fichero no tiene el formato esperado o la tabla es incoherente
+   */
+  static async load(path: string): Promise<WeightZoneShippingRateCalculator> {
+    const content = await readFile(path, 'utf8');
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw ValidationError.single('ShippingRateFile', 'content', 'File is not valid JSON', path);
+    }
+
+    return new WeightZoneShippingRateCalculator(parseTable(data));
+  }
+
+  rateFor(destination: Address, weightGrams: number): Price {
+    const zone = this.zones.find(
+      candidate => candidate.countries.includes(destination.country) || candidate.countries.includes('*')
+    );
+    if (!zone) {
+      throw new NotFoundError('ShippingZone', destination.country);
+    }
+
+    const brackets = this.rates.get(zone.name) ?? [];
+    const bracket = brackets.find(candidate => weightGrams <= candidate.maxWeightGrams);
+    if (!bracket) {
+      throw new BusinessRuleViolationError(
+        'MaxShippingWeight',
+        `Parcel is too heavy for zone ${zone.name}`,
+        { weightGrams, maxWeightGrams: brackets[brackets.length - 1]?.maxWeightGrams, zone: zone.name }
+      );
+    }
+
+    return bracket.price;
+  }
+}
+
+function parseTable(data: unknown): WeightZoneTable {
+  const source = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  const { currency, zones, rates } = source;
+  const failures: ValidationFailure[] = [];
+
+  if (typeof currency !== 'string' || !isCurrency(currency)) {
+    failures.push({ field: 'currency', message: 'Must be a supported currency', value: currency });
+  }
+  const isZone = (zone: unknown): boolean => {
+    const candidate = (typeof zone === 'object' && zone !== null ? zone : {}) as Record<string, unknown>;
+    return typeof candidate.name === 'string'
+      && Array.isArray(candidate.countries)
+      && candidate.countries.every(country => typeof country === 'string');
+  };
+  if (!Array.isArray(zones) || !zones.every(isZone)) {
+    failures.push({ field: 'zones', message: 'Must be a list of { name, countries }' });
+  }
+  if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+    failures.push({ field: 'rates', message: 'Must be an object of zone to weight brackets' });
+  } else {
+    for (const [zone, brackets] of Object.entries(rates)) {
+      const valid = Array.isArray(brackets) && brackets.every(bracket =>
+        typeof bracket === 'object' && bracket !== null
+        && typeof bracket.maxWeightGrams === 'number' && typeof bracket.amount === 'number'
+      );
+      if (!valid) {
+        failures.push({ field: `rates.${zone}`, message: 'Must be a list of { maxWeightGrams, amount }' });
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new ValidationError('ShippingRateFile', failures);
+  }
+
+  return {
+    currency: currency as Currency,
+    zones: zones as ShippingZone[],
+    rates: rates as Record<string, WeightBracket[]>,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Mensaje MIME (RFC 5322 / RFC 2045) de una `EmailNotification`
+ * 
+ * Lo comparten los adaptadores de `NotificationSender`: el de SMTP lo
+ * envía tras `DATA` y el de ficheros lo guarda como `.eml`. Es un
+ * `multipart/alternative` con el texto plano y el HTML en UTF-8 y base64,
+ * así ninguna línea pasa del límite de SMTP sea cual sea el contenido; el
+ * asunto con caracteres no ASCII va como "encoded words" (RFC 2047).
+ */
+
+import { randomUUID } from 'node:crypto';
+import { EmailNotification } from '../../application/ports/NotificationSender';
+import { Email } from '../../domain/value-objects/Email';
+
+export interface MimeMessageOptions {
+  from: Email;
+  date?: Date;
+  /** Sin ángulos; por defecto un UUID en el dominio del remitente */
+  messageId?: string;
+}
+
+const CRLF = '\r\n';
+const BASE64_LINE_LENGTH = 76;
+/** Bytes por "encoded word": 64 caracteres, así cabe en una línea tras 'Subject: ' */
+const ENCODED_WORD_BYTES = 39;
+const PRINTABLE_ASCII = /^[\x20-\x7e]*$/;
+
+/**
+ * @returns el mensaje con saltos de línea CRLF y sin terminador de `DATA`
+ */
+export function toMimeMessage(notification: EmailNotification, options: MimeMessageOptions): string {
+  const boundary = `=_${randomUUID()}`;
+  const messageId = options.messageId ?? `${randomUUID()}@${options.from.getDomain()}`;
+
+  return [
+    `From: ${options.from.value}`,
+    `To: ${notification.to.value}`,
+    `Subject: ${encodeHeader(notification.subject)}`,
+    `Date: ${formatDate(options.date ?? new Date())}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative;${CRLF} boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...bodyPart('text/plain', notification.text),
+    `--${boundary}`,
+    ...bodyPart('text/html', notification.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
+
+function bodyPart(contentType: string, content: string): string[] {
+  const encoded = Buffer.from(content.replace(/\r?\n/g, CRLF), 'utf8').toString('base64');
+  const lines: string[] = [];
+  for (let start = 0; start < encoded.length; start += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(start, start + BASE64_LINE_LENGTH));
+  }
+
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...lines,
+  ];
+}
+
+/**
+ * Cabecera tal cual si es ASCII imprimible; si no, "encoded words" en
+ * base64 sin partir ningún carácter y en líneas plegadas
+ */
+function encodeHeader(value: string): string {
+  if (PRINTABLE_ASCII.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (chunk.length > 0 && Buffer.byteLength(chunk + char) > ENCODED_WORD_BYTES) {
+      words.push(encodedWord(chunk));
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(encodedWord(chunk));
+
+  return words.join(`${CRLF} `);
+}
+
+function encodedWord(value: string): string {
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Fecha RFC 5322 en UTC ("Mon, 19 Oct 2026 10:00:00 +0000")
+ */
+function formatDate(date: Date): string {
+  return date.toUTCString().replace('GMT', '+0000');
+}
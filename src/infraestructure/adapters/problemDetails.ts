@@ -0,0 +1,112 @@
+/**
+ * TRADUCTOR: DomainError -> Problem Details (RFC 7807)
+ * 
+ * Convierte cualquier error en un cuerpo `application/problem+json` con su
+ * código de estado. No depende de ningún servidor concreto, así que lo puede
+ * reutilizar cualquier adaptador de transporte (HTTP, colas, CLI...).
+ * 
+ * Solo se exponen campos pensados para el cliente: nunca el `stack`
+ * ni el `context` completo del error (ver `DomainError.toJSON()`, que es
+ * para logging interno).
+ */
+
+import {
+  DomainError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  InvalidStateError,
+  BusinessRuleViolationError,
+} from '../../domain/errors';
+
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+const PROBLEM_TYPE_PREFIX = 'urn:problem-type:';
+
+export interface InvalidParam {
+  name: string;
+  reason: string;
+}
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * Construye un Problem Details genérico (útil para errores del propio transporte)
+ */
+export function createProblem(
+  slug: string,
+  title: string,
+  status: number,
+  detail?: string,
+  extensions: Record<string, unknown> = {}
+): ProblemDetails {
+  return {
+    type: `${PROBLEM_TYPE_PREFIX}${slug}`,
+    title,
+    status,
+    ...(detail === undefined ? {} : { detail }),
+    ...extensions,
+  };
+}
+
+/**
+ * Traduce un error cualquiera a Problem Details.
+ * Los errores que no son de dominio se tratan como fallos internos (500)
+ * sin revelar su mensaje.
+ */
+export function toProblemDetails(error: unknown, instance?: string): ProblemDetails {
+  const problem = translate(error);
+  return instance === undefined ? problem : { ...problem, instance };
+}
+
+function translate(error: unknown): ProblemDetails {
+  if (error instanceof ValidationError) {
+    return createProblem('validation-error', 'Validation failed', 422, error.message, {
+      'invalid-params': error.failures.map<InvalidParam>(failure => ({
+        name: failure.field,
+        reason: failure.message,
+      })),
+    });
+  }
+
+  if (error instanceof NotFoundError) {
+    return createProblem('not-found', 'Resource not found', 404, error.message, {
+      entityName: error.entityName,
+      entityId: error.entityId,
+    });
+  }
+
+  if (error instanceof ConflictError) {
+    return createProblem('conflict', 'Conflict with the current state', 409, error.message, {
+      ...(error.expectedVersion === undefined ? {} : { expectedVersion: error.expectedVersion }),
+      ...(error.actualVersion === undefined ? {} : { actualVersion: error.actualVersion }),
+    });
+  }
+
+  if (error instanceof InvalidStateError) {
+    return createProblem('invalid-state', 'Invalid state transition', 409, error.message, {
+      currentState: error.currentState,
+      attemptedAction: error.attemptedAction,
+      allowedStates: error.allowedStates ?? [],
+    });
+  }
+
+  if (error instanceof BusinessRuleViolationError) {
+    return createProblem('business-rule-violation', 'Business rule violated', 422, error.message, {
+      ruleName: error.ruleName,
+    });
+  }
+
+  if (error instanceof DomainError) {
+    return createProblem('domain-error', 'Domain error', 400, error.message);
+  }
+
+  return createProblem('internal-error', 'Internal server error', 500, 'An unexpected error occurred');
+}
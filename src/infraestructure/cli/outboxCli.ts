@@ -0,0 +1,82 @@
+/**
+ * CLI: outbox
+ * 
+ * Diagnóstico de los mensajes muertos del outbox:
+ * 
+ *   npm run outbox -- list               lista los mensajes muertos
+ *   npm run outbox -- show <id>          muestra un mensaje con su payload
+ *   npm run outbox -- replay <id>...     los devuelve a la bandeja
+ *   npm run outbox -- replay --all       devuelve todos
+ * 
+ * La lógica está aquí, separada de `outbox.ts` (que solo monta las
+ * dependencias), para poder probarla sin ficheros ni procesos.
+ */
+
+import { ListDeadLetters, ReplayDeadLetters } from '../../application/use-cases';
+import { DomainError } from '../../domain/errors';
+
+export interface OutboxCliDependencies {
+  listDeadLetters: ListDeadLetters;
+  replayDeadLetters: ReplayDeadLetters;
+  print: (line: string) => void;
+}
+
+export const OUTBOX_CLI_USAGE = [
+  'Usage: outbox <command>',
+  '  list                 List dead-letter messages',
+  '  show <id>            Show a dead-letter message with its payload',
+  '  replay <id>...       Move dead-letter messages back to the outbox',
+  '  replay --all         Move every dead-letter message back to the outbox',
+].join('\n');
+
+/**
+ * @returns código de salida del proceso
+ */
+export async function runOutboxCli(args: readonly string[], deps: OutboxCliDependencies): Promise<number> {
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case 'list': {
+        const deadLetters = await deps.listDeadLetters.execute();
+        if (deadLetters.length === 0) {
+          deps.print('No dead-letter messages');
+        }
+        for (const message of deadLetters) {
+          deps.print(`${message.id}  ${message.eventType}  ${message.aggregateType}/${message.aggregateId}  attempts=${message.attempts}  dead=${message.deadAt}  error=${message.lastError}`);
+        }
+        return 0;
+      }
+
+      case 'show': {
+        const message = (await deps.listDeadLetters.execute()).find(candidate => candidate.id === rest[0]);
+        if (!message) {
+          deps.print(`Dead-letter message not found: ${rest[0] ?? ''}`);
+          return 1;
+        }
+        deps.print(JSON.stringify(message, null, 2));
+        return 0;
+      }
+
+      case 'replay': {
+        if (rest.length === 0) {
+          deps.print(OUTBOX_CLI_USAGE);
+          return 2;
+        }
+        const replayed = await deps.replayDeadLetters.execute(rest.includes('--all') ? {} : { messageIds: rest });
+        deps.print(`Replayed ${replayed.length} message(s)`);
+        return 0;
+      }
+
+      default:
+        deps.print(OUTBOX_CLI_USAGE);
+        return command === undefined || command === 'help' ? 0 : 2;
+    }
+  } catch (error) {
+    if (error instanceof DomainError) {
+      deps.print(error.message);
+      return 1;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * HTTP ERROR
+ * 
+ * Error técnico del transporte HTTP (JSON mal formado, campos con tipo
+ * incorrecto, ruta inexistente...). No es un error de dominio: el dominio
+ * nunca llega a ejecutarse cuando la petición ni siquiera es legible.
+ * 
+ * `headers` acompañan a la respuesta (p. ej. `WWW-Authenticate` en un 401).
+ */
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Readonly<Record<string, string>> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
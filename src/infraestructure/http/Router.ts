@@ -0,0 +1,123 @@
+/**
+ * ROUTER HTTP mínimo sobre `node:http`
+ * 
+ * Asocia método + ruta (con parámetros tipo `/orders/:id`) a un handler.
+ * Los handlers no tocan `req`/`res`: reciben los datos ya extraídos y
+ * devuelven una respuesta, lo que los mantiene finos y fáciles de probar.
+ */
+
+import { HttpError } from './HttpError';
+
+export interface HttpRequest {
+  params: Record<string, string>;
+  /** Cabeceras con el nombre en minúsculas */
+  headers: Record<string, string | undefined>;
+  body: unknown;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+export type RouteHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+interface Route {
+  method: HttpMethod;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+export interface RouteMatch {
+  handler: RouteHandler;
+  params: Record<string, string>;
+}
+
+export class Router {
+  private readonly routes: Route[] = [];
+
+  get(path: string, handler: RouteHandler): this {
+    return this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): this {
+    return this.add('POST', path, handler);
+  }
+
+  patch(path: string, handler: RouteHandler): this {
+    return this.add('PATCH', path, handler);
+  }
+
+  put(path: string, handler: RouteHandler): this {
+    return this.add('PUT', path, handler);
+  }
+
+  delete(path: string, handler: RouteHandler): this {
+    return this.add('DELETE', path, handler);
+  }
+
+  add(method: HttpMethod, path: string, handler: RouteHandler): this {
+    this.routes.push({ method, segments: splitPath(path), handler });
+    return this;
+  }
+
+  /**
+   * Busca la ruta que coincide. Si la ruta existe con otro método,
+   * `allowedMethods` permite responder 405 en lugar de 404.
+   * @throws HttpError 400 si un parámetro tiene un escape `%` mal formado
+   */
+  match(method: string, path: string): RouteMatch | { allowedMethods: HttpMethod[] } {
+    const segments = splitPath(path);
+    const allowedMethods: HttpMethod[] = [];
+
+    for (const route of this.routes) {
+      const params = matchSegments(route.segments, segments);
+      if (!params) {
+        continue;
+      }
+      if (route.method === method) {
+        return { handler: route.handler, params };
+      }
+      allowedMethods.push(route.method);
+    }
+
+    return { allowedMethods };
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+function matchSegments(
+  pattern: string[],
+  actual: string[]
+): Record<string, string> | undefined {
+  if (pattern.length !== actual.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    const expected = pattern[i] as string;
+    const value = actual[i] as string;
+
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = decodeParam(value);
+    } else if (expected !== value) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Malformed percent-encoding in path segment '${value}'`);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * RUTAS HTTP: clientes
+ * 
+ * `PATCH /customers/:id` acepta cualquier combinación de `name`, `email`,
+ * `phoneNumber`, `preferredLocale`, `preferredCurrency`, `marketingConsents`
+ * e `isActive` y los aplica todos o ninguno con `UpdateCustomerProfile`:
+ * un cambio inválido no deja guardados los anteriores.
+ * 
+ * La libreta de direcciones se gestiona en `/customers/:id/addresses`,
+ * identificando cada dirección por su etiqueta.
+ * 
+ * Solicitudes RGPD: `GET /customers/:id/export` descarga los datos del
+ * cliente y sus pedidos, y `POST /customers/:id/anonymize` lo anonimiza.
+ */
+
+import { CustomerRepository } from '../../application/ports/CustomerRepository';
+import { OrderRepository } from '../../application/ports/OrderRepository';
+import {
+  RegisterCustomer,
+  UpdateCustomerProfile,
+  AddCustomerAddress,
+  ChangeCustomerAddress,
+  RemoveCustomerAddress,
+  GetCustomer,
+  GetCustomerOrderHistory,
+  AnonymizeCustomer,
+  ExportCustomerData,
+  CustomerEmailRules,
+} from '../../application/use-cases';
+import { Router } from './Router';
+import { HttpError } from './HttpError';
+import {
+  asObject,
+  optionalBoolean,
+  optionalNullableString,
+  optionalString,
+  requireString,
+  toAddressInput,
+} from './requestBody';
+import { expectedVersionFrom, versioned } from './etag';
+
+function toConsentsInput(value: unknown): Record<string, boolean> {
+  const consents = asObject(value, 'marketingConsents');
+  for (const [channel, granted] of Object.entries(consents)) {
+    if (typeof granted !== 'boolean') {
+      throw new HttpError(400, `'marketingConsents.${channel}' must be a boolean`);
+    }
+  }
+  return consents as Record<string, boolean>;
+}
+
+export function registerCustomerRoutes(
+  router: Router,
+  customers: CustomerRepository,
+  orders: OrderRepository,
+  emailRules: CustomerEmailRules = {}
+): void {
+  const registerCustomer = new RegisterCustomer(customers, emailRules);
+  const updateCustomerProfile = new UpdateCustomerProfile(customers, emailRules);
+  const addCustomerAddress = new AddCustomerAddress(customers);
+  const changeCustomerAddress = new ChangeCustomerAddress(customers);
+  const removeCustomerAddress = new RemoveCustomerAddress(customers);
+  const getCustomer = new GetCustomer(customers);
+  const getCustomerOrderHistory = new GetCustomerOrderHistory(customers, orders);
+  const anonymizeCustomer = new AnonymizeCustomer(customers, orders);
+  const exportCustomerData = new ExportCustomerData(customers, orders);
+
+  router.post('/customers', async ({ body }) => {
+    const input = asObject(body);
+    const customer = await registerCustomer.execute({
+      name: requireString(input, 'name'),
+      email: requireString(input, 'email'),
+    });
+    return versioned(customer, 201);
+  });
+
+  router.get('/customers/:id', async ({ params }) => {
+    const customer = await getCustomer.execute({ customerId: params.id ?? '' });
+    return versioned(customer);
+  });
+
+  router.get('/customers/:id/orders', async ({ params }) => {
+    const history = await getCustomerOrderHistory.execute({ customerId: params.id ?? '' });
+    return { status: 200, body: history };
+  });
+
+  router.get('/customers/:id/export', async ({ params }) => {
+    const archive = await exportCustomerData.execute({ customerId: params.id ?? '' });
+    return {
+      status: 200,
+      headers: { 'Content-Disposition': `attachment; filename="customer-${archive.customer.id}.json"` },
+      body: archive,
+    };
+  });
+
+  router.post('/customers/:id/anonymize', async ({ params, headers }) => {
+    const customer = await anonymizeCustomer.execute({ customerId: params.id ?? '', ...expectedVersionFrom(headers) });
+    return versioned(customer);
+  });
+
+  router.patch('/customers/:id', async ({ params, headers, body }) => {
+    const input = asObject(body);
+    const name = optionalString(input, 'name');
+    const email = optionalString(input, 'email');
+    const phoneNumber = optionalNullableString(input, 'phoneNumber');
+    const preferredLocale = optionalNullableString(input, 'preferredLocale');
+    const preferredCurrency = optionalNullableString(input, 'preferredCurrency');
+    const marketingConsents = input.marketingConsents === undefined ? undefined : toConsentsInput(input.marketingConsents);
+    const isActive = optionalBoolean(input, 'isActive');
+
+    const customer = await updateCustomerProfile.execute({
+      customerId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      ...(name === undefined ? {} : { name }),
+      ...(email === undefined ? {} : { email }),
+      ...(phoneNumber === undefined ? {} : { phoneNumber }),
+      ...(preferredLocale === undefined ? {} : { preferredLocale }),
+      ...(preferredCurrency === undefined ? {} : { preferredCurrency }),
+      ...(marketingConsents === undefined ? {} : { marketingConsents }),
+      ...(isActive === undefined ? {} : { isActive }),
+    });
+    return versioned(customer);
+  });
+
+  router.post('/customers/:id/addresses', async ({ params, headers, body }) => {
+    const input = asObject(body);
+    const defaultShipping = optionalBoolean(input, 'defaultShipping');
+    const defaultBilling = optionalBoolean(input, 'defaultBilling');
+    const customer = await addCustomerAddress.execute({
+      customerId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      label: requireString(input, 'label'),
+      address: toAddressInput(input.address, 'address'),
+      ...(defaultShipping === undefined ? {} : { defaultShipping }),
+      ...(defaultBilling === undefined ? {} : { defaultBilling }),
+    });
+    return versioned(customer);
+  });
+
+  router.patch('/customers/:id/addresses/:label', async ({ params, headers, body }) => {
+    const input = asObject(body);
+    const defaultShipping = optionalBoolean(input, 'defaultShipping');
+    const defaultBilling = optionalBoolean(input, 'defaultBilling');
+    const customer = await changeCustomerAddress.execute({
+      customerId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      label: params.label ?? '',
+      ...(input.address === undefined ? {} : { address: toAddressInput(input.address, 'address') }),
+      ...(defaultShipping === undefined ? {} : { defaultShipping }),
+      ...(defaultBilling === undefined ? {} : { defaultBilling }),
+    });
+    return versioned(customer);
+  });
+
+  router.delete('/customers/:id/addresses/:label', async ({ params, headers }) => {
+    const customer = await removeCustomerAddress.execute({
+      customerId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      label: params.label ?? '',
+    });
+    return versioned(customer);
+  });
+}
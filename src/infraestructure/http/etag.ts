@@ -0,0 +1,38 @@
+/**
+ * Versiones de agregado <-> cabeceras `ETag` / `If-Match`
+ * 
+ * Cada respuesta con un pedido o un cliente lleva su versión como ETag
+ * fuerte (`"3"`). El cliente la devuelve en `If-Match` al modificarlo y el
+ * use-case rechaza la operación si entretanto otro la ha cambiado.
+ */
+
+import { ExpectedVersionInput } from '../../application/use-cases';
+import { HttpResponse } from './Router';
+import { HttpError } from './HttpError';
+
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Versión esperada según `If-Match` (`*` o sin cabecera: cualquiera)
+ */
+export function expectedVersionFrom(headers: Record<string, string | undefined>): ExpectedVersionInput {
+  const ifMatch = headers['if-match']?.trim();
+  if (ifMatch === undefined || ifMatch === '*') {
+    return {};
+  }
+
+  const match = /^"(\d+)"$/.exec(ifMatch);
+  if (!match) {
+    throw new HttpError(400, `'If-Match' must be a single ETag returned by this API`);
+  }
+  return { expectedVersion: Number(match[1]) };
+}
+
+/**
+ * Respuesta con el recurso y su versión como `ETag`
+ */
+export function versioned(body: { version: number }, status = 200): HttpResponse {
+  return { status, headers: { ETag: toETag(body.version) }, body };
+}
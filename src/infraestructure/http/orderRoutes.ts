@@ -0,0 +1,195 @@
+/**
+ * RUTAS HTTP: pedidos
+ * 
+ * Cada handler traduce la petición a un DTO, llama al use-case y
+ * devuelve su resultado. Nada de lógica de negocio aquí.
+ * 
+ * Las respuestas llevan la versión del pedido en `ETag`; las modificaciones
+ * aceptan `If-Match` para no pisar cambios de otro operador.
+ */
+
+import { OrderRepository } from '../../application/ports/OrderRepository';
+import { CustomerRepository } from '../../application/ports/CustomerRepository';
+import { ShippingRateCalculator } from '../../domain/services/ShippingRateCalculator';
+import {
+  PlaceOrder,
+  AddItemToOrder,
+  RemoveOrderItem,
+  ChangeOrderItemQuantity,
+  ReplaceOrderItems,
+  ChangeOrderAddresses,
+  QuoteOrderShipping,
+  ConfirmOrder,
+  ShipOrder,
+  DeliverOrder,
+  CancelOrder,
+  GetOrderDetails,
+  OrderItemInput,
+  AddressInput,
+} from '../../application/use-cases';
+import { Router } from './Router';
+import { expectedVersionFrom, versioned } from './etag';
+import {
+  asObject,
+  optionalNumber,
+  optionalString,
+  requireArray,
+  requireNumber,
+  requireString,
+  toAddressInput,
+} from './requestBody';
+
+function toOrderItemInput(value: unknown): OrderItemInput {
+  const item = asObject(value, 'item');
+  const weightGrams = optionalNumber(item, 'weightGrams');
+  return {
+    productId: requireString(item, 'productId'),
+    productName: requireString(item, 'productName'),
+    quantity: requireNumber(item, 'quantity'),
+    unitPrice: requireNumber(item, 'unitPrice'),
+    currency: requireString(item, 'currency'),
+    ...(weightGrams === undefined ? {} : { weightGrams }),
+  };
+}
+
+/**
+ * Direcciones opcionales del cuerpo (`shippingAddress`, `billingAddress`)
+ */
+function toAddressesInput(input: Record<string, unknown>): {
+  shippingAddress?: AddressInput;
+  billingAddress?: AddressInput;
+} {
+  return {
+    ...(input.shippingAddress === undefined
+      ? {}
+      : { shippingAddress: toAddressInput(input.shippingAddress, 'shippingAddress') }),
+    ...(input.billingAddress === undefined
+      ? {}
+      : { billingAddress: toAddressInput(input.billingAddress, 'billingAddress') }),
+  };
+}
+
+/**
+ * Sin `shippingRates` no se registra la ruta de presupuesto de envío: los
+ * pedidos se confirman sin coste de envío
+ */
+export function registerOrderRoutes(
+  router: Router,
+  orders: OrderRepository,
+  customers: CustomerRepository,
+  shippingRates?: ShippingRateCalculator
+): void {
+  const placeOrder = new PlaceOrder(orders, customers);
+  const addItemToOrder = new AddItemToOrder(orders);
+  const removeOrderItem = new RemoveOrderItem(orders);
+  const changeOrderItemQuantity = new ChangeOrderItemQuantity(orders);
+  const replaceOrderItems = new ReplaceOrderItems(orders);
+  const changeOrderAddresses = new ChangeOrderAddresses(orders);
+  const getOrderDetails = new GetOrderDetails(orders);
+  const transitions = {
+    confirm: new ConfirmOrder(orders),
+    ship: new ShipOrder(orders),
+    deliver: new DeliverOrder(orders),
+  };
+  const cancelOrder = new CancelOrder(orders);
+
+  router.post('/orders', async ({ body }) => {
+    const input = asObject(body);
+    const customerId = optionalString(input, 'customerId');
+    const customerEmail = optionalString(input, 'customerEmail');
+    const order = await placeOrder.execute({
+      ...(customerId === undefined ? {} : { customerId }),
+      ...(customerEmail === undefined ? {} : { customerEmail }),
+      items: requireArray(input, 'items').map(toOrderItemInput),
+      ...toAddressesInput(input),
+    });
+    return versioned(order, 201);
+  });
+
+  router.get('/orders/:id', async ({ params }) => {
+    const order = await getOrderDetails.execute({ orderId: params.id ?? '' });
+    return versioned(order);
+  });
+
+  router.post('/orders/:id/items', async ({ params, headers, body }) => {
+    const order = await addItemToOrder.execute({
+      orderId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      item: toOrderItemInput(body),
+    });
+    return versioned(order);
+  });
+
+  router.put('/orders/:id/items', async ({ params, headers, body }) => {
+    const order = await replaceOrderItems.execute({
+      orderId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      items: requireArray(asObject(body), 'items').map(toOrderItemInput),
+    });
+    return versioned(order);
+  });
+
+  router.patch('/orders/:id/items/:productId', async ({ params, headers, body }) => {
+    const order = await changeOrderItemQuantity.execute({
+      orderId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      productId: params.productId ?? '',
+      quantity: requireNumber(asObject(body), 'quantity'),
+    });
+    return versioned(order);
+  });
+
+  router.delete('/orders/:id/items/:productId', async ({ params, headers }) => {
+    const order = await removeOrderItem.execute({
+      orderId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      productId: params.productId ?? '',
+    });
+    return versioned(order);
+  });
+
+  router.post('/orders/:id/addresses', async ({ params, headers, body }) => {
+    const order = await changeOrderAddresses.execute({
+      orderId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      ...toAddressesInput(asObject(body)),
+    });
+    return versioned(order);
+  });
+
+  if (shippingRates) {
+    const quoteOrderShipping = new QuoteOrderShipping(orders, shippingRates);
+    router.post('/orders/:id/shipping-quote', async ({ params, headers }) => {
+      const order = await quoteOrderShipping.execute({
+        orderId: params.id ?? '',
+        ...expectedVersionFrom(headers),
+      });
+      return versioned(order);
+    });
+  }
+
+  for (const [action, useCase] of Object.entries(transitions)) {
+    router.post(`/orders/:id/${action}`, async ({ params, headers, body }) => {
+      const actor = optionalString(asObject(body), 'actor');
+      const order = await useCase.execute({
+        orderId: params.id ?? '',
+        ...expectedVersionFrom(headers),
+        ...(actor === undefined ? {} : { actor }),
+      });
+      return versioned(order);
+    });
+  }
+
+  router.post('/orders/:id/cancel', async ({ params, headers, body }) => {
+    const input = asObject(body);
+    const reason = optionalString(input, 'reason');
+    const actor = optionalString(input, 'actor');
+    const order = await cancelOrder.execute({
+      orderId: params.id ?? '',
+      ...expectedVersionFrom(headers),
+      ...(reason === undefined ? {} : { reason }),
+      ...(actor === undefined ? {} : { actor }),
+    });
+    return versioned(order);
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * RUTAS HTTP: administración del outbox
+ * 
+ * Mensajes muertos de cada bandeja del proceso en marcha, identificada
+ * por su nombre (`orders`, `customers`):
+ * 
+ *   GET  /admin/outboxes/:name/dead-letters          los lista
+ *   POST /admin/outboxes/:name/dead-letters/replay   los reencola
+ * 
+ * El cuerpo de `replay` puede llevar `messageIds`; sin él se reencolan
+ * todos. Es la única forma de recuperar los mensajes muertos de una
+ * bandeja en memoria, que el CLI (otro proceso) no puede ver.
+ * 
+ * Comparten puerto con la API pública, así que exigen
+ * `Authorization: Bearer <token>` con el token de administración.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Outbox } from '../../application/ports/Outbox';
+import { ListDeadLetters, ReplayDeadLetters } from '../../application/use-cases';
+import { Router } from './Router';
+import { HttpError } from './HttpError';
+import { asObject, requireArray } from './requestBody';
+
+function toMessageIds(input: Record<string, unknown>): string[] | undefined {
+  if (input.messageIds === undefined) {
+    return undefined;
+  }
+  return requireArray(input, 'messageIds').map((id, index) => {
+    if (typeof id !== 'string') {
+      throw new HttpError(400, `'messageIds[${index}]' must be a string`);
+    }
+    return id;
+  });
+}
+
+/**
+ * Compara los resúmenes para no filtrar la longitud ni el prefijo del token
+ * por el tiempo de respuesta
+ */
+function sameToken(given: string, expected: string): boolean {
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+export function registerOutboxRoutes(
+  router: Router,
+  outboxes: Readonly<Record<string, Outbox>>,
+  adminToken: string
+): void {
+  const authorize = (headers: Record<string, string | undefined>): void => {
+    const [scheme, token] = headers.authorization?.trim().split(/\s+/) ?? [];
+    if (scheme?.toLowerCase() !== 'bearer' || token === undefined || !sameToken(token, adminToken)) {
+      throw new HttpError(401, 'A valid admin token is required', { 'WWW-Authenticate': 'Bearer' });
+    }
+  };
+
+  // Solo propiedades propias: `constructor` o `__proto__` no son bandejas
+  const outboxNamed = (name: string | undefined): Outbox => {
+    const outbox = name !== undefined && Object.hasOwn(outboxes, name) ? outboxes[name] : undefined;
+    if (!outbox) {
+      throw new HttpError(404, `Outbox ${name ?? ''} not found`);
+    }
+    return outbox;
+  };
+
+  router.get('/admin/outboxes/:name/dead-letters', async ({ params, headers }) => {
+    authorize(headers);
+    const deadLetters = await new ListDeadLetters(outboxNamed(params.name)).execute();
+    return { status: 200, body: deadLetters };
+  });
+
+  router.post('/admin/outboxes/:name/dead-letters/replay', async ({ params, headers, body }) => {
+    authorize(headers);
+    const messageIds = toMessageIds(asObject(body));
+    const replayed = await new ReplayDeadLetters(outboxNamed(params.name)).execute({
+      ...(messageIds === undefined ? {} : { messageIds }),
+    });
+    return { status: 200, body: { replayed } };
+  });
+}
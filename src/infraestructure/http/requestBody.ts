@@ -0,0 +1,110 @@
+/**
+ * Helpers para leer y comprobar el cuerpo JSON de las peticiones.
+ * Solo verifican la FORMA (tipos); la validación de negocio la hacen
+ * los Value Objects dentro de los use-cases.
+ */
+
+import { IncomingMessage } from 'node:http';
+import { HttpError } from './HttpError';
+import { AddressInput } from '../../application/use-cases';
+
+const MAX_BODY_BYTES = 1_000_000;
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (raw.length === 0) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+export function asObject(value: unknown, name = 'body'): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, `'${name}' must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+export function requireString(source: Record<string, unknown>, field: string): string {
+  const value = source[field];
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `'${field}' must be a string`);
+  }
+  return value;
+}
+
+export function requireNumber(source: Record<string, unknown>, field: string): number {
+  const value = source[field];
+  if (typeof value !== 'number') {
+    throw new HttpError(400, `'${field}' must be a number`);
+  }
+  return value;
+}
+
+export function requireArray(source: Record<string, unknown>, field: string): unknown[] {
+  const value = source[field];
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, `'${field}' must be an array`);
+  }
+  return value;
+}
+
+export function optionalString(source: Record<string, unknown>, field: string): string | undefined {
+  return source[field] === undefined ? undefined : requireString(source, field);
+}
+
+/**
+ * `null` es un valor válido (borrar el campo); `undefined`, no tocarlo
+ */
+export function optionalNullableString(source: Record<string, unknown>, field: string): string | null | undefined {
+  return source[field] === null ? null : optionalString(source, field);
+}
+
+export function optionalNumber(source: Record<string, unknown>, field: string): number | undefined {
+  return source[field] === undefined ? undefined : requireNumber(source, field);
+}
+
+export function optionalBoolean(source: Record<string, unknown>, field: string): boolean | undefined {
+  const value = source[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'boolean') {
+    throw new HttpError(400, `'${field}' must be a boolean`);
+  }
+  return value;
+}
+
+export function toAddressInput(value: unknown, name: string): AddressInput {
+  const address = asObject(value, name);
+  const region = optionalString(address, 'region');
+  return {
+    lines: requireArray(address, 'lines').map(line => {
+      if (typeof line !== 'string') {
+        throw new HttpError(400, `'lines' must be an array of strings`);
+      }
+      return line;
+    }),
+    city: requireString(address, 'city'),
+    postalCode: requireString(address, 'postalCode'),
+    ...(region === undefined ? {} : { region }),
+    country: requireString(address, 'country'),
+  };
+}
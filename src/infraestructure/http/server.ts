@@ -0,0 +1,130 @@
+/**
+ * SERVIDOR HTTP (API REST JSON)
+ * 
+ * Adaptador de entrada construido solo con `node:http`. Se encarga de:
+ * - Leer la petición y encontrar la ruta
+ * - Ejecutar el handler (que delega en un use-case)
+ * - Traducir el resultado a JSON y los errores a `application/problem+json`
+ * 
+ * Las dependencias (repositorios y reglas configurables) se inyectan desde `main.ts`.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse, STATUS_CODES } from 'node:http';
+import { OrderRepository } from '../../application/ports/OrderRepository';
+import { CustomerRepository } from '../../application/ports/CustomerRepository';
+import { Outbox } from '../../application/ports/Outbox';
+import { CustomerEmailRules } from '../../application/use-cases';
+import { ShippingRateCalculator } from '../../domain/services/ShippingRateCalculator';
+import { checkHealth } from '../../shared/health';
+import {
+  createProblem,
+  toProblemDetails,
+  PROBLEM_JSON_CONTENT_TYPE,
+} from '../adapters/problemDetails';
+import { ConflictError } from '../../domain/errors';
+import { Router, HttpResponse } from './Router';
+import { HttpError } from './HttpError';
+import { readJsonBody } from './requestBody';
+import { registerOrderRoutes } from './orderRoutes';
+import { registerCustomerRoutes } from './customerRoutes';
+import { registerOutboxRoutes } from './outboxRoutes';
+
+export interface HttpDependencies {
+  orders: OrderRepository;
+  customers: CustomerRepository;
+  /** Sin reglas: cualquier email válido, duplicados por igualdad exacta */
+  customerEmailRules?: CustomerEmailRules;
+  /** Tarifas para presupuestar el envío; sin ellas los pedidos se confirman sin coste de envío */
+  shippingRates?: ShippingRateCalculator;
+  /** Bandejas por nombre cuyos mensajes muertos se administran en `/admin/outboxes` */
+  outboxes?: Readonly<Record<string, Outbox>>;
+  /** Token que exigen las rutas `/admin`; sin él no se registran */
+  adminToken?: string;
+}
+
+export function createHttpServer(dependencies: HttpDependencies): Server {
+  const router = new Router();
+
+  router.get('/health', async () => ({ status: 200, body: checkHealth() }));
+  registerOrderRoutes(router, dependencies.orders, dependencies.customers, dependencies.shippingRates);
+  registerCustomerRoutes(router, dependencies.customers, dependencies.orders, dependencies.customerEmailRules);
+  if (dependencies.outboxes && dependencies.adminToken) {
+    registerOutboxRoutes(router, dependencies.outboxes, dependencies.adminToken);
+  }
+
+  return createServer((req, res) => {
+    void handle(router, req, res);
+  });
+}
+
+async function handle(router: Router, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let response: HttpResponse;
+
+  try {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const match = router.match(method, path);
+
+    if ('allowedMethods' in match) {
+      if (match.allowedMethods.length > 0) {
+        res.setHeader('Allow', match.allowedMethods.join(', '));
+        throw new HttpError(405, `Method ${method} not allowed`);
+      }
+      throw new HttpError(404, `Route ${path} not found`);
+    }
+
+    const body = method === 'GET' ? undefined : await readJsonBody(req);
+    response = await match.handler({ params: match.params, headers: readHeaders(req), body });
+  } catch (error) {
+    sendProblem(res, req, error);
+    return;
+  }
+
+  sendJson(res, response);
+}
+
+/**
+ * Node ya entrega los nombres en minúsculas; las cabeceras repetidas se unen
+ * con comas, como indica el RFC 9110
+ */
+function readHeaders(req: IncomingMessage): Record<string, string | undefined> {
+  const headers: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    headers[name] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return headers;
+}
+
+function sendProblem(res: ServerResponse, req: IncomingMessage, error: unknown): void {
+  const instance = req.url ?? '/';
+  let problem = error instanceof HttpError
+    ? createProblem('http-error', STATUS_CODES[error.status] ?? 'HTTP error', error.status, error.message, { instance })
+    : toProblemDetails(error, instance);
+
+  // Con `If-Match`, una versión obsoleta es una precondición fallida (RFC 9110)
+  if (error instanceof ConflictError && error.expectedVersion !== undefined && req.headers['if-match'] !== undefined) {
+    problem = { ...problem, title: 'Precondition failed', status: 412 };
+  }
+
+  res.statusCode = problem.status;
+  if (error instanceof HttpError) {
+    for (const [name, value] of Object.entries(error.headers)) {
+      res.setHeader(name, value);
+    }
+  }
+  res.setHeader('Content-Type', `${PROBLEM_JSON_CONTENT_TYPE}; charset=utf-8`);
+  res.end(JSON.stringify(problem));
+}
+
+function sendJson(res: ServerResponse, response: HttpResponse): void {
+  const payload = response.body === undefined ? '' : JSON.stringify(response.body);
+
+  res.statusCode = response.status;
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  if (payload) {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  }
+  res.end(payload);
+}
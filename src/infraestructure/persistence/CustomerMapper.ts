@@ -0,0 +1,114 @@
+/**
+ * MAPPER: Customer <-> CustomerRecord
+ * 
+ * Traduce el agregado `Customer` a una estructura plana y lo reconstruye
+ * con `Customer.reconstitute()`.
+ */
+
+import { Customer } from '../../domain/entities/Customer';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { Email } from '../../domain/value-objects/Email';
+import { PhoneNumber } from '../../domain/value-objects/PhoneNumber';
+import { Address } from '../../domain/value-objects/Address';
+import { assertCurrency } from '../../domain/value-objects/Currency';
+import { assertMarketingChannel, MarketingConsent } from '../../domain/value-objects/MarketingConsent';
+import { AddressRecord, OrderMapper } from './OrderMapper';
+
+export interface AddressBookEntryRecord {
+  label: string;
+  address: AddressRecord;
+}
+
+export interface MarketingConsentRecord {
+  channel: string;
+  granted: boolean;
+  grantedAt: string | null;
+  withdrawnAt: string | null;
+}
+
+export interface CustomerRecord {
+  id: string;
+  name: string;
+  email: string;
+  isActive: boolean;
+  createdAt: string;
+  phoneNumber?: string;
+  addressBook: AddressBookEntryRecord[];
+  defaultShippingLabel?: string;
+  defaultBillingLabel?: string;
+  preferredLocale?: string;
+  preferredCurrency?: string;
+  marketingConsents: MarketingConsentRecord[];
+  anonymizedAt?: string;
+  version: number;
+}
+
+export class CustomerMapper {
+  static toRecord(customer: Customer): CustomerRecord {
+    return {
+      id: customer.id.value,
+      name: customer.name,
+      email: customer.email.value,
+      isActive: customer.isActive,
+      createdAt: customer.createdAt.toISOString(),
+      ...(customer.phoneNumber ? { phoneNumber: customer.phoneNumber.value } : {}),
+      addressBook: customer.addressBook.map(entry => ({
+        label: entry.label,
+        address: OrderMapper.addressToRecord(entry.address),
+      })),
+      ...(customer.defaultShippingLabel === null ? {} : { defaultShippingLabel: customer.defaultShippingLabel }),
+      ...(customer.defaultBillingLabel === null ? {} : { defaultBillingLabel: customer.defaultBillingLabel }),
+      ...(customer.preferredLocale === null ? {} : { preferredLocale: customer.preferredLocale }),
+      ...(customer.preferredCurrency === null ? {} : { preferredCurrency: customer.preferredCurrency }),
+      marketingConsents: customer.marketingConsents.map(consent => ({
+        channel: consent.channel,
+        granted: consent.granted,
+        grantedAt: consent.grantedAt?.toISOString() ?? null,
+        withdrawnAt: consent.withdrawnAt?.toISOString() ?? null,
+      })),
+      ...(customer.anonymizedAt ? { anonymizedAt: customer.anonymizedAt.toISOString() } : {}),
+      version: customer.version,
+    };
+  }
+
+  static toDomain(record: CustomerRecord): Customer {
+    const currency = record.preferredCurrency;
+    if (currency !== undefined) {
+      assertCurrency(currency);
+    }
+
+    return Customer.reconstitute(
+      CustomerId.create(record.id),
+      record.name,
+      // Ya se validó al crearlo: puede tener comillas si entonces se admitían
+      Email.create(record.email, { allowQuotedLocalPart: true, allowPseudonym: true }),
+      record.isActive,
+      new Date(record.createdAt),
+      {
+        ...(record.phoneNumber === undefined ? {} : { phoneNumber: PhoneNumber.create(record.phoneNumber) }),
+        addressBook: record.addressBook.map(entry => ({
+          label: entry.label,
+          address: Address.create(entry.address),
+        })),
+        ...(record.defaultShippingLabel === undefined ? {} : { defaultShippingLabel: record.defaultShippingLabel }),
+        ...(record.defaultBillingLabel === undefined ? {} : { defaultBillingLabel: record.defaultBillingLabel }),
+        ...(record.preferredLocale === undefined ? {} : { preferredLocale: record.preferredLocale }),
+        ...(currency === undefined ? {} : { preferredCurrency: currency }),
+        marketingConsents: record.marketingConsents.map(CustomerMapper.consentToDomain),
+        ...(record.anonymizedAt === undefined ? {} : { anonymizedAt: new Date(record.anonymizedAt) }),
+        version: record.version,
+      }
+    );
+  }
+
+  private static consentToDomain(record: MarketingConsentRecord): MarketingConsent {
+    const channel = record.channel;
+    assertMarketingChannel(channel);
+    return {
+      channel,
+      granted: record.granted,
+      grantedAt: record.grantedAt === null ? null : new Date(record.grantedAt),
+      withdrawnAt: record.withdrawnAt === null ? null : new Date(record.withdrawnAt),
+    };
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * ADAPTER: EventLogOutbox
+ * 
+ * Implementación del port `Outbox` sobre un `EventStore`: con event
+ * sourcing, los eventos que hay que publicar YA están en el almacén, así
+ * que guardar el agregado y dejar sus eventos en la bandeja es una única
+ * escritura (`append()`), sin ninguna transacción adicional.
+ * 
+ * Lo único que se guarda aparte es el estado de la entrega de cada evento
+ * (publicado, fallido, muerto, reencolado), en un diario JSON Lines de
+ * solo anexado. Perder el diario solo provoca volver a publicar eventos,
+ * que es lo que permite la entrega "al menos una vez".
+ * 
+ * El diario se vuelve a leer antes de cada operación, de modo que el CLI
+ * de diagnóstico puede reencolar mensajes muertos mientras el servidor
+ * está en marcha. Cada lectura empieza en el último byte aplicado, y del
+ * almacén solo se leen los eventos nuevos: los no publicados se guardan
+ * aparte, así que un evento muerto o esperando un reintento no obliga a
+ * recorrer otra vez todo lo que viene detrás.
+ * 
+ * El payload de cada mensaje se vuelve a leer del almacén al entregarlo:
+ * `redactStream()` puede haber borrado datos personales de un evento
+ * pendiente después de leerlo.
+ */
+
+import { appendFile, open as openFile } from 'node:fs/promises';
+import { aggregateKeyOf, Outbox, OutboxMessage } from '../../application/ports/Outbox';
+import { EventStore, RecordedEvent } from '../../application/ports/EventStore';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+
+type JournalEntry =
+  | { id: string; status: 'delivered'; at: string }
+  | { id: string; status: 'failed'; at: string; error: string; nextAttemptAt: string }
+  | { id: string; status: 'dead'; at: string; error: string }
+  | { id: string; status: 'requeued'; at: string };
+
+interface DeliveryState {
+  delivered: boolean;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  deadAt: Date | null;
+}
+
+const JOURNAL_STATUSES = new Set(['delivered', 'failed', 'dead', 'requeued']);
+
+export class EventLogOutbox implements Outbox {
+  private readonly states = new Map<string, DeliveryState>();
+  private writing: Promise<unknown> = Promise.resolve();
+  /** Lecturas del diario y del almacén, de una en una */
+  private reading: Promise<unknown> = Promise.resolve();
+  /** Bytes del diario ya aplicados */
+  private offset = 0;
+  private lineNumber = 0;
+  /** Última posición del almacén ya leída */
+  private position = 0;
+  /** Eventos leídos y aún no publicados, en el orden del almacén */
+  private readonly unpublished = new Map<string, RecordedEvent>();
+
+  private constructor(
+    private readonly events: EventStore,
+    private readonly journalPath: string
+  ) {}
+
+  /**
+   * @throws ValidationError si alguna línea del diario está mal formada
+   */
+  static async open(events: EventStore, journalPath: string): Promise<EventLogOutbox> {
+    const outbox = new EventLogOutbox(events, journalPath);
+    await outbox.refresh();
+    return outbox;
+  }
+
+  async due(now: Date, limit: number): Promise<OutboxMessage[]> {
+    await this.refresh();
+    const due: OutboxMessage[] = [];
+    const held = new Set<string>();
+
+    for (const recorded of await this.pending()) {
+      if (due.length >= limit) {
+        break;
+      }
+      const key = aggregateKeyOf(recorded.event);
+      if (held.has(key)) {
+        continue;
+      }
+      const message = await this.toMessage(recorded);
+      if (message.deadAt === null && message.nextAttemptAt <= now) {
+        due.push(message);
+      } else {
+        held.add(key);
+      }
+    }
+    return due;
+  }
+
+  async markDelivered(id: string): Promise<void> {
+    await this.write({ id, status: 'delivered', at: new Date().toISOString() });
+  }
+
+  async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    await this.write({ id, status: 'failed', at: new Date().toISOString(), error, nextAttemptAt: nextAttemptAt.toISOString() });
+  }
+
+  async markDead(id: string, error: string, at: Date): Promise<void> {
+    await this.write({ id, status: 'dead', at: at.toISOString(), error });
+  }
+
+  async deadLetters(): Promise<OutboxMessage[]> {
+    await this.refresh();
+    const dead = (await this.pending()).filter(recorded => this.states.get(recorded.event.eventId)?.deadAt);
+    return Promise.all(dead.map(recorded => this.toMessage(recorded)));
+  }
+
+  async requeue(id: string, at: Date): Promise<void> {
+    await this.refresh();
+    if (!this.states.get(id)?.deadAt) {
+      throw new NotFoundError('DeadLetter', id);
+    }
+    await this.write({ id, status: 'requeued', at: at.toISOString() });
+  }
+
+  /**
+   * Eventos no publicados, tras añadir los que se han guardado desde la
+   * última lectura
+   */
+  private pending(): Promise<RecordedEvent[]> {
+    return this.exclusively(async () => {
+      for (const recorded of await this.events.readAll(this.position)) {
+        if (!this.states.get(recorded.event.eventId)?.delivered) {
+          this.unpublished.set(recorded.event.eventId, recorded);
+        }
+        this.position = recorded.position;
+      }
+      return [...this.unpublished.values()];
+    });
+  }
+
+  private async toMessage(recorded: RecordedEvent): Promise<OutboxMessage> {
+    const [current = recorded] = await this.events.readStream(recorded.streamId, recorded.version - 1);
+    if (this.unpublished.has(current.event.eventId)) {
+      this.unpublished.set(current.event.eventId, current);
+    }
+
+    const state = this.states.get(current.event.eventId);
+    return {
+      id: current.event.eventId,
+      event: current.event,
+      attempts: state?.attempts ?? 0,
+      // Un evento nunca intentado está pendiente desde que ocurrió
+      nextAttemptAt: state?.nextAttemptAt ?? current.event.occurredAt,
+      lastError: state?.lastError ?? null,
+      deadAt: state?.deadAt ?? null,
+    };
+  }
+
+  /**
+   * El estado en memoria solo cambia al leer el diario, también con las
+   * líneas propias: así no importa quién las escribió
+   */
+  private async write(entry: JournalEntry): Promise<void> {
+    const result = this.writing.then(async () => {
+      await appendFile(this.journalPath, `${JSON.stringify(entry)}\n`, 'utf8');
+      await this.refresh();
+    });
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Aplica las líneas nuevas del diario. Dos lecturas solapadas partirían
+   * del mismo byte y aplicarían dos veces las mismas líneas, así que van
+   * de una en una (también respecto a `pending()`)
+   */
+  private refresh(): Promise<void> {
+    return this.exclusively(() => this.readJournal());
+  }
+
+  private exclusively<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.reading.then(task);
+    this.reading = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readJournal(): Promise<void> {
+    const content = await readJournalFrom(this.journalPath, this.offset);
+    const end = content.lastIndexOf('\n') + 1;
+    if (end === 0) {
+      return;
+    }
+
+    // Una línea a medio escribir por otro proceso se leerá en la siguiente vuelta
+    const fresh = content.subarray(0, end).toString('utf8').split('\n').slice(0, -1);
+    const entries = fresh
+      .map((text, index) => ({ text, field: `line ${this.lineNumber + index + 1}` }))
+      .filter(({ text }) => text.trim().length > 0)
+      .map(({ text, field }) => parseEntry(text, field));
+
+    entries.forEach(entry => this.apply(entry));
+    this.lineNumber += fresh.length;
+    this.offset += end;
+  }
+
+  private apply(entry: JournalEntry): void {
+    const state = this.states.get(entry.id)
+      ?? { delivered: false, attempts: 0, nextAttemptAt: null, lastError: null, deadAt: null };
+
+    switch (entry.status) {
+      case 'delivered':
+        state.delivered = true;
+        this.unpublished.delete(entry.id);
+        break;
+      case 'failed':
+        state.attempts += 1;
+        state.lastError = entry.error;
+        state.nextAttemptAt = new Date(entry.nextAttemptAt);
+        break;
+      case 'dead':
+        state.attempts += 1;
+        state.lastError = entry.error;
+        state.deadAt = new Date(entry.at);
+        break;
+      case 'requeued':
+        state.attempts = 0;
+        state.nextAttemptAt = new Date(entry.at);
+        state.deadAt = null;
+        break;
+    }
+    this.states.set(entry.id, state);
+  }
+}
+
+/**
+ * Lo que hay en el diario a partir del byte `offset` (nada si aún no existe)
+ */
+async function readJournalFrom(path: string, offset: number): Promise<Buffer> {
+  let handle;
+  try {
+    handle = await openFile(path, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return Buffer.alloc(0);
+    }
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const buffer = Buffer.alloc(Math.max(0, size - offset));
+    let read = 0;
+    while (read < buffer.length) {
+      const { bytesRead } = await handle.read(buffer, read, buffer.length - read, offset + read);
+      if (bytesRead === 0) {
+        break;
+      }
+      read += bytesRead;
+    }
+    return buffer.subarray(0, read);
+  } finally {
+    await handle.close();
+  }
+}
+
+function parseEntry(text: string, field: string): JournalEntry {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw ValidationError.single('OutboxJournal', field, 'Line is not valid JSON');
+  }
+
+  const entry = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  const valid = typeof entry.id === 'string'
+    && typeof entry.status === 'string' && JOURNAL_STATUSES.has(entry.status)
+    && typeof entry.at === 'string'
+    && (entry.status !== 'failed' || typeof entry.nextAttemptAt === 'string')
+    && (!['failed', 'dead'].includes(entry.status) || typeof entry.error === 'string');
+  if (!valid) {
+    throw ValidationError.single('OutboxJournal', field, 'Line is not a delivery entry');
+  }
+  return entry as JournalEntry;
+}
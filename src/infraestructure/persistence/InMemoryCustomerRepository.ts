@@ -0,0 +1,115 @@
+/**
+ * ADAPTER: InMemoryCustomerRepository
+ * 
+ * Implementación en memoria del port `CustomerRepository`.
+ * Garantiza la unicidad del email: guardar un cliente con un email que ya
+ * pertenece a OTRO cliente lanza `ConflictError`, igual que guardar una
+ * versión obsoleta del cliente (control de concurrencia optimista).
+ * Con `duplicateMatch: 'canonical'` tampoco admite otro cliente con el
+ * mismo buzón: la comprobación y la escritura no se separan con ningún
+ * `await`, así que dos altas simultáneas no pueden colarse las dos.
+ * 
+ * Con un `InMemoryOutbox`, los eventos del cliente se dejan en la bandeja
+ * en la misma escritura que el cliente.
+ */
+
+import { CustomerRepository, EmailLookupOptions, EmailMatch } from '../../application/ports/CustomerRepository';
+import { Customer } from '../../domain/entities/Customer';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { Email } from '../../domain/value-objects/Email';
+import { PayloadRedaction } from '../../domain/events/DomainEvent';
+import { ConflictError, NotFoundError } from '../../domain/errors';
+import { CustomerMapper, CustomerRecord } from './CustomerMapper';
+import { InMemoryOutbox } from './InMemoryOutbox';
+
+export interface InMemoryCustomerRepositoryOptions {
+  /** Qué emails cuentan como duplicados al guardar (`exact` por defecto) */
+  duplicateMatch?: EmailMatch;
+}
+
+export class InMemoryCustomerRepository implements CustomerRepository {
+  protected readonly records = new Map<string, CustomerRecord>();
+
+  constructor(
+    private readonly outbox?: InMemoryOutbox,
+    private readonly options: InMemoryCustomerRepositoryOptions = {}
+  ) {}
+
+  async save(customer: Customer): Promise<void> {
+    const record = CustomerMapper.toRecord(customer);
+
+    const storedVersion = this.records.get(record.id)?.version ?? 0;
+    if (storedVersion !== customer.persistedVersion) {
+      throw ConflictError.staleVersion('Customer', record.id, customer.persistedVersion, storedVersion);
+    }
+
+    const owner = this.findOwner(customer.email, { match: this.options.duplicateMatch ?? 'exact', excluding: customer.id });
+    if (owner) {
+      throw new ConflictError(
+        'Customer',
+        'Email already exists',
+        { email: record.email }
+      );
+    }
+
+    this.records.set(record.id, record);
+    this.outbox?.enqueue(customer.uncommittedEvents);
+    customer.markPersisted();
+  }
+
+  async findById(id: CustomerId): Promise<Customer> {
+    const record = this.records.get(id.value);
+    if (!record) {
+      throw new NotFoundError('Customer', id.value);
+    }
+    return CustomerMapper.toDomain(record);
+  }
+
+  async findByEmail(email: Email): Promise<Customer> {
+    const record = this.findRecordByEmail(email.value);
+    if (!record) {
+      throw new NotFoundError('Customer', email.value);
+    }
+    return CustomerMapper.toDomain(record);
+  }
+
+  async existsByEmail(email: Email, options: EmailLookupOptions = {}): Promise<boolean> {
+    return this.findOwner(email, options) !== undefined;
+  }
+
+  async delete(id: CustomerId): Promise<void> {
+    if (!this.records.delete(id.value)) {
+      throw new NotFoundError('Customer', id.value);
+    }
+  }
+
+  async list(): Promise<Customer[]> {
+    return [...this.records.values()].map(record => CustomerMapper.toDomain(record));
+  }
+
+  /**
+   * No se guarda el historial: solo quedan los eventos del outbox
+   */
+  async redactHistory(id: CustomerId, redaction: PayloadRedaction): Promise<void> {
+    if (!this.records.has(id.value)) {
+      throw new NotFoundError('Customer', id.value);
+    }
+    this.outbox?.redact(event =>
+      event.aggregateType === 'Customer' && event.aggregateId === id.value ? redaction(event) : undefined
+    );
+  }
+
+  private findOwner(email: Email, options: EmailLookupOptions): CustomerRecord | undefined {
+    const sameEmail = options.match === 'canonical'
+      ? (record: CustomerRecord) => Email.create(record.email, { allowQuotedLocalPart: true, allowPseudonym: true }).isSameMailbox(email)
+      : (record: CustomerRecord) => record.email === email.value;
+
+    return [...this.records.values()].find(record =>
+      record.id !== options.excluding?.value && sameEmail(record)
+    );
+  }
+
+  private findRecordByEmail(email: string): CustomerRecord | undefined {
+    return [...this.records.values()].find(record => record.email === email);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * ADAPTER: InMemoryEventStore
+ * 
+ * Implementación en memoria del port `EventStore`. Guarda copias de los
+ * eventos, así modificar un evento después de anexarlo no cambia la
+ * historia guardada.
+ * 
+ * Útil para tests y para arrancar la aplicación sin infraestructura.
+ */
+
+import { EventStore, RecordedEvent } from '../../application/ports/EventStore';
+import { DomainEvent, PayloadRedaction } from '../../domain/events/DomainEvent';
+import { ConflictError } from '../../domain/errors';
+
+export class InMemoryEventStore implements EventStore {
+  private readonly streams = new Map<string, RecordedEvent[]>();
+  private readonly log: RecordedEvent[] = [];
+
+  async append(streamId: string, expectedVersion: number, events: readonly DomainEvent[]): Promise<number> {
+    const stream = this.streams.get(streamId) ?? [];
+    if (stream.length !== expectedVersion) {
+      throw ConflictError.staleVersion('EventStream', streamId, expectedVersion, stream.length);
+    }
+    if (events.length === 0) {
+      return stream.length;
+    }
+
+    const recorded = events.map((event, index) => ({
+      streamId,
+      version: expectedVersion + index + 1,
+      position: this.log.length + index + 1,
+      event: structuredClone(event),
+    }));
+    this.streams.set(streamId, [...stream, ...recorded]);
+    this.log.push(...recorded);
+    return expectedVersion + events.length;
+  }
+
+  async readStream(streamId: string, afterVersion = 0): Promise<RecordedEvent[]> {
+    return (this.streams.get(streamId) ?? [])
+      .filter(recorded => recorded.version > afterVersion)
+      .map(recorded => structuredClone(recorded));
+  }
+
+  async readAll(afterPosition = 0): Promise<RecordedEvent[]> {
+    return this.log.slice(afterPosition).map(recorded => structuredClone(recorded));
+  }
+
+  async streamVersion(streamId: string): Promise<number> {
+    return this.streams.get(streamId)?.length ?? 0;
+  }
+
+  async streamIds(prefix = ''): Promise<string[]> {
+    return [...this.streams.keys()].filter(streamId => streamId.startsWith(prefix));
+  }
+
+  async redactStream(streamId: string, redaction: PayloadRedaction): Promise<number> {
+    const stream = this.streams.get(streamId) ?? [];
+    let redacted = 0;
+    stream.forEach((recorded, index) => {
+      const payload = redaction(recorded.event);
+      if (payload === undefined) {
+        return;
+      }
+      const replacement = { ...recorded, event: { ...recorded.event, payload: structuredClone(payload) } };
+      stream[index] = replacement;
+      this.log[recorded.position - 1] = replacement;
+      redacted++;
+    });
+    return redacted;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * ADAPTER: InMemoryOrderRepository
+ * 
+ * Implementación en memoria del port `OrderRepository`. Guarda registros
+ * planos (no instancias de `Order`), de modo que cada lectura devuelve un
+ * agregado nuevo reconstruido, igual que haría una base de datos real.
+ * 
+ * `save()` rechaza con `ConflictError` las escrituras obsoletas: si la
+ * versión guardada no es la que tenía el pedido al cargarlo, otro proceso
+ * lo ha modificado entretanto y se perderían sus cambios.
+ * 
+ * Con un `InMemoryOutbox`, los eventos del pedido se dejan en la bandeja
+ * en la misma escritura que el pedido (ver `InMemoryOutbox`).
+ * 
+ * Útil para tests y para arrancar la aplicación sin infraestructura.
+ */
+
+import { OrderRepository } from '../../application/ports/OrderRepository';
+import { Order } from '../../domain/entities/Order';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { Email } from '../../domain/value-objects/Email';
+import { PayloadRedaction } from '../../domain/events/DomainEvent';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { ConflictError, NotFoundError } from '../../domain/errors';
+import { OrderMapper, OrderRecord } from './OrderMapper';
+import { InMemoryOutbox } from './InMemoryOutbox';
+
+export class InMemoryOrderRepository implements OrderRepository {
+  private readonly records = new Map<string, OrderRecord>();
+
+  constructor(private readonly outbox?: InMemoryOutbox) {}
+
+  async save(order: Order): Promise<void> {
+    const storedVersion = this.records.get(order.id.value)?.version ?? 0;
+    if (storedVersion !== order.persistedVersion) {
+      throw ConflictError.staleVersion('Order', order.id.value, order.persistedVersion, storedVersion);
+    }
+
+    this.records.set(order.id.value, OrderMapper.toRecord(order));
+    this.outbox?.enqueue(order.uncommittedEvents);
+    order.markPersisted();
+  }
+
+  async findById(id: OrderId): Promise<Order> {
+    const record = this.records.get(id.value);
+    if (!record) {
+      throw new NotFoundError('Order', id.value);
+    }
+    return OrderMapper.toDomain(record);
+  }
+
+  async findByCustomerEmail(email: Email): Promise<Order[]> {
+    return [...this.records.values()]
+      .filter(record => record.customerEmail === email.value)
+      .map(record => OrderMapper.toDomain(record));
+  }
+
+  async findByCustomerId(id: CustomerId): Promise<Order[]> {
+    return [...this.records.values()]
+      .filter(record => record.customerId === id.value)
+      .map(record => OrderMapper.toDomain(record));
+  }
+
+  async delete(id: OrderId): Promise<void> {
+    if (!this.records.delete(id.value)) {
+      throw new NotFoundError('Order', id.value);
+    }
+  }
+
+  async list(): Promise<Order[]> {
+    return [...this.records.values()].map(record => OrderMapper.toDomain(record));
+  }
+
+  /**
+   * No se guarda el historial: solo quedan los eventos del outbox
+   */
+  async redactHistory(id: OrderId, redaction: PayloadRedaction): Promise<void> {
+    if (!this.records.has(id.value)) {
+      throw new NotFoundError('Order', id.value);
+    }
+    this.outbox?.redact(event =>
+      event.aggregateType === 'Order' && event.aggregateId === id.value ? redaction(event) : undefined
+    );
+  }
+}
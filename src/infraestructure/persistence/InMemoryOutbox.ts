@@ -0,0 +1,105 @@
+/**
+ * ADAPTER: InMemoryOutbox
+ * 
+ * Implementación en memoria del port `Outbox`. Los repositorios en memoria
+ * la reciben en su constructor y llaman a `enqueue()` en el mismo paso
+ * síncrono en que guardan el agregado: entre las dos escrituras no hay
+ * ningún `await`, así que nunca se ve una sin la otra.
+ * 
+ * Útil para tests y para arrancar la aplicación sin infraestructura.
+ */
+
+import { aggregateKeyOf, Outbox, OutboxMessage } from '../../application/ports/Outbox';
+import { DomainEvent, PayloadRedaction } from '../../domain/events/DomainEvent';
+import { NotFoundError } from '../../domain/errors';
+
+export class InMemoryOutbox implements Outbox {
+  private readonly messages = new Map<string, OutboxMessage>();
+
+  /**
+   * Deja los eventos en la bandeja, listos para publicarse
+   * (síncrono a propósito: ver la cabecera)
+   */
+  enqueue(events: readonly DomainEvent[], now: Date = new Date()): void {
+    for (const event of events) {
+      this.messages.set(event.eventId, {
+        id: event.eventId,
+        event: structuredClone(event),
+        attempts: 0,
+        nextAttemptAt: now,
+        lastError: null,
+        deadAt: null,
+      });
+    }
+  }
+
+  async due(now: Date, limit: number): Promise<OutboxMessage[]> {
+    const due: OutboxMessage[] = [];
+    const held = new Set<string>();
+
+    for (const message of this.messages.values()) {
+      if (due.length >= limit) {
+        break;
+      }
+      const key = aggregateKeyOf(message.event);
+      if (held.has(key)) {
+        continue;
+      }
+      if (message.deadAt === null && message.nextAttemptAt <= now) {
+        due.push(structuredClone(message));
+      } else {
+        held.add(key);
+      }
+    }
+    return due;
+  }
+
+  async markDelivered(id: string): Promise<void> {
+    this.messages.delete(id);
+  }
+
+  async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    this.update(id, message => ({ ...message, attempts: message.attempts + 1, lastError: error, nextAttemptAt }));
+  }
+
+  async markDead(id: string, error: string, at: Date): Promise<void> {
+    this.update(id, message => ({ ...message, attempts: message.attempts + 1, lastError: error, deadAt: at }));
+  }
+
+  async deadLetters(): Promise<OutboxMessage[]> {
+    return [...this.messages.values()]
+      .filter(message => message.deadAt !== null)
+      .map(message => structuredClone(message));
+  }
+
+  async requeue(id: string, at: Date): Promise<void> {
+    const message = this.messages.get(id);
+    if (!message || message.deadAt === null) {
+      throw new NotFoundError('DeadLetter', id);
+    }
+    this.messages.set(id, { ...message, attempts: 0, nextAttemptAt: at, deadAt: null });
+  }
+
+  /**
+   * Borra datos personales de los mensajes pendientes y muertos
+   * (derecho de supresión). Devuelve cuántos cambiaron.
+   */
+  redact(redaction: PayloadRedaction): number {
+    let redacted = 0;
+    for (const [id, message] of this.messages) {
+      const payload = redaction(message.event);
+      if (payload !== undefined) {
+        this.messages.set(id, { ...message, event: { ...message.event, payload: structuredClone(payload) } });
+        redacted++;
+      }
+    }
+    return redacted;
+  }
+
+  private update(id: string, change: (message: OutboxMessage) => OutboxMessage): void {
+    const message = this.messages.get(id);
+    if (message) {
+      this.messages.set(id, change(message));
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * ADAPTER: InMemorySnapshotStore
+ * 
+ * Implementación en memoria del port `SnapshotStore`: una instantánea
+ * (la última) por stream.
+ */
+
+import { Snapshot, SnapshotStore } from '../../application/ports/SnapshotStore';
+
+export class InMemorySnapshotStore<TState> implements SnapshotStore<TState> {
+  private readonly snapshots = new Map<string, Snapshot<TState>>();
+
+  async save(snapshot: Snapshot<TState>): Promise<void> {
+    this.snapshots.set(snapshot.streamId, structuredClone(snapshot));
+  }
+
+  async load(streamId: string): Promise<Snapshot<TState> | undefined> {
+    const snapshot = this.snapshots.get(streamId);
+    return snapshot && structuredClone(snapshot);
+  }
+
+  async delete(streamId: string): Promise<void> {
+    this.snapshots.delete(streamId);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * ADAPTER: JsonFileCustomerRepository
+ * 
+ * `InMemoryCustomerRepository` que además guarda todos los clientes en un
+ * fichero JSON (un array de `CustomerRecord`), para que sobrevivan a un
+ * reinicio igual que los pedidos event-sourced que apuntan a ellos.
+ * 
+ * Las comprobaciones (versión y unicidad del email) se hacen en memoria;
+ * después cada cambio reescribe el fichero entero en uno temporal que
+ * luego sustituye al original. Las escrituras se serializan y cada una
+ * guarda el estado más reciente: si una falla, el error llega al llamante
+ * y el cambio se escribe con la siguiente. El fichero no admite varios
+ * procesos escritores.
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { Customer } from '../../domain/entities/Customer';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { ValidationError } from '../../domain/errors';
+import { CustomerMapper, CustomerRecord } from './CustomerMapper';
+import { InMemoryCustomerRepository, InMemoryCustomerRepositoryOptions } from './InMemoryCustomerRepository';
+import { InMemoryOutbox } from './InMemoryOutbox';
+
+export class JsonFileCustomerRepository extends InMemoryCustomerRepository {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private readonly path: string,
+    outbox?: InMemoryOutbox,
+    options: InMemoryCustomerRepositoryOptions = {}
+  ) {
+    super(outbox, options);
+  }
+
+  /**
+   * Abre el fichero (si no existe, se crea con el primer cliente)
+   * @throws ValidationError si el fichero no es un array de clientes válidos
+   */
+  static async open(
+    path: string,
+    outbox?: InMemoryOutbox,
+    options: InMemoryCustomerRepositoryOptions = {}
+  ): Promise<JsonFileCustomerRepository> {
+    const repository = new JsonFileCustomerRepository(path, outbox, options);
+    for (const record of parseCustomers(await readCustomers(path))) {
+      repository.records.set(record.id, record);
+    }
+    return repository;
+  }
+
+  override async save(customer: Customer): Promise<void> {
+    await super.save(customer);
+    await this.write();
+  }
+
+  override async delete(id: CustomerId): Promise<void> {
+    await super.delete(id);
+    await this.write();
+  }
+
+  private write(): Promise<void> {
+    const result = this.writing.then(async () => {
+      const temporary = `${this.path}.tmp`;
+      await writeFile(temporary, `${JSON.stringify([...this.records.values()], null, 2)}\n`, 'utf8');
+      await rename(temporary, this.path);
+    });
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+}
+
+async function readCustomers(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '[]';
+    }
+    throw error;
+  }
+}
+
+function parseCustomers(content: string): CustomerRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw ValidationError.single('CustomerFile', 'content', 'File is not valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw ValidationError.single('CustomerFile', 'content', 'File is not an array of customers');
+  }
+
+  return parsed.map((entry: unknown, index) => {
+    if (typeof entry !== 'object' || entry === null || typeof (entry as { id?: unknown }).id !== 'string') {
+      throw ValidationError.single('CustomerFile', `customers[${index}]`, 'Entry is not a customer record');
+    }
+    const record = entry as CustomerRecord;
+    // Se reconstruye una vez para no aceptar datos que luego no se podrían leer
+    CustomerMapper.toDomain(record);
+    return record;
+  });
+}
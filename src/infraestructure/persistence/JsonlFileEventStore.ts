@@ -0,0 +1,387 @@
+/**
+ * ADAPTER: JsonlFileEventStore
+ *
+ * Event store en un fichero JSON Lines de solo anexado: una línea por
+ * evento, en el orden en que se guardaron, de todos los streams.
+ *
+ * Cada línea incluye el hash SHA-256 de la anterior (`previousHash`) y el
+ * suyo propio (`hash`), formando una cadena: modificar, borrar o reordenar
+ * una línea rompe la cadena a partir de ese punto. Al abrir el fichero (y
+ * con `verify()`) se comprueba la cadena entera, así una auditoría puede
+ * confiar en que el historial no se ha tocado a mano.
+ *
+ * El payload no entra en la cadena directamente, sino por su hash
+ * (`payloadHash`): así `redactStream()` puede borrar datos personales sin
+ * romperla. La línea del evento conserva el hash del payload original y
+ * al final del fichero se anexa a la cadena un registro de supresión
+ * (`redacts`: id del evento, `redactedAt` y el hash del payload nuevo).
+ * Un payload que no coincide con su hash solo es válido si coincide con
+ * el del último registro de supresión de su evento. Suprimir reescribe el
+ * fichero entero (en uno temporal que luego sustituye al original).
+ *
+ * Los eventos se mantienen también en memoria; las escrituras de este
+ * proceso se serializan para que la comprobación de versión y el anexado
+ * sean atómicos. El fichero no admite varios procesos escritores.
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFile, readFile, rename, writeFile } from 'node:fs/promises';
+import { EventStore, RecordedEvent } from '../../application/ports/EventStore';
+import { DomainEvent, PayloadRedaction } from '../../domain/events/DomainEvent';
+import { ConflictError, ValidationError } from '../../domain/errors';
+
+/**
+ * `previousHash` de la primera línea del fichero
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Lo que cubre el hash de cada línea
+ */
+interface EventHeader {
+  streamId: string;
+  version: number;
+  eventId: string;
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  occurredAt: string;
+  payloadHash: string;
+  previousHash: string;
+}
+
+interface EventLine extends EventHeader {
+  hash: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Registro de supresión: lo cubre el hash entero salvo `hash`
+ */
+interface RedactionHeader {
+  /** Id del evento cuyo payload se sustituyó */
+  redacts: string;
+  redactedAt: string;
+  payloadHash: string;
+  previousHash: string;
+}
+
+interface RedactionLine extends RedactionHeader {
+  hash: string;
+}
+
+type LogLine = EventLine | RedactionLine;
+
+interface EventLog {
+  lines: LogLine[];
+  streams: Map<string, RecordedEvent[]>;
+  all: RecordedEvent[];
+  lastHash: string;
+}
+
+export class JsonlFileEventStore implements EventStore {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private readonly path: string,
+    private lines: LogLine[],
+    private readonly streams: Map<string, RecordedEvent[]>,
+    private readonly all: RecordedEvent[],
+    private lastHash: string
+  ) {}
+
+  /**
+   * Abre el fichero (si no existe, se crea con el primer evento)
+   * @throws ValidationError si alguna línea está mal formada o la cadena de hashes está rota
+   */
+  static async open(path: string): Promise<JsonlFileEventStore> {
+    const log = parseLog(await readLog(path));
+    return new JsonlFileEventStore(path, log.lines, log.streams, log.all, log.lastHash);
+  }
+
+  /**
+   * Vuelve a leer el fichero y comprueba la cadena de hashes completa
+   * (y los payloads que no se han suprimido)
+   * @returns número de eventos verificados
+   * @throws ValidationError en la primera línea alterada
+   */
+  async verify(): Promise<number> {
+    return parseLog(await readLog(this.path)).all.length;
+  }
+
+  async append(streamId: string, expectedVersion: number, events: readonly DomainEvent[]): Promise<number> {
+    const result = this.writing.then(() => this.write(streamId, expectedVersion, events));
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+
+  async readStream(streamId: string, afterVersion = 0): Promise<RecordedEvent[]> {
+    return (this.streams.get(streamId) ?? [])
+      .filter(recorded => recorded.version > afterVersion)
+      .map(recorded => structuredClone(recorded));
+  }
+
+  async readAll(afterPosition = 0): Promise<RecordedEvent[]> {
+    return this.all.slice(afterPosition).map(recorded => structuredClone(recorded));
+  }
+
+  async streamVersion(streamId: string): Promise<number> {
+    return this.streams.get(streamId)?.length ?? 0;
+  }
+
+  async streamIds(prefix = ''): Promise<string[]> {
+    return [...this.streams.keys()].filter(streamId => streamId.startsWith(prefix));
+  }
+
+  async redactStream(streamId: string, redaction: PayloadRedaction): Promise<number> {
+    const result = this.writing.then(() => this.redact(streamId, redaction));
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+
+  private async write(streamId: string, expectedVersion: number, events: readonly DomainEvent[]): Promise<number> {
+    const stream = this.streams.get(streamId) ?? [];
+    if (stream.length !== expectedVersion) {
+      throw ConflictError.staleVersion('EventStream', streamId, expectedVersion, stream.length);
+    }
+    if (events.length === 0) {
+      return stream.length;
+    }
+
+    let previousHash = this.lastHash;
+    const lines: EventLine[] = [];
+    const recorded: RecordedEvent[] = [];
+
+    events.forEach((event, index) => {
+      const payload = toJson(event.payload);
+      const header: EventHeader = {
+        streamId,
+        version: expectedVersion + index + 1,
+        eventId: event.eventId,
+        eventType: event.eventType,
+        aggregateType: event.aggregateType,
+        aggregateId: event.aggregateId,
+        occurredAt: event.occurredAt.toISOString(),
+        payloadHash: payloadHashOf(payload),
+        previousHash,
+      };
+      previousHash = hashOf(header);
+      lines.push({ ...header, hash: previousHash, payload });
+      recorded.push(toRecordedEvent(header, payload, this.all.length + index + 1));
+    });
+
+    // La memoria solo cambia si el fichero se ha escrito
+    await appendFile(this.path, lines.map(serialize).join(''), 'utf8');
+    this.lines.push(...lines);
+    this.streams.set(streamId, [...stream, ...recorded]);
+    this.all.push(...recorded);
+    this.lastHash = previousHash;
+
+    return expectedVersion + events.length;
+  }
+
+  private async redact(streamId: string, redaction: PayloadRedaction): Promise<number> {
+    // Id del evento -> payload sin los datos suprimidos
+    const redacted = new Map<string, Record<string, unknown>>();
+    for (const recorded of this.streams.get(streamId) ?? []) {
+      const payload = redaction(recorded.event);
+      if (payload !== undefined) {
+        redacted.set(recorded.event.eventId, toJson(payload));
+      }
+    }
+    if (redacted.size === 0) {
+      return 0;
+    }
+
+    const redactedAt = new Date().toISOString();
+    let previousHash = this.lastHash;
+    const records: RedactionLine[] = [...redacted].map(([eventId, payload]) => {
+      const header: RedactionHeader = { redacts: eventId, redactedAt, payloadHash: payloadHashOf(payload), previousHash };
+      previousHash = redactionHashOf(header);
+      return { ...header, hash: previousHash };
+    });
+    const lines = [
+      ...this.lines.map(line => {
+        const payload = isRedactionLine(line) ? undefined : redacted.get(line.eventId);
+        return payload === undefined ? line : { ...line, payload };
+      }),
+      ...records,
+    ];
+
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, lines.map(serialize).join(''), 'utf8');
+    await rename(temporary, this.path);
+
+    const refresh = (recorded: RecordedEvent): RecordedEvent => {
+      const payload = redacted.get(recorded.event.eventId);
+      return payload === undefined ? recorded : { ...recorded, event: { ...recorded.event, payload: structuredClone(payload) } };
+    };
+    this.lines = lines;
+    this.lastHash = previousHash;
+    this.streams.set(streamId, (this.streams.get(streamId) ?? []).map(refresh));
+    this.all.splice(0, this.all.length, ...this.all.map(refresh));
+
+    return redacted.size;
+  }
+}
+
+async function readLog(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw error;
+  }
+}
+
+function parseLog(content: string): EventLog {
+  const lines: LogLine[] = [];
+  const streams = new Map<string, RecordedEvent[]>();
+  const all: RecordedEvent[] = [];
+  let lastHash = GENESIS_HASH;
+  // Eventos cuyo payload no coincide con su hash, a la espera de un registro de supresión
+  const unmatched: { line: EventLine; field: string }[] = [];
+  // Id del evento -> hash del payload de su última supresión
+  const redactions = new Map<string, string>();
+  const eventIds = new Set<string>();
+
+  content.split('\n').forEach((text, index) => {
+    if (text.trim().length === 0) {
+      return;
+    }
+    const field = `line ${index + 1}`;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw ValidationError.single('EventLog', field, 'Line is not valid JSON');
+    }
+
+    const line = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+    if (isRedactionLine(line)) {
+      if (line.previousHash !== lastHash || line.hash !== redactionHashOf(line)) {
+        throw ValidationError.single('EventLog', field, 'Hash chain is broken', line.redacts);
+      }
+      if (!eventIds.has(line.redacts)) {
+        throw ValidationError.single('EventLog', field, 'Redacts an unknown event', line.redacts);
+      }
+      redactions.set(line.redacts, line.payloadHash);
+      lines.push(line);
+      lastHash = line.hash;
+      return;
+    }
+    if (!isEventLine(line)) {
+      throw ValidationError.single('EventLog', field, 'Line is not a recorded event');
+    }
+    if (line.previousHash !== lastHash || line.hash !== hashOf(line)) {
+      throw ValidationError.single('EventLog', field, 'Hash chain is broken', line.eventId);
+    }
+    if (line.payloadHash !== payloadHashOf(line.payload)) {
+      unmatched.push({ line, field });
+    }
+
+    const stream = streams.get(line.streamId) ?? [];
+    if (line.version !== stream.length + 1) {
+      throw ValidationError.single('EventLog', field, `Expected version ${stream.length + 1} of ${line.streamId}`, line.version);
+    }
+
+    const recorded = toRecordedEvent(line, line.payload, all.length + 1);
+    lines.push(line);
+    eventIds.add(line.eventId);
+    streams.set(line.streamId, [...stream, recorded]);
+    all.push(recorded);
+    lastHash = line.hash;
+  });
+
+  for (const { line, field } of unmatched) {
+    if (redactions.get(line.eventId) !== payloadHashOf(line.payload)) {
+      throw ValidationError.single('EventLog', field, 'Payload does not match its hash', line.eventId);
+    }
+  }
+
+  return { lines, streams, all, lastHash };
+}
+
+function serialize(line: LogLine): string {
+  return `${JSON.stringify(line)}\n`;
+}
+
+function toJson(payload: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(payload)) as Record<string, unknown>;
+}
+
+/**
+ * Hash de la cabecera, con los campos siempre en el mismo orden
+ */
+function hashOf(header: EventHeader): string {
+  return sha256(JSON.stringify({
+    streamId: header.streamId,
+    version: header.version,
+    eventId: header.eventId,
+    eventType: header.eventType,
+    aggregateType: header.aggregateType,
+    aggregateId: header.aggregateId,
+    occurredAt: header.occurredAt,
+    payloadHash: header.payloadHash,
+    previousHash: header.previousHash,
+  }));
+}
+
+function redactionHashOf(header: RedactionHeader): string {
+  return sha256(JSON.stringify({
+    redacts: header.redacts,
+    redactedAt: header.redactedAt,
+    payloadHash: header.payloadHash,
+    previousHash: header.previousHash,
+  }));
+}
+
+function payloadHashOf(payload: Record<string, unknown>): string {
+  return sha256(JSON.stringify(payload));
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function toRecordedEvent(header: EventHeader, payload: Record<string, unknown>, position: number): RecordedEvent {
+  return {
+    streamId: header.streamId,
+    version: header.version,
+    position,
+    event: {
+      eventId: header.eventId,
+      eventType: header.eventType,
+      aggregateType: header.aggregateType,
+      aggregateId: header.aggregateId,
+      occurredAt: new Date(header.occurredAt),
+      payload: structuredClone(payload),
+    },
+  };
+}
+
+function isEventLine(value: Record<string, unknown>): value is Record<string, unknown> & EventLine {
+  return typeof value.streamId === 'string'
+    && typeof value.version === 'number'
+    && typeof value.eventId === 'string'
+    && typeof value.eventType === 'string'
+    && typeof value.aggregateType === 'string'
+    && typeof value.aggregateId === 'string'
+    && typeof value.occurredAt === 'string'
+    && typeof value.payload === 'object' && value.payload !== null
+    && typeof value.payloadHash === 'string'
+    && typeof value.previousHash === 'string'
+    && typeof value.hash === 'string';
+}
+
+function isRedactionLine(value: object): value is RedactionLine {
+  const line = value as Record<string, unknown>;
+  return typeof line.redacts === 'string'
+    && typeof line.redactedAt === 'string'
+    && typeof line.payloadHash === 'string'
+    && typeof line.previousHash === 'string'
+    && typeof line.hash === 'string';
+}
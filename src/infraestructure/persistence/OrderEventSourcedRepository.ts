@@ -0,0 +1,189 @@
+/**
+ * ADAPTER: OrderEventSourcedRepository
+ *
+ * Implementación del port `OrderRepository` con event sourcing: en lugar
+ * de guardar el estado del pedido, guarda los eventos que lo produjeron en
+ * un `EventStore` (stream `Order-<id>`) y lo reconstruye reproduciéndolos
+ * con `Order.fromHistory()`. El historial completo queda disponible para
+ * auditorías; con `JsonlFileEventStore` además es verificable.
+ *
+ * La concurrencia optimista la resuelve el propio `append()`: se anexa
+ * esperando la versión con la que se cargó el pedido (`persistedVersion`).
+ *
+ * Con un `SnapshotStore` se guarda una instantánea cada `snapshotEvery`
+ * eventos y las lecturas solo reproducen los eventos posteriores a ella.
+ *
+ * `redactHistory()` reescribe los eventos del stream y borra su instantánea,
+ * que podría conservar los datos suprimidos; la siguiente lectura reproduce
+ * el stream entero.
+ *
+ * Las búsquedas por cliente no reconstruyen todos los pedidos: un índice
+ * de stream a cliente (`customerId` y email) se alimenta de `readAll()`
+ * desde la última posición leída y solo se reconstruyen los que coinciden.
+ */
+
+import { OrderRepository } from '../../application/ports/OrderRepository';
+import { EventStore, RecordedEvent } from '../../application/ports/EventStore';
+import { SnapshotStore } from '../../application/ports/SnapshotStore';
+import { Order } from '../../domain/entities/Order';
+import { PayloadRedaction } from '../../domain/events/DomainEvent';
+import { OrderDomainEvent } from '../../domain/events/OrderEvents';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { Email } from '../../domain/value-objects/Email';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { BusinessRuleViolationError, NotFoundError, ValidationError } from '../../domain/errors';
+import { OrderMapper, OrderRecord } from './OrderMapper';
+
+const STREAM_PREFIX = 'Order-';
+const DEFAULT_SNAPSHOT_EVERY = 50;
+
+export interface OrderEventSourcedRepositoryOptions {
+  snapshots?: SnapshotStore<OrderRecord>;
+  /** Eventos entre instantáneas (50 por defecto) */
+  snapshotEvery?: number;
+}
+
+/**
+ * Cliente de un pedido según sus eventos
+ */
+interface OrderOwner {
+  customerId?: string;
+  customerEmail: string;
+}
+
+export class OrderEventSourcedRepository implements OrderRepository {
+  private readonly snapshotEvery: number;
+  /** Cliente de cada stream `Order-` leído */
+  private readonly owners = new Map<string, OrderOwner>();
+  /** Última posición del almacén ya indexada */
+  private indexedPosition = 0;
+  /** Las lecturas del índice no se solapan */
+  private indexing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly events: EventStore,
+    private readonly options: OrderEventSourcedRepositoryOptions = {}
+  ) {
+    this.snapshotEvery = options.snapshotEvery ?? DEFAULT_SNAPSHOT_EVERY;
+    if (!Number.isSafeInteger(this.snapshotEvery) || this.snapshotEvery < 1) {
+      throw ValidationError.single('OrderEventSourcedRepository', 'snapshotEvery', 'Must be a positive integer', options.snapshotEvery);
+    }
+  }
+
+  async save(order: Order): Promise<void> {
+    const previousVersion = order.persistedVersion;
+    const version = await this.events.append(streamIdOf(order.id), previousVersion, order.uncommittedEvents);
+    order.markPersisted();
+
+    const snapshots = this.options.snapshots;
+    if (snapshots && Math.floor(version / this.snapshotEvery) > Math.floor(previousVersion / this.snapshotEvery)) {
+      await snapshots.save({ streamId: streamIdOf(order.id), version, state: OrderMapper.toRecord(order) });
+    }
+  }
+
+  async findById(id: OrderId): Promise<Order> {
+    const streamId = streamIdOf(id);
+    const snapshot = await this.options.snapshots?.load(streamId);
+    const history = await this.events.readStream(streamId, snapshot?.version ?? 0);
+
+    if (!snapshot && history.length === 0) {
+      throw new NotFoundError('Order', id.value);
+    }
+
+    // Los streams `Order-` solo contienen eventos registrados por `Order`
+    return Order.fromHistory(
+      history.map(recorded => recorded.event as OrderDomainEvent),
+      snapshot && OrderMapper.toDomain(snapshot.state)
+    );
+  }
+
+  async findByCustomerEmail(email: Email): Promise<Order[]> {
+    return this.findByOwner(owner => owner.customerEmail === email.value);
+  }
+
+  async findByCustomerId(id: CustomerId): Promise<Order[]> {
+    return this.findByOwner(owner => owner.customerId === id.value);
+  }
+
+  /**
+   * El historial es de solo anexado: los pedidos no se borran, se cancelan
+   * @throws NotFoundError si no existe un pedido con ese id
+   * @throws BusinessRuleViolationError si existe
+   */
+  async delete(id: OrderId): Promise<void> {
+    if (await this.events.streamVersion(streamIdOf(id)) === 0) {
+      throw new NotFoundError('Order', id.value);
+    }
+    throw new BusinessRuleViolationError(
+      'AppendOnlyHistory',
+      'Event-sourced orders cannot be deleted',
+      { orderId: id.value }
+    );
+  }
+
+  async list(): Promise<Order[]> {
+    const streamIds = await this.events.streamIds(STREAM_PREFIX);
+    return Promise.all(
+      streamIds.map(streamId => this.findById(OrderId.create(streamId.slice(STREAM_PREFIX.length))))
+    );
+  }
+
+  async redactHistory(id: OrderId, redaction: PayloadRedaction): Promise<void> {
+    const streamId = streamIdOf(id);
+    if (await this.events.streamVersion(streamId) === 0) {
+      throw new NotFoundError('Order', id.value);
+    }
+    await this.events.redactStream(streamId, redaction);
+    await this.options.snapshots?.delete(streamId);
+
+    // La supresión puede cambiar el email de eventos ya indexados
+    await this.exclusively(async () => {
+      this.owners.delete(streamId);
+      for (const recorded of await this.events.readStream(streamId)) {
+        this.index(recorded);
+      }
+    });
+  }
+
+  private async findByOwner(matches: (owner: OrderOwner) => boolean): Promise<Order[]> {
+    const streamIds = await this.exclusively(async () => {
+      for (const recorded of await this.events.readAll(this.indexedPosition)) {
+        this.index(recorded);
+        this.indexedPosition = recorded.position;
+      }
+      return [...this.owners].filter(([, owner]) => matches(owner)).map(([streamId]) => streamId);
+    });
+
+    return Promise.all(
+      streamIds.map(streamId => this.findById(OrderId.create(streamId.slice(STREAM_PREFIX.length))))
+    );
+  }
+
+  private index(recorded: RecordedEvent): void {
+    if (!recorded.streamId.startsWith(STREAM_PREFIX)) {
+      return;
+    }
+    const event = recorded.event as OrderDomainEvent;
+    if (event.eventType === 'OrderPlaced') {
+      this.owners.set(recorded.streamId, {
+        ...(event.payload.customerId === undefined ? {} : { customerId: event.payload.customerId }),
+        customerEmail: event.payload.customerEmail,
+      });
+    } else if (event.eventType === 'OrderCustomerEmailAnonymized') {
+      const owner = this.owners.get(recorded.streamId);
+      if (owner) {
+        this.owners.set(recorded.streamId, { ...owner, customerEmail: event.payload.customerEmail });
+      }
+    }
+  }
+
+  private exclusively<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.indexing.then(task);
+    this.indexing = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function streamIdOf(id: OrderId): string {
+  return `${STREAM_PREFIX}${id.value}`;
+}
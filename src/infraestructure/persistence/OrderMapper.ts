@@ -0,0 +1,207 @@
+/**
+ * MAPPER: Order <-> OrderRecord
+ * 
+ * Traduce el agregado `Order` a una estructura plana (solo tipos primitivos)
+ * apta para almacenarse, y la reconstruye con `Order.reconstitute()`.
+ * Así ningún adaptador guarda referencias a objetos vivos del dominio.
+ * Los precios se guardan en unidades mínimas para no perder precisión.
+ */
+
+import { Order, OrderStatus } from '../../domain/entities/Order';
+import { OrderId } from '../../domain/value-objects/OrderId';
+import { CustomerId } from '../../domain/value-objects/CustomerId';
+import { Email } from '../../domain/value-objects/Email';
+import { Price } from '../../domain/value-objects/Price';
+import { assertCurrency } from '../../domain/value-objects/Currency';
+import { Coupon } from '../../domain/value-objects/Coupon';
+import { Discount } from '../../domain/value-objects/Discount';
+import { Address } from '../../domain/value-objects/Address';
+import { OrderItem } from '../../domain/value-objects/OrderItem';
+
+export interface OrderItemRecord {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPriceMinorUnits: number;
+  currency: string;
+  weightGrams?: number;
+}
+
+export interface OrderStatusChangeRecord {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  occurredAt: string;
+  actor?: string;
+  reason?: string;
+}
+
+export interface MoneyRecord {
+  minorUnits: number;
+  currency: string;
+}
+
+export type DiscountRecord =
+  | { type: 'PERCENTAGE'; percentage: number }
+  | { type: 'FIXED_AMOUNT'; amount: MoneyRecord }
+  | { type: 'BUY_X_GET_Y'; productId: string; buy: number; get: number }
+  | { type: 'FREE_ITEM'; productId: string; threshold: MoneyRecord };
+
+export interface CouponRecord {
+  code: string;
+  discount: DiscountRecord;
+  expiresAt?: string;
+  minimumOrderValue?: MoneyRecord;
+}
+
+export interface AddressRecord {
+  lines: string[];
+  city: string;
+  postalCode: string;
+  region?: string;
+  country: string;
+}
+
+export interface OrderRecord {
+  id: string;
+  customerEmail: string;
+  customerId?: string;
+  items: OrderItemRecord[];
+  status: OrderStatus;
+  statusHistory: OrderStatusChangeRecord[];
+  coupon?: CouponRecord;
+  shippingAddress?: AddressRecord;
+  billingAddress?: AddressRecord;
+  shippingCost?: MoneyRecord;
+  createdAt: string;
+  version: number;
+}
+
+export class OrderMapper {
+  static toRecord(order: Order): OrderRecord {
+    return {
+      id: order.id.value,
+      customerEmail: order.customerEmail.value,
+      ...(order.customerId ? { customerId: order.customerId.value } : {}),
+      items: order.items.map(item => ({
+        productId: item.productId,
+        productName: item.productName,
+        quantity: item.quantity,
+        unitPriceMinorUnits: item.unitPrice.toMinorUnits(),
+        currency: item.unitPrice.currency,
+        ...(item.weightGrams === undefined ? {} : { weightGrams: item.weightGrams }),
+      })),
+      status: order.status,
+      statusHistory: order.statusHistory.map(change => ({
+        ...change,
+        occurredAt: change.occurredAt.toISOString(),
+      })),
+      ...(order.coupon ? { coupon: OrderMapper.couponToRecord(order.coupon) } : {}),
+      ...(order.shippingAddress ? { shippingAddress: OrderMapper.addressToRecord(order.shippingAddress) } : {}),
+      ...(order.billingAddress ? { billingAddress: OrderMapper.addressToRecord(order.billingAddress) } : {}),
+      ...(order.shippingCost ? { shippingCost: OrderMapper.moneyToRecord(order.shippingCost) } : {}),
+      createdAt: order.createdAt.toISOString(),
+      version: order.version,
+    };
+  }
+
+  static toDomain(record: OrderRecord): Order {
+    return Order.reconstitute(
+      OrderId.create(record.id),
+      // Ya se validó al crearlo: puede tener comillas si entonces se admitían
+      Email.create(record.customerEmail, { allowQuotedLocalPart: true, allowPseudonym: true }),
+      record.items.map(item => {
+        const currency = item.currency;
+        assertCurrency(currency);
+        return OrderItem.create({
+          productId: item.productId,
+          productName: item.productName,
+          quantity: item.quantity,
+          unitPrice: Price.fromMinorUnits(item.unitPriceMinorUnits, currency),
+          ...(item.weightGrams === undefined ? {} : { weightGrams: item.weightGrams }),
+        });
+      }),
+      record.status,
+      new Date(record.createdAt),
+      {
+        ...(record.customerId === undefined ? {} : { customerId: CustomerId.create(record.customerId) }),
+        statusHistory: record.statusHistory.map(change => ({
+          ...change,
+          occurredAt: new Date(change.occurredAt),
+        })),
+        ...(record.coupon ? { coupon: OrderMapper.couponToDomain(record.coupon) } : {}),
+        ...(record.shippingAddress ? { shippingAddress: Address.create(record.shippingAddress) } : {}),
+        ...(record.billingAddress ? { billingAddress: Address.create(record.billingAddress) } : {}),
+        ...(record.shippingCost ? { shippingCost: OrderMapper.moneyToDomain(record.shippingCost) } : {}),
+        version: record.version,
+      }
+    );
+  }
+
+  static addressToRecord(address: Address): AddressRecord {
+    return {
+      lines: [...address.lines],
+      city: address.city,
+      postalCode: address.postalCode,
+      ...(address.region === undefined ? {} : { region: address.region }),
+      country: address.country,
+    };
+  }
+
+  private static couponToRecord(coupon: Coupon): CouponRecord {
+    return {
+      code: coupon.code,
+      discount: OrderMapper.discountToRecord(coupon.discount),
+      ...(coupon.expiresAt ? { expiresAt: coupon.expiresAt.toISOString() } : {}),
+      ...(coupon.minimumOrderValue
+        ? { minimumOrderValue: OrderMapper.moneyToRecord(coupon.minimumOrderValue) }
+        : {}),
+    };
+  }
+
+  private static couponToDomain(record: CouponRecord): Coupon {
+    return Coupon.create({
+      code: record.code,
+      discount: OrderMapper.discountToDomain(record.discount),
+      ...(record.expiresAt ? { expiresAt: new Date(record.expiresAt) } : {}),
+      ...(record.minimumOrderValue
+        ? { minimumOrderValue: OrderMapper.moneyToDomain(record.minimumOrderValue) }
+        : {}),
+    });
+  }
+
+  private static discountToRecord(discount: Discount): DiscountRecord {
+    const definition = discount.definition;
+
+    switch (definition.type) {
+      case 'FIXED_AMOUNT':
+        return { type: definition.type, amount: OrderMapper.moneyToRecord(definition.amount) };
+      case 'FREE_ITEM':
+        return { ...definition, threshold: OrderMapper.moneyToRecord(definition.threshold) };
+      default:
+        return { ...definition };
+    }
+  }
+
+  private static discountToDomain(record: DiscountRecord): Discount {
+    switch (record.type) {
+      case 'PERCENTAGE':
+        return Discount.percentage(record.percentage);
+      case 'FIXED_AMOUNT':
+        return Discount.fixedAmount(OrderMapper.moneyToDomain(record.amount));
+      case 'BUY_X_GET_Y':
+        return Discount.buyXGetY(record.productId, record.buy, record.get);
+      case 'FREE_ITEM':
+        return Discount.freeItemAbove(OrderMapper.moneyToDomain(record.threshold), record.productId);
+    }
+  }
+
+  private static moneyToRecord(price: Price): MoneyRecord {
+    return { minorUnits: price.toMinorUnits(), currency: price.currency };
+  }
+
+  private static moneyToDomain(record: MoneyRecord): Price {
+    const currency = record.currency;
+    assertCurrency(currency);
+    return Price.fromMinorUnits(record.minorUnits, currency);
+  }
+}
@@ -0,0 +1,108 @@
+export type AppConfig = {
+  port: number;
+  enabledCurrencies?: string[];
+  orderEventLog?: string;
+  outboxJournal?: string;
+  customerFile?: string;
+  shippingRatesFile?: string;
+  emailDuplicateMatch?: 'exact' | 'canonical';
+  blockDisposableEmails?: boolean;
+  internalEmailDomains?: string[];
+  allowQuotedEmailLocalParts?: boolean;
+  mailFrom?: string;
+  smtpHost?: string;
+  smtpPort?: number;
+  mailDropDirectory?: string;
+  notificationLocale?: string;
+  adminToken?: string;
+};
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_SMTP_PORT = 25;
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const rawPort = env.PORT?.trim();
+  const port = rawPort ? Number(rawPort) : DEFAULT_PORT;
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid PORT: ${rawPort}. Expected an integer between 0 and 65535`);
+  }
+
+  // ENABLED_CURRENCIES=EUR,USD,MXN → solo esas monedas; sin valor → todas las ISO 4217
+  const enabledCurrencies = env.ENABLED_CURRENCIES
+    ?.split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(code => code.length > 0);
+
+  // ORDER_EVENT_LOG=./data/orders.jsonl → pedidos event-sourced en ese fichero; sin valor → en memoria
+  const orderEventLog = env.ORDER_EVENT_LOG?.trim();
+
+  // OUTBOX_JOURNAL → estado de publicación de esos eventos; por defecto junto al fichero de eventos
+  const outboxJournal = env.OUTBOX_JOURNAL?.trim() || (orderEventLog ? `${orderEventLog}.outbox` : undefined);
+
+  // CUSTOMER_FILE → clientes en ese fichero JSON; por defecto junto al fichero de eventos, para
+  // que los pedidos guardados no apunten a clientes perdidos al reiniciar. Sin ninguno → en memoria
+  const customerFile = env.CUSTOMER_FILE?.trim() || (orderEventLog ? `${orderEventLog}.customers.json` : undefined);
+
+  // SHIPPING_RATES_FILE=./config/shipping-rates.json → tabla de zonas y pesos;
+  // sin ella no se presupuesta el envío (los pedidos se confirman sin coste de envío)
+  const shippingRatesFile = env.SHIPPING_RATES_FILE?.trim();
+
+  // EMAIL_DUPLICATE_MATCH=canonical → 'ana+x@gmail.com' y 'a.na@gmail.com' son el mismo cliente
+  const emailDuplicateMatch = env.EMAIL_DUPLICATE_MATCH?.trim().toLowerCase() || undefined;
+  if (emailDuplicateMatch !== undefined && emailDuplicateMatch !== 'exact' && emailDuplicateMatch !== 'canonical') {
+    throw new Error(`Invalid EMAIL_DUPLICATE_MATCH: ${env.EMAIL_DUPLICATE_MATCH}. Expected exact or canonical`);
+  }
+
+  // BLOCK_DISPOSABLE_EMAILS=true → rechaza los buzones desechables conocidos
+  const blockDisposableEmails = env.BLOCK_DISPOSABLE_EMAILS?.trim().toLowerCase() === 'true';
+
+  // INTERNAL_EMAIL_DOMAINS=acme.com,acme.internal → dominios de empleados, no de clientes
+  const internalEmailDomains = env.INTERNAL_EMAIL_DOMAINS
+    ?.split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(domain => domain.length > 0);
+
+  // ALLOW_QUOTED_EMAILS=true → admite '"john smith"@example.com'
+  const allowQuotedEmailLocalParts = env.ALLOW_QUOTED_EMAILS?.trim().toLowerCase() === 'true';
+
+  // SMTP_HOST=localhost → emails de pedidos por SMTP (SMTP_PORT, 25 por defecto)
+  // MAIL_DROP_DIR=./data/mail → como ficheros .eml; sin ninguno de los dos → no se envían
+  const smtpHost = env.SMTP_HOST?.trim();
+  const rawSmtpPort = env.SMTP_PORT?.trim();
+  const smtpPort = rawSmtpPort ? Number(rawSmtpPort) : DEFAULT_SMTP_PORT;
+  if (!Number.isInteger(smtpPort) || smtpPort < 1 || smtpPort > 65535) {
+    throw new Error(`Invalid SMTP_PORT: ${rawSmtpPort}. Expected an integer between 1 and 65535`);
+  }
+  const mailDropDirectory = env.MAIL_DROP_DIR?.trim();
+
+  // MAIL_FROM → remitente de los emails; obligatorio si se envían
+  const mailFrom = env.MAIL_FROM?.trim();
+  if ((smtpHost || mailDropDirectory) && !mailFrom) {
+    throw new Error('MAIL_FROM is required when SMTP_HOST or MAIL_DROP_DIR is set');
+  }
+
+  // NOTIFICATION_LOCALE=en-GB → idioma de los emails si el cliente no tiene uno
+  const notificationLocale = env.NOTIFICATION_LOCALE?.trim();
+
+  // ADMIN_TOKEN → habilita las rutas /admin con 'Authorization: Bearer <token>'; sin valor → no existen
+  const adminToken = env.ADMIN_TOKEN?.trim();
+
+  return {
+    port,
+    ...(enabledCurrencies && enabledCurrencies.length > 0 ? { enabledCurrencies } : {}),
+    ...(orderEventLog ? { orderEventLog } : {}),
+    ...(outboxJournal ? { outboxJournal } : {}),
+    ...(customerFile ? { customerFile } : {}),
+    ...(shippingRatesFile ? { shippingRatesFile } : {}),
+    ...(emailDuplicateMatch ? { emailDuplicateMatch } : {}),
+    ...(blockDisposableEmails ? { blockDisposableEmails } : {}),
+    ...(internalEmailDomains && internalEmailDomains.length > 0 ? { internalEmailDomains } : {}),
+    ...(allowQuotedEmailLocalParts ? { allowQuotedEmailLocalParts } : {}),
+    ...(mailFrom ? { mailFrom } : {}),
+    ...(smtpHost ? { smtpHost, smtpPort } : {}),
+    ...(mailDropDirectory ? { mailDropDirectory } : {}),
+    ...(notificationLocale ? { notificationLocale } : {}),
+    ...(adminToken ? { adminToken } : {}),
+  };
+};
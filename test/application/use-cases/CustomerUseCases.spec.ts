@@ -0,0 +1,453 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RegisterCustomer,
+  RenameCustomer,
+  ChangeCustomerEmail,
+  DeactivateCustomer,
+  ReactivateCustomer,
+  GetCustomer,
+  ChangeCustomerPhoneNumber,
+  UpdateCustomerPreferences,
+  AddCustomerAddress,
+  ChangeCustomerAddress,
+  RemoveCustomerAddress,
+  UpdateMarketingConsents,
+  UpdateCustomerProfile,
+  AnonymizeCustomer,
+  ExportCustomerData,
+  PlaceOrder,
+  CancelOrder,
+  GetCustomerOrderHistory,
+  AddressInput,
+} from '../../../src/application/use-cases';
+import { InMemoryCustomerRepository } from '../../../src/infraestructure/persistence/InMemoryCustomerRepository';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { BlockedDomainsEmailPolicy } from '../../../src/infraestructure/adapters/BlockedDomainsEmailPolicy';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { Email } from '../../../src/domain/value-objects/Email';
+import {
+  BusinessRuleViolationError,
+  ConflictError,
+  InvalidStateError,
+  NotFoundError,
+  ValidationError
+} from '../../../src/domain/errors';
+
+const home: AddressInput = { lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' };
+const office: AddressInput = { lines: ['Rue de Rivoli 1'], city: 'Paris', postalCode: '75001', country: 'FR' };
+
+describe('Customer use-cases', () => {
+  let customers: InMemoryCustomerRepository;
+  let registerCustomer: RegisterCustomer;
+
+  beforeEach(() => {
+    customers = new InMemoryCustomerRepository();
+    registerCustomer = new RegisterCustomer(customers);
+  });
+
+  describe('RegisterCustomer', () => {
+    it('should register an active customer', async () => {
+      const result = await registerCustomer.execute({ name: ' John Doe ', email: 'John@Example.com' });
+
+      expect(result.name).toBe('John Doe');
+      expect(result.email).toBe('john@example.com');
+      expect(result.isActive).toBe(true);
+      await expect(customers.findById(CustomerId.create(result.id))).resolves.toBeDefined();
+    });
+
+    it('should throw ConflictError when the email is already registered', async () => {
+      await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(registerCustomer.execute({ name: 'Johnny', email: 'JOHN@example.com' }))
+        .rejects.toThrow(ConflictError);
+    });
+
+    it('should throw ValidationError for invalid input', async () => {
+      await expect(registerCustomer.execute({ name: '', email: 'john@example.com' }))
+        .rejects.toThrow(ValidationError);
+      await expect(registerCustomer.execute({ name: 'John', email: 'bad-email' }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject emails in the pseudonym domain', async () => {
+      await expect(registerCustomer.execute({ name: 'John', email: 'john@anonymized.invalid' }))
+        .rejects.toThrow(ValidationError);
+
+      const { id } = await registerCustomer.execute({ name: 'John', email: 'john@example.com' });
+      await expect(new ChangeCustomerEmail(customers).execute({ customerId: id, email: Email.pseudonym().value }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject emails blocked by the email policy', async () => {
+      const register = new RegisterCustomer(customers, {
+        policy: new BlockedDomainsEmailPolicy({ internalDomains: ['acme.com'] }),
+      });
+
+      await expect(register.execute({ name: 'John', email: 'john@mailinator.com' }))
+        .rejects.toMatchObject({ context: { ruleName: 'DisposableEmailDomain' } });
+      await expect(register.execute({ name: 'John', email: 'john@acme.com' }))
+        .rejects.toThrow(BusinessRuleViolationError);
+      expect(await customers.list()).toHaveLength(0);
+    });
+
+    it('should detect duplicates by mailbox in canonical mode', async () => {
+      const register = new RegisterCustomer(customers, { duplicateMatch: 'canonical' });
+      await register.execute({ name: 'Ana', email: 'a.na@gmail.com' });
+
+      await expect(register.execute({ name: 'Ana', email: 'ana+shop@googlemail.com' }))
+        .rejects.toThrow(ConflictError);
+      await expect(registerCustomer.execute({ name: 'Ana', email: 'ana+shop@googlemail.com' }))
+        .resolves.toMatchObject({ email: 'ana+shop@googlemail.com' });
+    });
+
+    it('should accept quoted local parts only when allowed', async () => {
+      await expect(registerCustomer.execute({ name: 'John', email: '"john smith"@example.com' }))
+        .rejects.toThrow(ValidationError);
+
+      const register = new RegisterCustomer(customers, { allowQuotedLocalPart: true });
+      const { id } = await register.execute({ name: 'John', email: '"john smith"@example.com' });
+
+      await expect(new GetCustomer(customers).execute({ customerId: id }))
+        .resolves.toMatchObject({ email: '"john smith"@example.com' });
+    });
+  });
+
+  describe('ChangeCustomerEmail', () => {
+    it('should change the email', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      const result = await new ChangeCustomerEmail(customers).execute({
+        customerId: id,
+        email: 'john.doe@example.com'
+      });
+
+      expect(result.email).toBe('john.doe@example.com');
+    });
+
+    it('should allow setting the current email again', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(new ChangeCustomerEmail(customers).execute({ customerId: id, email: 'john@example.com' }))
+        .resolves.toMatchObject({ email: 'john@example.com' });
+    });
+
+    it('should throw ConflictError when another customer owns the email', async () => {
+      await registerCustomer.execute({ name: 'Jane Doe', email: 'jane@example.com' });
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(new ChangeCustomerEmail(customers).execute({ customerId: id, email: 'jane@example.com' }))
+        .rejects.toThrow(ConflictError);
+    });
+
+    it('should apply the email rules', async () => {
+      await registerCustomer.execute({ name: 'Jane Doe', email: 'jane@example.com' });
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      const changeEmail = new ChangeCustomerEmail(customers, {
+        policy: new BlockedDomainsEmailPolicy(),
+        duplicateMatch: 'canonical',
+      });
+
+      await expect(changeEmail.execute({ customerId: id, email: 'john@yopmail.com' }))
+        .rejects.toThrow(BusinessRuleViolationError);
+      await expect(changeEmail.execute({ customerId: id, email: 'jane+john@example.com' }))
+        .rejects.toThrow(ConflictError);
+      await expect(changeEmail.execute({ customerId: id, email: 'john+news@example.com' }))
+        .resolves.toMatchObject({ email: 'john+news@example.com' });
+    });
+  });
+
+  describe('Management', () => {
+    it('should rename, deactivate and reactivate a customer', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      expect((await new RenameCustomer(customers).execute({ customerId: id, name: 'John Smith' })).name)
+        .toBe('John Smith');
+      expect((await new DeactivateCustomer(customers).execute({ customerId: id })).isActive).toBe(false);
+      expect((await new ReactivateCustomer(customers).execute({ customerId: id })).isActive).toBe(true);
+
+      const details = await new GetCustomer(customers).execute({ customerId: id });
+      expect(details).toMatchObject({ name: 'John Smith', isActive: true });
+    });
+
+    it('should throw ConflictError for a stale expectedVersion', async () => {
+      const { id, version } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new RenameCustomer(customers).execute({ customerId: id, name: 'John Smith', expectedVersion: version });
+
+      await expect(new DeactivateCustomer(customers).execute({ customerId: id, expectedVersion: version }))
+        .rejects.toThrow(ConflictError);
+      expect((await new GetCustomer(customers).execute({ customerId: id })).isActive).toBe(true);
+    });
+
+    it('should surface InvalidStateError when reactivating an active customer', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(new ReactivateCustomer(customers).execute({ customerId: id }))
+        .rejects.toThrow(InvalidStateError);
+    });
+
+    it('should throw NotFoundError for an unknown customer', async () => {
+      const customerId = CustomerId.generate().value;
+
+      await expect(new GetCustomer(customers).execute({ customerId })).rejects.toThrow(NotFoundError);
+      await expect(new RenameCustomer(customers).execute({ customerId, name: 'X' })).rejects.toThrow(NotFoundError);
+      await expect(new ChangeCustomerEmail(customers).execute({ customerId, email: 'x@example.com' }))
+        .rejects.toThrow(NotFoundError);
+      await expect(new DeactivateCustomer(customers).execute({ customerId })).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Profile', () => {
+    it('should interpret national phone numbers with the default shipping country', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new AddCustomerAddress(customers).execute({ customerId: id, label: 'Paris', address: office });
+      const changePhoneNumber = new ChangeCustomerPhoneNumber(customers);
+
+      expect((await changePhoneNumber.execute({ customerId: id, phoneNumber: '01 23 45 67 89' })).phoneNumber)
+        .toBe('+33123456789');
+      expect((await changePhoneNumber.execute({ customerId: id, phoneNumber: '612 345 678', defaultCountry: 'ES' })).phoneNumber)
+        .toBe('+34612345678');
+      expect((await changePhoneNumber.execute({ customerId: id, phoneNumber: null })).phoneNumber).toBeUndefined();
+    });
+
+    it('should require a country for national numbers without a default address', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(new ChangeCustomerPhoneNumber(customers).execute({ customerId: id, phoneNumber: '612 345 678' }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should update preferences and reject disabled currencies', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      const updatePreferences = new UpdateCustomerPreferences(customers);
+
+      const result = await updatePreferences.execute({ customerId: id, preferredLocale: 'es-es', preferredCurrency: 'EUR' });
+      expect(result).toMatchObject({ preferredLocale: 'es-ES', preferredCurrency: 'EUR' });
+
+      await expect(updatePreferences.execute({ customerId: id, preferredCurrency: 'XXX' }))
+        .rejects.toThrow(ValidationError);
+      expect((await updatePreferences.execute({ customerId: id, preferredCurrency: null })).preferredCurrency)
+        .toBeUndefined();
+    });
+
+    it('should grant and withdraw marketing consents by channel', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      const updateConsents = new UpdateMarketingConsents(customers);
+      const at = new Date('2024-03-01T10:00:00Z');
+
+      const granted = await updateConsents.execute({ customerId: id, consents: { email: true }, at });
+      expect(granted.marketingConsents).toEqual([
+        { channel: 'email', granted: true, grantedAt: '2024-03-01T10:00:00.000Z' },
+      ]);
+
+      await expect(updateConsents.execute({ customerId: id, consents: { fax: true } }))
+        .rejects.toThrow(ValidationError);
+      await expect(updateConsents.execute({ customerId: id, consents: { sms: true } }))
+        .rejects.toThrow(BusinessRuleViolationError);
+
+      const withdrawn = await updateConsents.execute({ customerId: id, consents: { email: false } });
+      expect(withdrawn.marketingConsents[0]).toMatchObject({ channel: 'email', granted: false });
+    });
+  });
+
+  describe('UpdateCustomerProfile', () => {
+    it('should apply every change at once', async () => {
+      const { id, version } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      const result = await new UpdateCustomerProfile(customers).execute({
+        customerId: id,
+        expectedVersion: version,
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        phoneNumber: '+34 612 345 678',
+        preferredCurrency: 'EUR',
+        marketingConsents: { sms: true },
+      });
+
+      expect(result).toMatchObject({
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        phoneNumber: '+34612345678',
+        preferredCurrency: 'EUR',
+        version: version + 5,
+      });
+      expect(result.marketingConsents).toMatchObject([{ channel: 'sms', granted: true }]);
+    });
+
+    it('should leave the customer untouched when any change fails', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      const updateProfile = new UpdateCustomerProfile(customers);
+
+      await expect(updateProfile.execute({ customerId: id, name: 'Jane Doe', marketingConsents: { sms: true } }))
+        .rejects.toThrow(BusinessRuleViolationError);
+      await expect(updateProfile.execute({ customerId: id, name: 'Jane Doe', preferredCurrency: 'XXX' }))
+        .rejects.toThrow(ValidationError);
+
+      expect(await new GetCustomer(customers).execute({ customerId: id })).toMatchObject({ name: 'John Doe', version: 1 });
+    });
+
+    it('should reactivate before editing and deactivate after editing', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new DeactivateCustomer(customers).execute({ customerId: id });
+      const updateProfile = new UpdateCustomerProfile(customers);
+
+      await expect(updateProfile.execute({ customerId: id, preferredLocale: 'en' })).rejects.toThrow(InvalidStateError);
+      expect(await updateProfile.execute({ customerId: id, preferredLocale: 'en', isActive: true }))
+        .toMatchObject({ preferredLocale: 'en', isActive: true });
+      expect(await updateProfile.execute({ customerId: id, preferredLocale: 'es', isActive: false }))
+        .toMatchObject({ preferredLocale: 'es', isActive: false });
+    });
+  });
+
+  describe('Address book', () => {
+    it('should add addresses, flag the defaults and remove them', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new AddCustomerAddress(customers).execute({ customerId: id, label: 'Home', address: home });
+
+      const added = await new AddCustomerAddress(customers).execute({
+        customerId: id,
+        label: 'Office',
+        address: office,
+        defaultBilling: true,
+      });
+      expect(added.addressBook.map(({ label, defaultShipping, defaultBilling }) => ({ label, defaultShipping, defaultBilling })))
+        .toEqual([
+          { label: 'Home', defaultShipping: true, defaultBilling: false },
+          { label: 'Office', defaultShipping: false, defaultBilling: true },
+        ]);
+
+      const changed = await new ChangeCustomerAddress(customers).execute({
+        customerId: id,
+        label: 'office',
+        address: { ...office, lines: ['Rue de Rivoli 2'] },
+        defaultShipping: true,
+      });
+      expect(changed.addressBook[1]).toMatchObject({ address: { lines: ['Rue de Rivoli 2'] }, defaultShipping: true });
+
+      const removed = await new RemoveCustomerAddress(customers).execute({ customerId: id, label: 'Office' });
+      expect(removed.addressBook).toEqual([
+        { label: 'Home', address: home, defaultShipping: false, defaultBilling: false },
+      ]);
+    });
+
+    it('should not unflag a default address', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new AddCustomerAddress(customers).execute({ customerId: id, label: 'Home', address: home });
+
+      await expect(new ChangeCustomerAddress(customers).execute({ customerId: id, label: 'Home', defaultShipping: false }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should not save anything when the address is invalid', async () => {
+      const { id, version } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(new AddCustomerAddress(customers).execute({
+        customerId: id,
+        label: 'Home',
+        address: { ...home, postalCode: 'ABC' },
+      })).rejects.toThrow(ValidationError);
+      expect((await new GetCustomer(customers).execute({ customerId: id })).version).toBe(version);
+    });
+
+    it('should reject address book changes on a deactivated customer', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new DeactivateCustomer(customers).execute({ customerId: id });
+
+      await expect(new AddCustomerAddress(customers).execute({ customerId: id, label: 'Home', address: home }))
+        .rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  describe('Data subject requests', () => {
+    const item = { productId: 'prod-1', productName: 'Product 1', quantity: 2, unitPrice: 10, currency: 'EUR' };
+    let orders: InMemoryOrderRepository;
+
+    beforeEach(() => {
+      orders = new InMemoryOrderRepository();
+    });
+
+    it('should export the customer and all their orders, including guest orders', async () => {
+      const guest = await new PlaceOrder(orders, customers).execute({ customerEmail: 'john@example.com', items: [item] });
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      await new AddCustomerAddress(customers).execute({ customerId: id, label: 'Home', address: home });
+      const linked = await new PlaceOrder(orders, customers).execute({ customerId: id, items: [item] });
+      await new PlaceOrder(orders, customers).execute({ customerEmail: 'other@example.com', items: [item] });
+
+      const archive = await new ExportCustomerData(customers, orders).execute({ customerId: id });
+
+      expect(archive).toMatchObject({
+        format: 'customer-data-export',
+        formatVersion: 1,
+        customer: { id, name: 'John Doe', email: 'john@example.com', addressBook: [{ label: 'Home' }] },
+      });
+      expect(archive.orders.map(order => order.id)).toEqual([guest.id, linked.id]);
+      expect(archive.orders[1]).toMatchObject({ customerId: id, shippingAddress: home, total: { amount: 20 } });
+      expect(JSON.parse(JSON.stringify(archive))).toEqual(archive);
+    });
+
+    it('should anonymize a customer without open orders and keep the order history', async () => {
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+      const order = await new PlaceOrder(orders, customers).execute({ customerId: id, items: [item] });
+      const anonymizeCustomer = new AnonymizeCustomer(customers, orders);
+
+      await expect(anonymizeCustomer.execute({ customerId: id })).rejects.toThrow(BusinessRuleViolationError);
+
+      await new CancelOrder(orders).execute({ orderId: order.id });
+      const anonymized = await anonymizeCustomer.execute({ customerId: id });
+
+      expect(anonymized).toMatchObject({ id, isActive: false });
+      expect(anonymized.name).not.toContain('John');
+      expect(anonymized.anonymizedAt).toBeDefined();
+      await expect(registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' })).resolves.toBeDefined();
+
+      const history = await new GetCustomerOrderHistory(customers, orders).execute({ customerId: id });
+      expect(history.orders.map(summary => summary.id)).toEqual([order.id]);
+      await expect(anonymizeCustomer.execute({ customerId: id })).rejects.toThrow(InvalidStateError);
+    });
+
+    it('should leave the real email in no order or queued event', async () => {
+      const outbox = new InMemoryOutbox();
+      customers = new InMemoryCustomerRepository(outbox);
+      orders = new InMemoryOrderRepository(outbox);
+      const placeOrder = new PlaceOrder(orders, customers);
+      const cancelOrder = new CancelOrder(orders);
+      const guest = await placeOrder.execute({ customerEmail: 'john@example.com', items: [item] });
+      const { id } = await new RegisterCustomer(customers).execute({ name: 'John Doe', email: 'john@example.com' });
+      const linked = await placeOrder.execute({ customerId: id, items: [item] });
+      await new ChangeCustomerEmail(customers).execute({ customerId: id, email: 'john.doe@example.com' });
+      const laterGuest = await placeOrder.execute({ customerEmail: 'john.doe@example.com', items: [item] });
+      const other = await placeOrder.execute({ customerEmail: 'other@example.com', items: [item] });
+      for (const order of [guest, linked, laterGuest]) {
+        await cancelOrder.execute({ orderId: order.id });
+      }
+
+      const anonymized = await new AnonymizeCustomer(customers, orders).execute({ customerId: id });
+
+      const stored = await orders.list();
+      expect(stored.filter(order => order.customerEmail.value === anonymized.email).map(order => order.id.value))
+        .toEqual([guest.id, linked.id, laterGuest.id]);
+      expect(stored.find(order => order.id.value === other.id)?.customerEmail.value).toBe('other@example.com');
+      const archive = await new ExportCustomerData(customers, orders).execute({ customerId: id });
+      const queued = [...await outbox.due(new Date(), 100), ...await outbox.deadLetters()];
+      expect(JSON.stringify(archive)).not.toMatch(/john|Doe/);
+      expect(JSON.stringify(queued.map(message => message.event))).not.toMatch(/john|Doe/);
+      expect(JSON.stringify(queued.map(message => message.event))).toContain('other@example.com');
+    });
+
+    it('should not anonymize a customer with an open guest order', async () => {
+      await new PlaceOrder(orders, customers).execute({ customerEmail: 'john@example.com', items: [item] });
+      const { id } = await registerCustomer.execute({ name: 'John Doe', email: 'john@example.com' });
+
+      await expect(new AnonymizeCustomer(customers, orders).execute({ customerId: id }))
+        .rejects.toThrow(BusinessRuleViolationError);
+      expect((await orders.list())[0]?.customerEmail.value).toBe('john@example.com');
+    });
+
+    it('should throw NotFoundError for an unknown customer', async () => {
+      const customerId = CustomerId.generate().value;
+
+      await expect(new ExportCustomerData(customers, orders).execute({ customerId })).rejects.toThrow(NotFoundError);
+      await expect(new AnonymizeCustomer(customers, orders).execute({ customerId })).rejects.toThrow(NotFoundError);
+    });
+  });
+});
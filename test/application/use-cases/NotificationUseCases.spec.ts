@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SendOrderNotification } from '../../../src/application/use-cases';
+import { EmailNotification, NotificationSender } from '../../../src/application/ports/NotificationSender';
+import { InMemoryCustomerRepository } from '../../../src/infraestructure/persistence/InMemoryCustomerRepository';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { Customer } from '../../../src/domain/entities/Customer';
+import { Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { OrderId } from '../../../src/domain/value-objects/OrderId';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+/**
+ * Remitente de prueba: guarda lo enviado
+ */
+class RecordingSender implements NotificationSender {
+  readonly sent: EmailNotification[] = [];
+
+  async send(notification: EmailNotification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+describe('Notification use-cases', () => {
+  let orders: InMemoryOrderRepository;
+  let customers: InMemoryCustomerRepository;
+  let sender: RecordingSender;
+  let sendOrderNotification: SendOrderNotification;
+
+  const items = [
+    OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 2, unitPrice: Price.create(10, 'EUR') })
+  ];
+
+  const placeOrder = async (customer?: Customer): Promise<Order> => {
+    const order = customer
+      ? Order.create(customer.email, items, { customerId: customer.id })
+      : Order.create(Email.create('guest@example.com'), items);
+    await orders.save(order);
+    return order;
+  };
+
+  const registerCustomer = async (locale?: string): Promise<Customer> => {
+    const customer = Customer.create('Ada Lovelace', Email.create('ada@example.com'));
+    if (locale !== undefined) {
+      customer.updatePreferences({ locale });
+    }
+    await customers.save(customer);
+    return customer;
+  };
+
+  beforeEach(() => {
+    orders = new InMemoryOrderRepository();
+    customers = new InMemoryCustomerRepository();
+    sender = new RecordingSender();
+    sendOrderNotification = new SendOrderNotification(orders, customers, sender);
+  });
+
+  describe('SendOrderNotification', () => {
+    it('should email the order email in the default locale for guests', async () => {
+      const order = await placeOrder();
+
+      const result = await sendOrderNotification.execute({ orderId: order.id.value, kind: 'confirmed' });
+
+      expect(result).toEqual({
+        sent: true,
+        to: 'guest@example.com',
+        locale: 'es-ES',
+        subject: `Hemos confirmado tu pedido ${order.id.value}`,
+      });
+      expect(sender.sent).toHaveLength(1);
+      expect(sender.sent[0]?.to.value).toBe('guest@example.com');
+      expect(sender.sent[0]?.text).toContain(`Total: ${order.calculateTotal().format('es-ES')}`);
+    });
+
+    it('should use the preferred locale of the customer', async () => {
+      const order = await placeOrder(await registerCustomer('en-GB'));
+
+      const result = await sendOrderNotification.execute({ orderId: order.id.value, kind: 'shipped' });
+
+      expect(result).toMatchObject({ sent: true, to: 'ada@example.com', locale: 'en-GB' });
+      expect(sender.sent[0]?.subject).toBe(`Your order ${order.id.value} is on its way`);
+    });
+
+    it('should fall back to the default locale when there are no texts for the customer locale', async () => {
+      const order = await placeOrder(await registerCustomer('fr-FR'));
+      const sendInEnglish = new SendOrderNotification(orders, customers, sender, { defaultLocale: 'en-US' });
+
+      await expect(sendInEnglish.execute({ orderId: order.id.value, kind: 'delivered' }))
+        .resolves.toMatchObject({ locale: 'en-US' });
+    });
+
+    it('should include the cancellation reason', async () => {
+      const order = await placeOrder();
+
+      await sendOrderNotification.execute({ orderId: order.id.value, kind: 'cancelled', reason: 'Sin stock' });
+
+      expect(sender.sent[0]?.text).toContain('Motivo: Sin stock');
+    });
+
+    it('should not email anonymized customers', async () => {
+      const customer = await registerCustomer();
+      const order = await placeOrder(customer);
+      customer.anonymize([]);
+      await customers.save(customer);
+
+      await expect(sendOrderNotification.execute({ orderId: order.id.value, kind: 'delivered' }))
+        .resolves.toEqual({ sent: false });
+      expect(sender.sent).toHaveLength(0);
+    });
+
+    it('should not email a guest order anonymized with its customer', async () => {
+      const order = await placeOrder();
+      order.anonymizeCustomerEmail(Email.pseudonym());
+      await orders.save(order);
+
+      await expect(sendOrderNotification.execute({ orderId: order.id.value, kind: 'cancelled' }))
+        .resolves.toEqual({ sent: false });
+      expect(sender.sent).toHaveLength(0);
+    });
+
+    it('should treat orders of deleted customers as guest orders', async () => {
+      const customer = await registerCustomer('en');
+      const order = await placeOrder(customer);
+      await customers.delete(customer.id);
+
+      await expect(sendOrderNotification.execute({ orderId: order.id.value, kind: 'confirmed' }))
+        .resolves.toMatchObject({ sent: true, locale: 'es-ES' });
+    });
+
+    it('should throw NotFoundError for unknown orders', async () => {
+      await expect(sendOrderNotification.execute({ orderId: OrderId.generate().value, kind: 'confirmed' }))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject a default locale without texts', () => {
+      expect(() => new SendOrderNotification(orders, customers, sender, { defaultLocale: 'fr-FR' }))
+        .toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ORDER_NOTIFICATION_KINDS,
+  ORDER_NOTIFICATION_MESSAGES,
+  orderNotificationMessagesFor,
+  renderOrderNotification,
+} from '../../../src/application/use-cases';
+import { Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { Coupon } from '../../../src/domain/value-objects/Coupon';
+import { Discount } from '../../../src/domain/value-objects/Discount';
+import { ValidationError } from '../../../src/domain/errors';
+
+describe('Order notification templates', () => {
+  const eur = (amount: number, locale: string): string => Price.create(amount, 'EUR').format(locale);
+
+  const createOrder = (): Order => Order.create(
+    Email.create('customer@example.com'),
+    [
+      OrderItem.create({ productId: 'prod-1', productName: 'Café <molido>', quantity: 2, unitPrice: Price.create(10, 'EUR') }),
+      OrderItem.create({ productId: 'prod-2', productName: 'Taza', quantity: 1, unitPrice: Price.create(5.5, 'EUR') }),
+    ],
+    { shippingAddress: Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' }) }
+  );
+
+  it('should have Spanish and English texts for every notification', () => {
+    expect(Object.keys(ORDER_NOTIFICATION_MESSAGES)).toEqual(expect.arrayContaining(['es', 'en']));
+    for (const messages of Object.values(ORDER_NOTIFICATION_MESSAGES)) {
+      expect(Object.keys(messages.subject)).toEqual([...ORDER_NOTIFICATION_KINDS]);
+      expect(Object.keys(messages.intro)).toEqual([...ORDER_NOTIFICATION_KINDS]);
+    }
+  });
+
+  it('should pick the texts by the language of the locale', () => {
+    expect(orderNotificationMessagesFor('es-MX')).toBe(ORDER_NOTIFICATION_MESSAGES['es']);
+    expect(orderNotificationMessagesFor('en')).toBe(ORDER_NOTIFICATION_MESSAGES['en']);
+    expect(orderNotificationMessagesFor('fr-FR')).toBeUndefined();
+    expect(orderNotificationMessagesFor('not a locale')).toBeUndefined();
+  });
+
+  it('should render the plain-text version with the items and the total', () => {
+    const order = createOrder();
+
+    const rendered = renderOrderNotification('confirmed', order, 'es-ES');
+
+    expect(rendered.subject).toBe(`Hemos confirmado tu pedido ${order.id.value}`);
+    expect(rendered.text).toContain(`- 2 x Café <molido> (${eur(10, 'es-ES')}): ${eur(20, 'es-ES')}`);
+    expect(rendered.text).toContain(`- 1 x Taza (${eur(5.5, 'es-ES')}): ${eur(5.5, 'es-ES')}`);
+    expect(rendered.text).toContain(`Total: ${order.calculateTotal().format('es-ES')}`);
+    expect(rendered.text).toContain('Dirección de envío: Calle Mayor 1, 28013 Madrid, ES');
+    expect(rendered.text).not.toContain('Descuento');
+  });
+
+  it('should render the HTML version escaping the order data', () => {
+    const rendered = renderOrderNotification('shipped', createOrder(), 'en-GB');
+
+    expect(rendered.html).toMatch(/^<!DOCTYPE html>\n<html lang="en">/);
+    expect(rendered.html).toContain('Café &lt;molido&gt;');
+    expect(rendered.html).not.toContain('<molido>');
+    expect(rendered.html).toContain(eur(25.5, 'en-GB'));
+    expect(rendered.html).toContain('We have shipped your order');
+  });
+
+  it('should format the amounts for the full locale', () => {
+    const order = createOrder();
+
+    expect(renderOrderNotification('delivered', order, 'en-US').text).toContain(`Total: ${eur(25.5, 'en-US')}`);
+    expect(renderOrderNotification('delivered', order, 'en-GB').text).toContain(`Total: ${eur(25.5, 'en-GB')}`);
+  });
+
+  it('should list the discount and the shipping cost', () => {
+    const order = createOrder();
+    order.applyCoupon(Coupon.create({ code: 'TEN', discount: Discount.percentage(10) }));
+    order.quoteShipping({ rateFor: () => Price.create(4, 'EUR') });
+
+    const { text } = renderOrderNotification('confirmed', order, 'en');
+
+    expect(text).toContain(`Subtotal: ${eur(25.5, 'en')}`);
+    expect(text).toContain(`Discount: -${order.pricing().totalDiscount.format('en')}`);
+    expect(text).toContain(`Shipping: ${eur(4, 'en')}`);
+    expect(text).toContain(`Total: ${order.calculateTotal().format('en')}`);
+  });
+
+  it('should include the cancellation reason only in cancellations', () => {
+    const order = createOrder();
+
+    expect(renderOrderNotification('cancelled', order, 'es', { reason: 'Sin stock' }).text).toContain('Motivo: Sin stock');
+    expect(renderOrderNotification('shipped', order, 'es', { reason: 'Sin stock' }).text).not.toContain('Motivo');
+  });
+
+  it('should throw ValidationError for a language without texts', () => {
+    expect(() => renderOrderNotification('confirmed', createOrder(), 'fr-FR')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,423 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PlaceOrder,
+  AddItemToOrder,
+  RemoveOrderItem,
+  ChangeOrderItemQuantity,
+  ReplaceOrderItems,
+  ConfirmOrder,
+  ShipOrder,
+  DeliverOrder,
+  CancelOrder,
+  GetOrderDetails,
+  ChangeOrderAddresses,
+  QuoteOrderShipping,
+  RegisterCustomer,
+  ChangeCustomerEmail,
+  DeactivateCustomer,
+  GetCustomerOrderHistory,
+  AddCustomerAddress,
+  OrderItemInput,
+  AddressInput
+} from '../../../src/application/use-cases';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { InMemoryCustomerRepository } from '../../../src/infraestructure/persistence/InMemoryCustomerRepository';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { OrderId } from '../../../src/domain/value-objects/OrderId';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { ShippingRateCalculator } from '../../../src/domain/services/ShippingRateCalculator';
+import {
+  BusinessRuleViolationError,
+  ConflictError,
+  InvalidStateError,
+  NotFoundError,
+  ValidationError
+} from '../../../src/domain/errors';
+
+describe('Order use-cases', () => {
+  let orders: InMemoryOrderRepository;
+  let customers: InMemoryCustomerRepository;
+  let placeOrder: PlaceOrder;
+  let quoteShipping: QuoteOrderShipping;
+  let item: OrderItemInput;
+  const flatShipping: ShippingRateCalculator = { rateFor: () => Price.create(5, 'EUR') };
+  const address: AddressInput = {
+    lines: ['Calle Mayor 1'],
+    city: 'Madrid',
+    postalCode: '28013',
+    country: 'ES'
+  };
+
+  beforeEach(() => {
+    orders = new InMemoryOrderRepository();
+    customers = new InMemoryCustomerRepository();
+    placeOrder = new PlaceOrder(orders, customers);
+    quoteShipping = new QuoteOrderShipping(orders, flatShipping);
+    item = {
+      productId: 'prod-1',
+      productName: 'Product 1',
+      quantity: 2,
+      unitPrice: 10,
+      currency: 'EUR'
+    };
+  });
+
+  describe('PlaceOrder', () => {
+    it('should place and persist a pending order', async () => {
+      const result = await placeOrder.execute({
+        customerEmail: 'Customer@Example.com',
+        items: [item]
+      });
+
+      expect(result.status).toBe('PENDING');
+      expect(result.availableActions).toEqual(['cancel']);
+      expect(result.customerEmail).toBe('customer@example.com');
+      expect(result.total).toEqual({ amount: 20, currency: 'EUR' });
+      expect(result.items).toEqual([
+        { productId: 'prod-1', productName: 'Product 1', quantity: 2, unitPrice: { amount: 10, currency: 'EUR' } }
+      ]);
+      await expect(orders.findById(OrderId.create(result.id))).resolves.toBeDefined();
+    });
+
+    it('should throw ValidationError for an invalid email', async () => {
+      await expect(placeOrder.execute({ customerEmail: 'not-an-email', items: [item] }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for an email in the pseudonym domain', async () => {
+      await expect(placeOrder.execute({ customerEmail: 'ana@anonymized.invalid', items: [item] }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for an unsupported currency', async () => {
+      await expect(placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [{ ...item, currency: 'XXX' }]
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for a negative price', async () => {
+      await expect(placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [{ ...item, unitPrice: -1 }]
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for an order without items', async () => {
+      await expect(placeOrder.execute({ customerEmail: 'customer@example.com', items: [] }))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('PlaceOrder for registered customers', () => {
+    it('should link the order to the customer and keep their email as a snapshot', async () => {
+      const customer = await new RegisterCustomer(customers).execute({ name: 'Jane Doe', email: 'jane@example.com' });
+
+      const result = await placeOrder.execute({ customerId: customer.id, items: [item] });
+
+      expect(result.customerId).toBe(customer.id);
+      expect(result.customerEmail).toBe('jane@example.com');
+      const [stored] = await orders.findByCustomerId(CustomerId.create(customer.id));
+      expect(stored?.id.value).toBe(result.id);
+    });
+
+    it('should link an order placed with the email of a registered customer', async () => {
+      const customer = await new RegisterCustomer(customers).execute({ name: 'Jane Doe', email: 'jane@example.com' });
+
+      const result = await placeOrder.execute({ customerEmail: 'JANE@example.com', items: [item] });
+
+      expect(result.customerId).toBe(customer.id);
+    });
+
+    it('should place guest orders for unregistered emails', async () => {
+      const result = await placeOrder.execute({ customerEmail: 'guest@example.com', items: [item] });
+
+      expect(result.customerId).toBeUndefined();
+    });
+
+    it('should refuse orders for inactive customers', async () => {
+      const customer = await new RegisterCustomer(customers).execute({ name: 'Jane Doe', email: 'jane@example.com' });
+      await new DeactivateCustomer(customers).execute({ customerId: customer.id });
+
+      for (const input of [{ customerId: customer.id }, { customerEmail: 'jane@example.com' }]) {
+        try {
+          await placeOrder.execute({ ...input, items: [item] });
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect((error as BusinessRuleViolationError).ruleName).toBe('ActiveCustomerRequired');
+        }
+      }
+      expect(await orders.list()).toHaveLength(0);
+    });
+
+    it('should fall back to the default addresses of the customer', async () => {
+      const customer = await new RegisterCustomer(customers).execute({ name: 'Jane Doe', email: 'jane@example.com' });
+      await new AddCustomerAddress(customers).execute({ customerId: customer.id, label: 'Home', address });
+      const billingAddress: AddressInput = { ...address, lines: ['Calle de Alcalá 50'], postalCode: '28014' };
+
+      const result = await placeOrder.execute({ customerId: customer.id, items: [item], billingAddress });
+
+      expect(result.shippingAddress).toEqual(address);
+      expect(result.billingAddress).toEqual(billingAddress);
+    });
+
+    it('should throw NotFoundError for an unknown customer', async () => {
+      await expect(placeOrder.execute({ customerId: CustomerId.generate().value, items: [item] }))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError without a customer or with an email that is not theirs', async () => {
+      const customer = await new RegisterCustomer(customers).execute({ name: 'Jane Doe', email: 'jane@example.com' });
+
+      await expect(placeOrder.execute({ items: [item] })).rejects.toThrow(ValidationError);
+      await expect(placeOrder.execute({ customerId: customer.id, customerEmail: 'other@example.com', items: [item] }))
+        .rejects.toThrow(ValidationError);
+      await expect(placeOrder.execute({ customerId: 'not-a-uuid', items: [item] }))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('GetCustomerOrderHistory', () => {
+    it('should return the customer orders with totals and statuses after an email change', async () => {
+      const customer = await new RegisterCustomer(customers).execute({ name: 'Jane Doe', email: 'jane@example.com' });
+      const first = await placeOrder.execute({ customerId: customer.id, items: [item] });
+      await new CancelOrder(orders).execute({ orderId: first.id, reason: 'Duplicated' });
+      await new ChangeCustomerEmail(customers).execute({ customerId: customer.id, email: 'jane.doe@example.com' });
+      const second = await placeOrder.execute({ customerId: customer.id, items: [{ ...item, quantity: 3 }] });
+      await placeOrder.execute({ customerEmail: 'guest@example.com', items: [item] });
+
+      const history = await new GetCustomerOrderHistory(customers, orders).execute({ customerId: customer.id });
+
+      expect(history.customerId).toBe(customer.id);
+      expect(history.orders.map(order => order.id).sort()).toEqual([first.id, second.id].sort());
+      const byId = new Map(history.orders.map(order => [order.id, order]));
+      expect(byId.get(first.id)).toMatchObject({
+        customerEmail: 'jane@example.com',
+        status: 'CANCELLED',
+        itemCount: 2,
+        total: { amount: 20, currency: 'EUR' }
+      });
+      expect(byId.get(second.id)).toMatchObject({
+        customerEmail: 'jane.doe@example.com',
+        status: 'PENDING',
+        itemCount: 3,
+        total: { amount: 30, currency: 'EUR' }
+      });
+    });
+
+    it('should throw NotFoundError for an unknown customer', async () => {
+      await expect(new GetCustomerOrderHistory(customers, orders).execute({ customerId: CustomerId.generate().value }))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('AddItemToOrder', () => {
+    it('should add an item and return the new total', async () => {
+      const placed = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      const result = await new AddItemToOrder(orders).execute({
+        orderId: placed.id,
+        item: { ...item, productId: 'prod-2', productName: 'Product 2', quantity: 1, unitPrice: 5.5 }
+      });
+
+      expect(result.items).toHaveLength(2);
+      expect(result.total).toEqual({ amount: 25.5, currency: 'EUR' });
+    });
+  });
+
+  describe('Line item management', () => {
+    it('should change quantities and remove items', async () => {
+      const placed = await placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [item, { ...item, productId: 'prod-2', productName: 'Product 2', quantity: 1 }]
+      });
+
+      const changed = await new ChangeOrderItemQuantity(orders).execute({
+        orderId: placed.id,
+        productId: 'prod-2',
+        quantity: 3
+      });
+      expect(changed.total).toEqual({ amount: 50, currency: 'EUR' });
+
+      const removed = await new RemoveOrderItem(orders).execute({ orderId: placed.id, productId: 'prod-1' });
+      expect(removed.items).toHaveLength(1);
+      expect(removed.total).toEqual({ amount: 30, currency: 'EUR' });
+    });
+
+    it('should replace every item', async () => {
+      const placed = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      const result = await new ReplaceOrderItems(orders).execute({
+        orderId: placed.id,
+        items: [{ ...item, productId: 'prod-9', quantity: 1, unitPrice: 7 }]
+      });
+
+      expect(result.items.map(i => i.productId)).toEqual(['prod-9']);
+      expect(result.total).toEqual({ amount: 7, currency: 'EUR' });
+    });
+
+    it('should throw ValidationError for a fractional quantity', async () => {
+      await expect(placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [{ ...item, quantity: 1.5 }]
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw BusinessRuleViolationError for mixed currencies', async () => {
+      await expect(placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [item, { ...item, productId: 'prod-2', currency: 'USD' }]
+      })).rejects.toThrow(BusinessRuleViolationError);
+    });
+  });
+
+  describe('ChangeOrderAddresses', () => {
+    it('should require addresses before confirming', async () => {
+      const { id } = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      await expect(new ConfirmOrder(orders).execute({ orderId: id }))
+        .rejects.toThrow(BusinessRuleViolationError);
+
+      const updated = await new ChangeOrderAddresses(orders).execute({
+        orderId: id,
+        shippingAddress: address,
+        billingAddress: { ...address, lines: ['Gran Vía 2'] }
+      });
+      expect(updated.shippingAddress).toEqual(address);
+      expect(updated.billingAddress?.lines).toEqual(['Gran Vía 2']);
+
+      await quoteShipping.execute({ orderId: id });
+      expect((await new ConfirmOrder(orders).execute({ orderId: id })).status).toBe('CONFIRMED');
+    });
+
+    it('should throw ValidationError with every invalid address field', async () => {
+      const { id } = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      const error = await new ChangeOrderAddresses(orders).execute({
+        orderId: id,
+        shippingAddress: { lines: [], city: '', postalCode: '2801', country: 'ES' }
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).failures.map(f => f.field)).toEqual(['lines', 'city', 'postalCode']);
+    });
+  });
+
+  describe('QuoteOrderShipping', () => {
+    it('should add the shipping cost to the total', async () => {
+      const { id } = await placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [item],
+        shippingAddress: address,
+        billingAddress: address
+      });
+
+      const quoted = await quoteShipping.execute({ orderId: id, expectedVersion: 1 });
+
+      expect(quoted.shipping).toEqual({ amount: 5, currency: 'EUR' });
+      expect(quoted.total).toEqual({ amount: 25, currency: 'EUR' });
+      expect(quoted.availableActions).toEqual(['confirm', 'cancel']);
+      expect(quoted.version).toBe(2);
+    });
+
+    it('should require a shipping address', async () => {
+      const { id } = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      await expect(quoteShipping.execute({ orderId: id }))
+        .rejects.toMatchObject({ ruleName: 'ShippingAddressRequired' });
+    });
+  });
+
+  describe('Optimistic concurrency', () => {
+    it('should return the version and accept it as expectedVersion', async () => {
+      const placed = await placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [item],
+        shippingAddress: address,
+        billingAddress: address
+      });
+      expect(placed.version).toBe(1);
+
+      const quoted = await quoteShipping.execute({ orderId: placed.id, expectedVersion: 1 });
+      const confirmed = await new ConfirmOrder(orders).execute({ orderId: placed.id, expectedVersion: quoted.version });
+
+      expect(confirmed.version).toBe(3);
+    });
+
+    it('should reject an operation based on a stale version', async () => {
+      const placed = await placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [item],
+        shippingAddress: address,
+        billingAddress: address
+      });
+      await quoteShipping.execute({ orderId: placed.id });
+      await new ConfirmOrder(orders).execute({ orderId: placed.id });
+
+      // Dos operadores ven la versión 3; el primero envía, el segundo intenta cancelar
+      await new ShipOrder(orders).execute({ orderId: placed.id, expectedVersion: 3, actor: 'operator-1' });
+      const error = await new CancelOrder(orders).execute({
+        orderId: placed.id,
+        expectedVersion: 3,
+        actor: 'operator-2'
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect((error as ConflictError).actualVersion).toBe(4);
+      expect((await new GetOrderDetails(orders).execute({ orderId: placed.id })).status).toBe('SHIPPED');
+    });
+  });
+
+  describe('Lifecycle', () => {
+    it('should take an order from PENDING to DELIVERED', async () => {
+      const { id } = await placeOrder.execute({
+        customerEmail: 'customer@example.com',
+        items: [item],
+        shippingAddress: address,
+        billingAddress: address
+      });
+
+      await quoteShipping.execute({ orderId: id });
+      expect((await new ConfirmOrder(orders).execute({ orderId: id })).status).toBe('CONFIRMED');
+      expect((await new ShipOrder(orders).execute({ orderId: id })).status).toBe('SHIPPED');
+      expect((await new DeliverOrder(orders).execute({ orderId: id })).status).toBe('DELIVERED');
+
+      const details = await new GetOrderDetails(orders).execute({ orderId: id });
+      expect(details.status).toBe('DELIVERED');
+      expect(details.total).toEqual({ amount: 25, currency: 'EUR' });
+    });
+
+    it('should cancel a pending order recording the reason', async () => {
+      const { id } = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      const result = await new CancelOrder(orders).execute({
+        orderId: id,
+        reason: 'Duplicated order',
+        actor: 'support'
+      });
+
+      expect(result.status).toBe('CANCELLED');
+      expect(result.statusHistory.map(change => change.to)).toEqual(['PENDING', 'CANCELLED']);
+      expect(result.statusHistory[1]).toMatchObject({ reason: 'Duplicated order', actor: 'support' });
+    });
+
+    it('should surface InvalidStateError and keep the stored state', async () => {
+      const { id } = await placeOrder.execute({ customerEmail: 'customer@example.com', items: [item] });
+
+      await expect(new ShipOrder(orders).execute({ orderId: id }))
+        .rejects.toThrow(InvalidStateError);
+      expect((await new GetOrderDetails(orders).execute({ orderId: id })).status).toBe('PENDING');
+    });
+
+    it('should throw NotFoundError for an unknown order', async () => {
+      await expect(new GetOrderDetails(orders).execute({ orderId: OrderId.generate().value }))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError for a malformed order id', async () => {
+      await expect(new ConfirmOrder(orders).execute({ orderId: 'abc' }))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+});
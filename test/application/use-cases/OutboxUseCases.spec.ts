@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RelayOutboxMessages,
+  ListDeadLetters,
+  ReplayDeadLetters
+} from '../../../src/application/use-cases';
+import { EventPublisher } from '../../../src/application/ports/EventPublisher';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+/**
+ * Publicador de prueba: guarda lo publicado y falla con los tipos de
+ * evento indicados en `failing`
+ */
+class RecordingPublisher implements EventPublisher {
+  readonly published: DomainEvent[] = [];
+  readonly failing = new Set<string>();
+
+  async publish(event: DomainEvent): Promise<void> {
+    if (this.failing.has(event.eventType)) {
+      throw new Error(`Cannot publish ${event.eventType}`);
+    }
+    this.published.push(event);
+  }
+}
+
+describe('Outbox use-cases', () => {
+  let outbox: InMemoryOutbox;
+  let publisher: RecordingPublisher;
+  let relay: RelayOutboxMessages;
+  const start = new Date('2024-05-01T10:00:00Z');
+  const at = (ms: number): Date => new Date(start.getTime() + ms);
+
+  const event = (eventType: string, aggregateId = 'thing-1'): DomainEvent =>
+    createDomainEvent(eventType, 'Thing', aggregateId, {}, start);
+
+  beforeEach(() => {
+    outbox = new InMemoryOutbox();
+    publisher = new RecordingPublisher();
+    relay = new RelayOutboxMessages(outbox, publisher, { maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 1_500 });
+  });
+
+  describe('RelayOutboxMessages', () => {
+    it('should publish the events of saved orders once', async () => {
+      const orders = new InMemoryOrderRepository(outbox);
+      const order = Order.create(Email.create('customer@example.com'), [
+        OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 1, unitPrice: Price.create(10, 'EUR') })
+      ]);
+      await orders.save(order);
+
+      expect(await relay.execute()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+      expect(await relay.execute()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+      expect(publisher.published.map(published => published.eventType)).toEqual(['OrderPlaced']);
+      expect(publisher.published[0]?.aggregateId).toBe(order.id.value);
+    });
+
+    it('should retry failed messages with exponential backoff without blocking other aggregates', async () => {
+      outbox.enqueue([event('Poison'), event('Fine', 'thing-2')], start);
+      publisher.failing.add('Poison');
+
+      expect(await relay.execute({ now: start })).toEqual({ delivered: 1, retried: 1, deadLettered: 0 });
+
+      const [retry] = await outbox.due(at(1_000), 10);
+      expect(retry).toMatchObject({ attempts: 1, lastError: 'Cannot publish Poison', nextAttemptAt: at(1_000) });
+      expect(await outbox.due(at(999), 10)).toEqual([]);
+
+      await relay.execute({ now: at(1_000) });
+      expect((await outbox.due(at(2_500), 10))[0]?.nextAttemptAt).toEqual(at(2_500));
+    });
+
+    it('should hold back the later messages of an aggregate until the earlier one is delivered', async () => {
+      outbox.enqueue([event('Poison'), event('After'), event('Other', 'thing-2')], start);
+      publisher.failing.add('Poison');
+
+      expect(await relay.execute({ now: start })).toEqual({ delivered: 1, retried: 1, deadLettered: 0 });
+      expect(await relay.execute({ now: at(500) })).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+
+      publisher.failing.clear();
+      expect(await relay.execute({ now: at(1_000) })).toEqual({ delivered: 2, retried: 0, deadLettered: 0 });
+      expect(publisher.published.map(published => published.eventType)).toEqual(['Other', 'Poison', 'After']);
+    });
+
+    it('should hold back an aggregate behind a dead letter until it is replayed', async () => {
+      relay = new RelayOutboxMessages(outbox, publisher, { maxAttempts: 1 });
+      outbox.enqueue([event('Poison'), event('After')], start);
+      publisher.failing.add('Poison');
+
+      expect(await relay.execute({ now: start })).toEqual({ delivered: 0, retried: 0, deadLettered: 1 });
+      expect(await relay.execute({ now: at(60_000) })).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+
+      publisher.failing.clear();
+      await new ReplayDeadLetters(outbox).execute({ now: at(60_000) });
+      expect(await relay.execute({ now: at(60_000) })).toEqual({ delivered: 2, retried: 0, deadLettered: 0 });
+      expect(publisher.published.map(published => published.eventType)).toEqual(['Poison', 'After']);
+    });
+
+    it('should cap the delay between attempts', () => {
+      expect([1, 2, 3, 4].map(attempts => relay.retryDelay(attempts))).toEqual([1_000, 1_500, 1_500, 1_500]);
+    });
+
+    it('should dead-letter a message after the maximum number of attempts', async () => {
+      outbox.enqueue([event('Poison')], start);
+      publisher.failing.add('Poison');
+
+      await relay.execute({ now: at(0) });
+      await relay.execute({ now: at(1_000) });
+      const report = await relay.execute({ now: at(2_500) });
+
+      expect(report).toEqual({ delivered: 0, retried: 0, deadLettered: 1 });
+      expect(await outbox.due(at(60_000), 10)).toEqual([]);
+      expect(await outbox.deadLetters()).toMatchObject([{ attempts: 3, deadAt: at(2_500) }]);
+    });
+
+    it('should publish at most one batch per run', async () => {
+      relay = new RelayOutboxMessages(outbox, publisher, { batchSize: 2 });
+      outbox.enqueue([event('A'), event('B'), event('C')], start);
+
+      expect((await relay.execute({ now: start })).delivered).toBe(2);
+      expect((await relay.execute({ now: start })).delivered).toBe(1);
+      expect(publisher.published.map(published => published.eventType)).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => new RelayOutboxMessages(outbox, publisher, { maxAttempts: 0, batchSize: 1.5 }))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('ListDeadLetters and ReplayDeadLetters', () => {
+    beforeEach(async () => {
+      outbox.enqueue([event('Poison'), event('Toxic', 'thing-2')], start);
+      publisher.failing.add('Poison').add('Toxic');
+      relay = new RelayOutboxMessages(outbox, publisher, { maxAttempts: 1 });
+      await relay.execute({ now: start });
+    });
+
+    it('should list dead-letter messages with their last error', async () => {
+      const deadLetters = await new ListDeadLetters(outbox).execute();
+
+      expect(deadLetters).toHaveLength(2);
+      expect(deadLetters[0]).toMatchObject({
+        eventType: 'Poison',
+        aggregateType: 'Thing',
+        aggregateId: 'thing-1',
+        occurredAt: start.toISOString(),
+        attempts: 1,
+        lastError: 'Cannot publish Poison',
+        deadAt: start.toISOString()
+      });
+    });
+
+    it('should replay the selected messages so the relay publishes them', async () => {
+      const [poison] = await new ListDeadLetters(outbox).execute();
+      publisher.failing.clear();
+
+      const replayed = await new ReplayDeadLetters(outbox).execute({ messageIds: [poison?.id as string], now: start });
+      const report = await relay.execute({ now: start });
+
+      expect(replayed).toEqual([poison?.id]);
+      expect(report.delivered).toBe(1);
+      expect(await new ListDeadLetters(outbox).execute()).toHaveLength(1);
+    });
+
+    it('should replay every dead-letter message when no ids are given', async () => {
+      const replayed = await new ReplayDeadLetters(outbox).execute({ now: start });
+
+      expect(replayed).toHaveLength(2);
+      expect(await outbox.deadLetters()).toEqual([]);
+    });
+
+    it('should throw NotFoundError for an unknown message', async () => {
+      await expect(new ReplayDeadLetters(outbox).execute({ messageIds: ['unknown'] }))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -1,7 +1,55 @@
 import { describe, it, expect } from 'vitest';
-import { Customer, CustomerId } from '../../../src/domain/entities/Customer';
-import { Email } from '../../../src/domain/value-objects/Email';
-import { ValidationError, InvalidStateError } from '../../../src/domain/errors';
+import { Customer } from '../../../src/domain/entities/Customer';
+import { Order } from '../../../src/domain/entities/Order';
+import { redactCustomerPersonalData } from '../../../src/domain/events/CustomerEvents';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { ANONYMIZED_EMAIL_DOMAIN, Email } from '../../../src/domain/value-objects/Email';
+import { PhoneNumber } from '../../../src/domain/value-objects/PhoneNumber';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Price } from '../../../src/domain/value-objects/Price';
+import {
+  ValidationError,
+  InvalidStateError,
+  BusinessRuleViolationError,
+  NotFoundError,
+} from '../../../src/domain/errors';
+
+const home = Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' });
+const office = Address.create({ lines: ['Paseo de la Castellana 100'], city: 'Madrid', postalCode: '28046', country: 'ES' });
+
+function activeCustomer(): Customer {
+  const customer = Customer.create('John Doe', Email.create('john@example.com'));
+  customer.pullDomainEvents();
+  return customer;
+}
+
+type TestOrderStatus = 'PENDING' | 'CONFIRMED' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED';
+
+function orderOf(customer: Customer, status: TestOrderStatus): Order {
+  const order = Order.create(
+    customer.email,
+    [OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 1, unitPrice: Price.create(10, 'EUR') })],
+    { customerId: customer.id, shippingAddress: home, billingAddress: home }
+  );
+  order.quoteShipping({ rateFor: () => Price.create(5, 'EUR') });
+  const steps: Record<TestOrderStatus, Array<() => void>> = {
+    PENDING: [],
+    CONFIRMED: [() => order.confirm()],
+    SHIPPED: [() => order.confirm(), () => order.ship()],
+    DELIVERED: [() => order.confirm(), () => order.ship(), () => order.deliver()],
+    CANCELLED: [() => order.cancel()],
+  };
+  steps[status].forEach(step => step());
+  return order;
+}
+
+function inactiveCustomer(): Customer {
+  const customer = activeCustomer();
+  customer.deactivate();
+  customer.pullDomainEvents();
+  return customer;
+}
 
 describe('Customer Entity', () => {
   describe('Creation', () => {
@@ -66,6 +114,33 @@ describe('Customer Entity', () => {
     });
   });
 
+  describe('Versioning', () => {
+    it('should start at version 1 and increase with each change', () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      expect(customer.version).toBe(1);
+      expect(customer.persistedVersion).toBe(0);
+
+      customer.updateName('John Smith');
+      customer.deactivate();
+
+      expect(customer.version).toBe(3);
+    });
+
+    it('should reconstitute the stored version', () => {
+      const customer = Customer.reconstitute(
+        CustomerId.generate(),
+        'John Doe',
+        Email.create('john@example.com'),
+        true,
+        new Date('2024-01-01'),
+        { version: 7 }
+      );
+
+      expect(customer.version).toBe(7);
+      expect(customer.persistedVersion).toBe(7);
+    });
+  });
+
   describe('Name updates', () => {
     it('should update customer name', () => {
       const email = Email.create('john@example.com');
@@ -151,6 +226,22 @@ describe('Customer Entity', () => {
         .toThrow(InvalidStateError);
     });
 
+    it('should only let active customers place orders', () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      customer.assertCanPlaceOrders();
+
+      customer.deactivate();
+
+      try {
+        customer.assertCanPlaceOrders();
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).ruleName).toBe('ActiveCustomerRequired');
+        expect((error as BusinessRuleViolationError).context).toMatchObject({ customerId: customer.id.value });
+      }
+    });
+
     it('should allow multiple activation/deactivation cycles', () => {
       const email = Email.create('john@example.com');
       const customer = Customer.create('John Doe', email);
@@ -163,6 +254,454 @@ describe('Customer Entity', () => {
     });
   });
 
+  describe('Domain events', () => {
+    it('should record CustomerRegistered on creation', () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+
+      const [registered] = customer.pullDomainEvents();
+
+      expect(registered?.eventType).toBe('CustomerRegistered');
+      expect(registered?.aggregateId).toBe(customer.id.value);
+      expect(registered?.payload).toEqual({ name: 'John Doe', email: 'john@example.com' });
+    });
+
+    it('should record events for name, email and activation changes', () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      customer.pullDomainEvents();
+
+      customer.updateName('John Smith');
+      customer.updateEmail(Email.create('john.smith@example.com'));
+      customer.deactivate();
+      customer.activate();
+
+      const events = customer.pullDomainEvents();
+      expect(events.map(e => e.eventType)).toEqual([
+        'CustomerRenamed',
+        'CustomerEmailChanged',
+        'CustomerDeactivated',
+        'CustomerReactivated'
+      ]);
+      expect(events[1]?.payload).toEqual({
+        previousEmail: 'john@example.com',
+        email: 'john.smith@example.com'
+      });
+    });
+
+    it('should not record an event when the email does not change', () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      customer.pullDomainEvents();
+
+      customer.updateEmail(Email.create('JOHN@example.com'));
+
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should not record events on reconstitution', () => {
+      const customer = Customer.reconstitute(
+        CustomerId.generate(),
+        'John Doe',
+        Email.create('john@example.com'),
+        true,
+        new Date()
+      );
+
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+    });
+  });
+
+  describe('Phone number', () => {
+    it('should change and remove the phone number recording the previous one', () => {
+      const customer = activeCustomer();
+
+      customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678'));
+      customer.changePhoneNumber(null);
+
+      expect(customer.phoneNumber).toBeNull();
+      expect(customer.pullDomainEvents().map(event => event.payload)).toEqual([
+        { previousPhoneNumber: null, phoneNumber: '+34612345678' },
+        { previousPhoneNumber: '+34612345678', phoneNumber: null },
+      ]);
+    });
+
+    it('should not record an event when the number does not change', () => {
+      const customer = activeCustomer();
+      customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678'));
+      customer.pullDomainEvents();
+
+      customer.changePhoneNumber(PhoneNumber.create('612345678', 'ES'));
+
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should not remove the phone number while SMS or phone consent is granted', () => {
+      const customer = activeCustomer();
+      customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678'));
+      customer.grantMarketingConsent('sms');
+
+      expect(() => customer.changePhoneNumber(null)).toThrow(BusinessRuleViolationError);
+
+      customer.withdrawMarketingConsent('sms');
+      customer.changePhoneNumber(null);
+      expect(customer.phoneNumber).toBeNull();
+    });
+  });
+
+  describe('Address book', () => {
+    it('should make the first address the default shipping and billing address', () => {
+      const customer = activeCustomer();
+
+      customer.addAddress(' Home ', home);
+      customer.addAddress('Office', office);
+
+      expect(customer.addressBook.map(entry => entry.label)).toEqual(['Home', 'Office']);
+      expect(customer.defaultShippingAddress).toBe(home);
+      expect(customer.defaultBillingAddress).toBe(home);
+      expect(customer.pullDomainEvents().map(event => event.eventType)).toEqual([
+        'CustomerAddressAdded',
+        'CustomerDefaultAddressChanged',
+        'CustomerDefaultAddressChanged',
+        'CustomerAddressAdded',
+      ]);
+    });
+
+    it('should choose default addresses by case-insensitive label', () => {
+      const customer = activeCustomer();
+      customer.addAddress('Home', home);
+      customer.addAddress('Office', office);
+      customer.pullDomainEvents();
+
+      customer.setDefaultBillingAddress('office');
+      customer.setDefaultShippingAddress('HOME');
+
+      expect(customer.defaultBillingLabel).toBe('Office');
+      expect(customer.defaultShippingAddress).toBe(home);
+      expect(customer.pullDomainEvents().map(event => event.payload)).toEqual([
+        { kind: 'billing', label: 'Office' },
+      ]);
+    });
+
+    it('should replace an address keeping its label', () => {
+      const customer = activeCustomer();
+      customer.addAddress('Home', home);
+
+      customer.changeAddress('home', office);
+
+      expect(customer.addressBook).toEqual([{ label: 'Home', address: office }]);
+      expect(customer.defaultShippingAddress).toBe(office);
+    });
+
+    it('should clear the defaults that pointed to a removed address', () => {
+      const customer = activeCustomer();
+      customer.addAddress('Home', home);
+      customer.addAddress('Office', office);
+      customer.setDefaultBillingAddress('Office');
+      customer.pullDomainEvents();
+
+      customer.removeAddress('Home');
+
+      expect(customer.defaultShippingAddress).toBeNull();
+      expect(customer.defaultBillingAddress).toBe(office);
+      expect(customer.pullDomainEvents().map(event => event.payload)).toEqual([
+        { label: 'Home' },
+        { kind: 'shipping', label: null },
+      ]);
+    });
+
+    it('should reject empty or duplicated labels', () => {
+      const customer = activeCustomer();
+      customer.addAddress('Home', home);
+
+      expect(() => customer.addAddress('  ', office)).toThrow(ValidationError);
+      expect(() => customer.addAddress('x'.repeat(41), office)).toThrow(ValidationError);
+      expect(() => customer.addAddress('HOME', office)).toThrow(ValidationError);
+    });
+
+    it('should throw NotFoundError for unknown labels', () => {
+      const customer = activeCustomer();
+
+      expect(() => customer.setDefaultShippingAddress('Home')).toThrow(NotFoundError);
+      expect(() => customer.changeAddress('Home', home)).toThrow(NotFoundError);
+      expect(() => customer.removeAddress('Home')).toThrow(NotFoundError);
+    });
+
+    it('should limit the size of the address book', () => {
+      const customer = activeCustomer();
+      for (let index = 0; index < 10; index++) {
+        customer.addAddress(`Address ${index}`, home);
+      }
+
+      try {
+        customer.addAddress('One too many', home);
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).context).toMatchObject({ ruleName: 'AddressBookLimit', limit: 10 });
+      }
+    });
+  });
+
+  describe('Preferences', () => {
+    it('should store the canonical locale and the preferred currency', () => {
+      const customer = activeCustomer();
+
+      customer.updatePreferences({ locale: 'ES-es', currency: 'EUR' });
+      customer.updatePreferences({ locale: 'en' });
+
+      expect(customer.preferredLocale).toBe('en');
+      expect(customer.preferredCurrency).toBe('EUR');
+      expect(customer.pullDomainEvents().map(event => event.payload)).toEqual([
+        { preferredLocale: 'es-ES', preferredCurrency: 'EUR' },
+        { preferredLocale: 'en', preferredCurrency: 'EUR' },
+      ]);
+    });
+
+    it('should clear preferences with null and ignore unchanged ones', () => {
+      const customer = activeCustomer();
+      customer.updatePreferences({ locale: 'es-ES', currency: 'EUR' });
+      customer.pullDomainEvents();
+
+      customer.updatePreferences({ locale: 'es-es' });
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+
+      customer.updatePreferences({ currency: null });
+      expect(customer.preferredCurrency).toBeNull();
+      expect(customer.preferredLocale).toBe('es-ES');
+    });
+
+    it('should reject invalid language tags', () => {
+      const customer = activeCustomer();
+
+      expect(() => customer.updatePreferences({ locale: 'not a locale' })).toThrow(ValidationError);
+      expect(() => customer.updatePreferences({ locale: '' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Marketing consents', () => {
+    it('should record when consent is granted and withdrawn', () => {
+      const customer = activeCustomer();
+      const grantedAt = new Date('2024-03-01T10:00:00Z');
+      const withdrawnAt = new Date('2024-06-01T10:00:00Z');
+
+      customer.grantMarketingConsent('email', grantedAt);
+      expect(customer.hasMarketingConsent('email')).toBe(true);
+
+      customer.withdrawMarketingConsent('email', withdrawnAt);
+
+      expect(customer.hasMarketingConsent('email')).toBe(false);
+      expect(customer.marketingConsents).toEqual([
+        { channel: 'email', granted: false, grantedAt, withdrawnAt },
+      ]);
+      expect(customer.pullDomainEvents().map(event => [event.eventType, event.occurredAt])).toEqual([
+        ['CustomerMarketingConsentGranted', grantedAt],
+        ['CustomerMarketingConsentWithdrawn', withdrawnAt],
+      ]);
+    });
+
+    it('should keep the original timestamp when consent is granted again', () => {
+      const customer = activeCustomer();
+      const grantedAt = new Date('2024-03-01T10:00:00Z');
+      customer.grantMarketingConsent('email', grantedAt);
+      customer.pullDomainEvents();
+
+      customer.grantMarketingConsent('email', new Date('2024-04-01T10:00:00Z'));
+      customer.withdrawMarketingConsent('sms');
+
+      expect(customer.marketingConsents[0]?.grantedAt).toBe(grantedAt);
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should require a phone number for SMS and phone consent', () => {
+      const customer = activeCustomer();
+
+      try {
+        customer.grantMarketingConsent('phone');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).context).toMatchObject({
+          ruleName: 'PhoneRequiredForConsent',
+          channel: 'phone',
+        });
+      }
+    });
+  });
+
+  describe('Deactivated customers', () => {
+    it('should reject profile edits with InvalidStateError', () => {
+      const customer = inactiveCustomer();
+      const edits = [
+        () => customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678')),
+        () => customer.addAddress('Home', home),
+        () => customer.changeAddress('Home', home),
+        () => customer.removeAddress('Home'),
+        () => customer.setDefaultShippingAddress('Home'),
+        () => customer.setDefaultBillingAddress('Home'),
+        () => customer.updatePreferences({ locale: 'es-ES' }),
+        () => customer.grantMarketingConsent('email'),
+      ];
+
+      for (const edit of edits) {
+        expect(edit).toThrow(InvalidStateError);
+      }
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should still allow withdrawing marketing consent', () => {
+      const customer = activeCustomer();
+      customer.grantMarketingConsent('email');
+      customer.deactivate();
+
+      customer.withdrawMarketingConsent('email');
+
+      expect(customer.hasMarketingConsent('email')).toBe(false);
+    });
+  });
+
+  describe('Profile reconstitution', () => {
+    it('should reconstitute the profile without recording events', () => {
+      const grantedAt = new Date('2024-03-01T10:00:00Z');
+      const customer = Customer.reconstitute(
+        CustomerId.generate(),
+        'John Doe',
+        Email.create('john@example.com'),
+        true,
+        new Date('2024-01-01'),
+        {
+          phoneNumber: PhoneNumber.create('+34612345678'),
+          addressBook: [{ label: 'Home', address: home }, { label: 'Office', address: office }],
+          defaultShippingLabel: 'Home',
+          defaultBillingLabel: 'Office',
+          preferredLocale: 'es-ES',
+          preferredCurrency: 'EUR',
+          marketingConsents: [{ channel: 'sms', granted: true, grantedAt, withdrawnAt: null }],
+          version: 4,
+        }
+      );
+
+      expect(customer.defaultShippingAddress).toBe(home);
+      expect(customer.defaultBillingAddress).toBe(office);
+      expect(customer.hasMarketingConsent('sms')).toBe(true);
+      expect(customer.version).toBe(4);
+      expect(customer.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should reject default labels that are not in the address book', () => {
+      expect(() => Customer.reconstitute(
+        CustomerId.generate(),
+        'John Doe',
+        Email.create('john@example.com'),
+        true,
+        new Date('2024-01-01'),
+        { addressBook: [{ label: 'Home', address: home }], defaultBillingLabel: 'Office' }
+      )).toThrow(ValidationError);
+    });
+  });
+
+  describe('Anonymization', () => {
+    it('should replace personal data with pseudonymous values keeping the id', () => {
+      const customer = activeCustomer();
+      customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678'));
+      customer.addAddress('Home', home);
+      customer.updatePreferences({ locale: 'es-ES', currency: 'EUR' });
+      customer.pullDomainEvents();
+      const id = customer.id;
+      const at = new Date('2024-06-01T10:00:00Z');
+
+      customer.anonymize([orderOf(customer, 'DELIVERED'), orderOf(customer, 'CANCELLED')], at);
+
+      expect(customer.id).toBe(id);
+      expect(customer.name).not.toContain('John');
+      expect(customer.email.getDomain()).toBe(ANONYMIZED_EMAIL_DOMAIN);
+      expect(customer.email.value).not.toContain('john');
+      expect(customer.phoneNumber).toBeNull();
+      expect(customer.addressBook).toHaveLength(0);
+      expect(customer.defaultShippingAddress).toBeNull();
+      expect(customer.preferredLocale).toBeNull();
+      expect(customer.isActive).toBe(false);
+      expect(customer.anonymizedAt).toBe(at);
+      expect(customer.isAnonymized).toBe(true);
+
+      const events = customer.pullDomainEvents();
+      expect(events.map(event => event.eventType)).toEqual(['CustomerAnonymized']);
+      expect(events[0]?.payload).toEqual({});
+    });
+
+    it('should wipe the personal data of its events when redacting them', () => {
+      const customer = activeCustomer();
+      customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678'));
+      customer.anonymize([]);
+
+      const events = customer.pullDomainEvents();
+
+      expect(events.map(event => redactCustomerPersonalData(event))).toEqual([{}, undefined]);
+    });
+
+    it('should use different pseudonyms for each customer', () => {
+      const first = activeCustomer();
+      const second = activeCustomer();
+
+      first.anonymize([]);
+      second.anonymize([]);
+
+      expect(first.email.equals(second.email)).toBe(false);
+    });
+
+    it('should withdraw every marketing consent', () => {
+      const customer = activeCustomer();
+      customer.grantMarketingConsent('email', new Date('2024-01-01T10:00:00Z'));
+      const at = new Date('2024-06-01T10:00:00Z');
+
+      customer.anonymize([], at);
+
+      expect(customer.hasMarketingConsent('email')).toBe(false);
+      expect(customer.marketingConsents[0]?.withdrawnAt).toBe(at);
+    });
+
+    it('should refuse while the customer has pending, confirmed or shipped orders', () => {
+      const customer = activeCustomer();
+      const open = ['PENDING', 'CONFIRMED', 'SHIPPED'] as const;
+      const orders = [...open.map(status => orderOf(customer, status)), orderOf(customer, 'DELIVERED')];
+
+      try {
+        customer.anonymize(orders);
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).context).toMatchObject({
+          ruleName: 'NoOpenOrders',
+          orderIds: orders.slice(0, 3).map(order => order.id.value),
+        });
+      }
+      expect(customer.name).toBe('John Doe');
+      expect(customer.isActive).toBe(true);
+    });
+
+    it('should be irreversible', () => {
+      const customer = activeCustomer();
+      customer.anonymize([]);
+
+      expect(() => customer.anonymize([])).toThrow(InvalidStateError);
+      expect(() => customer.activate()).toThrow(InvalidStateError);
+      expect(() => customer.updateName('John Doe')).toThrow(InvalidStateError);
+      expect(() => customer.updateEmail(Email.create('john@example.com'))).toThrow(InvalidStateError);
+    });
+
+    it('should reconstitute the anonymization date', () => {
+      const anonymizedAt = new Date('2024-06-01T10:00:00Z');
+      const customer = Customer.reconstitute(
+        CustomerId.generate(),
+        'Anonymized customer 1234abcd',
+        Email.create(`1234abcd@${ANONYMIZED_EMAIL_DOMAIN}`, { allowPseudonym: true }),
+        false,
+        new Date('2024-01-01'),
+        { anonymizedAt }
+      );
+
+      expect(customer.anonymizedAt).toBe(anonymizedAt);
+      expect(() => customer.activate()).toThrow(InvalidStateError);
+    });
+  });
+
   describe('Equality', () => {
     it('should be equal for same ID', () => {
       const customerId = CustomerId.generate();
@@ -1,35 +1,70 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Order, OrderItem } from '../../../src/domain/entities/Order';
+import { CreateOrderOptions, Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Address } from '../../../src/domain/value-objects/Address';
 import { Email } from '../../../src/domain/value-objects/Email';
 import { Price } from '../../../src/domain/value-objects/Price';
 import { OrderId } from '../../../src/domain/value-objects/OrderId';
-import { InvalidStateError, ValidationError } from '../../../src/domain/errors';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { Coupon } from '../../../src/domain/value-objects/Coupon';
+import { Discount } from '../../../src/domain/value-objects/Discount';
+import {
+  BusinessRuleViolationError,
+  InvalidStateError,
+  NotFoundError,
+  ValidationError
+} from '../../../src/domain/errors';
+import { CurrencyConverter } from '../../../src/domain/services/CurrencyConverter';
+import { Currency } from '../../../src/domain/value-objects/Currency';
+import { currencyRegistry } from '../../../src/domain/value-objects/CurrencyRegistry';
+import { ShippingRateCalculator } from '../../../src/domain/services/ShippingRateCalculator';
+import { StaticExchangeRateProvider } from '../../../src/infraestructure/adapters/StaticExchangeRateProvider';
+import { OrderDomainEvent, OrderPlaced, redactOrderCustomerEmail } from '../../../src/domain/events/OrderEvents';
 
 describe('Order Entity', () => {
   let customerEmail: Email;
   let sampleItems: OrderItem[];
+  let addresses: CreateOrderOptions;
 
   beforeEach(() => {
     customerEmail = Email.create('customer@example.com');
+    const madrid = Address.create({
+      lines: ['Calle Mayor 1'],
+      city: 'Madrid',
+      postalCode: '28013',
+      country: 'ES'
+    });
+    addresses = { shippingAddress: madrid, billingAddress: madrid };
     sampleItems = [
-      {
+      OrderItem.create({
         productId: 'prod-1',
         productName: 'Product 1',
         quantity: 2,
         unitPrice: Price.create(10, 'EUR')
-      },
-      {
+      }),
+      OrderItem.create({
         productId: 'prod-2',
         productName: 'Product 2',
         quantity: 1,
         unitPrice: Price.create(20, 'EUR')
-      }
+      })
     ];
   });
 
+  const flatShipping: ShippingRateCalculator = { rateFor: () => Price.create(5, 'EUR') };
+
+  /**
+   * Pedido con direcciones y envío presupuestado, listo para confirmar
+   */
+  const confirmableOrder = (options: CreateOrderOptions = addresses) => {
+    const order = Order.create(customerEmail, sampleItems, options);
+    order.quoteShipping(flatShipping);
+    return order;
+  };
+
   describe('Creation', () => {
     it('should create a new order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
 
       expect(order.customerEmail).toBe(customerEmail);
       expect(order.items).toHaveLength(2);
@@ -37,9 +72,21 @@ describe('Order Entity', () => {
       expect(order.createdAt).toBeInstanceOf(Date);
     });
 
+    it('should link the order to a registered customer', () => {
+      const customerId = CustomerId.generate();
+
+      const order = Order.create(customerEmail, sampleItems, { ...addresses, customerId });
+      const guest = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(order.customerId?.equals(customerId)).toBe(true);
+      expect(order.pullDomainEvents()[0]?.payload).toMatchObject({ customerId: customerId.value });
+      expect(guest.customerId).toBeNull();
+      expect(guest.pullDomainEvents()[0]?.payload).not.toHaveProperty('customerId');
+    });
+
     it('should generate a unique ID', () => {
-      const order1 = Order.create(customerEmail, sampleItems);
-      const order2 = Order.create(customerEmail, sampleItems);
+      const order1 = Order.create(customerEmail, sampleItems, addresses);
+      const order2 = Order.create(customerEmail, sampleItems, addresses);
 
       expect(order1.id.equals(order2.id)).toBe(false);
     });
@@ -53,12 +100,12 @@ describe('Order Entity', () => {
       const items = [...sampleItems];
       const order = Order.create(customerEmail, items);
 
-      items.push({
+      items.push(OrderItem.create({
         productId: 'prod-3',
         productName: 'Product 3',
         quantity: 1,
         unitPrice: Price.create(30, 'EUR')
-      });
+      }));
 
       expect(order.items).toHaveLength(2);
     });
@@ -83,9 +130,46 @@ describe('Order Entity', () => {
     });
   });
 
+  describe('Versioning', () => {
+    it('should start at version 1 and increase with each change', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      expect(order.version).toBe(1);
+      expect(order.persistedVersion).toBe(0);
+
+      order.changeQuantity('prod-1', 3);
+      order.quoteShipping(flatShipping);
+      order.confirm();
+
+      expect(order.version).toBe(4);
+    });
+
+    it('should not change the version when an operation fails', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.ship()).toThrow(InvalidStateError);
+      expect(order.version).toBe(1);
+    });
+
+    it('should reconstitute the stored version and mark it as persisted', () => {
+      const order = Order.reconstitute(OrderId.generate(), customerEmail, sampleItems, 'PENDING', new Date(), {
+        ...addresses,
+        shippingCost: Price.create(5, 'EUR'),
+        version: 5
+      });
+
+      expect(order.version).toBe(5);
+      expect(order.persistedVersion).toBe(5);
+
+      order.confirm();
+      expect(order.version).toBe(6);
+      order.markPersisted();
+      expect(order.persistedVersion).toBe(6);
+    });
+  });
+
   describe('Total calculation', () => {
     it('should calculate total correctly', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
 
       const total = order.calculateTotal();
 
@@ -94,23 +178,76 @@ describe('Order Entity', () => {
     });
 
     it('should handle single item', () => {
-      const items: OrderItem[] = [{
+      const items: OrderItem[] = [OrderItem.create({
         productId: 'prod-1',
         productName: 'Product 1',
         quantity: 3,
         unitPrice: Price.create(15.50, 'USD')
-      }];
+      })];
 
       const order = Order.create(customerEmail, items);
       const total = order.calculateTotal();
 
       expect(total.amount).toBe(46.5);
     });
+
+    it('should not accumulate floating point errors', () => {
+      const items: OrderItem[] = Array.from({ length: 10 }, (_, i) => OrderItem.create({
+        productId: `prod-${i}`,
+        productName: `Product ${i}`,
+        quantity: 3,
+        unitPrice: Price.create(0.1, 'EUR')
+      }));
+
+      const total = Order.create(customerEmail, items).calculateTotal();
+
+      expect(total.amount).toBe(3);
+      expect(total.toString()).toBe('3.00 EUR');
+    });
+  });
+
+  describe('Total in another currency', () => {
+    it('should convert every line with the converter', () => {
+      const items: OrderItem[] = [
+        ...sampleItems,
+        OrderItem.create({ productId: 'prod-3', productName: 'Product 3', quantity: 1, unitPrice: Price.create(10, 'USD') })
+      ];
+      const mixed = Order.reconstitute(OrderId.generate(), customerEmail, items, 'PENDING', new Date());
+      const converter = new CurrencyConverter(new StaticExchangeRateProvider({
+        base: 'EUR',
+        asOf: new Date('2024-01-01'),
+        rates: { USD: 1.25 }
+      }));
+
+      expect(mixed.calculateTotalIn('EUR', converter).toString()).toBe('48.00 EUR');
+      expect(mixed.calculateTotalIn('USD', converter).toString()).toBe('60.00 USD');
+    });
+
+    it('should convert the total with discounts and shipping', () => {
+      const order = Order.create(customerEmail, [
+        OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 1, unitPrice: Price.create(100, 'EUR') })
+      ], addresses);
+      order.applyCoupon(Coupon.create({ code: 'TEN', discount: Discount.percentage(10) }));
+      const converter = new CurrencyConverter(new StaticExchangeRateProvider({
+        base: 'EUR',
+        asOf: new Date('2024-01-01'),
+        rates: { USD: 2 }
+      }));
+
+      expect(order.calculateTotal().toString()).toBe('90.00 EUR');
+      expect(order.calculateTotalIn('EUR', converter).toString()).toBe('90.00 EUR');
+      expect(order.calculateTotalIn('USD', converter).toString()).toBe('180.00 USD');
+
+      order.quoteShipping({ rateFor: () => Price.create(5, 'EUR') });
+
+      expect(order.calculateTotalIn('EUR', converter).equals(order.calculateTotal())).toBe(true);
+      expect(order.calculateTotalIn('USD', converter).toString()).toBe('190.00 USD');
+    });
   });
 
   describe('State transitions', () => {
     it('should confirm pending order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
 
       order.confirm();
 
@@ -118,7 +255,7 @@ describe('Order Entity', () => {
     });
 
     it('should not confirm already confirmed order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
 
       expect(() => order.confirm())
@@ -126,7 +263,7 @@ describe('Order Entity', () => {
     });
 
     it('should ship confirmed order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
 
       order.ship();
@@ -135,14 +272,14 @@ describe('Order Entity', () => {
     });
 
     it('should not ship pending order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
 
       expect(() => order.ship())
         .toThrow(InvalidStateError);
     });
 
     it('should deliver shipped order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
       order.ship();
 
@@ -152,7 +289,7 @@ describe('Order Entity', () => {
     });
 
     it('should not deliver confirmed order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
 
       expect(() => order.deliver())
@@ -160,7 +297,7 @@ describe('Order Entity', () => {
     });
 
     it('should cancel pending order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
 
       order.cancel();
 
@@ -168,7 +305,7 @@ describe('Order Entity', () => {
     });
 
     it('should cancel confirmed order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
 
       order.cancel();
@@ -177,7 +314,7 @@ describe('Order Entity', () => {
     });
 
     it('should not cancel delivered order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
       order.ship();
       order.deliver();
@@ -187,7 +324,7 @@ describe('Order Entity', () => {
     });
 
     it('should not cancel already cancelled order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
       order.cancel();
 
       expect(() => order.cancel())
@@ -195,15 +332,198 @@ describe('Order Entity', () => {
     });
   });
 
+  describe('State machine', () => {
+    const orderIn = (status: OrderStatus) => Order.reconstitute(
+      OrderId.generate(),
+      customerEmail,
+      sampleItems,
+      status,
+      new Date()
+    );
+
+    it('should derive allowed states from the transition table', () => {
+      const order = orderIn('DELIVERED');
+
+      try {
+        order.cancel();
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidStateError);
+        expect((error as InvalidStateError).allowedStates)
+          .toEqual(['PENDING', 'CONFIRMED', 'SHIPPED', 'PAYMENT_FAILED']);
+      }
+    });
+
+    it('should list available actions for the current status', () => {
+      expect(confirmableOrder().availableActions()).toEqual(['confirm', 'cancel']);
+      expect(orderIn('CONFIRMED').availableActions()).toEqual(['failPayment', 'ship', 'cancel']);
+      expect(orderIn('DELIVERED').availableActions()).toEqual(['requestReturn']);
+      expect(orderIn('REFUNDED').availableActions()).toEqual([]);
+      expect(orderIn('CANCELLED').availableActions()).toEqual([]);
+    });
+
+    it('should tell whether a status is directly reachable', () => {
+      const order = orderIn('CONFIRMED');
+
+      expect(order.canTransitionTo('SHIPPED')).toBe(true);
+      expect(order.canTransitionTo('CANCELLED')).toBe(true);
+      expect(order.canTransitionTo('DELIVERED')).toBe(false);
+      expect(order.canTransitionTo('PENDING')).toBe(false);
+    });
+
+    it('should only offer confirm when its guards hold', () => {
+      const withoutAddresses = Order.create(customerEmail, sampleItems);
+      const withAddresses = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(withoutAddresses.availableActions()).toEqual(['cancel']);
+      expect(withoutAddresses.canTransitionTo('CONFIRMED')).toBe(false);
+      expect(withAddresses.availableActions()).toEqual(['confirm', 'cancel']);
+      expect(withAddresses.canTransitionTo('CONFIRMED')).toBe(true);
+    });
+
+    it('should handle a payment failure and retry', () => {
+      const order = confirmableOrder();
+      order.confirm();
+
+      order.failPayment();
+      expect(order.status).toBe('PAYMENT_FAILED');
+      expect(() => order.ship()).toThrow(InvalidStateError);
+
+      order.retryPayment();
+      expect(order.status).toBe('CONFIRMED');
+    });
+
+    it('should cancel an order whose payment failed', () => {
+      const order = orderIn('PAYMENT_FAILED');
+
+      order.cancel();
+
+      expect(order.status).toBe('CANCELLED');
+    });
+
+    it('should go through the return and refund flow', () => {
+      const order = orderIn('DELIVERED');
+
+      order.requestReturn();
+      expect(order.status).toBe('RETURN_REQUESTED');
+      order.markReturned();
+      expect(order.status).toBe('RETURNED');
+      order.refund();
+      expect(order.status).toBe('REFUNDED');
+
+      expect(order.pullDomainEvents().map(e => e.eventType))
+        .toEqual(['OrderReturnRequested', 'OrderReturned', 'OrderRefunded']);
+    });
+
+    it('should return to DELIVERED when a return is rejected', () => {
+      const order = orderIn('RETURN_REQUESTED');
+
+      order.rejectReturn();
+
+      expect(order.status).toBe('DELIVERED');
+    });
+
+    it('should not refund an order that was not returned', () => {
+      expect(() => orderIn('DELIVERED').refund()).toThrow(InvalidStateError);
+      expect(() => orderIn('RETURN_REQUESTED').cancel()).toThrow(InvalidStateError);
+    });
+  });
+
+  describe('Status history', () => {
+    it('should start with the creation entry', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(order.statusHistory).toEqual([
+        { from: null, to: 'PENDING', occurredAt: order.createdAt }
+      ]);
+    });
+
+    it('should append every transition with actor and reason', () => {
+      const order = confirmableOrder();
+
+      order.confirm('alice');
+      order.cancel('Customer changed their mind', 'bob');
+
+      const [, confirmed, cancelled] = order.statusHistory;
+      expect(order.statusHistory).toHaveLength(3);
+      expect(confirmed).toMatchObject({ from: 'PENDING', to: 'CONFIRMED', actor: 'alice' });
+      expect(confirmed).not.toHaveProperty('reason');
+      expect(cancelled).toMatchObject({
+        from: 'CONFIRMED',
+        to: 'CANCELLED',
+        actor: 'bob',
+        reason: 'Customer changed their mind'
+      });
+      expect(cancelled?.occurredAt).toBeInstanceOf(Date);
+    });
+
+    it('should include actor and reason in the status change event', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.pullDomainEvents();
+
+      order.cancel('Out of stock', 'warehouse');
+
+      const [event] = order.pullDomainEvents();
+      expect(event?.payload).toEqual({ previousStatus: 'PENDING', actor: 'warehouse', reason: 'Out of stock' });
+      expect(event?.occurredAt).toEqual(order.statusHistory[1]?.occurredAt);
+    });
+
+    it('should not record failed transitions', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.deliver()).toThrow(InvalidStateError);
+
+      expect(order.statusHistory).toHaveLength(1);
+    });
+
+    it('should not expose the internal history for mutation', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      (order.statusHistory as unknown[]).push({ from: 'PENDING', to: 'SHIPPED', occurredAt: new Date() });
+
+      expect(order.statusHistory).toHaveLength(1);
+    });
+
+    it('should accept the history on reconstitution', () => {
+      const createdAt = new Date('2024-01-01');
+      const history = [
+        { from: null, to: 'PENDING' as const, occurredAt: createdAt },
+        { from: 'PENDING' as const, to: 'CONFIRMED' as const, occurredAt: new Date('2024-01-02'), actor: 'alice' }
+      ];
+
+      const order = Order.reconstitute(
+        OrderId.generate(),
+        customerEmail,
+        sampleItems,
+        'CONFIRMED',
+        createdAt,
+        { statusHistory: history }
+      );
+
+      expect(order.statusHistory).toEqual(history);
+    });
+
+    it('should reject a history that does not end in the current status', () => {
+      expect(() => Order.reconstitute(
+        OrderId.generate(),
+        customerEmail,
+        sampleItems,
+        'SHIPPED',
+        new Date(),
+        { statusHistory: [{ from: null, to: 'PENDING', occurredAt: new Date() }] }
+      )).toThrow(ValidationError);
+    });
+  });
+
   describe('Adding items', () => {
     it('should add new item to pending order', () => {
-      const order = Order.create(customerEmail, sampleItems);
-      const newItem: OrderItem = {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const newItem = OrderItem.create({
         productId: 'prod-3',
         productName: 'Product 3',
         quantity: 1,
         unitPrice: Price.create(15, 'EUR')
-      };
+      });
 
       order.addItem(newItem);
 
@@ -211,13 +531,13 @@ describe('Order Entity', () => {
     });
 
     it('should increment quantity if product already exists', () => {
-      const order = Order.create(customerEmail, sampleItems);
-      const duplicateItem: OrderItem = {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const duplicateItem = OrderItem.create({
         productId: 'prod-1',
         productName: 'Product 1',
         quantity: 3,
         unitPrice: Price.create(10, 'EUR')
-      };
+      });
 
       order.addItem(duplicateItem);
 
@@ -227,21 +547,714 @@ describe('Order Entity', () => {
     });
 
     it('should not add items to confirmed order', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = confirmableOrder();
       order.confirm();
 
-      const newItem: OrderItem = {
+      const newItem = OrderItem.create({
         productId: 'prod-3',
         productName: 'Product 3',
         quantity: 1,
         unitPrice: Price.create(15, 'EUR')
-      };
+      });
 
       expect(() => order.addItem(newItem))
         .toThrow(InvalidStateError);
     });
   });
 
+  describe('Line item management', () => {
+    const item = (productId: string, quantity: number, amount = 10, currency: Currency = 'EUR') =>
+      OrderItem.create({ productId, productName: productId, quantity, unitPrice: Price.create(amount, currency) });
+
+    it('should reject items in different currencies at creation', () => {
+      expect(() => Order.create(customerEmail, [item('prod-1', 1), item('prod-2', 1, 10, 'USD')]))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should only require an enabled currency for new orders', () => {
+      const existing = Order.create(customerEmail, [item('prod-1', 1, 10, 'USD')]);
+      const history = existing.pullDomainEvents();
+
+      currencyRegistry.restrictTo(['EUR']);
+      try {
+        expect(() => Order.create(customerEmail, [item('prod-1', 1, 10, 'USD')])).toThrow(ValidationError);
+        expect(Order.fromHistory(history).calculateTotal().currency).toBe('USD');
+      } finally {
+        currencyRegistry.enableAll();
+      }
+    });
+
+    it('should merge repeated products at creation', () => {
+      const order = Order.create(customerEmail, [item('prod-1', 1), item('prod-1', 2)]);
+
+      expect(order.items).toHaveLength(1);
+      expect(order.lineTotal('prod-1').toString()).toBe('30.00 EUR');
+    });
+
+    it('should reject adding an item in another currency', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.addItem(item('prod-3', 1, 10, 'USD'))).toThrow(BusinessRuleViolationError);
+      expect(order.items).toHaveLength(2);
+    });
+
+    it('should not mutate items shared with other orders', () => {
+      const first = Order.create(customerEmail, sampleItems, addresses);
+      const second = Order.create(customerEmail, sampleItems, addresses);
+
+      first.addItem(item('prod-1', 3));
+
+      expect(first.lineTotal('prod-1').toString()).toBe('50.00 EUR');
+      expect(second.lineTotal('prod-1').toString()).toBe('20.00 EUR');
+      expect(sampleItems[0]?.quantity).toBe(2);
+    });
+
+    it('should remove an item', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.removeItem('prod-2');
+
+      expect(order.items.map(i => i.productId)).toEqual(['prod-1']);
+      expect(order.calculateTotal().amount).toBe(20);
+    });
+
+    it('should not remove the last item or an unknown product', () => {
+      const order = Order.create(customerEmail, [item('prod-1', 1)], addresses);
+
+      expect(() => order.removeItem('prod-1')).toThrow(BusinessRuleViolationError);
+      expect(() => order.removeItem('missing')).toThrow(NotFoundError);
+      expect(order.items).toHaveLength(1);
+    });
+
+    it('should change the quantity of a line', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.changeQuantity('prod-2', 4);
+
+      expect(order.lineTotal('prod-2').toString()).toBe('80.00 EUR');
+      expect(order.calculateTotal().amount).toBe(100);
+    });
+
+    it('should reject invalid quantities', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.changeQuantity('prod-1', 0)).toThrow(ValidationError);
+      expect(() => order.changeQuantity('prod-1', 1.5)).toThrow(ValidationError);
+      expect(() => order.changeQuantity('missing', 1)).toThrow(NotFoundError);
+      expect(order.lineTotal('prod-1').toString()).toBe('20.00 EUR');
+    });
+
+    it('should replace every item', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.replaceItems([item('prod-9', 2, 5)]);
+
+      expect(order.items.map(i => i.productId)).toEqual(['prod-9']);
+      expect(order.calculateTotal().amount).toBe(10);
+      expect(() => order.replaceItems([])).toThrow(ValidationError);
+      expect(() => order.replaceItems([item('prod-1', 1), item('prod-2', 1, 10, 'USD')])).toThrow(BusinessRuleViolationError);
+    });
+
+    it('should only change items while pending', () => {
+      const order = confirmableOrder();
+      order.confirm();
+
+      expect(() => order.removeItem('prod-1')).toThrow(InvalidStateError);
+      expect(() => order.changeQuantity('prod-1', 5)).toThrow(InvalidStateError);
+      expect(() => order.replaceItems(sampleItems)).toThrow(InvalidStateError);
+    });
+
+    it('should keep the coupon minimum order value', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.applyCoupon(Coupon.create({
+        code: 'BIG10',
+        discount: Discount.percentage(10),
+        minimumOrderValue: Price.create(30, 'EUR')
+      }));
+
+      expect(() => order.removeItem('prod-2')).toThrow(BusinessRuleViolationError);
+      expect(order.calculateTotal().amount).toBe(36);
+    });
+
+    it('should discard the shipping quote when items change', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.quoteShipping({ rateFor: () => Price.create(5, 'EUR') });
+
+      order.changeQuantity('prod-1', 1);
+
+      expect(order.shippingCost).toBeNull();
+    });
+
+    it('should record an event for each change', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.pullDomainEvents();
+
+      order.changeQuantity('prod-1', 3);
+      order.removeItem('prod-2');
+      order.replaceItems([item('prod-9', 1)]);
+
+      const events = order.pullDomainEvents();
+      expect(events.map(e => e.eventType))
+        .toEqual(['OrderItemQuantityChanged', 'OrderItemRemoved', 'OrderItemsReplaced']);
+      expect(events[0]?.payload).toEqual({ productId: 'prod-1', previousQuantity: 2, quantity: 3 });
+      expect(events[1]?.payload).toEqual({ productId: 'prod-2' });
+      expect(events[2]?.payload).toEqual({
+        items: [{ productId: 'prod-9', productName: 'prod-9', quantity: 1, unitPrice: { minor: '1000', currency: 'EUR' } }]
+      });
+    });
+  });
+
+  describe('Addresses and shipping', () => {
+    const rates: ShippingRateCalculator = {
+      rateFor: (destination, weightGrams) =>
+        Price.create(destination.country === 'ES' ? 4.95 + weightGrams / 1000 : 20, 'EUR')
+    };
+    const weighted = (): OrderItem[] => [
+      OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 2, unitPrice: Price.create(10, 'EUR'), weightGrams: 500 }),
+      OrderItem.create({ productId: 'prod-2', productName: 'Product 2', quantity: 1, unitPrice: Price.create(20, 'EUR') })
+    ];
+
+    it('should require shipping and billing addresses to confirm', () => {
+      const order = Order.create(customerEmail, sampleItems);
+
+      try {
+        order.confirm();
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).ruleName).toBe('AddressesRequired');
+        expect((error as BusinessRuleViolationError).context).toMatchObject({
+          missing: ['shippingAddress', 'billingAddress']
+        });
+      }
+      expect(order.status).toBe('PENDING');
+
+      order.changeShippingAddress(addresses.shippingAddress as Address);
+      order.changeBillingAddress(addresses.billingAddress as Address);
+      order.quoteShipping(flatShipping);
+      order.confirm();
+
+      expect(order.status).toBe('CONFIRMED');
+    });
+
+    it('should confirm without a shipping quote', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.confirm();
+
+      expect(order.status).toBe('CONFIRMED');
+      expect(order.shippingCost).toBeNull();
+      expect(order.pricing().shipping.amount).toBe(0);
+    });
+
+    it('should only change addresses while PENDING', () => {
+      const order = confirmableOrder();
+      order.confirm();
+
+      expect(() => order.changeShippingAddress(addresses.shippingAddress as Address))
+        .toThrow(InvalidStateError);
+    });
+
+    it('should add the shipping quote to the pricing', () => {
+      const order = Order.create(customerEmail, weighted(), addresses);
+
+      const cost = order.quoteShipping(rates);
+
+      expect(order.totalWeightGrams()).toBe(1000);
+      expect(cost.toString()).toBe('5.95 EUR');
+      expect(order.pricing().shipping.toString()).toBe('5.95 EUR');
+      expect(order.calculateTotal().toString()).toBe('45.95 EUR');
+    });
+
+    it('should drop the shipping quote when the shipping address changes', () => {
+      const order = Order.create(customerEmail, weighted(), addresses);
+      order.quoteShipping(rates);
+
+      order.changeShippingAddress(Address.create({
+        lines: ['10 Downing St'],
+        city: 'London',
+        postalCode: 'SW1A 2AA',
+        country: 'GB'
+      }));
+
+      expect(order.shippingCost).toBeNull();
+      expect(order.calculateTotal().toString()).toBe('40.00 EUR');
+      expect(order.quoteShipping(rates).toString()).toBe('20.00 EUR');
+    });
+
+    it('should need a shipping address and the order currency to quote', () => {
+      const withoutAddress = Order.create(customerEmail, weighted());
+      const inDollars: ShippingRateCalculator = { rateFor: () => Price.create(5, 'USD') };
+
+      expect(() => withoutAddress.quoteShipping(rates)).toThrow(BusinessRuleViolationError);
+      expect(() => Order.create(customerEmail, weighted(), addresses).quoteShipping(inDollars))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should record address and shipping events', () => {
+      const order = Order.create(customerEmail, weighted(), addresses);
+      order.pullDomainEvents();
+
+      order.changeBillingAddress(addresses.billingAddress as Address);
+      order.quoteShipping(rates);
+
+      const [changed, quoted] = order.pullDomainEvents();
+      expect(changed?.payload).toEqual({
+        addressType: 'BILLING',
+        address: { lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' }
+      });
+      expect(quoted?.payload).toEqual({ cost: { minor: '595', currency: 'EUR' }, weightGrams: 1000 });
+    });
+  });
+
+  describe('Promotions', () => {
+    const coupon = (discount: Discount, extra: Partial<{ expiresAt: Date; minimumOrderValue: Price }> = {}) =>
+      Coupon.create({ code: 'PROMO', discount, ...extra });
+
+    it('should price an order without coupon with no discounts', () => {
+      const pricing = Order.create(customerEmail, sampleItems, addresses).pricing();
+
+      expect(pricing.subtotal.toString()).toBe('40.00 EUR');
+      expect(pricing.totalDiscount.isZero()).toBe(true);
+      expect(pricing.total.toString()).toBe('40.00 EUR');
+      expect(pricing.lines.map(line => line.total.toString())).toEqual(['20.00 EUR', '20.00 EUR']);
+    });
+
+    it('should apply a percentage off the order', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.applyCoupon(coupon(Discount.percentage(10)));
+
+      const pricing = order.pricing();
+      expect(order.coupon?.code).toBe('PROMO');
+      expect(pricing.orderDiscount.toString()).toBe('4.00 EUR');
+      expect(pricing.total.toString()).toBe('36.00 EUR');
+      expect(order.calculateTotal().toString()).toBe('36.00 EUR');
+    });
+
+    it('should cap a fixed amount off at the maximum discount percentage', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.applyCoupon(coupon(Discount.fixedAmount(Price.create(50, 'EUR'))));
+
+      expect(order.pricing().orderDiscount.toString()).toBe('20.00 EUR');
+      expect(order.calculateTotal().toString()).toBe('20.00 EUR');
+    });
+
+    it('should discount lines for buy X get Y', () => {
+      const order = Order.create(customerEmail, [
+        OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 3, unitPrice: Price.create(10, 'EUR') }),
+        OrderItem.create({ productId: 'prod-2', productName: 'Product 2', quantity: 1, unitPrice: Price.create(20, 'EUR') })
+      ]);
+
+      order.applyCoupon(coupon(Discount.buyXGetY('prod-1', 2, 1)));
+
+      const pricing = order.pricing();
+      expect(pricing.lines.map(line => line.discount.toString())).toEqual(['10.00 EUR', '0.00 EUR']);
+      expect(pricing.lineDiscounts.toString()).toBe('10.00 EUR');
+      expect(pricing.orderDiscount.isZero()).toBe(true);
+      expect(pricing.total.toString()).toBe('40.00 EUR');
+    });
+
+    it('should make an item free above the threshold', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.applyCoupon(coupon(Discount.freeItemAbove(Price.create(40, 'EUR'), 'prod-1')));
+
+      expect(order.pricing().lines[0]?.discount.toString()).toBe('10.00 EUR');
+      expect(order.calculateTotal().toString()).toBe('30.00 EUR');
+    });
+
+    it('should cap line discounts at the maximum discount percentage', () => {
+      const order = Order.create(customerEmail, [
+        OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 1, unitPrice: Price.create(30, 'EUR') }),
+        OrderItem.create({ productId: 'prod-2', productName: 'Product 2', quantity: 1, unitPrice: Price.create(10, 'EUR') })
+      ], addresses);
+
+      order.applyCoupon(coupon(Discount.freeItemAbove(Price.create(40, 'EUR'), 'prod-1')));
+
+      const pricing = order.pricing();
+      expect(pricing.lines.map(line => line.discount.toString())).toEqual(['20.00 EUR', '0.00 EUR']);
+      expect(pricing.totalDiscount.toString()).toBe('20.00 EUR');
+      expect(pricing.total.toString()).toBe('20.00 EUR');
+    });
+
+    it('should keep the cap when items change after the coupon', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.applyCoupon(coupon(Discount.fixedAmount(Price.create(15, 'EUR'))));
+
+      order.removeItem('prod-2');
+
+      expect(order.pricing().orderDiscount.toString()).toBe('10.00 EUR');
+      expect(order.calculateTotal().toString()).toBe('10.00 EUR');
+    });
+
+    it('should allow only one coupon per order', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.applyCoupon(coupon(Discount.percentage(10)));
+
+      try {
+        order.applyCoupon(Coupon.create({ code: 'OTHER', discount: Discount.percentage(5) }));
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).ruleName).toBe('OneCouponPerOrder');
+      }
+    });
+
+    it('should reject expired coupons and orders below the minimum value', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.applyCoupon(
+        coupon(Discount.percentage(10), { expiresAt: new Date('2024-01-01T00:00:00Z') }),
+        new Date('2024-01-02T00:00:00Z')
+      )).toThrow(BusinessRuleViolationError);
+      expect(() => order.applyCoupon(
+        coupon(Discount.percentage(10), { minimumOrderValue: Price.create(50, 'EUR') })
+      )).toThrow(BusinessRuleViolationError);
+      expect(order.coupon).toBeNull();
+    });
+
+    it('should reject a fixed amount in another currency', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.applyCoupon(coupon(Discount.fixedAmount(Price.create(5, 'USD')))))
+        .toThrow(BusinessRuleViolationError);
+      expect(order.coupon).toBeNull();
+    });
+
+    it('should only apply or remove coupons while PENDING', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.applyCoupon(coupon(Discount.percentage(10)));
+      order.quoteShipping(flatShipping);
+      order.confirm();
+
+      expect(() => order.removeCoupon()).toThrow(InvalidStateError);
+      expect(() => order.applyCoupon(Coupon.create({ code: 'OTHER', discount: Discount.percentage(5) })))
+        .toThrow(InvalidStateError);
+    });
+
+    it('should remove the applied coupon', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.applyCoupon(coupon(Discount.percentage(10)));
+
+      order.removeCoupon();
+
+      expect(order.coupon).toBeNull();
+      expect(order.calculateTotal().toString()).toBe('40.00 EUR');
+    });
+
+    it('should record coupon events', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.pullDomainEvents();
+
+      order.applyCoupon(coupon(Discount.fixedAmount(Price.create(5, 'EUR')), {
+        expiresAt: new Date('2999-01-01T00:00:00Z')
+      }));
+      order.removeCoupon();
+      order.removeCoupon();
+
+      const [applied, removed, ...rest] = order.pullDomainEvents();
+      expect(applied?.eventType).toBe('OrderCouponApplied');
+      expect(applied?.payload).toEqual({
+        coupon: {
+          code: 'PROMO',
+          discount: { type: 'FIXED_AMOUNT', amount: { minor: '500', currency: 'EUR' } },
+          expiresAt: '2999-01-01T00:00:00.000Z'
+        }
+      });
+      expect(removed?.eventType).toBe('OrderCouponRemoved');
+      expect(removed?.payload).toEqual({ code: 'PROMO' });
+      expect(rest).toHaveLength(0);
+    });
+  });
+
+  describe('Customer email anonymization', () => {
+    it('should replace the email with the pseudonym in any status', () => {
+      const order = confirmableOrder();
+      order.confirm();
+      order.ship();
+      order.deliver();
+      order.pullDomainEvents();
+      const pseudonym = Email.pseudonym();
+
+      order.anonymizeCustomerEmail(pseudonym);
+
+      expect(order.customerEmail.equals(pseudonym)).toBe(true);
+      const events = order.pullDomainEvents();
+      expect(events.map(event => event.eventType)).toEqual(['OrderCustomerEmailAnonymized']);
+      expect(events[0]?.payload).toEqual({ customerEmail: pseudonym.value });
+    });
+
+    it('should do nothing when the order already has the pseudonym', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const pseudonym = Email.pseudonym();
+      order.anonymizeCustomerEmail(pseudonym);
+      order.pullDomainEvents();
+
+      order.anonymizeCustomerEmail(pseudonym);
+
+      expect(order.pullDomainEvents()).toEqual([]);
+    });
+
+    it('should reject an email that is not a pseudonym', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(() => order.anonymizeCustomerEmail(Email.create('other@example.com'))).toThrow(ValidationError);
+      expect(order.customerEmail.equals(customerEmail)).toBe(true);
+    });
+
+    it('should replay the pseudonym, also from a redacted history', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const pseudonym = Email.pseudonym();
+      order.anonymizeCustomerEmail(pseudonym);
+      const history = order.pullDomainEvents();
+      const redaction = redactOrderCustomerEmail(pseudonym.value);
+
+      const redacted = history.map(event => {
+        const payload = redaction(event);
+        return payload === undefined ? event : { ...event, payload } as OrderDomainEvent;
+      });
+
+      expect(redacted[0]?.payload).toMatchObject({ customerEmail: pseudonym.value });
+      expect(redaction(redacted[1] as OrderDomainEvent)).toBeUndefined();
+      expect(Order.fromHistory(history).customerEmail.equals(pseudonym)).toBe(true);
+      expect(Order.fromHistory(redacted).customerEmail.equals(pseudonym)).toBe(true);
+    });
+  });
+
+  describe('Event sourcing', () => {
+    const rates: ShippingRateCalculator = { rateFor: () => Price.create(4.95, 'EUR') };
+
+    const livedOrder = (): Order => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.changeQuantity('prod-1', 3);
+      order.addItem(OrderItem.create({ productId: 'prod-3', productName: 'Product 3', quantity: 1, unitPrice: Price.create(5, 'EUR'), weightGrams: 250 }));
+      order.removeItem('prod-2');
+      order.applyCoupon(Coupon.create({
+        code: 'SAVE10',
+        discount: Discount.percentage(10),
+        expiresAt: new Date('2999-01-01T00:00:00Z')
+      }));
+      order.quoteShipping(rates);
+      order.confirm('alice');
+      order.ship('bob');
+      return order;
+    };
+
+    it('should rebuild the same order from its events', () => {
+      const order = livedOrder();
+
+      const rebuilt = Order.fromHistory(order.pullDomainEvents());
+
+      expect(rebuilt).not.toBe(order);
+      expect(rebuilt.equals(order)).toBe(true);
+      expect(rebuilt.status).toBe('SHIPPED');
+      expect(rebuilt.customerEmail.equals(customerEmail)).toBe(true);
+      expect(rebuilt.createdAt.getTime()).toBe(order.createdAt.getTime());
+      expect(rebuilt.items.map(item => item.toString())).toEqual(order.items.map(item => item.toString()));
+      expect(rebuilt.coupon?.equals(order.coupon as Coupon)).toBe(true);
+      expect(rebuilt.shippingAddress?.equals(addresses.shippingAddress as Address)).toBe(true);
+      expect(rebuilt.shippingCost?.toString()).toBe('4.95 EUR');
+      expect(rebuilt.statusHistory).toEqual(order.statusHistory);
+      expect(rebuilt.pricing()).toEqual(order.pricing());
+    });
+
+    it('should store amounts as minor units and replay them exactly', () => {
+      const order = Order.create(customerEmail, [
+        OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 3, unitPrice: Price.create(0.1, 'EUR') }),
+        OrderItem.create({ productId: 'prod-2', productName: 'Product 2', quantity: 1, unitPrice: Price.create(0.2, 'EUR') })
+      ], addresses);
+      const history = order.pullDomainEvents();
+
+      expect(JSON.stringify(history.map(event => event.payload))).not.toContain('amount');
+
+      const rebuilt = Order.fromHistory(history);
+      expect(rebuilt.calculateTotal().toMinorUnits()).toBe(50);
+      expect(rebuilt.items.map(item => item.unitPrice.toMinorUnits())).toEqual([10, 20]);
+    });
+
+    it('should replay events stored with decimal amounts', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const [placed] = order.pullDomainEvents() as [OrderPlaced];
+      const legacy = {
+        ...placed,
+        payload: {
+          ...placed.payload,
+          items: placed.payload.items.map(item => ({ ...item, unitPrice: { amount: 10, currency: 'EUR' } })),
+          total: { amount: 30, currency: 'EUR' }
+        }
+      } as unknown as OrderPlaced;
+
+      const rebuilt = Order.fromHistory([legacy]);
+
+      expect(rebuilt.calculateTotal().toString()).toBe('30.00 EUR');
+    });
+
+    it('should reject amounts that are not whole minor units', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const [placed] = order.pullDomainEvents() as [OrderPlaced];
+      const corrupt: OrderPlaced = {
+        ...placed,
+        payload: { ...placed.payload, items: placed.payload.items.map(item => ({ ...item, unitPrice: { minor: '10.5', currency: 'EUR' } })) }
+      };
+
+      expect(() => Order.fromHistory([corrupt])).toThrow(ValidationError);
+    });
+
+    it('should rebuild the customer link', () => {
+      const customerId = CustomerId.generate();
+      const order = Order.create(customerEmail, sampleItems, { ...addresses, customerId });
+
+      expect(Order.fromHistory(order.pullDomainEvents()).customerId?.equals(customerId)).toBe(true);
+    });
+
+    it('should set the version to the number of events and mark it as persisted', () => {
+      const order = livedOrder();
+      const history = order.pullDomainEvents();
+
+      const rebuilt = Order.fromHistory(history);
+
+      expect(rebuilt.version).toBe(history.length);
+      expect(rebuilt.persistedVersion).toBe(history.length);
+      expect(rebuilt.uncommittedEvents).toHaveLength(0);
+      expect(rebuilt.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should continue from a snapshot with the later events', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const [placed] = order.pullDomainEvents();
+      order.quoteShipping(flatShipping);
+      order.confirm();
+
+      const snapshot = Order.fromHistory([placed as OrderDomainEvent]);
+      const rebuilt = Order.fromHistory(order.pullDomainEvents(), snapshot);
+
+      expect(rebuilt.status).toBe('CONFIRMED');
+      expect(rebuilt.version).toBe(3);
+    });
+
+    it('should keep new changes as uncommitted events until persisted', () => {
+      const order = Order.fromHistory(confirmableOrder().pullDomainEvents());
+
+      order.confirm();
+
+      expect(order.uncommittedEvents.map(event => event.eventType)).toEqual(['OrderConfirmed']);
+      order.markPersisted();
+      expect(order.uncommittedEvents).toHaveLength(0);
+      expect(order.persistedVersion).toBe(3);
+    });
+
+    it('should reject a history that does not start with OrderPlaced', () => {
+      const order = confirmableOrder();
+      order.confirm();
+      const [, , confirmed] = order.pullDomainEvents();
+
+      expect(() => Order.fromHistory([])).toThrow(ValidationError);
+      expect(() => Order.fromHistory([confirmed as OrderDomainEvent])).toThrow(ValidationError);
+    });
+
+    it('should reject events from another order', () => {
+      const first = Order.create(customerEmail, sampleItems, addresses);
+      const second = confirmableOrder();
+      second.confirm();
+      const [, , foreign] = second.pullDomainEvents();
+
+      expect(() => Order.fromHistory([...first.pullDomainEvents(), foreign as OrderDomainEvent]))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Domain events', () => {
+    it('should record OrderPlaced on creation', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      const events = order.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      const [placed] = events;
+      expect(placed?.eventType).toBe('OrderPlaced');
+      expect(placed?.aggregateId).toBe(order.id.value);
+      expect(placed?.occurredAt).toBeInstanceOf(Date);
+      expect(placed?.payload).toEqual({
+        customerEmail: 'customer@example.com',
+        items: [
+          { productId: 'prod-1', productName: 'Product 1', quantity: 2, unitPrice: { minor: '1000', currency: 'EUR' } },
+          { productId: 'prod-2', productName: 'Product 2', quantity: 1, unitPrice: { minor: '2000', currency: 'EUR' } }
+        ],
+        total: { minor: '4000', currency: 'EUR' },
+        shippingAddress: { lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' },
+        billingAddress: { lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' }
+      });
+    });
+
+    it('should record one event per successful transition', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.addItem(OrderItem.create({
+        productId: 'prod-3',
+        productName: 'Product 3',
+        quantity: 1,
+        unitPrice: Price.create(15, 'EUR')
+      }));
+      order.quoteShipping(flatShipping);
+      order.confirm();
+      order.ship();
+      order.deliver();
+
+      const types = order.pullDomainEvents().map(e => e.eventType);
+
+      expect(types).toEqual([
+        'OrderPlaced',
+        'OrderItemAdded',
+        'OrderShippingQuoted',
+        'OrderConfirmed',
+        'OrderShipped',
+        'OrderDelivered'
+      ]);
+    });
+
+    it('should record OrderCancelled with the previous status', () => {
+      const order = confirmableOrder();
+      order.confirm();
+      order.pullDomainEvents();
+
+      order.cancel();
+
+      const [cancelled] = order.pullDomainEvents();
+      expect(cancelled?.eventType).toBe('OrderCancelled');
+      expect(cancelled?.payload).toEqual({ previousStatus: 'CONFIRMED' });
+    });
+
+    it('should not record events for failed operations', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.pullDomainEvents();
+
+      expect(() => order.ship()).toThrow(InvalidStateError);
+
+      expect(order.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should empty the pending events once pulled', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      order.pullDomainEvents();
+
+      expect(order.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should not record events on reconstitution', () => {
+      const order = Order.reconstitute(
+        OrderId.generate(),
+        customerEmail,
+        sampleItems,
+        'PENDING',
+        new Date()
+      );
+
+      expect(order.pullDomainEvents()).toHaveLength(0);
+    });
+  });
+
   describe('Equality', () => {
     it('should be equal for same ID', () => {
       const orderId = OrderId.generate();
@@ -264,8 +1277,8 @@ describe('Order Entity', () => {
     });
 
     it('should not be equal for different IDs', () => {
-      const order1 = Order.create(customerEmail, sampleItems);
-      const order2 = Order.create(customerEmail, sampleItems);
+      const order1 = Order.create(customerEmail, sampleItems, addresses);
+      const order2 = Order.create(customerEmail, sampleItems, addresses);
 
       expect(order1.equals(order2)).toBe(false);
     });
@@ -273,17 +1286,17 @@ describe('Order Entity', () => {
 
   describe('Immutability of items getter', () => {
     it('should return defensive copy of items', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
       const items = order.items;
 
       // Try to modify returned array (TypeScript won't allow push, but we can try with type assertion)
       expect(() => {
-        (items as OrderItem[]).push({
+        (items as OrderItem[]).push(OrderItem.create({
           productId: 'prod-3',
           productName: 'Product 3',
           quantity: 1,
           unitPrice: Price.create(30, 'EUR')
-        });
+        }));
       }).not.toThrow();
 
       // Original order should still have 2 items
@@ -293,7 +1306,7 @@ describe('Order Entity', () => {
 
   describe('String representation', () => {
     it('should format order as string', () => {
-      const order = Order.create(customerEmail, sampleItems);
+      const order = Order.create(customerEmail, sampleItems, addresses);
 
       const str = order.toString();
 
@@ -301,5 +1314,12 @@ describe('Order Entity', () => {
       expect(str).toContain('PENDING');
       expect(str).toContain('40.00 EUR');
     });
+
+    it('should format the total for a locale when given one', () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      expect(order.toString('es-ES').replace(/\s/g, ' ')).toContain('Total: 40,00 €');
+      expect(order.toString('en-GB')).toContain('Total: €40.00');
+    });
   });
 });
\ No newline at end of file
@@ -33,6 +33,15 @@ describe('Domain Errors', () => {
       expect(error.message).toContain('CONFIRMED');
     });
 
+    it('should expose state information as properties', () => {
+      const error = new InvalidStateError('Order', 'DELIVERED', 'cancel', ['PENDING']);
+
+      expect(error.entityName).toBe('Order');
+      expect(error.currentState).toBe('DELIVERED');
+      expect(error.attemptedAction).toBe('cancel');
+      expect(error.allowedStates).toEqual(['PENDING']);
+    });
+
     it('should have context information', () => {
       const error = new InvalidStateError('Order', 'DELIVERED', 'cancel');
 
@@ -142,6 +151,16 @@ describe('Domain Errors', () => {
       expect(error.context?.email).toBe('user@example.com');
       expect(error.context?.entityName).toBe('Customer');
     });
+
+    it('should carry expected and actual versions for stale writes', () => {
+      const error = ConflictError.staleVersion('Order', 'abc-123', 3, 4);
+
+      expect(error.message).toBe('Order conflict: Expected version 3 but found 4');
+      expect(error.expectedVersion).toBe(3);
+      expect(error.actualVersion).toBe(4);
+      expect(error.context?.entityId).toBe('abc-123');
+      expect(new ConflictError('Customer', 'Email already exists').expectedVersion).toBeUndefined();
+    });
   });
 
   describe('DomainError base class', () => {
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { CurrencyConverter } from '../../../src/domain/services/CurrencyConverter';
+import { ExchangeRateProvider } from '../../../src/domain/services/ExchangeRateProvider';
+import { ExchangeRate } from '../../../src/domain/value-objects/ExchangeRate';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { Currency } from '../../../src/domain/value-objects/Currency';
+import { BusinessRuleViolationError, ValidationError } from '../../../src/domain/errors';
+
+const asOf = new Date('2024-01-01T00:00:00.000Z');
+
+class FixedRates implements ExchangeRateProvider {
+  constructor(private readonly rates: Record<string, number>) {}
+
+  getRate(base: Currency, quote: Currency): ExchangeRate {
+    return ExchangeRate.create(base, quote, base === quote ? 1 : this.rates[`${base}/${quote}`] ?? NaN, asOf);
+  }
+}
+
+describe('CurrencyConverter', () => {
+  const converter = new CurrencyConverter(new FixedRates({
+    'EUR/USD': 1.08,
+    'EUR/JPY': 161.35,
+    'JPY/EUR': 0.0062
+  }));
+
+  it('should convert a price and record the rate used', () => {
+    const conversion = converter.convert(Price.create(10, 'EUR'), 'USD');
+
+    expect(conversion.result.equals(Price.create(10.8, 'USD'))).toBe(true);
+    expect(conversion.source.equals(Price.create(10, 'EUR'))).toBe(true);
+    expect(conversion.rate.rate).toBe(1.08);
+    expect(conversion.rate.asOf).toEqual(asOf);
+  });
+
+  it('should respect the minor units of each currency', () => {
+    expect(converter.convert(Price.create(10.01, 'EUR'), 'JPY').result.toString()).toBe('1615 JPY');
+    expect(converter.convert(Price.create(1000, 'JPY'), 'EUR').result.toString()).toBe('6.20 EUR');
+  });
+
+  it('should round once using the configured rounding mode', () => {
+    const price = Price.create(0.05, 'EUR'); // 0.05 * 1.08 = 0.054
+
+    expect(converter.convert(price, 'USD').result.toMinorUnits()).toBe(5);
+    expect(new CurrencyConverter(new FixedRates({ 'EUR/USD': 1.1 }), 'FLOOR')
+      .convert(Price.create(0.05, 'EUR'), 'USD').result.toMinorUnits()).toBe(5);
+    expect(new CurrencyConverter(new FixedRates({ 'EUR/USD': 1.1 }), 'HALF_UP')
+      .convert(Price.create(0.05, 'EUR'), 'USD').result.toMinorUnits()).toBe(6);
+  });
+
+  it('should be reproducible with the same rate snapshot', () => {
+    const rate = ExchangeRate.create('EUR', 'USD', 1.0837, asOf);
+    const price = Price.create(1234.56, 'EUR');
+
+    const first = CurrencyConverter.apply(price, rate);
+    const second = CurrencyConverter.apply(price, ExchangeRate.create('EUR', 'USD', 1.0837, asOf));
+
+    expect(first.equals(second)).toBe(true);
+    expect(first.toString()).toBe('1337.89 USD');
+  });
+
+  it('should return the same price for the same currency', () => {
+    const price = Price.create(10, 'EUR');
+
+    expect(converter.convert(price, 'EUR').result.equals(price)).toBe(true);
+  });
+
+  it('should reject a rate that does not match the price currency', () => {
+    const rate = ExchangeRate.create('GBP', 'USD', 1.27, asOf);
+
+    expect(() => CurrencyConverter.apply(Price.create(10, 'EUR'), rate))
+      .toThrow(BusinessRuleViolationError);
+  });
+
+  describe('ExchangeRate', () => {
+    it('should reject non-positive rates', () => {
+      expect(() => ExchangeRate.create('EUR', 'USD', 0, asOf)).toThrow(ValidationError);
+      expect(() => ExchangeRate.create('EUR', 'USD', -1, asOf)).toThrow(ValidationError);
+      expect(() => ExchangeRate.create('EUR', 'USD', NaN, asOf)).toThrow(ValidationError);
+    });
+
+    it('should only allow a rate of 1 for the same currency', () => {
+      expect(() => ExchangeRate.create('EUR', 'EUR', 1.1, asOf)).toThrow(ValidationError);
+    });
+
+    it('should invert a rate keeping its timestamp', () => {
+      const inverse = ExchangeRate.create('EUR', 'USD', 1.25, asOf).inverse();
+
+      expect(inverse.base).toBe('USD');
+      expect(inverse.quote).toBe('EUR');
+      expect(inverse.rate).toBe(0.8);
+      expect(inverse.asOf).toEqual(asOf);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { TaxCalculator } from '../../../src/domain/services/TaxCalculator';
+import { TaxableLine, TaxPolicy, TaxRate } from '../../../src/domain/services/TaxPolicy';
+import { Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Coupon } from '../../../src/domain/value-objects/Coupon';
+import { Discount } from '../../../src/domain/value-objects/Discount';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { Price } from '../../../src/domain/value-objects/Price';
+
+class FixedRates implements TaxPolicy {
+  constructor(
+    private readonly rates: Record<string, number>,
+    private readonly fallback = 21,
+    private readonly shipping = fallback
+  ) {}
+
+  rateFor(line: TaxableLine): TaxRate {
+    const reduced = this.rates[line.productId];
+    return reduced === undefined
+      ? { name: 'Standard', percentage: this.fallback }
+      : { name: 'Reduced', percentage: reduced };
+  }
+
+  shippingRateFor(): TaxRate {
+    return { name: 'Shipping', percentage: this.shipping };
+  }
+}
+
+describe('TaxCalculator', () => {
+  const spain = { country: 'ES' };
+  const item = (productId: string, quantity: number, unitPrice: number): OrderItem => OrderItem.create({
+    productId,
+    productName: productId,
+    quantity,
+    unitPrice: Price.create(unitPrice, 'EUR')
+  });
+  const order = (...items: OrderItem[]) => Order.create(Email.create('customer@example.com'), items);
+
+  describe('Tax-exclusive prices', () => {
+    it('should add tax on top of the net amount', () => {
+      const calculator = new TaxCalculator(new FixedRates({}));
+
+      const breakdown = order(item('p1', 2, 10), item('p2', 1, 20)).calculateTaxes(calculator, spain);
+
+      expect(breakdown.mode).toBe('TAX_EXCLUSIVE');
+      expect(breakdown.net.toString()).toBe('40.00 EUR');
+      expect(breakdown.tax.toString()).toBe('8.40 EUR');
+      expect(breakdown.gross.toString()).toBe('48.40 EUR');
+      expect(breakdown.lines.map(line => line.tax.toString())).toEqual(['4.20 EUR', '4.20 EUR']);
+    });
+
+    it('should group totals per rate', () => {
+      const calculator = new TaxCalculator(new FixedRates({ book: 4 }));
+
+      const breakdown = order(item('p1', 1, 100), item('book', 1, 50), item('p2', 1, 10))
+        .calculateTaxes(calculator, spain);
+
+      expect(breakdown.rates.map(total => [total.rate.name, total.net.toString(), total.tax.toString()])).toEqual([
+        ['Standard', '110.00 EUR', '23.10 EUR'],
+        ['Reduced', '50.00 EUR', '2.00 EUR']
+      ]);
+      expect(breakdown.tax.toString()).toBe('25.10 EUR');
+    });
+  });
+
+  describe('Tax-inclusive prices', () => {
+    it('should extract the net amount from the gross price', () => {
+      const calculator = new TaxCalculator(new FixedRates({}), 'TAX_INCLUSIVE');
+
+      const breakdown = order(item('p1', 1, 121)).calculateTaxes(calculator, spain);
+
+      expect(breakdown.gross.toString()).toBe('121.00 EUR');
+      expect(breakdown.net.toString()).toBe('100.00 EUR');
+      expect(breakdown.tax.toString()).toBe('21.00 EUR');
+    });
+
+    it('should always add up net plus tax to the gross amount', () => {
+      const calculator = new TaxCalculator(new FixedRates({ p2: 10 }), 'TAX_INCLUSIVE');
+
+      const breakdown = order(item('p1', 3, 9.99), item('p2', 1, 0.05)).calculateTaxes(calculator, spain);
+
+      for (const line of breakdown.lines) {
+        expect(line.net.add(line.tax).equals(line.gross)).toBe(true);
+      }
+      expect(breakdown.gross.toString()).toBe('30.02 EUR');
+      expect(breakdown.net.add(breakdown.tax).equals(breakdown.gross)).toBe(true);
+    });
+  });
+
+  describe('Discounts', () => {
+    it('should tax the amount after line and order discounts', () => {
+      const calculator = new TaxCalculator(new FixedRates({}, 10));
+      const discounted = order(item('p1', 1, 30), item('p2', 1, 10));
+      discounted.applyCoupon(Coupon.create({ code: 'FIVE', discount: Discount.fixedAmount(Price.create(5, 'EUR')) }));
+
+      const breakdown = discounted.calculateTaxes(calculator, spain);
+
+      // 5 EUR repartidos 3:1 entre las líneas
+      expect(breakdown.lines.map(line => line.net.toString())).toEqual(['26.25 EUR', '8.75 EUR']);
+      expect(breakdown.net.equals(discounted.calculateTotal())).toBe(true);
+      expect(breakdown.lines.map(line => line.tax.toString())).toEqual(['2.63 EUR', '0.88 EUR']);
+      expect(breakdown.tax.toString()).toBe('3.51 EUR');
+    });
+  });
+
+  describe('Shipping', () => {
+    const shipped = (cost: number, ...items: OrderItem[]) => {
+      const madrid = Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' });
+      const shippedOrder = Order.create(Email.create('customer@example.com'), items, { shippingAddress: madrid });
+      shippedOrder.quoteShipping({ rateFor: () => Price.create(cost, 'EUR') });
+      return shippedOrder;
+    };
+
+    it('should tax shipping as its own line with the shipping rate', () => {
+      const calculator = new TaxCalculator(new FixedRates({}, 21, 10));
+      const shippedOrder = shipped(5, item('p1', 1, 100));
+
+      const breakdown = shippedOrder.calculateTaxes(calculator, spain);
+
+      expect(breakdown.lines).toHaveLength(1);
+      expect(breakdown.shipping?.rate.name).toBe('Shipping');
+      expect(breakdown.shipping?.net.toString()).toBe('5.00 EUR');
+      expect(breakdown.shipping?.tax.toString()).toBe('0.50 EUR');
+      expect(breakdown.rates.map(total => [total.rate.name, total.net.toString(), total.tax.toString()])).toEqual([
+        ['Standard', '100.00 EUR', '21.00 EUR'],
+        ['Shipping', '5.00 EUR', '0.50 EUR']
+      ]);
+      expect(breakdown.net.equals(shippedOrder.calculateTotal())).toBe(true);
+      expect(breakdown.gross.toString()).toBe('126.50 EUR');
+    });
+
+    it('should reconcile the gross amount with the order total when prices include tax', () => {
+      const calculator = new TaxCalculator(new FixedRates({}, 21, 21), 'TAX_INCLUSIVE');
+      const shippedOrder = shipped(6.05, item('p1', 2, 12.1));
+
+      const breakdown = shippedOrder.calculateTaxes(calculator, spain);
+
+      expect(breakdown.gross.equals(shippedOrder.calculateTotal())).toBe(true);
+      expect(breakdown.shipping?.net.toString()).toBe('5.00 EUR');
+      expect(breakdown.net.add(breakdown.tax).equals(breakdown.gross)).toBe(true);
+    });
+
+    it('should have no shipping line without a shipping quote', () => {
+      const calculator = new TaxCalculator(new FixedRates({}));
+
+      expect(order(item('p1', 1, 10)).calculateTaxes(calculator, spain).shipping).toBeNull();
+    });
+  });
+
+  it('should use the rounding mode of the calculator', () => {
+    const halfUp = new TaxCalculator(new FixedRates({}, 10));
+    const floor = new TaxCalculator(new FixedRates({}, 10), 'TAX_EXCLUSIVE', 'FLOOR');
+    const cheap = order(item('p1', 1, 0.05));
+
+    expect(cheap.calculateTaxes(halfUp, spain).tax.toString()).toBe('0.01 EUR');
+    expect(cheap.calculateTaxes(floor, spain).tax.toString()).toBe('0.00 EUR');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { ValidationError } from '../../../src/domain/errors';
+
+describe('Address Value Object', () => {
+  const madrid = {
+    lines: ['Calle Mayor 1', '3º B'],
+    city: 'Madrid',
+    postalCode: '28013',
+    region: 'Madrid',
+    country: 'ES'
+  };
+
+  describe('Creation', () => {
+    it('should create a valid address', () => {
+      const address = Address.create(madrid);
+
+      expect(address.lines).toEqual(['Calle Mayor 1', '3º B']);
+      expect(address.country).toBe('ES');
+      expect(address.toString()).toBe('Calle Mayor 1, 3º B, 28013 Madrid Madrid, ES');
+    });
+
+    it('should normalize whitespace, postal code and country', () => {
+      const address = Address.create({
+        lines: ['  10 Downing St ', ''],
+        city: ' London ',
+        postalCode: 'sw1a 2aa',
+        country: 'gb'
+      });
+
+      expect(address.lines).toEqual(['10 Downing St']);
+      expect(address.city).toBe('London');
+      expect(address.postalCode).toBe('SW1A 2AA');
+      expect(address.country).toBe('GB');
+      expect(address.region).toBeUndefined();
+    });
+
+    it('should accept any postal code for countries without a known format', () => {
+      expect(() => Address.create({ ...madrid, country: 'AR', postalCode: 'C1002AAP' })).not.toThrow();
+    });
+  });
+
+  describe('Postal codes per country', () => {
+    it.each([
+      ['ES', '28013', '2801'],
+      ['US', '94105-1234', '9410'],
+      ['GB', 'EC1A 1BB', '12345'],
+      ['NL', '1012 AB', '1012'],
+      ['PT', '1100-148', '1100'],
+      ['CA', 'K1A 0B1', '12345']
+    ])('should validate %s postal codes', (country, valid, invalid) => {
+      const base = { ...madrid, country, region: 'R' };
+
+      expect(() => Address.create({ ...base, postalCode: valid })).not.toThrow();
+      expect(() => Address.create({ ...base, postalCode: invalid })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Validation errors', () => {
+    it('should report every invalid field at once', () => {
+      try {
+        Address.create({ lines: [' '], city: '', postalCode: 'ABC', country: 'US' });
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).failures.map(f => f.field))
+          .toEqual(['lines', 'city', 'postalCode', 'region']);
+      }
+    });
+
+    it('should reject more than three street lines and invalid countries', () => {
+      expect(() => Address.create({ ...madrid, lines: ['a', 'b', 'c', 'd'] })).toThrow(ValidationError);
+      expect(() => Address.create({ ...madrid, country: 'Spain' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Equality', () => {
+    it('should compare addresses by value', () => {
+      expect(Address.create(madrid).equals(Address.create({ ...madrid, country: 'es' }))).toBe(true);
+      expect(Address.create(madrid).equals(Address.create({ ...madrid, lines: ['Calle Mayor 1'] }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Coupon } from '../../../src/domain/value-objects/Coupon';
+import { Discount } from '../../../src/domain/value-objects/Discount';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { ValidationError, BusinessRuleViolationError } from '../../../src/domain/errors';
+
+describe('Coupon Value Object', () => {
+  const discount = Discount.percentage(10);
+
+  describe('Creation', () => {
+    it('should normalize the code to upper case', () => {
+      const coupon = Coupon.create({ code: ' summer10 ', discount });
+
+      expect(coupon.code).toBe('SUMMER10');
+      expect(coupon.toString()).toBe('SUMMER10 (10% off)');
+    });
+
+    it('should throw ValidationError for invalid codes', () => {
+      expect(() => Coupon.create({ code: 'ab', discount })).toThrow(ValidationError);
+      expect(() => Coupon.create({ code: 'with space', discount })).toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for an invalid expiry date', () => {
+      expect(() => Coupon.create({ code: 'SUMMER10', discount, expiresAt: new Date('nope') }))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Applicability', () => {
+    const expiresAt = new Date('2024-08-31T23:59:59Z');
+    const coupon = Coupon.create({
+      code: 'SUMMER10',
+      discount,
+      expiresAt,
+      minimumOrderValue: Price.create(30, 'EUR')
+    });
+
+    it('should be applicable before expiry and above the minimum', () => {
+      expect(() => coupon.assertApplicable(Price.create(30, 'EUR'), expiresAt)).not.toThrow();
+    });
+
+    it('should throw CouponExpired after the expiry date', () => {
+      expect(coupon.isExpiredAt(new Date('2024-09-01T00:00:00Z'))).toBe(true);
+      expect(() => coupon.assertApplicable(Price.create(50, 'EUR'), new Date('2024-09-01T00:00:00Z')))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should throw MinimumOrderValue below the minimum', () => {
+      try {
+        coupon.assertApplicable(Price.create(29.99, 'EUR'), new Date('2024-08-01T00:00:00Z'));
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as BusinessRuleViolationError).ruleName).toBe('MinimumOrderValue');
+      }
+    });
+
+    it('should never expire without an expiry date', () => {
+      const forever = Coupon.create({ code: 'WELCOME', discount });
+
+      expect(forever.isExpiredAt(new Date('2999-01-01T00:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('Equality', () => {
+    it('should compare coupons by value', () => {
+      const a = Coupon.create({ code: 'SUMMER10', discount });
+
+      expect(a.equals(Coupon.create({ code: 'summer10', discount: Discount.percentage(10) }))).toBe(true);
+      expect(a.equals(Coupon.create({ code: 'SUMMER10', discount: Discount.percentage(20) }))).toBe(false);
+      expect(a.equals(Coupon.create({ code: 'SUMMER10', discount, minimumOrderValue: Price.create(1, 'EUR') })))
+        .toBe(false);
+    });
+  });
+});
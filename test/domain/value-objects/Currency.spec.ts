@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  assertCurrency,
+  assertEnabledCurrency,
+  getCurrencyDefinition,
+  getCurrencyExponent,
+  isCurrency
+} from '../../../src/domain/value-objects/Currency';
+import { currencyRegistry, ISO_4217_CURRENCIES } from '../../../src/domain/value-objects/CurrencyRegistry';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { ValidationError } from '../../../src/domain/errors';
+
+describe('Currency registry', () => {
+  afterEach(() => {
+    currencyRegistry.enableAll();
+  });
+
+  describe('ISO 4217 metadata', () => {
+    it('should describe a currency', () => {
+      expect(getCurrencyDefinition('EUR')).toEqual({
+        code: 'EUR',
+        numericCode: '978',
+        exponent: 2,
+        symbol: '€',
+        name: 'Euro'
+      });
+    });
+
+    it('should know currencies beyond the original four', () => {
+      for (const code of ['MXN', 'CHF', 'SEK', 'BRL', 'PLN']) {
+        expect(isCurrency(code)).toBe(true);
+      }
+    });
+
+    it('should expose the minor unit exponent of each currency', () => {
+      expect(getCurrencyExponent('USD')).toBe(2);
+      expect(getCurrencyExponent('JPY')).toBe(0);
+      expect(getCurrencyExponent('KWD')).toBe(3);
+    });
+
+    it('should find a currency by numeric code', () => {
+      expect(currencyRegistry.findByNumericCode('484')?.code).toBe('MXN');
+      expect(currencyRegistry.findByNumericCode('000')).toBeUndefined();
+    });
+
+    it('should have unique three-letter codes and numeric codes', () => {
+      const entries = Object.entries(ISO_4217_CURRENCIES);
+      const numericCodes = entries.map(([, definition]) => definition.numericCode);
+
+      expect(entries.every(([code]) => /^[A-Z]{3}$/.test(code))).toBe(true);
+      expect(numericCodes.every(code => /^\d{3}$/.test(code))).toBe(true);
+      expect(new Set(numericCodes).size).toBe(numericCodes.length);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject unknown codes', () => {
+      expect(isCurrency('XXX')).toBe(false);
+      expect(isCurrency('eur')).toBe(false);
+      expect(() => assertCurrency('XXX')).toThrow(ValidationError);
+    });
+
+    it('should make Price reject unknown currencies with a ValidationError', () => {
+      expect(() => Price.create(10, 'ABC' as never)).toThrow(ValidationError);
+      expect(() => Price.fromMinorUnits(10, 'ABC' as never)).toThrow(ValidationError);
+    });
+  });
+
+  describe('Enabled subset', () => {
+    it('should restrict the currencies of new operations', () => {
+      currencyRegistry.restrictTo(['EUR', 'MXN']);
+
+      expect(currencyRegistry.isEnabled('MXN')).toBe(true);
+      expect(currencyRegistry.isEnabled('USD')).toBe(false);
+      expect(currencyRegistry.enabledCurrencies().map(c => c.code)).toEqual(['EUR', 'MXN']);
+      expect(() => assertEnabledCurrency('MXN')).not.toThrow();
+      expect(() => assertEnabledCurrency('USD')).toThrow(ValidationError);
+      expect(() => assertEnabledCurrency('XXX')).toThrow(ValidationError);
+    });
+
+    it('should keep disabled currencies valid for existing data', () => {
+      currencyRegistry.restrictTo(['EUR']);
+
+      expect(isCurrency('USD')).toBe(true);
+      expect(() => assertCurrency('USD')).not.toThrow();
+      expect(Price.create(10, 'USD').toString()).toBe('10.00 USD');
+    });
+
+    it('should explain that a known currency is disabled', () => {
+      currencyRegistry.restrictTo(['EUR']);
+
+      try {
+        assertEnabledCurrency('USD');
+        expect.unreachable();
+      } catch (error) {
+        expect((error as ValidationError).failures[0]?.message).toBe('Currency is not enabled');
+      }
+    });
+
+    it('should keep metadata of disabled currencies available', () => {
+      currencyRegistry.restrictTo(['EUR']);
+
+      expect(getCurrencyExponent('JPY')).toBe(0);
+    });
+
+    it('should reject unknown or empty configurations', () => {
+      expect(() => currencyRegistry.restrictTo(['EUR', 'FOO', 'BAR'])).toThrow(ValidationError);
+      expect(() => currencyRegistry.restrictTo([])).toThrow(ValidationError);
+      expect(isCurrency('USD')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { ValidationError } from '../../../src/domain/errors';
+
+describe('CustomerId Value Object', () => {
+  it('should create CustomerId with valid UUID v4', () => {
+    const validUuid = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+
+    expect(CustomerId.create(validUuid).value).toBe(validUuid);
+  });
+
+  it('should throw ValidationError for empty or malformed ids', () => {
+    for (const value of ['', '   ', 'not-a-uuid', 'a1b2c3d4-e5f6-1a7b-8c9d-0e1f2a3b4c5d']) {
+      expect(() => CustomerId.create(value)).toThrow(ValidationError);
+    }
+  });
+
+  it('should report the invalid value in the error', () => {
+    try {
+      CustomerId.create('customer-1');
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).context).toMatchObject({ entityName: 'CustomerId' });
+      expect((error as ValidationError).failures[0]).toMatchObject({ field: 'value', value: 'customer-1' });
+    }
+  });
+
+  it('should generate unique valid ids and compare by value', () => {
+    const id = CustomerId.generate();
+
+    expect(CustomerId.create(id.value).equals(id)).toBe(true);
+    expect(CustomerId.generate().equals(id)).toBe(false);
+    expect(id.toString()).toBe(id.value);
+  });
+});
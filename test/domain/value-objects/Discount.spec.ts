@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Discount, MAX_DISCOUNT_PERCENTAGE } from '../../../src/domain/value-objects/Discount';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { ValidationError, BusinessRuleViolationError } from '../../../src/domain/errors';
+
+describe('Discount Value Object', () => {
+  const line = (productId: string, quantity: number, unitPrice: number) => ({
+    productId,
+    quantity,
+    unitPrice: Price.create(unitPrice, 'EUR')
+  });
+
+  describe('Percentage', () => {
+    it('should discount a percentage of the order amount', () => {
+      const discount = Discount.percentage(10);
+
+      expect(discount.isLineDiscount()).toBe(false);
+      expect(discount.discountForOrder(Price.create(45.5, 'EUR')).toString()).toBe('4.55 EUR');
+    });
+
+    it('should reject non-positive percentages', () => {
+      expect(() => Discount.percentage(0)).toThrow(ValidationError);
+      expect(() => Discount.percentage(-10)).toThrow(ValidationError);
+    });
+
+    it('should throw MaxDiscountPercentage above the allowed maximum', () => {
+      expect(() => Discount.percentage(MAX_DISCOUNT_PERCENTAGE)).not.toThrow();
+
+      try {
+        Discount.percentage(75);
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect((error as BusinessRuleViolationError).ruleName).toBe('MaxDiscountPercentage');
+        expect((error as BusinessRuleViolationError).context).toMatchObject({
+          attemptedDiscount: 75,
+          maxAllowed: MAX_DISCOUNT_PERCENTAGE
+        });
+      }
+    });
+  });
+
+  describe('Fixed amount', () => {
+    it('should never discount more than the order amount', () => {
+      const discount = Discount.fixedAmount(Price.create(5, 'EUR'));
+
+      expect(discount.discountForOrder(Price.create(20, 'EUR')).toString()).toBe('5.00 EUR');
+      expect(discount.discountForOrder(Price.create(3, 'EUR')).toString()).toBe('3.00 EUR');
+    });
+
+    it('should reject a zero amount', () => {
+      expect(() => Discount.fixedAmount(Price.create(0, 'EUR'))).toThrow(ValidationError);
+    });
+
+    it('should throw BusinessRuleViolationError for another currency', () => {
+      const discount = Discount.fixedAmount(Price.create(5, 'USD'));
+
+      expect(() => discount.discountForOrder(Price.create(20, 'EUR'))).toThrow(BusinessRuleViolationError);
+    });
+  });
+
+  describe('Buy X get Y', () => {
+    it('should give Y free units for every X + Y of the product', () => {
+      const threeForTwo = Discount.buyXGetY('prod-1', 2, 1);
+      const subtotal = Price.create(100, 'EUR');
+
+      expect(threeForTwo.isLineDiscount()).toBe(true);
+      expect(threeForTwo.discountForLine(line('prod-1', 2, 10), subtotal).isZero()).toBe(true);
+      expect(threeForTwo.discountForLine(line('prod-1', 3, 10), subtotal).toString()).toBe('10.00 EUR');
+      expect(threeForTwo.discountForLine(line('prod-1', 7, 10), subtotal).toString()).toBe('20.00 EUR');
+    });
+
+    it('should not touch other products', () => {
+      const discount = Discount.buyXGetY('prod-1', 1, 1);
+
+      expect(discount.discountForLine(line('prod-2', 4, 10), Price.create(40, 'EUR')).isZero()).toBe(true);
+    });
+
+    it('should reject invalid quantities', () => {
+      expect(() => Discount.buyXGetY('prod-1', 0, 1)).toThrow(ValidationError);
+      expect(() => Discount.buyXGetY('prod-1', 2, 1.5)).toThrow(ValidationError);
+      expect(() => Discount.buyXGetY(' ', 2, 1)).toThrow(ValidationError);
+    });
+  });
+
+  describe('Free item above threshold', () => {
+    it('should make one unit free once the subtotal reaches the threshold', () => {
+      const discount = Discount.freeItemAbove(Price.create(50, 'EUR'), 'gift');
+
+      expect(discount.discountForLine(line('gift', 2, 4), Price.create(49.99, 'EUR')).isZero()).toBe(true);
+      expect(discount.discountForLine(line('gift', 2, 4), Price.create(50, 'EUR')).toString()).toBe('4.00 EUR');
+      expect(discount.discountForLine(line('other', 1, 4), Price.create(80, 'EUR')).isZero()).toBe(true);
+    });
+  });
+
+  describe('Equality', () => {
+    it('should compare discounts by value', () => {
+      expect(Discount.percentage(10).equals(Discount.percentage(10))).toBe(true);
+      expect(Discount.percentage(10).equals(Discount.percentage(20))).toBe(false);
+      expect(Discount.buyXGetY('p', 2, 1).equals(Discount.buyXGetY('p', 2, 1))).toBe(true);
+      expect(Discount.percentage(10).equals(Discount.fixedAmount(Price.create(10, 'EUR')))).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Email } from '../../../src/domain/value-objects/Email';
+import { Email, MAX_EMAIL_LENGTH } from '../../../src/domain/value-objects/Email';
 import { ValidationError } from '../../../src/domain/errors';
 
 describe('Email Value Object', () => {
@@ -51,6 +51,58 @@ describe('Email Value Object', () => {
       expect(() => Email.create('user@example'))
         .toThrow(ValidationError);
     });
+
+    it('should reject dot-atom violations in the local part', () => {
+      expect(() => Email.create('.user@example.com')).toThrow(ValidationError);
+      expect(() => Email.create('user.@example.com')).toThrow(ValidationError);
+      expect(() => Email.create('us..er@example.com')).toThrow(ValidationError);
+      expect(() => Email.create('us er@example.com')).toThrow(ValidationError);
+    });
+
+    it('should accept the special characters allowed by RFC 5322', () => {
+      expect(Email.create("o'brien+news@example.com").value).toBe("o'brien+news@example.com");
+    });
+
+    it('should reject invalid domain labels', () => {
+      expect(() => Email.create('user@-example.com')).toThrow(ValidationError);
+      expect(() => Email.create('user@example-.com')).toThrow(ValidationError);
+      expect(() => Email.create('user@exa_mple.com')).toThrow(ValidationError);
+      expect(() => Email.create('user@example..com')).toThrow(ValidationError);
+      expect(() => Email.create('user@example.c0m')).toThrow(ValidationError);
+      expect(() => Email.create('user@[192.168.0.1]')).toThrow(ValidationError);
+    });
+
+    it('should enforce the RFC 5321 length limits', () => {
+      const label = 'a'.repeat(63);
+
+      expect(Email.create(`${'a'.repeat(64)}@example.com`).getLocalPart()).toHaveLength(64);
+      expect(() => Email.create(`${'a'.repeat(65)}@example.com`)).toThrow('Local part must be at most 64 characters');
+      expect(() => Email.create(`user@${'a'.repeat(64)}.com`)).toThrow(ValidationError);
+      expect(() => Email.create(`user@${[label, label, label, label].join('.')}.com`)).toThrow('Domain must be at most 253 characters');
+      expect(() => Email.create(`${'a'.repeat(64)}@${[label, label, label].join('.')}.com`))
+        .toThrow(`Email must be at most ${MAX_EMAIL_LENGTH} characters`);
+    });
+
+    it('should reject quoted local parts unless allowed', () => {
+      expect(() => Email.create('"john smith"@example.com')).toThrow('Quoted local parts are not allowed');
+
+      const email = Email.create('"John Smith"@Example.com', { allowQuotedLocalPart: true });
+
+      expect(email.value).toBe('"John Smith"@example.com');
+      expect(email.getLocalPart()).toBe('"John Smith"');
+    });
+
+    it('should reject malformed quoted local parts', () => {
+      expect(() => Email.create('"john"smith"@example.com', { allowQuotedLocalPart: true }))
+        .toThrow('Invalid quoted local part');
+    });
+
+    it('should convert internationalized domains to punycode', () => {
+      const email = Email.create('Ana@Bücher.de');
+
+      expect(email.value).toBe('ana@xn--bcher-kva.de');
+      expect(email.equals(Email.create('ana@xn--bcher-kva.de'))).toBe(true);
+    });
   });
 
   describe('Domain extraction', () => {
@@ -65,6 +117,47 @@ describe('Email Value Object', () => {
 
       expect(email.getDomain()).toBe('mail.example.com');
     });
+
+    it('should return the normalized domain', () => {
+      expect(Email.create('user@Mail.Example.COM').getDomain()).toBe('mail.example.com');
+      expect(Email.create('user@münchen.de').getDomain()).toBe('xn--mnchen-3ya.de');
+    });
+
+    it('should use the last @ for quoted local parts', () => {
+      const email = Email.create('"a@b"@example.com', { allowQuotedLocalPart: true });
+
+      expect(email.getLocalPart()).toBe('"a@b"');
+      expect(email.getDomain()).toBe('example.com');
+    });
+  });
+
+  describe('Canonical form', () => {
+    it('should strip sub-addressing tags', () => {
+      expect(Email.create('ana+shop@example.com').canonical()).toBe('ana@example.com');
+    });
+
+    it('should keep dots outside Gmail', () => {
+      expect(Email.create('a.na@example.com').canonical()).toBe('a.na@example.com');
+    });
+
+    it('should drop dots and use gmail.com for Gmail addresses', () => {
+      expect(Email.create('A.Na+promo@googlemail.com').canonical()).toBe('ana@gmail.com');
+      expect(Email.create('a.n.a@gmail.com').canonical()).toBe('ana@gmail.com');
+    });
+
+    it('should keep quoted local parts as they are', () => {
+      const email = Email.create('"ana+shop"@example.com', { allowQuotedLocalPart: true });
+
+      expect(email.canonical()).toBe('"ana+shop"@example.com');
+    });
+
+    it('should tell whether two emails reach the same mailbox', () => {
+      const email = Email.create('ana+shop@gmail.com');
+
+      expect(email.isSameMailbox(Email.create('a.na@googlemail.com'))).toBe(true);
+      expect(email.equals(Email.create('a.na@googlemail.com'))).toBe(false);
+      expect(email.isSameMailbox(Email.create('ana@example.com'))).toBe(false);
+    });
   });
 
   describe('Equality', () => {
@@ -90,6 +183,29 @@ describe('Email Value Object', () => {
     });
   });
 
+  describe('Pseudonyms', () => {
+    it('should generate a different pseudonym each time in the reserved domain', () => {
+      const first = Email.pseudonym();
+      const second = Email.pseudonym();
+
+      expect(first.getDomain()).toBe('anonymized.invalid');
+      expect(first.isPseudonym()).toBe(true);
+      expect(first.equals(second)).toBe(false);
+    });
+
+    it('should not take a real address for a pseudonym', () => {
+      expect(Email.create('user@example.com').isPseudonym()).toBe(false);
+    });
+
+    it('should reserve the pseudonym domain unless explicitly allowed', () => {
+      expect(() => Email.create('ana@anonymized.invalid')).toThrow(ValidationError);
+      expect(() => Email.create(' Ana@ANONYMIZED.invalid ')).toThrow('domain is reserved');
+
+      const stored = Email.create(Email.pseudonym().value, { allowPseudonym: true });
+      expect(stored.isPseudonym()).toBe(true);
+    });
+  });
+
   describe('String representation', () => {
     it('should return email value as string', () => {
       const email = Email.create('user@example.com');
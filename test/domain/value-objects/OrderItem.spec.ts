@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { ValidationError } from '../../../src/domain/errors';
+
+describe('OrderItem Value Object', () => {
+  const book = {
+    productId: 'prod-1',
+    productName: 'Book',
+    quantity: 3,
+    unitPrice: Price.create(12.5, 'EUR'),
+    weightGrams: 400
+  };
+
+  describe('Creation', () => {
+    it('should create a valid line', () => {
+      const item = OrderItem.create(book);
+
+      expect(item.productId).toBe('prod-1');
+      expect(item.quantity).toBe(3);
+      expect(item.weightGrams).toBe(400);
+      expect(item.toString()).toBe('3 x Book (12.50 EUR)');
+    });
+
+    it('should trim product id and name', () => {
+      const item = OrderItem.create({ ...book, productId: ' prod-1 ', productName: ' Book ' });
+
+      expect(item.productId).toBe('prod-1');
+      expect(item.productName).toBe('Book');
+    });
+
+    it.each([0, -1, 1.5, Number.NaN])('should reject quantity %s', (quantity) => {
+      expect(() => OrderItem.create({ ...book, quantity })).toThrow(ValidationError);
+    });
+
+    it('should report every invalid field at once', () => {
+      try {
+        OrderItem.create({ ...book, productId: ' ', productName: '', quantity: 0, weightGrams: -1 });
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).failures.map(f => f.field))
+          .toEqual(['productId', 'productName', 'quantity', 'weightGrams']);
+      }
+    });
+  });
+
+  describe('Operations', () => {
+    it('should calculate the line total', () => {
+      expect(OrderItem.create(book).lineTotal().toString()).toBe('37.50 EUR');
+    });
+
+    it('should return a new line when changing the quantity', () => {
+      const item = OrderItem.create(book);
+      const changed = item.withQuantity(5);
+
+      expect(changed.quantity).toBe(5);
+      expect(changed.weightGrams).toBe(400);
+      expect(item.quantity).toBe(3);
+      expect(() => item.withQuantity(0)).toThrow(ValidationError);
+    });
+
+    it('should compare by value', () => {
+      expect(OrderItem.create(book).equals(OrderItem.create(book))).toBe(true);
+      expect(OrderItem.create(book).equals(OrderItem.create({ ...book, quantity: 4 }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { PhoneNumber } from '../../../src/domain/value-objects/PhoneNumber';
+import { ValidationError } from '../../../src/domain/errors';
+
+describe('PhoneNumber Value Object', () => {
+  it('should normalize international numbers to E.164', () => {
+    expect(PhoneNumber.create('+34 612 34 56 78').value).toBe('+34612345678');
+    expect(PhoneNumber.create('+1 (415) 555-2671').value).toBe('+14155552671');
+    expect(PhoneNumber.create('0044 20.7946.0958').value).toBe('+442079460958');
+  });
+
+  it('should prefix national numbers with the calling code of the default country', () => {
+    expect(PhoneNumber.create('612 345 678', 'es').value).toBe('+34612345678');
+    expect(PhoneNumber.create('(415) 555-2671', 'US').value).toBe('+14155552671');
+  });
+
+  it('should drop the national trunk prefix except where it is part of the number', () => {
+    expect(PhoneNumber.create('020 7946 0958', 'GB').value).toBe('+442079460958');
+    expect(PhoneNumber.create('06 1234 5678', 'IT').value).toBe('+390612345678');
+  });
+
+  it('should ignore the default country for international numbers', () => {
+    expect(PhoneNumber.create('+44 20 7946 0958', 'ES').value).toBe('+442079460958');
+  });
+
+  it('should throw ValidationError for empty, malformed or too long numbers', () => {
+    for (const value of ['', '   ', '+34 abc 123', '+0 612 345 678', '+34 6', '+1234567890123456']) {
+      expect(() => PhoneNumber.create(value)).toThrow(ValidationError);
+    }
+  });
+
+  it('should require a known country for national numbers', () => {
+    try {
+      PhoneNumber.create('612 345 678');
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).failures[0]).toMatchObject({ field: 'value', value: '612345678' });
+    }
+
+    try {
+      PhoneNumber.create('612 345 678', 'ZZ');
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).failures[0]).toMatchObject({ field: 'country', value: 'ZZ' });
+    }
+  });
+
+  it('should compare by normalized value', () => {
+    const phone = PhoneNumber.create('+34 612 345 678');
+
+    expect(phone.equals(PhoneNumber.create('612-345-678', 'ES'))).toBe(true);
+    expect(phone.equals(PhoneNumber.create('+34 612 345 679'))).toBe(false);
+    expect(phone.toString()).toBe('+34612345678');
+  });
+});
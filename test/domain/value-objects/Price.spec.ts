@@ -37,6 +37,75 @@ describe('Price Value Object', () => {
 
       expect(price.amount).toBe(0);
     });
+
+    it('should round to the decimals of the currency', () => {
+      const price = Price.create(1234.5, 'JPY');
+
+      expect(price.amount).toBe(1235);
+      expect(price.toMinorUnits()).toBe(1235);
+    });
+
+    it('should round from the decimal representation, not the binary float', () => {
+      // 1.005 * 100 === 100.49999999999999 en coma flotante
+      expect(Price.create(1.005, 'EUR').toMinorUnits()).toBe(101);
+    });
+
+    it('should handle amounts in exponential notation', () => {
+      expect(Price.create(1e-7, 'EUR').toMinorUnits()).toBe(0);
+      expect(Price.create(1.5e10, 'EUR').toMinorUnits()).toBe(1_500_000_000_000);
+    });
+
+    it('should throw ValidationError when the amount exceeds the safe integer range', () => {
+      expect(() => Price.create(1e20, 'EUR'))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Rounding modes', () => {
+    it('should round half up by default', () => {
+      expect(Price.create(10.125, 'EUR').toMinorUnits()).toBe(1013);
+      expect(Price.create(10.135, 'EUR').toMinorUnits()).toBe(1014);
+    });
+
+    it('should round half to even', () => {
+      expect(Price.create(10.125, 'EUR', 'HALF_EVEN').toMinorUnits()).toBe(1012);
+      expect(Price.create(10.135, 'EUR', 'HALF_EVEN').toMinorUnits()).toBe(1014);
+      expect(Price.create(10.1251, 'EUR', 'HALF_EVEN').toMinorUnits()).toBe(1013);
+    });
+
+    it('should round down with FLOOR', () => {
+      expect(Price.create(10.129, 'EUR', 'FLOOR').toMinorUnits()).toBe(1012);
+      expect(Price.create(99.9, 'JPY', 'FLOOR').toMinorUnits()).toBe(99);
+    });
+  });
+
+  describe('Minor units', () => {
+    it('should create a price from minor units', () => {
+      const price = Price.fromMinorUnits(1050, 'EUR');
+
+      expect(price.amount).toBe(10.5);
+      expect(price.equals(Price.create(10.5, 'EUR'))).toBe(true);
+    });
+
+    it('should treat minor units of JPY as whole yen', () => {
+      expect(Price.fromMinorUnits(1050, 'JPY').amount).toBe(1050);
+    });
+
+    it('should throw ValidationError for invalid minor units', () => {
+      expect(() => Price.fromMinorUnits(10.5, 'EUR')).toThrow(ValidationError);
+      expect(() => Price.fromMinorUnits(-1, 'EUR')).toThrow(ValidationError);
+      expect(() => Price.fromMinorUnits(Number.MAX_SAFE_INTEGER + 1, 'EUR')).toThrow(ValidationError);
+    });
+
+    it('should add without floating point drift', () => {
+      let total = Price.create(0, 'EUR');
+      for (let i = 0; i < 10; i++) {
+        total = total.add(Price.create(0.1, 'EUR'));
+      }
+
+      expect(total.amount).toBe(1);
+      expect(total.toMinorUnits()).toBe(100);
+    });
   });
 
   describe('Arithmetic Operations', () => {
@@ -90,6 +159,116 @@ describe('Price Value Object', () => {
     });
   });
 
+  describe('Subtraction and percentages', () => {
+    it('should subtract prices with the same currency', () => {
+      const result = Price.create(10, 'EUR').subtract(Price.create(2.5, 'EUR'));
+
+      expect(result.toString()).toBe('7.50 EUR');
+    });
+
+    it('should allow subtracting down to zero', () => {
+      const price = Price.create(10, 'EUR');
+
+      expect(price.subtract(price).isZero()).toBe(true);
+    });
+
+    it('should throw BusinessRuleViolationError when the result would be negative', () => {
+      expect(() => Price.create(1, 'EUR').subtract(Price.create(2, 'EUR')))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should throw BusinessRuleViolationError when subtracting different currencies', () => {
+      expect(() => Price.create(10, 'EUR').subtract(Price.create(1, 'USD')))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should calculate a percentage rounded to the minor unit', () => {
+      expect(Price.create(100, 'EUR').percentage(21).toString()).toBe('21.00 EUR');
+      expect(Price.create(0.1, 'EUR').percentage(25).toString()).toBe('0.03 EUR');
+      expect(Price.create(0.1, 'EUR').percentage(25, 'FLOOR').toString()).toBe('0.02 EUR');
+      expect(Price.create(19.99, 'EUR').percentage(12.5).toString()).toBe('2.50 EUR');
+    });
+
+    it('should reject negative or non-finite percentage rates', () => {
+      expect(() => Price.create(10, 'EUR').percentage(-5)).toThrow(ValidationError);
+      expect(() => Price.create(10, 'EUR').percentage(NaN)).toThrow(ValidationError);
+    });
+  });
+
+  describe('Sum and allocation', () => {
+    it('should sum a list of prices', () => {
+      const total = Price.sum(
+        [Price.create(1.1, 'EUR'), Price.create(2.2, 'EUR'), Price.create(3.3, 'EUR')],
+        'EUR'
+      );
+
+      expect(total.toString()).toBe('6.60 EUR');
+    });
+
+    it('should return zero in the given currency for an empty list', () => {
+      const total = Price.sum([], 'JPY');
+
+      expect(total.isZero()).toBe(true);
+      expect(total.currency).toBe('JPY');
+    });
+
+    it('should throw BusinessRuleViolationError when a price has another currency', () => {
+      expect(() => Price.sum([Price.create(1, 'USD')], 'EUR'))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should allocate without losing minor units', () => {
+      const parts = Price.create(10, 'EUR').allocate([1, 1, 1]);
+
+      expect(parts.map(part => part.toString())).toEqual(['3.34 EUR', '3.33 EUR', '3.33 EUR']);
+      expect(Price.sum(parts, 'EUR').equals(Price.create(10, 'EUR'))).toBe(true);
+    });
+
+    it('should give leftover minor units to the largest remainders', () => {
+      const parts = Price.fromMinorUnits(7, 'EUR').allocate([30, 70]);
+
+      expect(parts.map(part => part.toMinorUnits())).toEqual([2, 5]);
+    });
+
+    it('should accept decimal and zero ratios', () => {
+      const parts = Price.fromMinorUnits(1000, 'JPY').allocate([0.5, 0, 0.25]);
+
+      expect(parts.map(part => part.toMinorUnits())).toEqual([667, 0, 333]);
+    });
+
+    it('should reject empty, negative or all-zero ratios', () => {
+      const price = Price.create(10, 'EUR');
+
+      expect(() => price.allocate([])).toThrow(ValidationError);
+      expect(() => price.allocate([1, -1])).toThrow(ValidationError);
+      expect(() => price.allocate([0, 0])).toThrow(ValidationError);
+    });
+  });
+
+  describe('Comparison', () => {
+    it('should compare prices with the same currency', () => {
+      const low = Price.create(5, 'EUR');
+      const high = Price.create(10, 'EUR');
+
+      expect(low.compare(high)).toBe(-1);
+      expect(high.compare(low)).toBe(1);
+      expect(low.compare(Price.create(5, 'EUR'))).toBe(0);
+      expect(high.greaterThan(low)).toBe(true);
+      expect(high.lessThan(low)).toBe(false);
+      expect(low.lessThan(high)).toBe(true);
+    });
+
+    it('should throw BusinessRuleViolationError when comparing different currencies', () => {
+      expect(() => Price.create(5, 'EUR').greaterThan(Price.create(5, 'USD')))
+        .toThrow(BusinessRuleViolationError);
+    });
+
+    it('should detect zero prices', () => {
+      expect(Price.create(0, 'EUR').isZero()).toBe(true);
+      expect(Price.create(0.01, 'EUR').isZero()).toBe(false);
+    });
+  });
+
   describe('Equality', () => {
     it('should be equal when amount and currency match', () => {
       const price1 = Price.create(10.50, 'EUR');
@@ -138,5 +317,80 @@ describe('Price Value Object', () => {
 
       expect(price.toString()).toBe('10.50 USD');
     });
+
+    it('should print the decimals of each currency', () => {
+      expect(Price.create(0.05, 'EUR').toString()).toBe('0.05 EUR');
+      expect(Price.create(1000, 'JPY').toString()).toBe('1000 JPY');
+    });
+  });
+
+  describe('Locale formatting', () => {
+    // Intl separa con espacios no separables; se normalizan para comparar
+    const plain = (text: string) => text.replace(/\s/g, ' ');
+
+    it('should format with the conventions of each locale', () => {
+      const price = Price.create(1234.5, 'EUR');
+
+      expect(plain(price.format('es-ES'))).toBe('1234,50 €');
+      expect(plain(price.format('fr-FR'))).toBe('1 234,50 €');
+      expect(Price.create(1234.5, 'GBP').format('en-GB')).toBe('£1,234.50');
+    });
+
+    it('should use the decimals of the currency', () => {
+      expect(Price.create(1000, 'JPY').format('en-US')).toBe('¥1,000');
+    });
+
+    it('should show the currency code or name when asked', () => {
+      const price = Price.create(10, 'EUR');
+
+      expect(plain(price.format('es-ES', { display: 'code' }))).toBe('10,00 EUR');
+      expect(price.format('en-GB', { display: 'name' })).toBe('10.00 euros');
+    });
+
+    it('should support compact and accounting styles', () => {
+      expect(Price.create(1234567, 'USD').format('en-US', { compact: true })).toBe('$1.2M');
+      expect(Price.create(10, 'USD').format('en-US', { accounting: true })).toBe('$10.00');
+    });
+  });
+
+  describe('Locale parsing', () => {
+    it('should parse amounts written for a locale', () => {
+      expect(Price.parse('1.234,56 €', 'es-ES').toString()).toBe('1234.56 EUR');
+      expect(Price.parse('£1,234.56', 'en-GB').toString()).toBe('1234.56 GBP');
+      expect(Price.parse('1 234,56 €', 'fr-FR').toString()).toBe('1234.56 EUR');
+      expect(Price.parse('$10', 'en-US').toString()).toBe('10.00 USD');
+    });
+
+    it('should accept ISO codes and an explicit currency', () => {
+      expect(Price.parse('JPY 1,000', 'en-US').toString()).toBe('1000 JPY');
+      expect(Price.parse('12,5', 'es-ES', 'EUR').toString()).toBe('12.50 EUR');
+    });
+
+    it('should parse back what format produces', () => {
+      const price = Price.create(98765.43, 'EUR');
+
+      for (const locale of ['es-ES', 'en-GB', 'fr-FR', 'de-CH']) {
+        expect(Price.parse(price.format(locale), locale).equals(price)).toBe(true);
+      }
+    });
+
+    it('should throw ValidationError for text that is not a price', () => {
+      expect(() => Price.parse('', 'es-ES')).toThrow(ValidationError);
+      expect(() => Price.parse('abc €', 'es-ES')).toThrow(ValidationError);
+      expect(() => Price.parse('1,2,3 €', 'es-ES')).toThrow(ValidationError);
+      expect(() => Price.parse('-5,00 €', 'es-ES')).toThrow(ValidationError);
+      expect(() => Price.parse('1234', 'es-ES')).toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for unknown, ambiguous or mismatched currencies', () => {
+      expect(() => Price.parse('10 XYZ', 'en-US')).toThrow(ValidationError);
+      expect(() => Price.parse('$10', 'es-ES')).toThrow(ValidationError);
+      expect(() => Price.parse('10,00 €', 'es-ES', 'USD')).toThrow(ValidationError);
+    });
+
+    it('should not round amounts with more decimals than the currency allows', () => {
+      expect(() => Price.parse('10,001 €', 'es-ES')).toThrow(ValidationError);
+      expect(() => Price.parse('¥10.5', 'en-US')).toThrow(ValidationError);
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BlockedDomainsEmailPolicy,
+  DISPOSABLE_EMAIL_DOMAINS,
+} from '../../../src/infraestructure/adapters/BlockedDomainsEmailPolicy';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { BusinessRuleViolationError, ValidationError } from '../../../src/domain/errors';
+
+describe('BlockedDomainsEmailPolicy', () => {
+  it('should block the known disposable providers by default', () => {
+    const policy = new BlockedDomainsEmailPolicy();
+
+    expect(DISPOSABLE_EMAIL_DOMAINS).toContain('mailinator.com');
+    expect(() => policy.assertAllowed(Email.create('ana@mailinator.com')))
+      .toThrow(BusinessRuleViolationError);
+    expect(() => policy.assertAllowed(Email.create('ana@mailinator.com'))).toThrowError(
+      expect.objectContaining({
+        context: expect.objectContaining({ ruleName: 'DisposableEmailDomain', domain: 'mailinator.com' }),
+      })
+    );
+  });
+
+  it('should allow any other domain', () => {
+    const policy = new BlockedDomainsEmailPolicy({ internalDomains: ['acme.com'] });
+
+    expect(() => policy.assertAllowed(Email.create('ana@example.com'))).not.toThrow();
+    expect(() => policy.assertAllowed(Email.create('ana@notacme.com'))).not.toThrow();
+  });
+
+  it('should block internal domains and their subdomains', () => {
+    const policy = new BlockedDomainsEmailPolicy({ internalDomains: ['Acme.com'] });
+
+    for (const email of ['ana@acme.com', 'ana@staff.acme.com']) {
+      expect(() => policy.assertAllowed(Email.create(email))).toThrowError(
+        expect.objectContaining({ context: expect.objectContaining({ ruleName: 'InternalEmailDomain' }) })
+      );
+    }
+  });
+
+  it('should match internationalized domains in any spelling', () => {
+    const policy = new BlockedDomainsEmailPolicy({ disposableDomains: [], internalDomains: ['bücher.de'] });
+
+    expect(() => policy.assertAllowed(Email.create('ana@xn--bcher-kva.de'))).toThrow(BusinessRuleViolationError);
+  });
+
+  it('should not block disposable providers when the list is empty', () => {
+    const policy = new BlockedDomainsEmailPolicy({ disposableDomains: [] });
+
+    expect(() => policy.assertAllowed(Email.create('ana@mailinator.com'))).not.toThrow();
+  });
+
+  it('should reject invalid domains in the lists', () => {
+    expect(() => new BlockedDomainsEmailPolicy({ internalDomains: [' '] })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { ConsoleEventPublisher } from '../../../src/infraestructure/adapters/ConsoleEventPublisher';
+import { createDomainEvent } from '../../../src/domain/events/DomainEvent';
+
+describe('ConsoleEventPublisher', () => {
+  it('should write each event as one JSON line', async () => {
+    const lines: string[] = [];
+    const event = createDomainEvent('OrderPlaced', 'Order', 'order-1', { total: 10 }, new Date('2024-05-01T10:00:00Z'));
+
+    await new ConsoleEventPublisher(line => lines.push(line)).publish(event);
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0] as string)).toEqual({
+      eventId: event.eventId,
+      eventType: 'OrderPlaced',
+      aggregateType: 'Order',
+      aggregateId: 'order-1',
+      occurredAt: '2024-05-01T10:00:00.000Z',
+      payload: { total: 10 }
+    });
+  });
+});
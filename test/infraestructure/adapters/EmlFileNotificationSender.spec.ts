@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EmlFileNotificationSender } from '../../../src/infraestructure/adapters/EmlFileNotificationSender';
+import { EmailNotification } from '../../../src/application/ports/NotificationSender';
+import { Email } from '../../../src/domain/value-objects/Email';
+
+/**
+ * Contenido decodificado de la parte MIME del tipo indicado
+ */
+function decodedPart(message: string, contentType: string): string {
+  const match = new RegExp(
+    `Content-Type: ${contentType}; charset=utf-8\\r\\nContent-Transfer-Encoding: base64\\r\\n\\r\\n([A-Za-z0-9+/=\\r\\n]*?)\\r\\n--`
+  ).exec(message);
+  return Buffer.from(match?.[1]?.replaceAll('\r\n', '') ?? '', 'base64').toString('utf8');
+}
+
+describe('EmlFileNotificationSender', () => {
+  let directory: string;
+  const now = new Date('2024-05-01T10:00:00Z');
+
+  const notification: EmailNotification = {
+    to: Email.create('ada@example.com'),
+    subject: 'Tu pedido está en camino: café, tazas y más',
+    text: 'Hola:\n\nHemos enviado tu pedido.\n',
+    html: '<p>Hemos enviado tu pedido.</p>',
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write one .eml file per email, named by date', async () => {
+    const sender = new EmlFileNotificationSender(join(directory, 'outgoing'), {
+      from: Email.create('shop@example.com'),
+      now: () => now,
+    });
+
+    await sender.send(notification);
+    await sender.send(notification);
+
+    const files = await readdir(join(directory, 'outgoing'));
+    expect(files).toHaveLength(2);
+    for (const file of files) {
+      expect(file).toMatch(/^2024-05-01T10-00-00-000Z-[0-9a-f-]{36}\.eml$/);
+    }
+  });
+
+  it('should write a multipart MIME message with the text and HTML versions', async () => {
+    await new EmlFileNotificationSender(directory, { from: Email.create('shop@example.com'), now: () => now })
+      .send(notification);
+
+    const [file] = await readdir(directory);
+    const message = await readFile(join(directory, file ?? ''), 'utf8');
+
+    expect(message).toMatch(/^From: shop@example\.com\r\nTo: ada@example\.com\r\n/);
+    expect(message).toContain('Date: Wed, 01 May 2024 10:00:00 +0000\r\n');
+    expect(message).toMatch(/\r\nMessage-ID: <[0-9a-f-]{36}@example\.com>\r\n/);
+    expect(message).toContain('MIME-Version: 1.0\r\n');
+    expect(decodedPart(message, 'text/plain')).toBe('Hola:\r\n\r\nHemos enviado tu pedido.\r\n');
+    expect(decodedPart(message, 'text/html')).toBe('<p>Hemos enviado tu pedido.</p>');
+    expect(message.split('\r\n').every(line => line.length <= 78)).toBe(true);
+  });
+
+  it('should encode non-ASCII subjects as RFC 2047 encoded words', async () => {
+    await new EmlFileNotificationSender(directory, { from: Email.create('shop@example.com') }).send(notification);
+
+    const [file] = await readdir(directory);
+    const message = await readFile(join(directory, file ?? ''), 'utf8');
+    const subject = /\r\nSubject: ((?:.*\r\n )*.*)\r\n/.exec(message)?.[1] ?? '';
+    const words = subject.split('\r\n ');
+
+    expect(words.length).toBeGreaterThan(1);
+    expect(words.every(word => /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/.test(word) && word.length <= 75)).toBe(true);
+    expect(words.map(word => Buffer.from(word.slice(10, -2), 'base64').toString('utf8')).join(''))
+      .toBe(notification.subject);
+  });
+});
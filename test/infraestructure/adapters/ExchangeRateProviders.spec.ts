@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StaticExchangeRateProvider } from '../../../src/infraestructure/adapters/StaticExchangeRateProvider';
+import { JsonFileExchangeRateProvider } from '../../../src/infraestructure/adapters/JsonFileExchangeRateProvider';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+const asOf = new Date('2024-01-01T00:00:00.000Z');
+
+describe('Exchange rate providers', () => {
+  describe('StaticExchangeRateProvider', () => {
+    const provider = new StaticExchangeRateProvider({
+      base: 'EUR',
+      asOf,
+      rates: { USD: 1.25, GBP: 0.8 }
+    });
+
+    it('should return rates from the base currency', () => {
+      const rate = provider.getRate('EUR', 'USD');
+
+      expect(rate.rate).toBe(1.25);
+      expect(rate.asOf).toEqual(asOf);
+    });
+
+    it('should return inverse rates to the base currency', () => {
+      expect(provider.getRate('USD', 'EUR').rate).toBe(0.8);
+    });
+
+    it('should compute cross rates through the base currency', () => {
+      expect(provider.getRate('USD', 'GBP').rate).toBe(0.64);
+    });
+
+    it('should return a rate of 1 for the same currency', () => {
+      expect(provider.getRate('JPY', 'JPY').rate).toBe(1);
+    });
+
+    it('should throw NotFoundError for unknown pairs', () => {
+      expect(() => provider.getRate('EUR', 'JPY')).toThrow(NotFoundError);
+    });
+
+    it('should reject invalid rates on construction', () => {
+      expect(() => new StaticExchangeRateProvider({ base: 'EUR', asOf, rates: { USD: -1 } }))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('JsonFileExchangeRateProvider', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'rates-'));
+    });
+
+    afterAll(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load a rate table from a JSON file', async () => {
+      const path = join(directory, 'rates.json');
+      await writeFile(path, JSON.stringify({ base: 'EUR', asOf: asOf.toISOString(), rates: { USD: 1.08 } }));
+
+      const provider = await JsonFileExchangeRateProvider.load(path);
+
+      expect(provider.getRate('EUR', 'USD').rate).toBe(1.08);
+      expect(provider.getRate('EUR', 'USD').asOf).toEqual(asOf);
+    });
+
+    it('should throw ValidationError for malformed files', async () => {
+      const invalidJson = join(directory, 'invalid.json');
+      const invalidShape = join(directory, 'shape.json');
+      await writeFile(invalidJson, '{ nope');
+      await writeFile(invalidShape, JSON.stringify({ base: 'XXX', asOf: 'yesterday', rates: { USD: '1.08' } }));
+
+      await expect(JsonFileExchangeRateProvider.load(invalidJson)).rejects.toThrow(ValidationError);
+
+      const error = await JsonFileExchangeRateProvider.load(invalidShape).catch(e => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).failures.map(f => f.field)).toEqual(['base', 'asOf', 'rates.USD']);
+    });
+  });
+});
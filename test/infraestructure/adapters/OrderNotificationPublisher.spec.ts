@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OrderNotificationPublisher } from '../../../src/infraestructure/adapters/OrderNotificationPublisher';
+import { CompositeEventPublisher } from '../../../src/infraestructure/adapters/CompositeEventPublisher';
+import { SendOrderNotification } from '../../../src/application/use-cases';
+import { EventPublisher } from '../../../src/application/ports/EventPublisher';
+import { EmailNotification, NotificationSender } from '../../../src/application/ports/NotificationSender';
+import { InMemoryCustomerRepository } from '../../../src/infraestructure/persistence/InMemoryCustomerRepository';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+
+class RecordingSender implements NotificationSender {
+  readonly sent: EmailNotification[] = [];
+
+  async send(notification: EmailNotification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+describe('Order notification publishing', () => {
+  let orders: InMemoryOrderRepository;
+  let sender: RecordingSender;
+  let publisher: OrderNotificationPublisher;
+  let order: Order;
+
+  beforeEach(async () => {
+    orders = new InMemoryOrderRepository();
+    sender = new RecordingSender();
+    publisher = new OrderNotificationPublisher(
+      new SendOrderNotification(orders, new InMemoryCustomerRepository(), sender, { defaultLocale: 'en' })
+    );
+
+    const address = Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' });
+    order = Order.create(
+      Email.create('customer@example.com'),
+      [OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 1, unitPrice: Price.create(10, 'EUR') })],
+      { shippingAddress: address, billingAddress: address }
+    );
+    order.quoteShipping({ rateFor: () => Price.create(5, 'EUR') });
+    order.confirm();
+    order.ship();
+    order.deliver();
+    await orders.save(order);
+  });
+
+  describe('OrderNotificationPublisher', () => {
+    it('should email the customer for each lifecycle event of the order', async () => {
+      for (const event of order.pullDomainEvents()) {
+        await publisher.publish(event);
+      }
+
+      expect(sender.sent.map(notification => notification.subject)).toEqual([
+        `Your order ${order.id.value} is confirmed`,
+        `Your order ${order.id.value} is on its way`,
+        `Your order ${order.id.value} has been delivered`,
+      ]);
+    });
+
+    it('should pass the cancellation reason', async () => {
+      await publisher.publish(createDomainEvent('OrderCancelled', 'Order', order.id.value, {
+        previousStatus: 'PENDING',
+        reason: 'Out of stock',
+      }));
+
+      expect(sender.sent[0]?.text).toContain('Reason: Out of stock');
+    });
+
+    it('should ignore other events', async () => {
+      await publisher.publish(createDomainEvent('OrderPlaced', 'Order', order.id.value, {}));
+      await publisher.publish(createDomainEvent('OrderConfirmed', 'Invoice', 'invoice-1', {}));
+
+      expect(sender.sent).toHaveLength(0);
+    });
+  });
+
+  describe('CompositeEventPublisher', () => {
+    it('should publish each event in every publisher, in order', async () => {
+      const published: string[] = [];
+      const recording = (name: string): EventPublisher => ({
+        publish: async (event: DomainEvent) => {
+          published.push(`${name}:${event.eventType}`);
+        },
+      });
+      const event = createDomainEvent('OrderShipped', 'Order', order.id.value, { previousStatus: 'CONFIRMED' });
+
+      await new CompositeEventPublisher([recording('log'), recording('broker'), publisher]).publish(event);
+
+      expect(published).toEqual(['log:OrderShipped', 'broker:OrderShipped']);
+      expect(sender.sent).toHaveLength(1);
+    });
+
+    it('should fail when any publisher fails, so the event is retried', async () => {
+      const failing: EventPublisher = { publish: async () => { throw new Error('Broker down'); } };
+      const event = createDomainEvent('OrderShipped', 'Order', order.id.value, { previousStatus: 'CONFIRMED' });
+
+      await expect(new CompositeEventPublisher([publisher, failing]).publish(event)).rejects.toThrow('Broker down');
+      expect(sender.sent).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddressInfo, createServer, Server, Socket } from 'node:net';
+import { SmtpError, SmtpNotificationSender } from '../../../src/infraestructure/adapters/SmtpNotificationSender';
+import { EmailNotification } from '../../../src/application/ports/NotificationSender';
+import { Email } from '../../../src/domain/value-objects/Email';
+
+interface SmtpSession {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Servidor SMTP de prueba: responde a cada orden con la respuesta por
+ * defecto o con la indicada en `replies` (por verbo), y guarda las
+ * órdenes y el mensaje recibido en cada sesión
+ */
+class StandInSmtpServer {
+  readonly sessions: SmtpSession[] = [];
+  private readonly server: Server;
+
+  constructor(
+    private readonly replies: Record<string, string> = {},
+    private readonly greeting: string | null = '220 stand-in ESMTP'
+  ) {
+    this.server = createServer(socket => this.handle(socket));
+  }
+
+  async listen(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(socket: Socket): void {
+    const session: SmtpSession = { commands: [], data: '' };
+    this.sessions.push(session);
+    socket.setEncoding('utf8');
+    if (this.greeting !== null) {
+      socket.write(`${this.greeting}\r\n`);
+    }
+
+    let buffered = '';
+    let readingData = false;
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      for (;;) {
+        if (readingData) {
+          const end = buffered.indexOf('\r\n.\r\n');
+          if (end < 0) {
+            return;
+          }
+          session.data = buffered.slice(0, end + 2);
+          buffered = buffered.slice(end + 5);
+          readingData = false;
+          socket.write(`${this.replies['.'] ?? '250 2.0.0 Queued'}\r\n`);
+          continue;
+        }
+
+        const end = buffered.indexOf('\r\n');
+        if (end < 0) {
+          return;
+        }
+        const command = buffered.slice(0, end);
+        buffered = buffered.slice(end + 2);
+        session.commands.push(command);
+
+        const verb = (command.split(' ')[0] ?? '').toUpperCase();
+        const reply = this.replies[verb] ?? DEFAULT_REPLIES[verb] ?? '500 5.5.1 Unknown command';
+        socket.write(`${reply}\r\n`);
+        if (verb === 'DATA' && reply.startsWith('354')) {
+          readingData = true;
+        }
+        if (verb === 'QUIT') {
+          socket.end();
+        }
+      }
+    });
+    socket.on('error', () => undefined);
+  }
+}
+
+const DEFAULT_REPLIES: Record<string, string> = {
+  EHLO: '250-stand-in greets you\r\n250-8BITMIME\r\n250 SIZE 10240000',
+  HELO: '250 stand-in',
+  MAIL: '250 2.1.0 Ok',
+  RCPT: '250 2.1.5 Ok',
+  DATA: '354 End data with <CR><LF>.<CR><LF>',
+  QUIT: '221 2.0.0 Bye',
+};
+
+describe('SmtpNotificationSender', () => {
+  let server: StandInSmtpServer;
+  const from = Email.create('shop@example.com');
+
+  const notification: EmailNotification = {
+    to: Email.create('ada@example.com'),
+    subject: 'Your order is on its way',
+    text: 'Hello,\n\nWe have shipped your order.\n',
+    html: '<p>We have shipped your order.</p>',
+  };
+
+  const start = async (replies: Record<string, string> = {}, greeting?: string | null): Promise<SmtpNotificationSender> => {
+    server = new StandInSmtpServer(replies, greeting);
+    const port = await server.listen();
+    return new SmtpNotificationSender({ host: '127.0.0.1', port, from, clientName: 'shop.test', timeoutMs: 1_000 });
+  };
+
+  beforeEach(() => {
+    server = new StandInSmtpServer();
+  });
+
+  afterEach(async () => {
+    await server.close().catch(() => undefined);
+  });
+
+  it('should deliver the message through the SMTP conversation', async () => {
+    const sender = await start();
+
+    await sender.send(notification);
+
+    const [session] = server.sessions;
+    expect(session?.commands).toEqual([
+      'EHLO shop.test',
+      'MAIL FROM:<shop@example.com>',
+      'RCPT TO:<ada@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(session?.data).toContain('From: shop@example.com\r\n');
+    expect(session?.data).toContain('To: ada@example.com\r\n');
+    expect(session?.data).toContain('Subject: Your order is on its way\r\n');
+    expect(session?.data).toContain('Content-Type: multipart/alternative;\r\n boundary=');
+  });
+
+  it('should fall back to HELO when the server does not support EHLO', async () => {
+    const sender = await start({ EHLO: '502 5.5.2 Command not implemented' });
+
+    await sender.send(notification);
+
+    expect(server.sessions[0]?.commands.slice(0, 3)).toEqual([
+      'EHLO shop.test',
+      'HELO shop.test',
+      'MAIL FROM:<shop@example.com>',
+    ]);
+  });
+
+  it('should throw SmtpError with the reply code when the recipient is rejected', async () => {
+    const sender = await start({ RCPT: '550 5.1.1 Mailbox unavailable' });
+
+    const error = await sender.send(notification).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({
+      replyCode: 550,
+      message: 'SMTP server rejected RCPT TO: 550 5.1.1 Mailbox unavailable',
+    });
+    expect(server.sessions[0]?.commands).not.toContain('DATA');
+  });
+
+  it('should throw SmtpError when the message is not accepted', async () => {
+    const sender = await start({ '.': '452 4.3.1 Insufficient system storage' });
+
+    await expect(sender.send(notification)).rejects.toMatchObject({ replyCode: 452 });
+  });
+
+  it('should throw SmtpError when the server does not greet in time', async () => {
+    server = new StandInSmtpServer({}, null);
+    const port = await server.listen();
+    const sender = new SmtpNotificationSender({ host: '127.0.0.1', port, from, timeoutMs: 50 });
+
+    await expect(sender.send(notification)).rejects.toThrow('SMTP server did not answer within 50 ms');
+  });
+
+  it('should throw SmtpError when the connection fails', async () => {
+    const port = await server.listen();
+    await server.close();
+    const sender = new SmtpNotificationSender({ host: '127.0.0.1', port, from, timeoutMs: 1_000 });
+
+    await expect(sender.send(notification)).rejects.toMatchObject({ name: 'SmtpError', replyCode: null });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { EuVatTaxPolicy, EU_VAT_STANDARD_RATES } from '../../../src/infraestructure/adapters/EuVatTaxPolicy';
+import { UsSalesTaxPolicy } from '../../../src/infraestructure/adapters/UsSalesTaxPolicy';
+import { TaxExemptPolicy } from '../../../src/infraestructure/adapters/TaxExemptPolicy';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+describe('Tax policies', () => {
+  const line = { productId: 'prod-1' };
+
+  describe('EuVatTaxPolicy', () => {
+    it('should use the standard rate of the country', () => {
+      const policy = new EuVatTaxPolicy();
+
+      expect(policy.rateFor(line, { country: 'ES' })).toEqual({ name: 'ES VAT', percentage: 21 });
+      expect(policy.rateFor(line, { country: 'de' })).toEqual({ name: 'DE VAT', percentage: 19 });
+    });
+
+    it('should cover every member state', () => {
+      expect(Object.keys(EU_VAT_STANDARD_RATES)).toHaveLength(27);
+    });
+
+    it('should use the reduced rate for configured products', () => {
+      const policy = new EuVatTaxPolicy({ reducedRates: { ES: 4 }, reducedRateProducts: ['book-1'] });
+
+      expect(policy.rateFor({ productId: 'book-1' }, { country: 'ES' }).percentage).toBe(4);
+      expect(policy.rateFor({ productId: 'book-1' }, { country: 'FR' }).percentage).toBe(20);
+      expect(policy.rateFor(line, { country: 'ES' }).percentage).toBe(21);
+    });
+
+    it('should tax shipping at the standard rate', () => {
+      const policy = new EuVatTaxPolicy({ reducedRates: { ES: 4 } });
+
+      expect(policy.shippingRateFor({ country: 'es' })).toEqual({ name: 'ES VAT', percentage: 21 });
+      expect(() => policy.shippingRateFor({ country: 'US' })).toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError outside the EU', () => {
+      expect(() => new EuVatTaxPolicy().rateFor(line, { country: 'US' })).toThrow(NotFoundError);
+    });
+  });
+
+  describe('UsSalesTaxPolicy', () => {
+    it('should use the rate of the state', () => {
+      const policy = new UsSalesTaxPolicy();
+
+      expect(policy.rateFor(line, { country: 'US', region: 'CA' }))
+        .toEqual({ name: 'US-CA sales tax', percentage: 7.25 });
+      expect(policy.rateFor(line, { country: 'US', region: 'or' }).percentage).toBe(0);
+    });
+
+    it('should accept a custom table', () => {
+      const policy = new UsSalesTaxPolicy({ NY: 8.875 });
+
+      expect(policy.rateFor(line, { country: 'US', region: 'NY' }).percentage).toBe(8.875);
+    });
+
+    it('should tax shipping at the state rate unless the state exempts it', () => {
+      const policy = new UsSalesTaxPolicy(undefined, { shippingExemptStates: ['ca'] });
+
+      expect(policy.shippingRateFor({ country: 'US', region: 'NY' }))
+        .toEqual({ name: 'US-NY sales tax', percentage: 4 });
+      expect(policy.shippingRateFor({ country: 'US', region: 'CA' }))
+        .toEqual({ name: 'US-CA shipping exempt', percentage: 0 });
+      expect(() => policy.shippingRateFor({ country: 'US' })).toThrow(ValidationError);
+    });
+
+    it('should require a known US state', () => {
+      const policy = new UsSalesTaxPolicy();
+
+      expect(() => policy.rateFor(line, { country: 'US' })).toThrow(ValidationError);
+      expect(() => policy.rateFor(line, { country: 'US', region: 'XX' })).toThrow(NotFoundError);
+      expect(() => policy.rateFor(line, { country: 'ES', region: 'CA' })).toThrow(NotFoundError);
+    });
+  });
+
+  describe('TaxExemptPolicy', () => {
+    it('should apply a 0% rate everywhere', () => {
+      const policy = new TaxExemptPolicy('Exempt: non-profit');
+
+      expect(policy.rateFor()).toEqual({ name: 'Exempt: non-profit', percentage: 0 });
+      expect(policy.shippingRateFor()).toEqual({ name: 'Exempt: non-profit', percentage: 0 });
+    });
+  });
+});
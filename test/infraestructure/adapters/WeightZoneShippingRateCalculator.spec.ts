@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { WeightZoneShippingRateCalculator } from '../../../src/infraestructure/adapters/WeightZoneShippingRateCalculator';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { BusinessRuleViolationError, NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+describe('WeightZoneShippingRateCalculator', () => {
+  const to = (country: string, postalCode: string) =>
+    Address.create({ lines: ['Street 1'], city: 'City', postalCode, country });
+
+  const calculator = new WeightZoneShippingRateCalculator({
+    currency: 'EUR',
+    zones: [
+      { name: 'national', countries: ['ES'] },
+      { name: 'eu', countries: ['FR', 'DE', 'PT'] }
+    ],
+    rates: {
+      national: [{ maxWeightGrams: 20000, amount: 9.95 }, { maxWeightGrams: 2000, amount: 4.95 }],
+      eu: [{ maxWeightGrams: 2000, amount: 12.5 }]
+    }
+  });
+
+  it('should price by zone and weight bracket', () => {
+    expect(calculator.rateFor(to('ES', '28013'), 0).toString()).toBe('4.95 EUR');
+    expect(calculator.rateFor(to('ES', '28013'), 2000).toString()).toBe('4.95 EUR');
+    expect(calculator.rateFor(to('ES', '28013'), 2001).toString()).toBe('9.95 EUR');
+    expect(calculator.rateFor(to('FR', '75001'), 1500).toString()).toBe('12.50 EUR');
+  });
+
+  it('should throw MaxShippingWeight above the heaviest bracket', () => {
+    expect(() => calculator.rateFor(to('FR', '75001'), 2001)).toThrow(BusinessRuleViolationError);
+  });
+
+  it('should throw NotFoundError for countries outside every zone', () => {
+    expect(() => calculator.rateFor(to('JP', '100-0001'), 100)).toThrow(NotFoundError);
+  });
+
+  it('should use a wildcard zone for the rest of the world', () => {
+    const withWorld = new WeightZoneShippingRateCalculator({
+      currency: 'EUR',
+      zones: [{ name: 'national', countries: ['ES'] }, { name: 'world', countries: ['*'] }],
+      rates: {
+        national: [{ maxWeightGrams: 1000, amount: 3 }],
+        world: [{ maxWeightGrams: 1000, amount: 25 }]
+      }
+    });
+
+    expect(withWorld.rateFor(to('ES', '28013'), 100).toString()).toBe('3.00 EUR');
+    expect(withWorld.rateFor(to('JP', '100-0001'), 100).toString()).toBe('25.00 EUR');
+  });
+
+  it('should throw ValidationError for an inconsistent table', () => {
+    expect(() => new WeightZoneShippingRateCalculator({
+      currency: 'EUR',
+      zones: [{ name: 'a', countries: ['ES'] }, { name: 'b', countries: ['FR'] }],
+      rates: { a: [{ maxWeightGrams: 0, amount: 1 }] }
+    })).toThrow(ValidationError);
+  });
+
+  describe('Loading from a JSON file', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'shipping-'));
+    });
+
+    afterAll(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load a rate table', async () => {
+      const path = join(directory, 'rates.json');
+      await writeFile(path, JSON.stringify({
+        currency: 'EUR',
+        zones: [{ name: 'world', countries: ['*'] }],
+        rates: { world: [{ maxWeightGrams: 1000, amount: 7.5 }] }
+      }));
+
+      const loaded = await WeightZoneShippingRateCalculator.load(path);
+
+      expect(loaded.rateFor(to('JP', '100-0001'), 500).toString()).toBe('7.50 EUR');
+    });
+
+    it('should throw ValidationError for malformed files', async () => {
+      const invalidJson = join(directory, 'invalid.json');
+      const invalidShape = join(directory, 'shape.json');
+      await writeFile(invalidJson, '{ nope');
+      await writeFile(invalidShape, JSON.stringify({ currency: 'XXX', zones: [{ name: 'a' }], rates: { a: [{ amount: 1 }] } }));
+
+      await expect(WeightZoneShippingRateCalculator.load(invalidJson)).rejects.toThrow(ValidationError);
+
+      const error = await WeightZoneShippingRateCalculator.load(invalidShape).catch(e => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).failures.map(f => f.field)).toEqual(['currency', 'zones', 'rates.a']);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { toProblemDetails, createProblem } from '../../../src/infraestructure/adapters/problemDetails';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  InvalidStateError,
+  BusinessRuleViolationError
+} from '../../../src/domain/errors';
+
+describe('Problem Details translator', () => {
+  it('should map ValidationError to 422 with invalid-params', () => {
+    const error = new ValidationError('Customer', [
+      { field: 'name', message: 'Cannot be empty' },
+      { field: 'email', message: 'Invalid format', value: 'bad@' }
+    ]);
+
+    const problem = toProblemDetails(error);
+
+    expect(problem.status).toBe(422);
+    expect(problem.type).toBe('urn:problem-type:validation-error');
+    expect(problem['invalid-params']).toEqual([
+      { name: 'name', reason: 'Cannot be empty' },
+      { name: 'email', reason: 'Invalid format' }
+    ]);
+  });
+
+  it('should map NotFoundError to 404', () => {
+    const problem = toProblemDetails(new NotFoundError('Order', 'abc-123'));
+
+    expect(problem.status).toBe(404);
+    expect(problem.detail).toBe("Order with id 'abc-123' not found");
+    expect(problem.entityId).toBe('abc-123');
+  });
+
+  it('should map ConflictError to 409', () => {
+    const problem = toProblemDetails(new ConflictError('Customer', 'Email already exists'));
+
+    expect(problem.status).toBe(409);
+    expect(problem.type).toBe('urn:problem-type:conflict');
+  });
+
+  it('should include the versions of a stale write', () => {
+    const problem = toProblemDetails(ConflictError.staleVersion('Order', 'abc-123', 3, 4));
+
+    expect(problem.status).toBe(409);
+    expect(problem.expectedVersion).toBe(3);
+    expect(problem.actualVersion).toBe(4);
+  });
+
+  it('should map InvalidStateError to 409 including allowedStates', () => {
+    const problem = toProblemDetails(
+      new InvalidStateError('Order', 'DELIVERED', 'cancel', ['PENDING', 'CONFIRMED'])
+    );
+
+    expect(problem.status).toBe(409);
+    expect(problem.type).toBe('urn:problem-type:invalid-state');
+    expect(problem.currentState).toBe('DELIVERED');
+    expect(problem.allowedStates).toEqual(['PENDING', 'CONFIRMED']);
+  });
+
+  it('should map BusinessRuleViolationError to 422 with ruleName', () => {
+    const problem = toProblemDetails(
+      new BusinessRuleViolationError('MaxDiscountPercentage', 'Discount cannot exceed 50%')
+    );
+
+    expect(problem.status).toBe(422);
+    expect(problem.ruleName).toBe('MaxDiscountPercentage');
+  });
+
+  it('should map unknown errors to 500 without leaking details', () => {
+    const problem = toProblemDetails(new Error('database password is hunter2'));
+
+    expect(problem.status).toBe(500);
+    expect(JSON.stringify(problem)).not.toContain('hunter2');
+    expect(problem).not.toHaveProperty('stack');
+  });
+
+  it('should never include the stack trace of domain errors', () => {
+    const problem = toProblemDetails(new NotFoundError('Order', 'abc-123'));
+
+    expect(problem).not.toHaveProperty('stack');
+    expect(problem).not.toHaveProperty('context');
+  });
+
+  it('should include the instance when provided', () => {
+    expect(toProblemDetails(new NotFoundError('Order', 'x'), '/orders/x').instance).toBe('/orders/x');
+  });
+
+  it('should create generic problems', () => {
+    expect(createProblem('http-error', 'Bad Request', 400, 'Invalid JSON')).toEqual({
+      type: 'urn:problem-type:http-error',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Invalid JSON'
+    });
+  });
+});
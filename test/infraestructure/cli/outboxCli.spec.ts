@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OUTBOX_CLI_USAGE, runOutboxCli } from '../../../src/infraestructure/cli/outboxCli';
+import { ListDeadLetters, ReplayDeadLetters } from '../../../src/application/use-cases';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+
+describe('outbox CLI', () => {
+  let outbox: InMemoryOutbox;
+  let lines: string[];
+  let poison: DomainEvent;
+  const now = new Date('2024-05-01T10:00:00Z');
+
+  const run = (...args: string[]): Promise<number> => runOutboxCli(args, {
+    listDeadLetters: new ListDeadLetters(outbox),
+    replayDeadLetters: new ReplayDeadLetters(outbox),
+    print: line => lines.push(line)
+  });
+
+  beforeEach(async () => {
+    outbox = new InMemoryOutbox();
+    lines = [];
+    poison = createDomainEvent('OrderPlaced', 'Order', 'order-1', { total: 10 }, now);
+    outbox.enqueue([poison], now);
+    await outbox.markDead(poison.eventId, 'Broker rejected the message', now);
+  });
+
+  it('should list dead-letter messages', async () => {
+    expect(await run('list')).toBe(0);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain(poison.eventId);
+    expect(lines[0]).toContain('OrderPlaced');
+    expect(lines[0]).toContain('Order/order-1');
+    expect(lines[0]).toContain('error=Broker rejected the message');
+  });
+
+  it('should show a dead-letter message with its payload', async () => {
+    expect(await run('show', poison.eventId)).toBe(0);
+    expect(JSON.parse(lines[0] as string)).toMatchObject({ id: poison.eventId, payload: { total: 10 } });
+
+    expect(await run('show', 'unknown')).toBe(1);
+  });
+
+  it('should replay dead-letter messages by id or all at once', async () => {
+    expect(await run('replay', poison.eventId)).toBe(0);
+    expect(lines).toEqual(['Replayed 1 message(s)']);
+    expect(await outbox.deadLetters()).toEqual([]);
+
+    await outbox.markDead(poison.eventId, 'Again', now);
+    expect(await run('replay', '--all')).toBe(0);
+    expect(await outbox.deadLetters()).toEqual([]);
+
+    await run('list');
+    expect(lines.at(-1)).toBe('No dead-letter messages');
+  });
+
+  it('should report unknown ids without failing the process', async () => {
+    expect(await run('replay', 'unknown')).toBe(1);
+    expect(lines[0]).toContain('DeadLetter');
+  });
+
+  it('should print the usage for missing or unknown commands', async () => {
+    expect(await run()).toBe(0);
+    expect(await run('replay')).toBe(2);
+    expect(await run('purge')).toBe(2);
+    expect(lines).toEqual([OUTBOX_CLI_USAGE, OUTBOX_CLI_USAGE, OUTBOX_CLI_USAGE]);
+  });
+});
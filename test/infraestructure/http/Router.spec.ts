@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { Router } from '../../../src/infraestructure/http/Router';
+import { HttpError } from '../../../src/infraestructure/http/HttpError';
+
+describe('Router', () => {
+  const handler = async () => ({ status: 200 });
+  const router = new Router()
+    .get('/orders/:id', handler)
+    .post('/orders', handler);
+
+  it('should match a route and decode its parameters', () => {
+    expect(router.match('GET', '/orders/a%20b')).toEqual({ handler, params: { id: 'a b' } });
+  });
+
+  it('should report the allowed methods of a path', () => {
+    expect(router.match('DELETE', '/orders')).toEqual({ allowedMethods: ['POST'] });
+    expect(router.match('GET', '/unknown')).toEqual({ allowedMethods: [] });
+  });
+
+  it('should throw HttpError 400 for malformed percent-encoding', () => {
+    expect(() => router.match('GET', '/orders/%E0%A4%A')).toThrow(HttpError);
+    expect(() => router.match('GET', '/orders/%E0%A4%A')).toThrowError(expect.objectContaining({ status: 400 }));
+  });
+});
@@ -0,0 +1,440 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { createHttpServer } from '../../../src/infraestructure/http/server';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { InMemoryCustomerRepository } from '../../../src/infraestructure/persistence/InMemoryCustomerRepository';
+import { BlockedDomainsEmailPolicy } from '../../../src/infraestructure/adapters/BlockedDomainsEmailPolicy';
+import { WeightZoneShippingRateCalculator } from '../../../src/infraestructure/adapters/WeightZoneShippingRateCalculator';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { createDomainEvent } from '../../../src/domain/events/DomainEvent';
+
+describe('HTTP server', () => {
+  let server: Server;
+  let baseUrl: string;
+  const customerOutbox = new InMemoryOutbox();
+  const admin = { Authorization: 'Bearer admin-secret' };
+
+  const request = async (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      ...(body === undefined ? {} : { body: typeof body === 'string' ? body : JSON.stringify(body) })
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  };
+
+  const item = {
+    productId: 'prod-1',
+    productName: 'Product 1',
+    quantity: 2,
+    unitPrice: 10,
+    currency: 'EUR'
+  };
+
+  const address = {
+    lines: ['Calle Mayor 1'],
+    city: 'Madrid',
+    postalCode: '28013',
+    country: 'ES'
+  };
+
+  beforeAll(async () => {
+    server = createHttpServer({
+      orders: new InMemoryOrderRepository(),
+      customers: new InMemoryCustomerRepository(),
+      customerEmailRules: {
+        policy: new BlockedDomainsEmailPolicy({ internalDomains: ['shop.example'] }),
+        duplicateMatch: 'canonical',
+      },
+      shippingRates: new WeightZoneShippingRateCalculator({
+        currency: 'EUR',
+        zones: [{ name: 'world', countries: ['*'] }],
+        rates: { world: [{ maxWeightGrams: 30000, amount: 5 }] }
+      }),
+      outboxes: { customers: customerOutbox },
+      adminToken: 'admin-secret'
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('GET /health', () => {
+    it('should report a healthy status', async () => {
+      const response = await request('GET', '/health');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('healthy');
+    });
+  });
+
+  describe('Orders', () => {
+    it('should run the full order lifecycle', async () => {
+      const created = await request('POST', '/orders', {
+        customerEmail: 'customer@example.com',
+        items: [item],
+        shippingAddress: address
+      });
+      expect(created.status).toBe(201);
+      expect(created.body.total).toEqual({ amount: 20, currency: 'EUR' });
+      const id = created.body.id;
+
+      const withBilling = await request('POST', `/orders/${id}/addresses`, { billingAddress: address });
+      expect(withBilling.status).toBe(200);
+      expect(withBilling.body.billingAddress).toEqual(address);
+
+      const withItem = await request('POST', `/orders/${id}/items`, { ...item, productId: 'prod-2', quantity: 1 });
+      expect(withItem.body.total).toEqual({ amount: 30, currency: 'EUR' });
+
+      const quoted = await request('POST', `/orders/${id}/shipping-quote`);
+      expect(quoted.status).toBe(200);
+      expect(quoted.body.total).toEqual({ amount: 35, currency: 'EUR' });
+      expect(quoted.body.availableActions).toEqual(['confirm', 'cancel']);
+
+      for (const [action, status] of [['confirm', 'CONFIRMED'], ['ship', 'SHIPPED'], ['deliver', 'DELIVERED']]) {
+        const response = await request('POST', `/orders/${id}/${action}`);
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe(status);
+      }
+
+      const fetched = await request('GET', `/orders/${id}`);
+      expect(fetched.body.status).toBe('DELIVERED');
+    });
+
+    it('should cancel an order with a reason', async () => {
+      const created = await request('POST', '/orders', { customerEmail: 'customer@example.com', items: [item] });
+
+      const response = await request('POST', `/orders/${created.body.id}/cancel`, { reason: 'Wrong address' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.statusHistory[1]).toMatchObject({ to: 'CANCELLED', reason: 'Wrong address' });
+    });
+
+    it('should change, remove and replace order items', async () => {
+      const created = await request('POST', '/orders', {
+        customerEmail: 'customer@example.com',
+        items: [item, { ...item, productId: 'prod-2', productName: 'Product 2', quantity: 1 }]
+      });
+      const id = created.body.id;
+
+      const changed = await request('PATCH', `/orders/${id}/items/prod-1`, { quantity: 5 });
+      expect(changed.status).toBe(200);
+      expect(changed.body.total).toEqual({ amount: 60, currency: 'EUR' });
+
+      const removed = await request('DELETE', `/orders/${id}/items/prod-2`);
+      expect(removed.status).toBe(200);
+      expect(removed.body.items.map((i: { productId: string }) => i.productId)).toEqual(['prod-1']);
+
+      const replaced = await request('PUT', `/orders/${id}/items`, { items: [{ ...item, quantity: 1 }] });
+      expect(replaced.status).toBe(200);
+      expect(replaced.body.total).toEqual({ amount: 10, currency: 'EUR' });
+
+      expect((await request('DELETE', `/orders/${id}/items/prod-1`)).status).toBe(422);
+      expect((await request('PATCH', `/orders/${id}/items/missing`, { quantity: 1 })).status).toBe(404);
+    });
+
+    it('should expose the version as ETag and honour If-Match', async () => {
+      const created = await request('POST', '/orders', {
+        customerEmail: 'customer@example.com',
+        items: [item],
+        shippingAddress: address,
+        billingAddress: address
+      });
+      const id = created.body.id;
+      expect(created.headers.get('etag')).toBe('"1"');
+      expect((await request('GET', `/orders/${id}`)).headers.get('etag')).toBe('"1"');
+
+      const quoted = await request('POST', `/orders/${id}/shipping-quote`, {}, { 'If-Match': '"1"' });
+      expect(quoted.headers.get('etag')).toBe('"2"');
+      const confirmed = await request('POST', `/orders/${id}/confirm`, {}, { 'If-Match': '"2"' });
+      expect(confirmed.status).toBe(200);
+      expect(confirmed.headers.get('etag')).toBe('"3"');
+
+      // Otro operador sigue trabajando sobre la versión 2
+      const stale = await request('POST', `/orders/${id}/cancel`, { reason: 'Duplicated' }, { 'If-Match': '"2"' });
+      expect(stale.status).toBe(412);
+      expect(stale.body).toMatchObject({ expectedVersion: 2, actualVersion: 3 });
+      expect((await request('GET', `/orders/${id}`)).body.status).toBe('CONFIRMED');
+
+      expect((await request('POST', `/orders/${id}/ship`, {}, { 'If-Match': 'W/"3"' })).status).toBe(400);
+      expect((await request('POST', `/orders/${id}/ship`, {}, { 'If-Match': '*' })).status).toBe(200);
+    });
+
+    it('should respond 409 problem+json for an invalid transition', async () => {
+      const created = await request('POST', '/orders', { customerEmail: 'customer@example.com', items: [item] });
+
+      const response = await request('POST', `/orders/${created.body.id}/deliver`);
+
+      expect(response.status).toBe(409);
+      expect(response.headers.get('content-type')).toContain('application/problem+json');
+      expect(response.body.allowedStates).toEqual(['SHIPPED']);
+      expect(response.body.instance).toBe(`/orders/${created.body.id}/deliver`);
+    });
+
+    it('should respond 422 with invalid-params for invalid input', async () => {
+      const response = await request('POST', '/orders', { customerEmail: 'not-an-email', items: [item] });
+
+      expect(response.status).toBe(422);
+      expect(response.body['invalid-params']).toEqual([{ name: 'value', reason: 'Invalid email format' }]);
+    });
+
+    it('should respond 404 for an unknown order', async () => {
+      const response = await request('GET', `/orders/${crypto.randomUUID()}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should respond 400 for a malformed body', async () => {
+      const response = await request('POST', '/orders', '{not json');
+      expect(response.status).toBe(400);
+      expect(response.body.detail).toBe('Request body is not valid JSON');
+      expect((await request('POST', '/orders', { customerEmail: 42, items: [] })).status).toBe(400);
+    });
+  });
+
+  describe('Customers', () => {
+    it('should register, fetch and update a customer', async () => {
+      const created = await request('POST', '/customers', { name: 'John Doe', email: 'john@example.com' });
+      expect(created.status).toBe(201);
+      const id = created.body.id;
+
+      const updated = await request('PATCH', `/customers/${id}`, {
+        name: 'John Smith',
+        email: 'john.smith@example.com',
+        isActive: false
+      });
+      expect(updated.status).toBe(200);
+      expect(updated.body).toMatchObject({ name: 'John Smith', email: 'john.smith@example.com', isActive: false });
+
+      const fetched = await request('GET', `/customers/${id}`);
+      expect(fetched.body.isActive).toBe(false);
+    });
+
+    it('should reject a customer update with a stale If-Match', async () => {
+      const created = await request('POST', '/customers', { name: 'Jane Doe', email: 'jane@example.com' });
+      const id = created.body.id;
+      const etag = created.headers.get('etag') ?? '';
+
+      const renamed = await request('PATCH', `/customers/${id}`, { name: 'Jane Smith', isActive: false }, { 'If-Match': etag });
+      expect(renamed.status).toBe(200);
+      expect(renamed.headers.get('etag')).toBe('"3"');
+
+      const stale = await request('PATCH', `/customers/${id}`, { name: 'Jane Roe' }, { 'If-Match': etag });
+      expect(stale.status).toBe(412);
+      expect((await request('GET', `/customers/${id}`)).body.name).toBe('Jane Smith');
+    });
+
+    it('should list the customer order history and refuse orders once inactive', async () => {
+      const created = await request('POST', '/customers', { name: 'Ada Lovelace', email: 'ada@example.com' });
+      const id = created.body.id;
+
+      const placed = await request('POST', '/orders', { customerId: id, items: [item] });
+      expect(placed.status).toBe(201);
+      expect(placed.body).toMatchObject({ customerId: id, customerEmail: 'ada@example.com' });
+
+      const history = await request('GET', `/customers/${id}/orders`);
+      expect(history.status).toBe(200);
+      expect(history.body).toMatchObject({
+        customerId: id,
+        orders: [{ id: placed.body.id, status: 'PENDING', total: placed.body.total }]
+      });
+
+      await request('PATCH', `/customers/${id}`, { isActive: false });
+      const refused = await request('POST', '/orders', { customerId: id, items: [item] });
+      expect(refused.status).toBe(422);
+      expect(refused.body.ruleName).toBe('ActiveCustomerRequired');
+      expect((await request('GET', `/customers/${crypto.randomUUID()}/orders`)).status).toBe(404);
+    });
+
+    it('should manage the profile and address book of a customer', async () => {
+      const created = await request('POST', '/customers', { name: 'Grace Hopper', email: 'grace@example.com' });
+      const id = created.body.id;
+      const home = { lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' };
+
+      const added = await request('POST', `/customers/${id}/addresses`, { label: 'Home', address: home });
+      expect(added.status).toBe(200);
+      expect(added.body.addressBook).toEqual([{ label: 'Home', address: home, defaultShipping: true, defaultBilling: true }]);
+
+      const updated = await request('PATCH', `/customers/${id}`, {
+        phoneNumber: '612 345 678',
+        preferredLocale: 'es-ES',
+        preferredCurrency: 'EUR',
+        marketingConsents: { email: true, sms: true },
+      }, { 'If-Match': added.headers.get('etag') ?? '' });
+      expect(updated.status).toBe(200);
+      expect(updated.body).toMatchObject({ phoneNumber: '+34612345678', preferredLocale: 'es-ES', preferredCurrency: 'EUR' });
+      expect(updated.body.marketingConsents.map((consent: { channel: string }) => consent.channel)).toEqual(['email', 'sms']);
+
+      const office = await request('POST', `/customers/${id}/addresses`, {
+        label: 'Oficina Central',
+        address: { ...home, postalCode: '28014' },
+        defaultBilling: true,
+      });
+      expect(office.body.addressBook[1]).toMatchObject({ label: 'Oficina Central', defaultBilling: true });
+
+      const removed = await request('DELETE', `/customers/${id}/addresses/${encodeURIComponent('oficina central')}`);
+      expect(removed.status).toBe(200);
+      expect(removed.body.addressBook).toHaveLength(1);
+      expect((await request('DELETE', `/customers/${id}/addresses/Office`)).status).toBe(404);
+
+      const placed = await request('POST', '/orders', { customerId: id, items: [item] });
+      expect(placed.body.shippingAddress).toEqual(home);
+    });
+
+    it('should reject profile edits on a deactivated customer', async () => {
+      const created = await request('POST', '/customers', { name: 'Alan Turing', email: 'alan@example.com' });
+      const id = created.body.id;
+      await request('PATCH', `/customers/${id}`, { isActive: false });
+
+      const refused = await request('PATCH', `/customers/${id}`, { preferredLocale: 'en-GB' });
+      expect(refused.status).toBe(409);
+
+      const reactivated = await request('PATCH', `/customers/${id}`, { isActive: true, preferredLocale: 'en-GB' });
+      expect(reactivated.status).toBe(200);
+      expect(reactivated.body).toMatchObject({ isActive: true, preferredLocale: 'en-GB' });
+      expect((await request('PATCH', `/customers/${id}`, { marketingConsents: { email: 'yes' } })).status).toBe(400);
+    });
+
+    it('should apply a customer update entirely or not at all', async () => {
+      const created = await request('POST', '/customers', { name: 'Katherine Johnson', email: 'katherine@example.com' });
+      const id = created.body.id;
+
+      const refused = await request('PATCH', `/customers/${id}`, { name: 'Katherine Goble', marketingConsents: { sms: true } });
+      expect(refused.status).toBe(422);
+
+      const current = await request('GET', `/customers/${id}`);
+      expect(current.body.name).toBe('Katherine Johnson');
+      expect(current.headers.get('etag')).toBe(created.headers.get('etag'));
+    });
+
+    it('should export and anonymize a customer on request', async () => {
+      const created = await request('POST', '/customers', { name: 'Ada Byron', email: 'ada.byron@example.com' });
+      const id = created.body.id;
+      const placed = await request('POST', '/orders', { customerId: id, items: [item] });
+
+      const exported = await request('GET', `/customers/${id}/export`);
+      expect(exported.status).toBe(200);
+      expect(exported.headers.get('content-disposition')).toBe(`attachment; filename="customer-${id}.json"`);
+      expect(exported.body).toMatchObject({ customer: { id, email: 'ada.byron@example.com' }, orders: [{ id: placed.body.id }] });
+
+      const refused = await request('POST', `/customers/${id}/anonymize`);
+      expect(refused.status).toBe(422);
+      expect(refused.body.ruleName).toBe('NoOpenOrders');
+
+      await request('POST', `/orders/${placed.body.id}/cancel`);
+      const anonymized = await request('POST', `/customers/${id}/anonymize`);
+      expect(anonymized.status).toBe(200);
+      expect(anonymized.body.email).not.toBe('ada.byron@example.com');
+      expect((await request('GET', `/customers/${id}/orders`)).body.orders).toHaveLength(1);
+      expect((await request('GET', `/orders/${placed.body.id}`)).body.customerEmail).toBe(anonymized.body.email);
+    });
+
+    it('should respond 409 for a duplicated email', async () => {
+      await request('POST', '/customers', { name: 'Jane Doe', email: 'jane@example.com' });
+
+      const response = await request('POST', '/customers', { name: 'Jane', email: 'jane@example.com' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should apply the configured email rules', async () => {
+      const disposable = await request('POST', '/customers', { name: 'Spam', email: 'spam@mailinator.com' });
+      expect(disposable.status).toBe(422);
+      expect(disposable.body.ruleName).toBe('DisposableEmailDomain');
+
+      const internal = await request('POST', '/customers', { name: 'Staff', email: 'staff@shop.example' });
+      expect(internal.body.ruleName).toBe('InternalEmailDomain');
+
+      const created = await request('POST', '/customers', { name: 'Linus', email: 'Linus@Bücher.de' });
+      expect(created.status).toBe(201);
+      expect(created.body.email).toBe('linus@xn--bcher-kva.de');
+
+      const tagged = await request('POST', '/customers', { name: 'Linus', email: 'linus+shop@bücher.de' });
+      expect(tagged.status).toBe(409);
+    });
+  });
+
+  describe('Outbox administration', () => {
+    it('should list and replay the dead letters of an in-memory outbox', async () => {
+      const event = createDomainEvent('CustomerRegistered', 'Customer', 'customer-1', {});
+      customerOutbox.enqueue([event]);
+      await customerOutbox.markDead(event.eventId, 'Broker down', new Date());
+
+      const listed = await request('GET', '/admin/outboxes/customers/dead-letters', undefined, admin);
+      expect(listed.status).toBe(200);
+      expect(listed.body).toMatchObject([{ id: event.eventId, eventType: 'CustomerRegistered', lastError: 'Broker down' }]);
+
+      const replayed = await request('POST', '/admin/outboxes/customers/dead-letters/replay', { messageIds: [event.eventId] }, admin);
+      expect(replayed.status).toBe(200);
+      expect(replayed.body).toEqual({ replayed: [event.eventId] });
+      expect((await request('GET', '/admin/outboxes/customers/dead-letters', undefined, admin)).body).toEqual([]);
+      expect(await customerOutbox.due(new Date(), 10)).toMatchObject([{ id: event.eventId, attempts: 0 }]);
+    });
+
+    it('should reject unknown outboxes, unknown messages and malformed ids', async () => {
+      expect((await request('GET', '/admin/outboxes/payments/dead-letters', undefined, admin)).status).toBe(404);
+      expect((await request('POST', '/admin/outboxes/customers/dead-letters/replay', { messageIds: ['unknown'] }, admin)).status)
+        .toBe(404);
+      expect((await request('POST', '/admin/outboxes/customers/dead-letters/replay', { messageIds: [1] }, admin)).status)
+        .toBe(400);
+    });
+
+    it('should not treat inherited properties as outboxes', async () => {
+      for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+        expect((await request('GET', `/admin/outboxes/${name}/dead-letters`, undefined, admin)).status).toBe(404);
+      }
+    });
+
+    it('should require the admin token', async () => {
+      const anonymous = await request('GET', '/admin/outboxes/customers/dead-letters');
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+
+      expect((await request('GET', '/admin/outboxes/customers/dead-letters', undefined, { Authorization: 'Bearer wrong' })).status)
+        .toBe(401);
+      expect((await request('POST', '/admin/outboxes/customers/dead-letters/replay', {}, { Authorization: 'Basic admin-secret' })).status)
+        .toBe(401);
+    });
+
+    it('should not expose the admin routes without an admin token', async () => {
+      const unprotected = createHttpServer({
+        orders: new InMemoryOrderRepository(),
+        customers: new InMemoryCustomerRepository(),
+        outboxes: { customers: customerOutbox }
+      });
+      await new Promise<void>(resolve => unprotected.listen(0, resolve));
+      try {
+        const port = (unprotected.address() as AddressInfo).port;
+        const response = await fetch(`http://127.0.0.1:${port}/admin/outboxes/customers/dead-letters`, { headers: admin });
+        expect(response.status).toBe(404);
+      } finally {
+        await new Promise(resolve => unprotected.close(resolve));
+      }
+    });
+  });
+
+  describe('Routing', () => {
+    it('should respond 404 for unknown routes', async () => {
+      expect((await request('GET', '/unknown')).status).toBe(404);
+    });
+
+    it('should respond 400 for malformed percent-encoding in the path', async () => {
+      const response = await request('GET', '/orders/%E0%A4%A');
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get('content-type')).toContain('application/problem+json');
+    });
+
+    it('should respond 405 with Allow header for unsupported methods', async () => {
+      const response = await request('DELETE', '/orders');
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('allow')).toBe('POST');
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EventLogOutbox } from '../../../src/infraestructure/persistence/EventLogOutbox';
+import { InMemoryEventStore } from '../../../src/infraestructure/persistence/InMemoryEventStore';
+import { RecordedEvent } from '../../../src/application/ports/EventStore';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+/**
+ * Almacén de prueba que anota desde qué posición se lee con `readAll()`
+ */
+class ReadTrackingEventStore extends InMemoryEventStore {
+  readonly reads: number[] = [];
+
+  override async readAll(afterPosition = 0): Promise<RecordedEvent[]> {
+    this.reads.push(afterPosition);
+    return super.readAll(afterPosition);
+  }
+}
+
+describe('EventLogOutbox', () => {
+  let directory: string;
+  let journal: string;
+  let events: InMemoryEventStore;
+  const now = new Date('2024-05-01T10:00:00Z');
+  const later = new Date('2024-05-01T10:05:00Z');
+
+  const event = (aggregateId: string, value = 1): DomainEvent =>
+    createDomainEvent('SomethingHappened', 'Thing', aggregateId, { value }, now);
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'outbox-'));
+    journal = join(directory, 'outbox.jsonl');
+    events = new InMemoryEventStore();
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should offer every stored event that has not been delivered', async () => {
+    const first = event('1');
+    const second = event('2');
+    await events.append('Thing-1', 0, [first]);
+    await events.append('Thing-2', 0, [second]);
+    const outbox = await EventLogOutbox.open(events, journal);
+
+    expect((await outbox.due(now, 10)).map(message => message.id)).toEqual([first.eventId, second.eventId]);
+
+    await outbox.markDelivered(first.eventId);
+
+    expect((await outbox.due(now, 10)).map(message => message.id)).toEqual([second.eventId]);
+    expect(await outbox.due(now, 0)).toEqual([]);
+  });
+
+  it('should offer events appended after opening', async () => {
+    const outbox = await EventLogOutbox.open(events, journal);
+    const first = event('1');
+
+    await events.append('Thing-1', 0, [first]);
+
+    expect(await outbox.due(now, 10)).toMatchObject([{ id: first.eventId, attempts: 0 }]);
+  });
+
+  it('should keep the delivery state in the journal', async () => {
+    const [delivered, failed, dead] = [event('1'), event('1', 2), event('1', 3)];
+    await events.append('Thing-1', 0, [delivered, failed, dead] as DomainEvent[]);
+    const outbox = await EventLogOutbox.open(events, journal);
+    await outbox.markDelivered(delivered?.eventId as string);
+    await outbox.markFailed(failed?.eventId as string, 'Broker down', later);
+    await outbox.markDead(dead?.eventId as string, 'Malformed payload', now);
+
+    const reopened = await EventLogOutbox.open(events, journal);
+
+    expect(await reopened.due(now, 10)).toEqual([]);
+    expect(await reopened.due(later, 10)).toMatchObject([{ id: failed?.eventId, attempts: 1, lastError: 'Broker down' }]);
+    expect(await reopened.deadLetters()).toMatchObject([{ id: dead?.eventId, attempts: 1, deadAt: now }]);
+    expect((await readFile(journal, 'utf8')).trim().split('\n')).toHaveLength(3);
+  });
+
+  it('should not offer events behind a dead event of the same aggregate', async () => {
+    const [dead, behind, other] = [event('1'), event('1', 2), event('2')];
+    await events.append('Thing-1', 0, [dead, behind] as DomainEvent[]);
+    await events.append('Thing-2', 0, [other] as DomainEvent[]);
+    const outbox = await EventLogOutbox.open(events, journal);
+
+    await outbox.markDead(dead?.eventId as string, 'Malformed payload', now);
+
+    expect((await outbox.due(later, 10)).map(message => message.id)).toEqual([other?.eventId]);
+    await outbox.requeue(dead?.eventId as string, later);
+    expect((await outbox.due(later, 10)).map(message => message.id))
+      .toEqual([dead?.eventId, behind?.eventId, other?.eventId]);
+  });
+
+  it('should requeue dead messages, also from another process', async () => {
+    const first = event('1');
+    await events.append('Thing-1', 0, [first]);
+    const server = await EventLogOutbox.open(events, journal);
+    await server.markDead(first.eventId, 'Malformed payload', now);
+
+    const cli = await EventLogOutbox.open(events, journal);
+    await cli.requeue(first.eventId, later);
+
+    expect(await server.deadLetters()).toEqual([]);
+    expect(await server.due(later, 10)).toMatchObject([{ id: first.eventId, attempts: 0, deadAt: null }]);
+    await expect(server.requeue(first.eventId, later)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should only read new events, also behind an undelivered one', async () => {
+    const tracking = new ReadTrackingEventStore();
+    const [dead, delivered] = [event('1'), event('2')];
+    await tracking.append('Thing-1', 0, [dead] as DomainEvent[]);
+    await tracking.append('Thing-2', 0, [delivered] as DomainEvent[]);
+    const outbox = await EventLogOutbox.open(tracking, journal);
+    await outbox.markDead(dead?.eventId as string, 'Malformed payload', now);
+    await outbox.markDelivered(delivered?.eventId as string);
+
+    await outbox.due(later, 10);
+    await outbox.due(later, 10);
+
+    expect(tracking.reads).toEqual([0, 2]);
+    expect(await outbox.deadLetters()).toMatchObject([{ id: dead?.eventId }]);
+  });
+
+  it('should offer the current payload of events redacted after reading them', async () => {
+    const [dead, pending] = [event('1'), event('2')];
+    await events.append('Thing-1', 0, [dead]);
+    await events.append('Thing-2', 0, [pending]);
+    const outbox = await EventLogOutbox.open(events, journal);
+    await outbox.markDead(dead.eventId, 'Malformed payload', now);
+    await outbox.due(now, 10);
+
+    await events.redactStream('Thing-1', () => ({ value: 0 }));
+    await events.redactStream('Thing-2', () => ({ value: 0 }));
+
+    expect((await outbox.deadLetters()).map(message => message.event.payload)).toEqual([{ value: 0 }]);
+    expect((await outbox.due(now, 10)).map(message => message.event.payload)).toEqual([{ value: 0 }]);
+  });
+
+  it('should apply a journal line written in two steps by another process', async () => {
+    const first = event('1');
+    await events.append('Thing-1', 0, [first]);
+    const outbox = await EventLogOutbox.open(events, journal);
+    const line = JSON.stringify({ id: first.eventId, status: 'delivered', at: now.toISOString() });
+
+    await appendFile(journal, line.slice(0, 10), 'utf8');
+    expect(await outbox.due(now, 10)).toHaveLength(1);
+
+    await appendFile(journal, `${line.slice(10)}\n`, 'utf8');
+    expect(await outbox.due(now, 10)).toEqual([]);
+  });
+
+  it('should apply each journal line once when reads overlap', async () => {
+    const [failed, delivered] = [event('1'), event('2')];
+    await events.append('Thing-1', 0, [failed]);
+    await events.append('Thing-2', 0, [delivered]);
+    const outbox = await EventLogOutbox.open(events, journal);
+    await appendFile(journal, [
+      JSON.stringify({ id: failed.eventId, status: 'failed', at: now.toISOString(), error: 'Broker down', nextAttemptAt: now.toISOString() }),
+      JSON.stringify({ id: delivered.eventId, status: 'delivered', at: now.toISOString() }),
+    ].map(line => `${line}\n`).join(''), 'utf8');
+
+    await Promise.all([outbox.due(later, 10), outbox.deadLetters(), outbox.due(later, 10)]);
+    expect(await outbox.due(later, 10)).toMatchObject([{ id: failed.eventId, attempts: 1 }]);
+
+    await appendFile(journal, `${JSON.stringify({ id: failed.eventId, status: 'delivered', at: later.toISOString() })}\n`, 'utf8');
+    expect(await outbox.due(later, 10)).toEqual([]);
+  });
+
+  it('should reject a malformed journal', async () => {
+    await writeFile(journal, '{"id":"1","status":"lost","at":"2024-05-01T10:00:00Z"}\n', 'utf8');
+    await expect(EventLogOutbox.open(events, journal)).rejects.toThrow(ValidationError);
+
+    await writeFile(journal, 'not json\n', 'utf8');
+    await expect(EventLogOutbox.open(events, journal)).rejects.toThrow(ValidationError);
+  });
+});
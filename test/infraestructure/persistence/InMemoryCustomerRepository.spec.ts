@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryCustomerRepository } from '../../../src/infraestructure/persistence/InMemoryCustomerRepository';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { Customer } from '../../../src/domain/entities/Customer';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { PhoneNumber } from '../../../src/domain/value-objects/PhoneNumber';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { ConflictError, NotFoundError } from '../../../src/domain/errors';
+
+describe('InMemoryCustomerRepository', () => {
+  let repository: InMemoryCustomerRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryCustomerRepository();
+  });
+
+  describe('save and find', () => {
+    it('should round-trip a customer through reconstitution', async () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      customer.deactivate();
+
+      await repository.save(customer);
+      const found = await repository.findById(customer.id);
+
+      expect(found).not.toBe(customer);
+      expect(found.equals(customer)).toBe(true);
+      expect(found.name).toBe('John Doe');
+      expect(found.isActive).toBe(false);
+      expect(found.createdAt.getTime()).toBe(customer.createdAt.getTime());
+    });
+
+    it('should round-trip the profile, address book and consents', async () => {
+      const home = Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' });
+      const office = Address.create({ lines: ['Calle de Alcalá 50'], city: 'Madrid', postalCode: '28014', country: 'ES' });
+      const grantedAt = new Date('2024-03-01T10:00:00Z');
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      customer.changePhoneNumber(PhoneNumber.create('+34 612 345 678'));
+      customer.addAddress('Home', home);
+      customer.addAddress('Office', office);
+      customer.setDefaultBillingAddress('Office');
+      customer.updatePreferences({ locale: 'es-ES', currency: 'EUR' });
+      customer.grantMarketingConsent('sms', grantedAt);
+
+      await repository.save(customer);
+      const found = await repository.findById(customer.id);
+
+      expect(found.phoneNumber?.value).toBe('+34612345678');
+      expect(found.addressBook.map(entry => entry.label)).toEqual(['Home', 'Office']);
+      expect(found.defaultShippingAddress?.equals(home)).toBe(true);
+      expect(found.defaultBillingAddress?.equals(office)).toBe(true);
+      expect(found.preferredLocale).toBe('es-ES');
+      expect(found.preferredCurrency).toBe('EUR');
+      expect(found.marketingConsents).toEqual([{ channel: 'sms', granted: true, grantedAt, withdrawnAt: null }]);
+    });
+
+    it('should round-trip an anonymized customer', async () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      customer.anonymize([], new Date('2024-06-01T10:00:00Z'));
+
+      await repository.save(customer);
+      const found = await repository.findById(customer.id);
+
+      expect(found.anonymizedAt?.toISOString()).toBe('2024-06-01T10:00:00.000Z');
+      expect(found.email.equals(customer.email)).toBe(true);
+      expect(await repository.existsByEmail(Email.create('john@example.com'))).toBe(false);
+    });
+
+    it('should find a customer by email', async () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      await repository.save(customer);
+
+      const found = await repository.findByEmail(Email.create('JOHN@example.com'));
+
+      expect(found.equals(customer)).toBe(true);
+    });
+
+    it('should report whether an email is in use', async () => {
+      await repository.save(Customer.create('John Doe', Email.create('john@example.com')));
+
+      expect(await repository.existsByEmail(Email.create('john@example.com'))).toBe(true);
+      expect(await repository.existsByEmail(Email.create('jane@example.com'))).toBe(false);
+    });
+
+    it('should look up emails by mailbox and exclude a customer', async () => {
+      const customer = Customer.create('Ana', Email.create('a.na@gmail.com'));
+      await repository.save(customer);
+      const tagged = Email.create('ana+shop@gmail.com');
+
+      expect(await repository.existsByEmail(tagged)).toBe(false);
+      expect(await repository.existsByEmail(tagged, { match: 'canonical' })).toBe(true);
+      expect(await repository.existsByEmail(tagged, { match: 'canonical', excluding: customer.id })).toBe(false);
+      expect(await repository.existsByEmail(customer.email, { excluding: customer.id })).toBe(false);
+    });
+
+    it('should round-trip a customer with a quoted local part', async () => {
+      const customer = Customer.create('John', Email.create('"John Smith"@example.com', { allowQuotedLocalPart: true }));
+      await repository.save(customer);
+
+      expect((await repository.findById(customer.id)).email.value).toBe('"John Smith"@example.com');
+    });
+
+    it('should throw NotFoundError for unknown id', async () => {
+      await expect(repository.findById(CustomerId.generate()))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError for unknown email', async () => {
+      await expect(repository.findByEmail(Email.create('nobody@example.com')))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('email uniqueness', () => {
+    it('should throw ConflictError when another customer uses the email', async () => {
+      const email = Email.create('john@example.com');
+      await repository.save(Customer.create('John Doe', email));
+
+      await expect(repository.save(Customer.create('Johnny', email)))
+        .rejects.toThrow(ConflictError);
+      expect(await repository.list()).toHaveLength(1);
+    });
+
+    it('should allow saving the same customer again', async () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      await repository.save(customer);
+
+      customer.updateName('John Smith');
+      await repository.save(customer);
+
+      expect((await repository.findById(customer.id)).name).toBe('John Smith');
+    });
+
+    it('should release the email when the owner changes it', async () => {
+      const email = Email.create('john@example.com');
+      const customer = Customer.create('John Doe', email);
+      await repository.save(customer);
+
+      customer.updateEmail(Email.create('john.doe@example.com'));
+      await repository.save(customer);
+
+      await expect(repository.save(Customer.create('Other John', email)))
+        .resolves.toBeUndefined();
+    });
+
+    it('should reject the same mailbox when configured to match canonically', async () => {
+      const canonical = new InMemoryCustomerRepository(undefined, { duplicateMatch: 'canonical' });
+
+      const results = await Promise.allSettled([
+        canonical.save(Customer.create('Ana', Email.create('a.na@gmail.com'))),
+        canonical.save(Customer.create('Ana', Email.create('ana+x@gmail.com'))),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+      expect(await canonical.list()).toHaveLength(1);
+      await expect(repository.save(Customer.create('Ana', Email.create('ana+x@gmail.com')))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    it('should reject a stale write with ConflictError', async () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      await repository.save(customer);
+
+      const first = await repository.findById(customer.id);
+      const second = await repository.findById(customer.id);
+      first.updateName('John Smith');
+      second.deactivate();
+      await repository.save(first);
+
+      await expect(repository.save(second)).rejects.toThrow(ConflictError);
+      expect((await repository.findById(customer.id)).version).toBe(2);
+      expect((await repository.findById(customer.id)).isActive).toBe(true);
+    });
+  });
+
+  describe('outbox', () => {
+    it('should enqueue the events of saved customers only', async () => {
+      const outbox = new InMemoryOutbox();
+      repository = new InMemoryCustomerRepository(outbox);
+      await repository.save(Customer.create('John Doe', Email.create('john@example.com')));
+
+      const duplicate = Customer.create('Johnny', Email.create('john@example.com'));
+      await expect(repository.save(duplicate)).rejects.toThrow(ConflictError);
+
+      const messages = await outbox.due(new Date(), 10);
+      expect(messages.map(message => message.event.eventType)).toEqual(['CustomerRegistered']);
+    });
+
+    it('should redact the queued events of one customer', async () => {
+      const outbox = new InMemoryOutbox();
+      repository = new InMemoryCustomerRepository(outbox);
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      await repository.save(customer);
+      await repository.save(Customer.create('Jane Doe', Email.create('jane@example.com')));
+
+      await repository.redactHistory(customer.id, () => ({}));
+
+      const messages = await outbox.due(new Date(), 10);
+      expect(messages.map(message => message.event.payload)).toEqual([{}, { name: 'Jane Doe', email: 'jane@example.com' }]);
+      await expect(repository.redactHistory(CustomerId.generate(), () => ({}))).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove a stored customer', async () => {
+      const customer = Customer.create('John Doe', Email.create('john@example.com'));
+      await repository.save(customer);
+
+      await repository.delete(customer.id);
+
+      expect(await repository.list()).toHaveLength(0);
+    });
+
+    it('should throw NotFoundError for unknown id', async () => {
+      await expect(repository.delete(CustomerId.generate()))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+});
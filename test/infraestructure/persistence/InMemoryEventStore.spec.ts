@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryEventStore } from '../../../src/infraestructure/persistence/InMemoryEventStore';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+import { ConflictError } from '../../../src/domain/errors';
+
+describe('InMemoryEventStore', () => {
+  let store: InMemoryEventStore;
+
+  const event = (aggregateId: string, eventType = 'SomethingHappened'): DomainEvent =>
+    createDomainEvent(eventType, 'Thing', aggregateId, { value: 1 });
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should append events with consecutive versions per stream', async () => {
+    expect(await store.append('Thing-1', 0, [event('1'), event('1')])).toBe(2);
+    expect(await store.append('Thing-2', 0, [event('2')])).toBe(1);
+    expect(await store.append('Thing-1', 2, [event('1', 'SomethingElse')])).toBe(3);
+
+    const stream = await store.readStream('Thing-1');
+
+    expect(stream.map(recorded => recorded.version)).toEqual([1, 2, 3]);
+    expect(stream[2]?.event.eventType).toBe('SomethingElse');
+    expect(await store.streamVersion('Thing-1')).toBe(3);
+    expect(await store.streamVersion('Thing-3')).toBe(0);
+  });
+
+  it('should read only the events after a version', async () => {
+    await store.append('Thing-1', 0, [event('1'), event('1'), event('1')]);
+
+    const stream = await store.readStream('Thing-1', 2);
+
+    expect(stream.map(recorded => recorded.version)).toEqual([3]);
+    expect(await store.readStream('Thing-9')).toEqual([]);
+  });
+
+  it('should read every stream in append order with global positions', async () => {
+    await store.append('Thing-1', 0, [event('1')]);
+    await store.append('Thing-2', 0, [event('2')]);
+    await store.append('Thing-1', 1, [event('1')]);
+
+    const all = await store.readAll();
+
+    expect(all.map(recorded => [recorded.streamId, recorded.version, recorded.position])).toEqual([
+      ['Thing-1', 1, 1],
+      ['Thing-2', 1, 2],
+      ['Thing-1', 2, 3]
+    ]);
+    expect((await store.readAll(2)).map(recorded => recorded.position)).toEqual([3]);
+  });
+
+  it('should reject an append with a stale expected version', async () => {
+    await store.append('Thing-1', 0, [event('1')]);
+
+    const error = await store.append('Thing-1', 0, [event('1')]).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).expectedVersion).toBe(0);
+    expect((error as ConflictError).actualVersion).toBe(1);
+    expect(await store.streamVersion('Thing-1')).toBe(1);
+  });
+
+  it('should not share state with appended or read events', async () => {
+    const original = event('1');
+    await store.append('Thing-1', 0, [original]);
+    (original.payload as Record<string, unknown>).value = 2;
+
+    const [read] = await store.readStream('Thing-1');
+    (read?.event.payload as Record<string, unknown>).value = 3;
+
+    const [again] = await store.readStream('Thing-1');
+    expect(again?.event.payload).toEqual({ value: 1 });
+  });
+
+  it('should redact the payloads of one stream only', async () => {
+    await store.append('Thing-1', 0, [event('1'), event('1', 'SomethingElse')]);
+    await store.append('Thing-2', 0, [event('2')]);
+
+    const redacted = await store.redactStream('Thing-1', recorded =>
+      recorded.eventType === 'SomethingElse' ? { value: 0 } : undefined
+    );
+
+    expect(redacted).toBe(1);
+    expect((await store.readStream('Thing-1')).map(recorded => recorded.event.payload)).toEqual([{ value: 1 }, { value: 0 }]);
+    expect((await store.readAll()).map(recorded => recorded.event.payload)).toEqual([{ value: 1 }, { value: 0 }, { value: 1 }]);
+    expect(await store.redactStream('Thing-9', () => ({}))).toBe(0);
+  });
+
+  it('should list stream ids by prefix', async () => {
+    await store.append('Thing-1', 0, [event('1')]);
+    await store.append('Other-1', 0, [event('1')]);
+
+    expect(await store.streamIds('Thing-')).toEqual(['Thing-1']);
+    expect(await store.streamIds()).toHaveLength(2);
+  });
+});
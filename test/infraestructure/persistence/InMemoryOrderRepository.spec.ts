@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryOrderRepository } from '../../../src/infraestructure/persistence/InMemoryOrderRepository';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { CreateOrderOptions, Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { OrderId } from '../../../src/domain/value-objects/OrderId';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { Coupon } from '../../../src/domain/value-objects/Coupon';
+import { Discount } from '../../../src/domain/value-objects/Discount';
+import { ConflictError, NotFoundError } from '../../../src/domain/errors';
+
+describe('InMemoryOrderRepository', () => {
+  let repository: InMemoryOrderRepository;
+  let customerEmail: Email;
+  let sampleItems: OrderItem[];
+  let addresses: CreateOrderOptions;
+  const flatShipping = { rateFor: () => Price.create(5, 'EUR') };
+
+  beforeEach(() => {
+    addresses = {
+      shippingAddress: Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' }),
+      billingAddress: Address.create({ lines: ['1 Main St'], city: 'Austin', postalCode: '78701', region: 'TX', country: 'US' })
+    };
+    repository = new InMemoryOrderRepository();
+    customerEmail = Email.create('customer@example.com');
+    sampleItems = [
+      OrderItem.create({
+        productId: 'prod-1',
+        productName: 'Product 1',
+        quantity: 2,
+        unitPrice: Price.create(10, 'EUR')
+      })
+    ];
+  });
+
+  describe('save and findById', () => {
+    it('should round-trip an order through reconstitution', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.quoteShipping(flatShipping);
+      order.confirm('alice');
+
+      await repository.save(order);
+      const found = await repository.findById(order.id);
+
+      expect(found.statusHistory).toEqual(order.statusHistory);
+      expect(found).not.toBe(order);
+      expect(found.equals(order)).toBe(true);
+      expect(found.status).toBe('CONFIRMED');
+      expect(found.customerEmail.equals(customerEmail)).toBe(true);
+      expect(found.createdAt.getTime()).toBe(order.createdAt.getTime());
+      expect(found.calculateTotal().equals(order.calculateTotal())).toBe(true);
+      expect(found.shippingAddress?.equals(order.shippingAddress as Address)).toBe(true);
+      expect(found.billingAddress?.equals(order.billingAddress as Address)).toBe(true);
+    });
+
+    it('should keep the applied coupon', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const coupon = Coupon.create({
+        code: 'GIFT',
+        discount: Discount.freeItemAbove(Price.create(15, 'EUR'), 'prod-1'),
+        expiresAt: new Date('2999-01-01T00:00:00Z'),
+        minimumOrderValue: Price.create(10, 'EUR')
+      });
+      order.applyCoupon(coupon);
+
+      await repository.save(order);
+      const found = await repository.findById(order.id);
+
+      expect(found.coupon?.equals(coupon)).toBe(true);
+      expect(found.calculateTotal().toString()).toBe('10.00 EUR');
+    });
+
+    it('should not emit domain events for loaded orders', async () => {
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+
+      const [found] = await repository.list();
+
+      expect(found?.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should not share state with the stored order', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      order.cancel();
+
+      const found = await repository.findById(order.id);
+      expect(found.status).toBe('PENDING');
+    });
+
+    it('should overwrite an existing order on save', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      order.quoteShipping(flatShipping);
+      order.confirm();
+      await repository.save(order);
+
+      expect((await repository.findById(order.id)).status).toBe('CONFIRMED');
+      expect(await repository.list()).toHaveLength(1);
+    });
+
+    it('should throw NotFoundError for unknown id', async () => {
+      await expect(repository.findById(OrderId.generate()))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    it('should keep the version and mark the order as persisted', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.quoteShipping(flatShipping);
+      order.confirm();
+
+      await repository.save(order);
+      const found = await repository.findById(order.id);
+
+      expect(order.persistedVersion).toBe(3);
+      expect(found.version).toBe(3);
+      expect(found.persistedVersion).toBe(3);
+    });
+
+    it('should reject a stale write with ConflictError', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.quoteShipping(flatShipping);
+      order.confirm();
+      await repository.save(order);
+
+      const first = await repository.findById(order.id);
+      const second = await repository.findById(order.id);
+      first.ship('operator-1');
+      second.cancel('Out of stock', 'operator-2');
+      await repository.save(first);
+
+      const error = await repository.save(second).catch(e => e);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect((error as ConflictError).expectedVersion).toBe(3);
+      expect((error as ConflictError).actualVersion).toBe(4);
+      expect((await repository.findById(order.id)).status).toBe('SHIPPED');
+    });
+
+    it('should reject an order that ignores the stored version', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      const copy = Order.reconstitute(order.id, customerEmail, sampleItems, 'PENDING', new Date());
+
+      await expect(repository.save(copy)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('outbox', () => {
+    it('should enqueue the new events of each save', async () => {
+      const outbox = new InMemoryOutbox();
+      repository = new InMemoryOrderRepository(outbox);
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      await repository.save(order);
+      order.quoteShipping(flatShipping);
+      order.confirm();
+      await repository.save(order);
+
+      const messages = await outbox.due(new Date(), 10);
+      expect(messages.map(message => message.event.eventType))
+        .toEqual(['OrderPlaced', 'OrderShippingQuoted', 'OrderConfirmed']);
+      expect(order.uncommittedEvents).toHaveLength(0);
+    });
+
+    it('should not enqueue anything when the save is rejected', async () => {
+      const outbox = new InMemoryOutbox();
+      repository = new InMemoryOrderRepository(outbox);
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+      await outbox.markDelivered((await outbox.due(new Date(), 1))[0]?.id as string);
+
+      const stale = Order.reconstitute(order.id, customerEmail, sampleItems, 'PENDING', new Date(), {
+        ...addresses,
+        shippingCost: Price.create(5, 'EUR')
+      });
+      stale.confirm();
+
+      await expect(repository.save(stale)).rejects.toThrow(ConflictError);
+      expect(await outbox.due(new Date(), 10)).toEqual([]);
+    });
+
+    it('should redact the queued events of one order', async () => {
+      const outbox = new InMemoryOutbox();
+      repository = new InMemoryOrderRepository(outbox);
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      const other = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+      await repository.save(other);
+
+      await repository.redactHistory(order.id, ({ payload }) => ({ ...payload, customerEmail: 'redacted@example.com' }));
+
+      const messages = await outbox.due(new Date(), 10);
+      expect(messages.map(message => message.event.payload.customerEmail))
+        .toEqual(['redacted@example.com', 'customer@example.com']);
+      await expect(repository.redactHistory(OrderId.generate(), () => ({}))).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('findByCustomerEmail', () => {
+    it('should return only orders of that customer', async () => {
+      const other = Email.create('other@example.com');
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+      await repository.save(Order.create(other, sampleItems, addresses));
+
+      const orders = await repository.findByCustomerEmail(customerEmail);
+
+      expect(orders).toHaveLength(2);
+      expect(orders.every(o => o.customerEmail.equals(customerEmail))).toBe(true);
+    });
+
+    it('should return an empty list when there are no orders', async () => {
+      expect(await repository.findByCustomerEmail(customerEmail)).toEqual([]);
+    });
+  });
+
+  describe('findByCustomerId', () => {
+    it('should return only orders linked to that customer', async () => {
+      const customerId = CustomerId.generate();
+      const linked = Order.create(customerEmail, sampleItems, { ...addresses, customerId });
+      await repository.save(linked);
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+
+      const orders = await repository.findByCustomerId(customerId);
+
+      expect(orders).toHaveLength(1);
+      expect(orders[0]?.id.equals(linked.id)).toBe(true);
+      expect(orders[0]?.customerId?.equals(customerId)).toBe(true);
+      expect(await repository.findByCustomerId(CustomerId.generate())).toEqual([]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove a stored order', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      await repository.delete(order.id);
+
+      await expect(repository.findById(order.id)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError for unknown id', async () => {
+      await expect(repository.delete(OrderId.generate()))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+});
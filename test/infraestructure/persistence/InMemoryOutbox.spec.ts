@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryOutbox } from '../../../src/infraestructure/persistence/InMemoryOutbox';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+import { NotFoundError } from '../../../src/domain/errors';
+
+describe('InMemoryOutbox', () => {
+  let outbox: InMemoryOutbox;
+  const now = new Date('2024-05-01T10:00:00Z');
+  const later = new Date('2024-05-01T10:05:00Z');
+
+  const event = (value: number, aggregateId = 'thing-1'): DomainEvent =>
+    createDomainEvent('SomethingHappened', 'Thing', aggregateId, { value });
+
+  beforeEach(() => {
+    outbox = new InMemoryOutbox();
+  });
+
+  it('should return enqueued messages in order, up to the limit', async () => {
+    const events = [event(1), event(2), event(3)];
+    outbox.enqueue(events, now);
+
+    const due = await outbox.due(now, 2);
+
+    expect(due.map(message => message.id)).toEqual([events[0]?.eventId, events[1]?.eventId]);
+    expect(due[0]).toMatchObject({ attempts: 0, lastError: null, deadAt: null });
+    expect(due[0]?.event.payload).toEqual({ value: 1 });
+  });
+
+  it('should remove delivered messages', async () => {
+    const first = event(1);
+    outbox.enqueue([first], now);
+
+    await outbox.markDelivered(first.eventId);
+
+    expect(await outbox.due(later, 10)).toEqual([]);
+  });
+
+  it('should hold failed messages until their next attempt', async () => {
+    const first = event(1);
+    outbox.enqueue([first], now);
+
+    await outbox.markFailed(first.eventId, 'Broker down', later);
+
+    expect(await outbox.due(now, 10)).toEqual([]);
+    const [retry] = await outbox.due(later, 10);
+    expect(retry).toMatchObject({ id: first.eventId, attempts: 1, lastError: 'Broker down' });
+  });
+
+  it('should not offer messages behind an undelivered message of the same aggregate', async () => {
+    const [failed, behind, other] = [event(1), event(2), event(3, 'thing-2')];
+    outbox.enqueue([failed, behind, other], now);
+
+    await outbox.markFailed(failed.eventId, 'Broker down', later);
+
+    expect((await outbox.due(now, 10)).map(message => message.id)).toEqual([other.eventId]);
+    expect((await outbox.due(later, 10)).map(message => message.id))
+      .toEqual([failed.eventId, behind.eventId, other.eventId]);
+  });
+
+  it('should move dead messages out of the queue and requeue them', async () => {
+    const first = event(1);
+    outbox.enqueue([first], now);
+
+    await outbox.markDead(first.eventId, 'Malformed payload', now);
+
+    expect(await outbox.due(later, 10)).toEqual([]);
+    const [dead] = await outbox.deadLetters();
+    expect(dead).toMatchObject({ id: first.eventId, attempts: 1, lastError: 'Malformed payload', deadAt: now });
+
+    await outbox.requeue(first.eventId, later);
+
+    expect(await outbox.deadLetters()).toEqual([]);
+    expect(await outbox.due(later, 10)).toMatchObject([{ id: first.eventId, attempts: 0 }]);
+  });
+
+  it('should redact pending and dead messages', async () => {
+    const [pending, dead, other] = [event(1), event(2, 'thing-2'), event(3, 'thing-3')];
+    outbox.enqueue([pending, dead, other], now);
+    await outbox.markDead(dead.eventId, 'Malformed payload', now);
+
+    const redacted = outbox.redact(({ aggregateId }) => aggregateId === 'thing-3' ? undefined : { value: 0 });
+
+    expect(redacted).toBe(2);
+    expect((await outbox.due(now, 10)).map(message => message.event.payload)).toEqual([{ value: 0 }, { value: 3 }]);
+    expect((await outbox.deadLetters())[0]).toMatchObject({ id: dead.eventId, event: { payload: { value: 0 } } });
+  });
+
+  it('should throw NotFoundError when requeuing a message that is not dead', async () => {
+    const first = event(1);
+    outbox.enqueue([first], now);
+
+    await expect(outbox.requeue(first.eventId, now)).rejects.toThrow(NotFoundError);
+    await expect(outbox.requeue('unknown', now)).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonFileCustomerRepository } from '../../../src/infraestructure/persistence/JsonFileCustomerRepository';
+import { Customer } from '../../../src/domain/entities/Customer';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { ConflictError, ValidationError } from '../../../src/domain/errors';
+
+describe('JsonFileCustomerRepository', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'customers-'));
+    path = join(directory, 'customers.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const repository = await JsonFileCustomerRepository.open(path);
+
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('should keep the customers after reopening the file', async () => {
+    const repository = await JsonFileCustomerRepository.open(path);
+    const customer = Customer.create('John Doe', Email.create('john@example.com'));
+    customer.addAddress('Home', Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' }));
+    await repository.save(customer);
+    customer.updateName('John Smith');
+    await repository.save(customer);
+
+    const reopened = await JsonFileCustomerRepository.open(path);
+    const found = await reopened.findById(customer.id);
+
+    expect(found.name).toBe('John Smith');
+    expect(found.version).toBe(customer.version);
+    expect(found.addressBook.map(entry => entry.label)).toEqual(['Home']);
+    expect(await reopened.existsByEmail(Email.create('john@example.com'))).toBe(true);
+  });
+
+  it('should keep checking versions and email uniqueness after reopening', async () => {
+    const repository = await JsonFileCustomerRepository.open(path, undefined, { duplicateMatch: 'canonical' });
+    const customer = Customer.create('Ana', Email.create('a.na@gmail.com'));
+    await repository.save(customer);
+
+    const reopened = await JsonFileCustomerRepository.open(path, undefined, { duplicateMatch: 'canonical' });
+
+    await expect(reopened.save(Customer.create('Ana', Email.create('ana+x@gmail.com')))).rejects.toThrow(ConflictError);
+
+    const stale = await reopened.findById(customer.id);
+    customer.updateName('Ana María');
+    await repository.save(customer);
+    stale.updateName('Ana Stale');
+
+    const latest = await JsonFileCustomerRepository.open(path);
+    await expect(latest.save(stale)).rejects.toThrow(ConflictError);
+    expect((await latest.findById(customer.id)).name).toBe('Ana María');
+  });
+
+  it('should write the file once per change, also when saves overlap', async () => {
+    const repository = await JsonFileCustomerRepository.open(path);
+    const customers = ['ana', 'bea', 'carla'].map(name => Customer.create(name, Email.create(`${name}@example.com`)));
+
+    await Promise.all(customers.map(customer => repository.save(customer)));
+    await repository.delete(customers[0]!.id);
+
+    const records = JSON.parse(await readFile(path, 'utf8')) as { email: string }[];
+    expect(records.map(record => record.email)).toEqual(['bea@example.com', 'carla@example.com']);
+  });
+
+  it('should refuse to open a file that is not an array of customers', async () => {
+    await writeFile(path, 'not json', 'utf8');
+    await expect(JsonFileCustomerRepository.open(path)).rejects.toThrow(ValidationError);
+
+    await writeFile(path, '{}', 'utf8');
+    await expect(JsonFileCustomerRepository.open(path)).rejects.toThrow('File is not an array of customers');
+
+    await writeFile(path, '[{ "name": "No id" }]', 'utf8');
+    await expect(JsonFileCustomerRepository.open(path)).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GENESIS_HASH, JsonlFileEventStore } from '../../../src/infraestructure/persistence/JsonlFileEventStore';
+import { createDomainEvent, DomainEvent } from '../../../src/domain/events/DomainEvent';
+import { ConflictError, ValidationError } from '../../../src/domain/errors';
+
+describe('JsonlFileEventStore', () => {
+  let directory: string;
+  let path: string;
+
+  const event = (aggregateId: string, value = 1): DomainEvent =>
+    createDomainEvent('SomethingHappened', 'Thing', aggregateId, { value }, new Date('2024-05-01T10:00:00Z'));
+
+  const readLines = async (): Promise<Record<string, unknown>[]> =>
+    (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line) as Record<string, unknown>);
+
+  const writeLines = (lines: Record<string, unknown>[]): Promise<void> =>
+    writeFile(path, lines.map(line => `${JSON.stringify(line)}\n`).join(''), 'utf8');
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'event-store-'));
+    path = join(directory, 'events.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const store = await JsonlFileEventStore.open(path);
+
+    expect(await store.streamIds()).toEqual([]);
+    expect(await store.verify()).toBe(0);
+  });
+
+  it('should write one hash-chained line per event', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1'), event('1', 2)]);
+    await store.append('Thing-2', 0, [event('2')]);
+
+    const lines = await readLines();
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatchObject({
+      streamId: 'Thing-1',
+      version: 1,
+      eventType: 'SomethingHappened',
+      occurredAt: '2024-05-01T10:00:00.000Z',
+      payload: { value: 1 },
+      previousHash: GENESIS_HASH
+    });
+    expect(lines[1]?.previousHash).toBe(lines[0]?.hash);
+    expect(lines[2]?.previousHash).toBe(lines[1]?.hash);
+    expect(await store.verify()).toBe(3);
+  });
+
+  it('should reload the streams from the file', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    const original = event('1');
+    await store.append('Thing-1', 0, [original, event('1', 2)]);
+
+    const reopened = await JsonlFileEventStore.open(path);
+    const stream = await reopened.readStream('Thing-1');
+
+    expect(stream.map(recorded => recorded.version)).toEqual([1, 2]);
+    expect(stream[0]?.event).toEqual(original);
+    expect(await reopened.readStream('Thing-1', 1)).toHaveLength(1);
+    expect(await reopened.append('Thing-1', 2, [event('1', 3)])).toBe(3);
+    expect(await reopened.verify()).toBe(3);
+  });
+
+  it('should keep the global position of every event', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1')]);
+    await store.append('Thing-2', 0, [event('2')]);
+
+    const reopened = await JsonlFileEventStore.open(path);
+    await reopened.append('Thing-1', 1, [event('1', 2)]);
+
+    expect((await reopened.readAll()).map(recorded => [recorded.streamId, recorded.position])).toEqual([
+      ['Thing-1', 1],
+      ['Thing-2', 2],
+      ['Thing-1', 3]
+    ]);
+    expect(await reopened.readAll(3)).toEqual([]);
+  });
+
+  it('should reject a stale append without touching the file', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1')]);
+
+    await expect(store.append('Thing-1', 0, [event('1')])).rejects.toThrow(ConflictError);
+
+    expect(await readLines()).toHaveLength(1);
+  });
+
+  it('should serialize concurrent appends to the same stream', async () => {
+    const store = await JsonlFileEventStore.open(path);
+
+    const results = await Promise.allSettled([
+      store.append('Thing-1', 0, [event('1')]),
+      store.append('Thing-1', 0, [event('1', 2)])
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(await store.verify()).toBe(1);
+  });
+
+  it('should detect a modified line', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1'), event('1', 2), event('1', 3)]);
+    const lines = await readLines();
+    await writeLines(lines.map((line, index) => index === 1 ? { ...line, payload: { value: 200 } } : line));
+
+    const error = await store.verify().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).failures[0]?.field).toBe('line 2');
+    await expect(JsonlFileEventStore.open(path)).rejects.toThrow(ValidationError);
+  });
+
+  it('should detect a removed or reordered line', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1'), event('1', 2), event('1', 3)]);
+    const [first, second, third] = await readLines();
+
+    await writeLines([first, third] as Record<string, unknown>[]);
+    await expect(store.verify()).rejects.toThrow(ValidationError);
+
+    await writeLines([second, first, third] as Record<string, unknown>[]);
+    await expect(store.verify()).rejects.toThrow(ValidationError);
+  });
+
+  it('should redact payloads without breaking the hash chain', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1'), event('1', 2)]);
+    await store.append('Thing-2', 0, [event('2')]);
+    const before = await readLines();
+
+    const redacted = await store.redactStream('Thing-1', ({ payload }) => payload.value === 2 ? { value: 0 } : undefined);
+
+    const lines = await readLines();
+    expect(redacted).toBe(1);
+    expect(lines[1]).toMatchObject({ payload: { value: 0 }, hash: before[1]?.hash, payloadHash: before[1]?.payloadHash });
+    expect(lines[0]).toEqual(before[0]);
+    expect(lines[3]).toMatchObject({ redacts: before[1]?.eventId, redactedAt: expect.any(String), previousHash: before[2]?.hash });
+    expect(await store.verify()).toBe(3);
+    expect((await store.readStream('Thing-1')).map(recorded => recorded.event.payload)).toEqual([{ value: 1 }, { value: 0 }]);
+    expect((await store.readAll())[1]?.event.payload).toEqual({ value: 0 });
+
+    const reopened = await JsonlFileEventStore.open(path);
+    expect((await reopened.readStream('Thing-1', 1))[0]?.event.payload).toEqual({ value: 0 });
+    expect(await reopened.append('Thing-1', 2, [event('1', 3)])).toBe(3);
+    expect(await reopened.verify()).toBe(4);
+  });
+
+  it('should not redact anything in an unknown stream', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1')]);
+
+    expect(await store.redactStream('Thing-2', () => ({}))).toBe(0);
+    expect(await readLines()).toHaveLength(1);
+  });
+
+  it('should detect a modified payload that was not redacted', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1'), event('1', 2)]);
+    await store.redactStream('Thing-1', ({ payload }) => payload.value === 1 ? {} : undefined);
+    const lines = await readLines();
+
+    await writeLines(lines.map((line, index) => index === 1 ? { ...line, payload: { value: 200 } } : line));
+
+    const error = await store.verify().catch(caught => caught);
+    expect((error as ValidationError).failures[0]?.field).toBe('line 2');
+  });
+
+  it('should detect a redacted payload modified afterwards', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1')]);
+    await store.redactStream('Thing-1', () => ({ value: 0 }));
+    const [redacted, record] = await readLines();
+
+    await writeLines([{ ...redacted, payload: { value: 200 } }, record] as Record<string, unknown>[]);
+    await expect(store.verify()).rejects.toThrow(ValidationError);
+
+    await writeLines([{ ...redacted, payload: { value: 200 } }, { ...record, redactedAt: new Date().toISOString() }] as Record<string, unknown>[]);
+    await expect(store.verify()).rejects.toThrow(ValidationError);
+  });
+
+  it('should not accept a modified payload marked as redacted', async () => {
+    const store = await JsonlFileEventStore.open(path);
+    await store.append('Thing-1', 0, [event('1'), event('1', 2)]);
+    const lines = await readLines();
+
+    await writeLines(lines.map((line, index) =>
+      index === 0 ? { ...line, payload: { value: 200 }, redactedAt: new Date().toISOString() } : line
+    ));
+
+    const error = await store.verify().catch(caught => caught);
+    expect((error as ValidationError).failures[0]?.field).toBe('line 1');
+    await expect(JsonlFileEventStore.open(path)).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject lines that are not recorded events', async () => {
+    await writeFile(path, 'not json\n', 'utf8');
+    await expect(JsonlFileEventStore.open(path)).rejects.toThrow(ValidationError);
+
+    await writeFile(path, '{"hello":"world"}\n', 'utf8');
+    await expect(JsonlFileEventStore.open(path)).rejects.toThrow(ValidationError);
+  });
+});
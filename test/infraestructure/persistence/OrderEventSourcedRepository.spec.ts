@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OrderEventSourcedRepository } from '../../../src/infraestructure/persistence/OrderEventSourcedRepository';
+import { InMemoryEventStore } from '../../../src/infraestructure/persistence/InMemoryEventStore';
+import { InMemorySnapshotStore } from '../../../src/infraestructure/persistence/InMemorySnapshotStore';
+import { OrderRecord } from '../../../src/infraestructure/persistence/OrderMapper';
+import { CreateOrderOptions, Order } from '../../../src/domain/entities/Order';
+import { OrderItem } from '../../../src/domain/value-objects/OrderItem';
+import { Address } from '../../../src/domain/value-objects/Address';
+import { Email } from '../../../src/domain/value-objects/Email';
+import { Price } from '../../../src/domain/value-objects/Price';
+import { OrderId } from '../../../src/domain/value-objects/OrderId';
+import { CustomerId } from '../../../src/domain/value-objects/CustomerId';
+import { BusinessRuleViolationError, ConflictError, NotFoundError, ValidationError } from '../../../src/domain/errors';
+
+describe('OrderEventSourcedRepository', () => {
+  let events: InMemoryEventStore;
+  let repository: OrderEventSourcedRepository;
+  let customerEmail: Email;
+  let sampleItems: OrderItem[];
+  let addresses: CreateOrderOptions;
+  const flatShipping = { rateFor: () => Price.create(5, 'EUR') };
+
+  beforeEach(() => {
+    const madrid = Address.create({ lines: ['Calle Mayor 1'], city: 'Madrid', postalCode: '28013', country: 'ES' });
+    addresses = { shippingAddress: madrid, billingAddress: madrid };
+    events = new InMemoryEventStore();
+    repository = new OrderEventSourcedRepository(events);
+    customerEmail = Email.create('customer@example.com');
+    sampleItems = [
+      OrderItem.create({ productId: 'prod-1', productName: 'Product 1', quantity: 2, unitPrice: Price.create(10, 'EUR') })
+    ];
+  });
+
+  describe('save and findById', () => {
+    it('should store the events and rebuild the order from them', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.changeQuantity('prod-1', 3);
+      order.quoteShipping(flatShipping);
+      order.confirm('alice');
+
+      await repository.save(order);
+      const found = await repository.findById(order.id);
+
+      const stream = await events.readStream(`Order-${order.id.value}`);
+      expect(stream.map(recorded => recorded.event.eventType))
+        .toEqual(['OrderPlaced', 'OrderItemQuantityChanged', 'OrderShippingQuoted', 'OrderConfirmed']);
+      expect(found).not.toBe(order);
+      expect(found.equals(order)).toBe(true);
+      expect(found.status).toBe('CONFIRMED');
+      expect(found.calculateTotal().toString()).toBe('35.00 EUR');
+      expect(found.statusHistory).toEqual(order.statusHistory);
+      expect(found.version).toBe(4);
+    });
+
+    it('should only append the new events on later saves', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      const loaded = await repository.findById(order.id);
+      loaded.quoteShipping(flatShipping);
+      loaded.confirm();
+      await repository.save(loaded);
+
+      expect(await events.streamVersion(`Order-${order.id.value}`)).toBe(3);
+      expect(loaded.uncommittedEvents).toHaveLength(0);
+      expect((await repository.findById(order.id)).status).toBe('CONFIRMED');
+    });
+
+    it('should keep the domain events for the application layer', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+
+      await repository.save(order);
+
+      expect(order.pullDomainEvents().map(event => event.eventType)).toEqual(['OrderPlaced']);
+    });
+
+    it('should throw NotFoundError for an unknown id', async () => {
+      await expect(repository.findById(OrderId.generate())).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject saving an order loaded before another change', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      order.quoteShipping(flatShipping);
+      await repository.save(order);
+      const first = await repository.findById(order.id);
+      const second = await repository.findById(order.id);
+
+      first.confirm();
+      await repository.save(first);
+      second.cancel('Changed my mind');
+
+      const error = await repository.save(second).catch(caught => caught);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect((error as ConflictError).expectedVersion).toBe(2);
+      expect((error as ConflictError).actualVersion).toBe(3);
+      expect((await repository.findById(order.id)).status).toBe('CONFIRMED');
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should save a snapshot every N events and replay only the later ones', async () => {
+      const snapshots = new InMemorySnapshotStore<OrderRecord>();
+      repository = new OrderEventSourcedRepository(events, { snapshots, snapshotEvery: 2 });
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+      expect(await snapshots.load(`Order-${order.id.value}`)).toBeUndefined();
+
+      order.changeQuantity('prod-1', 3);
+      order.quoteShipping(flatShipping);
+      order.confirm();
+      await repository.save(order);
+
+      const snapshot = await snapshots.load(`Order-${order.id.value}`);
+      expect(snapshot?.version).toBe(4);
+
+      order.ship();
+      await repository.save(order);
+      const found = await repository.findById(order.id);
+
+      expect(found.status).toBe('SHIPPED');
+      expect(found.version).toBe(5);
+      expect(found.calculateTotal().toString()).toBe('35.00 EUR');
+    });
+
+    it('should drop the snapshot when the history is redacted', async () => {
+      const snapshots = new InMemorySnapshotStore<OrderRecord>();
+      repository = new OrderEventSourcedRepository(events, { snapshots, snapshotEvery: 1 });
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      order.anonymizeCustomerEmail(Email.pseudonym());
+      await repository.save(order);
+      await repository.redactHistory(order.id, ({ payload }) => ({ ...payload, customerEmail: order.customerEmail.value }));
+
+      const [placed] = await events.readStream(`Order-${order.id.value}`);
+      expect(placed?.event.payload.customerEmail).toBe(order.customerEmail.value);
+      expect(await snapshots.load(`Order-${order.id.value}`)).toBeUndefined();
+      expect((await repository.findById(order.id)).customerEmail.equals(order.customerEmail)).toBe(true);
+      await expect(repository.redactHistory(OrderId.generate(), () => ({}))).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject a non-positive snapshot interval', () => {
+      expect(() => new OrderEventSourcedRepository(events, { snapshotEvery: 0 })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Queries and delete', () => {
+    it('should list orders and find them by customer email', async () => {
+      const other = Email.create('other@example.com');
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+      await repository.save(Order.create(other, sampleItems, addresses));
+
+      expect(await repository.list()).toHaveLength(3);
+      expect(await repository.findByCustomerEmail(customerEmail)).toHaveLength(2);
+      expect(await repository.findByCustomerEmail(other)).toHaveLength(1);
+    });
+
+    it('should find the orders linked to a customer', async () => {
+      const customerId = CustomerId.generate();
+      const linked = Order.create(customerEmail, sampleItems, { ...addresses, customerId });
+      await repository.save(linked);
+      await repository.save(Order.create(customerEmail, sampleItems, addresses));
+
+      const orders = await repository.findByCustomerId(customerId);
+
+      expect(orders.map(order => order.id.value)).toEqual([linked.id.value]);
+    });
+
+    it('should only rebuild the orders of the customer', async () => {
+      const readStreams: string[] = [];
+      const readStream = events.readStream.bind(events);
+      events.readStream = async (streamId, afterVersion) => {
+        readStreams.push(streamId);
+        return readStream(streamId, afterVersion);
+      };
+      const customerId = CustomerId.generate();
+      const linked = Order.create(customerEmail, sampleItems, { ...addresses, customerId });
+      await repository.save(linked);
+      await repository.save(Order.create(Email.create('other@example.com'), sampleItems, addresses));
+
+      expect(await repository.findByCustomerId(customerId)).toHaveLength(1);
+      expect(readStreams).toEqual([`Order-${linked.id.value}`]);
+
+      // Los pedidos guardados después de la primera búsqueda también se encuentran
+      const later = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(later);
+      expect((await repository.findByCustomerEmail(customerEmail)).map(order => order.id.value))
+        .toEqual([linked.id.value, later.id.value]);
+    });
+
+    it('should find an order by its pseudonym once the email is anonymized', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+      expect(await repository.findByCustomerEmail(customerEmail)).toHaveLength(1);
+
+      const pseudonym = Email.pseudonym();
+      order.anonymizeCustomerEmail(pseudonym);
+      await repository.save(order);
+      await repository.redactHistory(order.id, ({ payload }) => ({ ...payload, customerEmail: pseudonym.value }));
+
+      expect(await repository.findByCustomerEmail(customerEmail)).toEqual([]);
+      expect(await repository.findByCustomerEmail(pseudonym)).toHaveLength(1);
+    });
+
+    it('should not delete the history of an order', async () => {
+      const order = Order.create(customerEmail, sampleItems, addresses);
+      await repository.save(order);
+
+      await expect(repository.delete(order.id)).rejects.toThrow(BusinessRuleViolationError);
+      await expect(repository.delete(OrderId.generate())).rejects.toThrow(NotFoundError);
+      expect(await repository.findById(order.id)).toBeDefined();
+    });
+  });
+});
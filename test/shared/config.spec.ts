@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig } from '../../src/shared/config';
+
+describe('Config', () => {
+  it('should default to port 3000', () => {
+    expect(loadConfig({}).port).toBe(3000);
+  });
+
+  it('should read the port from PORT', () => {
+    expect(loadConfig({ PORT: '8080' }).port).toBe(8080);
+  });
+
+  it('should read the enabled currencies from ENABLED_CURRENCIES', () => {
+    expect(loadConfig({ ENABLED_CURRENCIES: 'eur, USD,,MXN' }).enabledCurrencies).toEqual(['EUR', 'USD', 'MXN']);
+    expect(loadConfig({}).enabledCurrencies).toBeUndefined();
+  });
+
+  it('should read the order event log path from ORDER_EVENT_LOG', () => {
+    expect(loadConfig({ ORDER_EVENT_LOG: ' ./data/orders.jsonl ' }).orderEventLog).toBe('./data/orders.jsonl');
+    expect(loadConfig({ ORDER_EVENT_LOG: '' }).orderEventLog).toBeUndefined();
+  });
+
+  it('should keep the outbox journal next to the order event log unless OUTBOX_JOURNAL is set', () => {
+    expect(loadConfig({ ORDER_EVENT_LOG: 'orders.jsonl' }).outboxJournal).toBe('orders.jsonl.outbox');
+    expect(loadConfig({ ORDER_EVENT_LOG: 'orders.jsonl', OUTBOX_JOURNAL: 'outbox.jsonl' }).outboxJournal).toBe('outbox.jsonl');
+    expect(loadConfig({}).outboxJournal).toBeUndefined();
+  });
+
+  it('should keep the customers next to the order event log unless CUSTOMER_FILE is set', () => {
+    expect(loadConfig({ ORDER_EVENT_LOG: 'orders.jsonl' }).customerFile).toBe('orders.jsonl.customers.json');
+    expect(loadConfig({ CUSTOMER_FILE: ' customers.json ' }).customerFile).toBe('customers.json');
+    expect(loadConfig({}).customerFile).toBeUndefined();
+  });
+
+  it('should read the shipping rates file', () => {
+    expect(loadConfig({ SHIPPING_RATES_FILE: ' rates.json ' }).shippingRatesFile).toBe('rates.json');
+    expect(loadConfig({}).shippingRatesFile).toBeUndefined();
+  });
+
+  it('should read the customer email rules', () => {
+    const config = loadConfig({
+      EMAIL_DUPLICATE_MATCH: 'Canonical',
+      BLOCK_DISPOSABLE_EMAILS: 'true',
+      INTERNAL_EMAIL_DOMAINS: 'Acme.com, ,acme.internal',
+      ALLOW_QUOTED_EMAILS: 'true',
+    });
+
+    expect(config).toMatchObject({
+      emailDuplicateMatch: 'canonical',
+      blockDisposableEmails: true,
+      internalEmailDomains: ['acme.com', 'acme.internal'],
+      allowQuotedEmailLocalParts: true,
+    });
+    expect(loadConfig({})).toEqual({ port: 3000 });
+  });
+
+  it('should reject an unknown email duplicate match', () => {
+    expect(() => loadConfig({ EMAIL_DUPLICATE_MATCH: 'fuzzy' })).toThrow('Invalid EMAIL_DUPLICATE_MATCH');
+  });
+
+  it('should read the notification settings', () => {
+    expect(loadConfig({ SMTP_HOST: 'localhost', MAIL_FROM: 'shop@example.com' }))
+      .toMatchObject({ smtpHost: 'localhost', smtpPort: 25, mailFrom: 'shop@example.com' });
+    expect(loadConfig({ SMTP_HOST: 'localhost', SMTP_PORT: '1025', MAIL_FROM: 'shop@example.com' }).smtpPort).toBe(1025);
+    expect(loadConfig({ MAIL_DROP_DIR: ' ./data/mail ', MAIL_FROM: 'shop@example.com', NOTIFICATION_LOCALE: 'en-GB' }))
+      .toMatchObject({ mailDropDirectory: './data/mail', notificationLocale: 'en-GB' });
+  });
+
+  it('should read the admin token', () => {
+    expect(loadConfig({ ADMIN_TOKEN: ' admin-secret ' }).adminToken).toBe('admin-secret');
+    expect(loadConfig({ ADMIN_TOKEN: ' ' })).not.toHaveProperty('adminToken');
+  });
+
+  it('should require MAIL_FROM to send notifications', () => {
+    expect(() => loadConfig({ SMTP_HOST: 'localhost' })).toThrow('MAIL_FROM is required');
+    expect(() => loadConfig({ MAIL_DROP_DIR: './data/mail' })).toThrow('MAIL_FROM is required');
+  });
+
+  it('should reject an invalid SMTP port', () => {
+    expect(() => loadConfig({ SMTP_PORT: '0' })).toThrow('Invalid SMTP_PORT');
+  });
+
+  it('should reject an invalid port', () => {
+    expect(() => loadConfig({ PORT: 'abc' })).toThrow('Invalid PORT');
+    expect(() => loadConfig({ PORT: '70000' })).toThrow('Invalid PORT');
+  });
+});